@@ -0,0 +1,29 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('recurring_expenses', (table) => {
+    table.increments('id').primary();
+    table.integer('userId').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.integer('categoryId').notNullable().references('id').inTable('categories');
+    table.decimal('amount', 10, 2).notNullable();
+    table.string('description').notNullable();
+    table.string('frequency').notNullable(); // daily | weekly | monthly | yearly
+    table.integer('interval').notNullable().defaultTo(1);
+    table.date('startDate').notNullable();
+    table.date('endDate').nullable();
+    table.date('nextDate').nullable(); // null once the rule has no more occurrences
+    table.timestamp('createdAt').defaultTo(knex.fn.now());
+    table.timestamp('updatedAt').defaultTo(knex.fn.now());
+  });
+
+  await knex.schema.alterTable('expenses', (table) => {
+    table.integer('recurringExpenseId').nullable().references('id').inTable('recurring_expenses').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('expenses', (table) => {
+    table.dropColumn('recurringExpenseId');
+  });
+  await knex.schema.dropTableIfExists('recurring_expenses');
+}
@@ -0,0 +1,18 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('categories', (table) => {
+    // null userId marks a global default category shared by every user
+    table.integer('userId').nullable().references('id').inTable('users').onDelete('CASCADE');
+    table.integer('sortOrder').notNullable().defaultTo(0);
+  });
+
+  await knex('categories').update({ sortOrder: knex.ref('id') });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('categories', (table) => {
+    table.dropColumn('sortOrder');
+    table.dropColumn('userId');
+  });
+}
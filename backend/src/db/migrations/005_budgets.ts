@@ -0,0 +1,18 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('budgets', (table) => {
+    table.increments('id').primary();
+    table.integer('userId').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.integer('categoryId').nullable().references('id').inTable('categories').onDelete('CASCADE'); // null = overall budget
+    table.string('month', 7).nullable(); // YYYY-MM, null = applies every month
+    table.decimal('amount', 10, 2).notNullable();
+    table.timestamp('createdAt').defaultTo(knex.fn.now());
+    table.timestamp('updatedAt').defaultTo(knex.fn.now());
+    table.index(['userId', 'month']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('budgets');
+}
@@ -0,0 +1,23 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('import_templates', (table) => {
+    table.increments('id').primary();
+    table.integer('userId').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('name').notNullable();
+    table.text('headers').notNullable(); // JSON array of the file's column names
+    table.text('headerFingerprint').notNullable(); // normalized headers, used to recognise the layout
+    table.text('columnMapping').notNullable(); // JSON string
+    table.string('delimiter', 1).notNullable().defaultTo(',');
+    table.string('dateFormat').notNullable().defaultTo('auto');
+    table.string('amountSign').notNullable().defaultTo('positive');
+    table.timestamp('createdAt').defaultTo(knex.fn.now());
+    table.timestamp('updatedAt').defaultTo(knex.fn.now());
+    table.unique(['userId', 'name']);
+    table.index(['userId', 'headerFingerprint']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('import_templates');
+}
@@ -0,0 +1,25 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('import_history', (table) => {
+    table.timestamp('revertedAt').nullable();
+  });
+
+  await knex.schema.alterTable('expenses', (table) => {
+    table.integer('importHistoryId').nullable().references('id').inTable('import_history').onDelete('SET NULL');
+    table.timestamp('updatedAt').nullable(); // null until the expense is edited
+    table.index(['importHistoryId']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('expenses', (table) => {
+    table.dropIndex(['importHistoryId']);
+    table.dropColumn('updatedAt');
+    table.dropColumn('importHistoryId');
+  });
+
+  await knex.schema.alterTable('import_history', (table) => {
+    table.dropColumn('revertedAt');
+  });
+}
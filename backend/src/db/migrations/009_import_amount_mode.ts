@@ -0,0 +1,13 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('import_templates', (table) => {
+    table.string('amountMode').notNullable().defaultTo('signed');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('import_templates', (table) => {
+    table.dropColumn('amountMode');
+  });
+}
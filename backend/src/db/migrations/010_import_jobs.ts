@@ -0,0 +1,103 @@
+import type { Knex } from 'knex';
+
+const COPY_CHUNK_SIZE = 50;
+
+export async function up(knex: Knex): Promise<void> {
+  // Read the rows out of the session JSON column before dropping it. SQLite drops a column by
+  // rebuilding the table, which would cascade-delete rows already referencing the session.
+  const sessions: { id: number; parsedRows: string }[] = await knex('import_sessions')
+    .whereNotNull('parsedRows')
+    .select('id', 'parsedRows');
+
+  await knex.schema.alterTable('import_sessions', (table) => {
+    table.dropColumn('parsedRows');
+  });
+
+  await knex.schema.createTable('import_rows', (table) => {
+    table.increments('id').primary();
+    table.integer('sessionId').notNullable().references('id').inTable('import_sessions').onDelete('CASCADE');
+    table.integer('rowIndex').notNullable();
+    table.text('originalData').notNullable(); // JSON string
+    table.string('date').nullable();
+    table.decimal('amount', 10, 2).nullable();
+    table.text('description').nullable();
+    table.string('category').nullable();
+    table.integer('categoryId').nullable();
+    table.text('errors').notNullable().defaultTo('[]'); // JSON string
+    table.boolean('skipped').notNullable().defaultTo(false);
+    table.string('skipReason').nullable();
+    table.text('duplicate').nullable(); // JSON string
+    table.integer('expenseId').nullable();
+    table.unique(['sessionId', 'rowIndex']);
+  });
+
+  await knex.schema.createTable('import_jobs', (table) => {
+    table.increments('id').primary();
+    table.integer('userId').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.integer('sessionId').notNullable().references('id').inTable('import_sessions').onDelete('CASCADE');
+    table.string('type').notNullable(); // 'mapping' | 'confirm'
+    table.string('status').notNullable().defaultTo('pending');
+    table.integer('processedRows').notNullable().defaultTo(0);
+    table.integer('totalRows').notNullable().defaultTo(0);
+    table.text('result').nullable(); // JSON string
+    table.text('error').nullable();
+    table.timestamp('createdAt').defaultTo(knex.fn.now());
+    table.timestamp('updatedAt').defaultTo(knex.fn.now());
+    table.index(['sessionId', 'status']);
+  });
+
+  // Keep the rows so the history detail still works
+  for (const session of sessions) {
+    const rows = JSON.parse(session.parsedRows).map((row: Record<string, unknown>) => ({
+      sessionId: session.id,
+      rowIndex: row.rowIndex,
+      originalData: JSON.stringify(row.originalData ?? {}),
+      date: row.date ?? null,
+      amount: row.amount ?? null,
+      description: row.description ?? null,
+      category: row.category ?? null,
+      categoryId: row.categoryId ?? null,
+      errors: JSON.stringify(row.errors ?? []),
+      skipped: Boolean(row.skipped),
+      skipReason: row.skipReason ?? null,
+      duplicate: row.duplicate ? JSON.stringify(row.duplicate) : null,
+      expenseId: row.expenseId ?? null,
+    }));
+    for (let i = 0; i < rows.length; i += COPY_CHUNK_SIZE) {
+      await knex('import_rows').insert(rows.slice(i, i + COPY_CHUNK_SIZE));
+    }
+  }
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('import_sessions', (table) => {
+    table.text('parsedRows').nullable();
+  });
+
+  const rows = await knex('import_rows').orderBy(['sessionId', 'rowIndex']);
+  const bySession = new Map<number, unknown[]>();
+  for (const row of rows) {
+    const parsedRows = bySession.get(row.sessionId) ?? [];
+    parsedRows.push({
+      rowIndex: row.rowIndex,
+      originalData: JSON.parse(row.originalData),
+      date: row.date,
+      amount: row.amount,
+      description: row.description,
+      category: row.category,
+      categoryId: row.categoryId,
+      errors: JSON.parse(row.errors),
+      skipped: Boolean(row.skipped),
+      skipReason: row.skipReason,
+      duplicate: row.duplicate ? JSON.parse(row.duplicate) : null,
+      expenseId: row.expenseId,
+    });
+    bySession.set(row.sessionId, parsedRows);
+  }
+  for (const [sessionId, parsedRows] of bySession) {
+    await knex('import_sessions').where({ id: sessionId }).update({ parsedRows: JSON.stringify(parsedRows) });
+  }
+
+  await knex.schema.dropTableIfExists('import_jobs');
+  await knex.schema.dropTableIfExists('import_rows');
+}
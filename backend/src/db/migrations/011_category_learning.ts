@@ -0,0 +1,27 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // The latest category the user chose for a merchant, from the expense form or the import preview
+  await knex.schema.createTable('category_feedback', (table) => {
+    table.increments('id').primary();
+    table.integer('userId').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('merchant').notNullable();
+    table.text('description').notNullable();
+    table.integer('categoryId').notNullable().references('id').inTable('categories').onDelete('CASCADE');
+    table.timestamp('updatedAt').defaultTo(knex.fn.now());
+    table.unique(['userId', 'merchant']);
+  });
+
+  await knex.schema.alterTable('import_rows', (table) => {
+    // Set when the category was suggested from the user's history rather than read from the file
+    table.float('categoryConfidence').nullable();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('import_rows', (table) => {
+    table.dropColumn('categoryConfidence');
+  });
+
+  await knex.schema.dropTableIfExists('category_feedback');
+}
@@ -0,0 +1,32 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('tags', (table) => {
+    table.increments('id').primary();
+    table.integer('userId').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('name').notNullable();
+    table.timestamp('createdAt').defaultTo(knex.fn.now());
+    table.unique(['userId', 'name']);
+  });
+
+  await knex.schema.createTable('expense_tags', (table) => {
+    table.integer('expenseId').notNullable().references('id').inTable('expenses').onDelete('CASCADE');
+    table.integer('tagId').notNullable().references('id').inTable('tags').onDelete('CASCADE');
+    table.primary(['expenseId', 'tagId']);
+    table.index(['tagId']);
+  });
+
+  await knex.schema.alterTable('import_rows', (table) => {
+    // Tags added by rules, attached to the expense when the row is imported
+    table.text('tags').notNullable().defaultTo('[]'); // JSON string
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('import_rows', (table) => {
+    table.dropColumn('tags');
+  });
+
+  await knex.schema.dropTableIfExists('expense_tags');
+  await knex.schema.dropTableIfExists('tags');
+}
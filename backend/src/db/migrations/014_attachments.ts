@@ -0,0 +1,22 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Receipts and other files kept with an expense. The file itself lives on disk, named by
+  // its SHA-256, so identical uploads share one file.
+  await knex.schema.createTable('attachments', (table) => {
+    table.increments('id').primary();
+    table.integer('userId').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.integer('expenseId').notNullable().references('id').inTable('expenses').onDelete('CASCADE');
+    table.string('fileName').notNullable();
+    table.string('mimeType').notNullable();
+    table.integer('size').notNullable();
+    table.string('sha256', 64).notNullable();
+    table.timestamp('createdAt').defaultTo(knex.fn.now());
+    table.index(['expenseId']);
+    table.index(['sha256']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('attachments');
+}
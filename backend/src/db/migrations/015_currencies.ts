@@ -0,0 +1,58 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Existing amounts were all entered as dollars
+  await knex.schema.alterTable('users', (table) => {
+    table.string('baseCurrency', 3).notNullable().defaultTo('USD');
+  });
+
+  await knex.schema.alterTable('expenses', (table) => {
+    table.string('currency', 3).notNullable().defaultTo('USD');
+  });
+
+  // Existing rules were in dollars; new ones take the base currency when they are created
+  await knex.schema.alterTable('recurring_expenses', (table) => {
+    table.string('currency', 3).notNullable().defaultTo('USD');
+  });
+
+  // Value of one unit of `currency` in `baseCurrency` on a date, entered by the user or
+  // imported from a rates file. Kept per base currency so switching back finds the old rates.
+  await knex.schema.createTable('exchange_rates', (table) => {
+    table.increments('id').primary();
+    table.integer('userId').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('baseCurrency', 3).notNullable();
+    table.string('currency', 3).notNullable();
+    table.date('date').notNullable();
+    table.decimal('rate', 18, 8).notNullable();
+    table.timestamp('createdAt').defaultTo(knex.fn.now());
+    table.unique(['userId', 'baseCurrency', 'currency', 'date']);
+  });
+
+  // A fixed currency for files without a currency column; null means the user's base currency
+  await knex.schema.alterTable('import_templates', (table) => {
+    table.string('currency', 3).nullable();
+  });
+
+  await knex.schema.alterTable('import_rows', (table) => {
+    table.string('currency', 3).nullable();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('import_rows', (table) => {
+    table.dropColumn('currency');
+  });
+  await knex.schema.alterTable('import_templates', (table) => {
+    table.dropColumn('currency');
+  });
+  await knex.schema.dropTableIfExists('exchange_rates');
+  await knex.schema.alterTable('recurring_expenses', (table) => {
+    table.dropColumn('currency');
+  });
+  await knex.schema.alterTable('expenses', (table) => {
+    table.dropColumn('currency');
+  });
+  await knex.schema.alterTable('users', (table) => {
+    table.dropColumn('baseCurrency');
+  });
+}
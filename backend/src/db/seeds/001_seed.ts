@@ -4,17 +4,20 @@ import bcrypt from 'bcryptjs';
 export async function seed(knex: Knex): Promise<void> {
   // Clear existing entries
   await knex('expenses').del();
+  await knex('recurring_expenses').del();
+  await knex('budgets').del();
+  await knex('import_templates').del();
   await knex('users').del();
   await knex('categories').del();
 
   // Insert categories
   await knex('categories').insert([
-    { id: 1, name: 'Food', icon: 'utensils' },
-    { id: 2, name: 'Transport', icon: 'car' },
-    { id: 3, name: 'Entertainment', icon: 'film' },
-    { id: 4, name: 'Bills', icon: 'file-text' },
-    { id: 5, name: 'Shopping', icon: 'shopping-bag' },
-    { id: 6, name: 'Other', icon: 'more-horizontal' },
+    { id: 1, name: 'Food', icon: 'utensils', sortOrder: 1 },
+    { id: 2, name: 'Transport', icon: 'car', sortOrder: 2 },
+    { id: 3, name: 'Entertainment', icon: 'film', sortOrder: 3 },
+    { id: 4, name: 'Bills', icon: 'file-text', sortOrder: 4 },
+    { id: 5, name: 'Shopping', icon: 'shopping-bag', sortOrder: 5 },
+    { id: 6, name: 'Other', icon: 'more-horizontal', sortOrder: 6 },
   ]);
 
   // Insert demo user
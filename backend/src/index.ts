@@ -5,6 +5,14 @@ import authRoutes from './routes/auth.js';
 import expenseRoutes from './routes/expenses.js';
 import categoryRoutes from './routes/categories.js';
 import importRoutes from './routes/import.js';
+import recurringRoutes from './routes/recurring.js';
+import budgetRoutes from './routes/budgets.js';
+import backupRoutes from './routes/backup.js';
+import ruleRoutes from './routes/rules.js';
+import tagRoutes from './routes/tags.js';
+import currencyRoutes from './routes/currency.js';
+import { startRecurringScheduler } from './services/recurringService.js';
+import { failInterruptedJobs } from './services/importJobService.js';
 
 const app = express();
 const PORT = process.env.PORT || 3002;
@@ -34,6 +42,12 @@ app.use('/api/auth', authRoutes);
 app.use('/api/expenses', expenseRoutes);
 app.use('/api/categories', categoryRoutes);
 app.use('/api/import', importRoutes);
+app.use('/api/recurring', recurringRoutes);
+app.use('/api/budgets', budgetRoutes);
+app.use('/api/backup', backupRoutes);
+app.use('/api/rules', ruleRoutes);
+app.use('/api/tags', tagRoutes);
+app.use('/api/currency', currencyRoutes);
 
 // Health check
 app.get('/api/health', (_req, res) => {
@@ -42,6 +56,10 @@ app.get('/api/health', (_req, res) => {
 
 app.listen(PORT, () => {
   logger.info(`Server running on http://localhost:${PORT}`);
+  startRecurringScheduler();
+  failInterruptedJobs().catch((error) => {
+    logger.error({ err: error }, 'Failed to clean up interrupted import jobs');
+  });
 });
 
 export default app;
@@ -0,0 +1,154 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import logger from '../logger.js';
+import { authenticateToken } from '../middleware/auth.js';
+import * as backupService from '../services/backupService.js';
+import { actionsSchema, conditionsSchema } from './rules.js';
+import { currencySchema, tagsSchema } from './expenses.js';
+import { columnMappingSchema, mappingOptionsSchema } from './import.js';
+import type { JwtPayload } from '../types/index.js';
+
+const router = Router();
+
+type AuthRequest = Request & { user: JwtPayload };
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+// Validates a backup in the current format; older versions are upgraded before parsing
+const backupSchema = z.object({
+  version: z.literal(backupService.BACKUP_VERSION),
+  exportedAt: z.string(),
+  baseCurrency: currencySchema,
+  categories: z.array(
+    z.object({
+      id: z.number().int(),
+      name: z.string().min(1).max(50),
+      icon: z.string().min(1).max(50),
+      sortOrder: z.number().int(),
+    })
+  ),
+  expenses: z.array(
+    z.object({
+      categoryId: z.number().int(),
+      amount: z.number().positive(),
+      currency: currencySchema,
+      description: z.string().min(1).max(255),
+      date: dateString,
+      recurringExpenseId: z.number().int().nullable(),
+      tags: tagsSchema,
+      createdAt: z.string().nullable(),
+    })
+  ),
+  recurringExpenses: z.array(
+    z.object({
+      id: z.number().int(),
+      categoryId: z.number().int(),
+      amount: z.number().positive(),
+      currency: currencySchema,
+      description: z.string().min(1).max(255),
+      frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+      interval: z.number().int().min(1).max(365),
+      startDate: dateString,
+      endDate: dateString.nullable(),
+      nextDate: dateString.nullable(),
+    })
+  ),
+  budgets: z.array(
+    z.object({
+      categoryId: z.number().int().nullable(),
+      month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/).nullable(),
+      amount: z.number().positive(),
+    })
+  ),
+  importHistory: z.array(
+    z.object({
+      fileName: z.string().min(1),
+      totalRows: z.number().int().min(0),
+      importedRows: z.number().int().min(0),
+      skippedRows: z.number().int().min(0),
+      revertedAt: z.string().nullable(),
+      createdAt: z.string().nullable(),
+    })
+  ),
+  importTemplates: z.array(
+    mappingOptionsSchema.extend({
+      name: z.string().trim().min(1).max(100),
+      headers: z.array(z.string()).min(1),
+      columnMapping: columnMappingSchema,
+    })
+  ),
+  rules: z.array(
+    z.object({
+      name: z.string().trim().min(1).max(100),
+      position: z.number().int(),
+      enabled: z.boolean(),
+      conditions: conditionsSchema,
+      actions: actionsSchema,
+    })
+  ),
+  exchangeRates: z.array(
+    z.object({
+      baseCurrency: currencySchema,
+      currency: currencySchema,
+      date: dateString,
+      rate: z.number().positive(),
+    })
+  ),
+});
+
+const restoreQuerySchema = z.object({
+  mode: z.enum(['merge', 'replace']).default('merge'),
+  discardAttachments: z.enum(['true', 'false']).optional(),
+});
+
+// Service errors that are the caller's fault, mapped to their status codes
+const CLIENT_ERRORS: Record<string, number> = {
+  'Invalid backup file': 400,
+  'Unsupported backup version': 400,
+  'Backup was created by a newer version': 400,
+  'Backup references an unknown category': 400,
+  'Backup references an unknown recurring expense': 400,
+  'Replacing would delete receipt attachments': 409,
+};
+
+router.use(authenticateToken);
+
+// Everything the user owns as a single versioned JSON document
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const backup = await backupService.createBackup(user.userId);
+
+    const filename = `expense-tracker-backup-${backup.exportedAt.split('T')[0]}.json`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.json(backup);
+  } catch (error) {
+    logger.error({ err: error }, 'Failed to create backup');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/restore', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { mode, discardAttachments } = restoreQuerySchema.parse(req.query);
+    const backup = backupSchema.parse(backupService.upgradeBackup(req.body));
+
+    const result = await backupService.restoreBackup(user.userId, backup, mode, discardAttachments === 'true');
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Backup restore validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS[error.message]) {
+      res.status(CLIENT_ERRORS[error.message]).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to restore backup');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
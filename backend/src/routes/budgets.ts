@@ -0,0 +1,140 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import logger from '../logger.js';
+import { authenticateToken } from '../middleware/auth.js';
+import * as budgetService from '../services/budgetService.js';
+import type { JwtPayload } from '../types/index.js';
+
+const router = Router();
+
+type AuthRequest = Request & { user: JwtPayload };
+
+const monthString = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/);
+
+const createBudgetSchema = z.object({
+  categoryId: z.number().int().positive().nullable().default(null),
+  month: monthString.nullable().default(null),
+  amount: z.number().positive(),
+});
+
+const updateBudgetSchema = z.object({
+  categoryId: z.number().int().positive().nullable().optional(),
+  month: monthString.nullable().optional(),
+  amount: z.number().positive().optional(),
+});
+
+const summaryQuerySchema = z.object({
+  month: monthString.optional(),
+});
+
+// Service errors that are the caller's fault, mapped to their status codes
+const CLIENT_ERRORS: Record<string, number> = {
+  'Budget already exists for this category and month': 409,
+  'Category not found': 400,
+};
+
+router.use(authenticateToken);
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const budgets = await budgetService.listBudgets(user.userId);
+    res.json(budgets);
+  } catch (error) {
+    logger.error({ err: error }, 'Failed to list budgets');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Spent vs. limit per budget for a month (defaults to the current month)
+router.get('/summary', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { month } = summaryQuerySchema.parse(req.query);
+
+    const summary = await budgetService.getBudgetSummary(
+      user.userId,
+      month || new Date().toISOString().slice(0, 7)
+    );
+    res.json(summary);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Budget summary validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to get budget summary');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const data = createBudgetSchema.parse(req.body);
+
+    const budget = await budgetService.createBudget({ userId: user.userId, ...data });
+    res.status(201).json(budget);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Budget creation validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS[error.message]) {
+      res.status(CLIENT_ERRORS[error.message]).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to create budget');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const id = Number(req.params.id);
+    const data = updateBudgetSchema.parse(req.body);
+
+    const budget = await budgetService.updateBudget(id, user.userId, data);
+    if (!budget) {
+      res.status(404).json({ error: 'Budget not found' });
+      return;
+    }
+
+    res.json(budget);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Budget update validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS[error.message]) {
+      res.status(CLIENT_ERRORS[error.message]).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error, budgetId: req.params.id }, 'Failed to update budget');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const id = Number(req.params.id);
+
+    const deleted = await budgetService.deleteBudget(id, user.userId);
+    if (!deleted) {
+      res.status(404).json({ error: 'Budget not found' });
+      return;
+    }
+
+    logger.info({ userId: user.userId, budgetId: id }, 'Budget deleted');
+    res.status(204).send();
+  } catch (error) {
+    logger.error({ err: error, budgetId: req.params.id }, 'Failed to delete budget');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
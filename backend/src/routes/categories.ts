@@ -1,13 +1,52 @@
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
 import logger from '../logger.js';
-import db from '../db/knex.js';
-import type { Category } from '../types/index.js';
+import { authenticateToken } from '../middleware/auth.js';
+import * as categoryService from '../services/categoryService.js';
+import * as categorizerService from '../services/categorizerService.js';
+import type { JwtPayload } from '../types/index.js';
 
 const router = Router();
 
-router.get('/', async (_req: Request, res: Response) => {
+type AuthRequest = Request & { user: JwtPayload };
+
+const createCategorySchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  icon: z.string().min(1).max(50),
+});
+
+const updateCategorySchema = z.object({
+  name: z.string().trim().min(1).max(50).optional(),
+  icon: z.string().min(1).max(50).optional(),
+});
+
+const reorderSchema = z.object({
+  ids: z.array(z.number().int().positive()),
+});
+
+const suggestQuerySchema = z.object({
+  description: z.string().trim().min(1).max(500),
+});
+
+const deleteCategorySchema = z.object({
+  reassignTo: z.coerce.number().int().positive().optional(),
+});
+
+// Service errors that are the caller's fault, mapped to their status codes
+const CLIENT_ERRORS: Record<string, number> = {
+  'Category name already exists': 409,
+  'Default categories cannot be modified': 403,
+  'Only custom categories can be reordered': 400,
+  'Category has expenses; a reassignment target is required': 409,
+  'Invalid reassignment target': 400,
+};
+
+router.use(authenticateToken);
+
+router.get('/', async (req: Request, res: Response) => {
   try {
-    const categories = await db('categories').select<Category[]>('*');
+    const { user } = req as AuthRequest;
+    const categories = await categoryService.listCategories(user.userId);
     res.json(categories);
   } catch (error) {
     logger.error({ err: error }, 'Failed to fetch categories');
@@ -15,4 +54,123 @@ router.get('/', async (_req: Request, res: Response) => {
   }
 });
 
+// Suggest a category for a description from the user's own expenses and corrections
+router.get('/suggest', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { description } = suggestQuerySchema.parse(req.query);
+
+    const suggestion = await categorizerService.suggestCategory(user.userId, description);
+    res.json({ suggestion });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to suggest category');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const data = createCategorySchema.parse(req.body);
+
+    const category = await categoryService.createCategory({ userId: user.userId, ...data });
+    res.status(201).json(category);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Category creation validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS[error.message]) {
+      res.status(CLIENT_ERRORS[error.message]).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to create category');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.put('/reorder', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { ids } = reorderSchema.parse(req.body);
+
+    const categories = await categoryService.reorderCategories(user.userId, ids);
+    res.json(categories);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Category reorder validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS[error.message]) {
+      res.status(CLIENT_ERRORS[error.message]).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to reorder categories');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const id = Number(req.params.id);
+    const data = updateCategorySchema.parse(req.body);
+
+    const category = await categoryService.updateCategory(id, user.userId, data);
+    if (!category) {
+      res.status(404).json({ error: 'Category not found' });
+      return;
+    }
+
+    res.json(category);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Category update validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS[error.message]) {
+      res.status(CLIENT_ERRORS[error.message]).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error, categoryId: req.params.id }, 'Failed to update category');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a category; ?reassignTo=<id> is required when expenses still use it
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const id = Number(req.params.id);
+    const { reassignTo } = deleteCategorySchema.parse(req.query);
+
+    const deleted = await categoryService.deleteCategory(id, user.userId, reassignTo);
+    if (!deleted) {
+      res.status(404).json({ error: 'Category not found' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Category deletion validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS[error.message]) {
+      res.status(CLIENT_ERRORS[error.message]).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error, categoryId: req.params.id }, 'Failed to delete category');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
@@ -0,0 +1,166 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import logger from '../logger.js';
+import { authenticateToken } from '../middleware/auth.js';
+import * as currencyService from '../services/currencyService.js';
+import { currencySchema } from './expenses.js';
+import type { JwtPayload } from '../types/index.js';
+
+const router = Router();
+
+type AuthRequest = Request & { user: JwtPayload };
+
+const settingsSchema = z.object({
+  baseCurrency: currencySchema,
+});
+
+const listRatesQuerySchema = z.object({
+  currency: currencySchema.optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const rateSchema = z.object({
+  currency: currencySchema,
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  rate: z.number().positive(),
+});
+
+const importRatesSchema = z.object({
+  csvContent: z.string().min(1),
+});
+
+// Service errors that are the caller's fault, mapped to their status codes
+const CLIENT_ERRORS: Record<string, number> = {
+  'Rates are for currencies other than the base currency': 400,
+  'File is empty': 400,
+  'Rates file needs date, currency and rate columns': 400,
+};
+
+router.use(authenticateToken);
+
+router.get('/settings', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const settings = await currencyService.getSettings(user.userId);
+    res.json(settings);
+  } catch (error) {
+    logger.error({ err: error }, 'Failed to get currency settings');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.put('/settings', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const data = settingsSchema.parse(req.body);
+
+    const settings = await currencyService.updateSettings(user.userId, data);
+    res.json(settings);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Currency settings validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to update currency settings');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Rates against the current base currency, newest first
+router.get('/rates', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const params = listRatesQuerySchema.parse(req.query);
+
+    const rates = await currencyService.listRates(user.userId, params);
+    res.json(rates);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Exchange rate list validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to list exchange rates');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Currencies with rates or expenses, including the ones expenses use without any rates
+router.get('/rates/currencies', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const currencies = await currencyService.listRateCurrencies(user.userId);
+    res.json(currencies);
+  } catch (error) {
+    logger.error({ err: error }, 'Failed to list rate currencies');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/rates', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const data = rateSchema.parse(req.body);
+
+    const rate = await currencyService.saveRate(user.userId, data);
+    res.status(201).json(rate);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Exchange rate validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS[error.message]) {
+      res.status(CLIENT_ERRORS[error.message]).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to save exchange rate');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Import a rates CSV with date, currency and rate columns
+router.post('/rates/import', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { csvContent } = importRatesSchema.parse(req.body);
+
+    const result = await currencyService.importRates(user.userId, csvContent);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Exchange rate import validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS[error.message]) {
+      res.status(CLIENT_ERRORS[error.message]).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to import exchange rates');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/rates/:id', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const id = Number(req.params.id);
+
+    const deleted = await currencyService.deleteRate(id, user.userId);
+    if (!deleted) {
+      res.status(404).json({ error: 'Exchange rate not found' });
+      return;
+    }
+
+    logger.info({ userId: user.userId, rateId: id }, 'Exchange rate deleted');
+    res.status(204).send();
+  } catch (error) {
+    logger.error({ err: error, rateId: req.params.id }, 'Failed to delete exchange rate');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
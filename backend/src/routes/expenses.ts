@@ -3,32 +3,77 @@ import { z } from 'zod';
 import logger from '../logger.js';
 import { authenticateToken } from '../middleware/auth.js';
 import * as expenseService from '../services/expenseService.js';
+import * as attachmentService from '../services/attachmentService.js';
+import * as exportService from '../services/exportService.js';
 import type { JwtPayload } from '../types/index.js';
 
 const router = Router();
 
 type AuthRequest = Request & { user: JwtPayload };
 
+// Exported for validating expense tags in backups
+export const tagsSchema = z.array(z.string().trim().min(1).max(50)).max(20);
+
+// Exported for the other routes taking a currency; 'eur' is accepted as EUR
+export const currencySchema = z
+  .string()
+  .trim()
+  .transform((code) => code.toUpperCase())
+  .pipe(z.string().regex(/^[A-Z]{3}$/, 'Currency must be a three-letter code such as EUR'));
+
 const createExpenseSchema = z.object({
   categoryId: z.number().int().positive(),
   amount: z.number().positive(),
+  currency: currencySchema.optional(),
   description: z.string().min(1).max(255),
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  tags: tagsSchema.optional(),
 });
 
 const updateExpenseSchema = z.object({
   categoryId: z.number().int().positive().optional(),
   amount: z.number().positive().optional(),
+  currency: currencySchema.optional(),
   description: z.string().min(1).max(255).optional(),
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  tags: tagsSchema.optional(),
+});
+
+const statsQuerySchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  categoryId: z.coerce.number().int().positive().optional(),
+  tag: z.string().min(1).optional(),
+  interval: z.enum(['day', 'week', 'month']).default('month'),
 });
 
+const exportQuerySchema = z.object({
+  format: z.enum(['csv', 'qif']).default('csv'),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  search: z.string().optional(),
+  categoryId: z.coerce.number().int().positive().optional(),
+  tag: z.string().min(1).optional(),
+});
+
+const attachmentUploadSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  content: z.string().min(1), // base64
+});
+
+const ATTACHMENT_CLIENT_ERRORS: Record<string, number> = {
+  'File is empty': 400,
+  'File is too large': 413,
+  'Only JPEG, PNG, GIF, WebP and PDF files can be attached': 415,
+  'Too many attachments on this expense': 400,
+};
+
 router.use(authenticateToken);
 
 router.get('/', async (req: Request, res: Response) => {
   try {
     const { user } = req as AuthRequest;
-    const { limit, offset, startDate, endDate, search } = req.query;
+    const { limit, offset, startDate, endDate, search, categoryId, tag } = req.query;
 
     const expenses = await expenseService.listExpenses({
       userId: user.userId,
@@ -37,6 +82,8 @@ router.get('/', async (req: Request, res: Response) => {
       startDate: startDate as string | undefined,
       endDate: endDate as string | undefined,
       search: search as string | undefined,
+      categoryId: categoryId ? Number(categoryId) : undefined,
+      tag: tag as string | undefined,
     });
 
     res.json(expenses);
@@ -54,13 +101,68 @@ router.get('/monthly-total', async (req: Request, res: Response) => {
     const month = Number(req.query.month) || now.getMonth() + 1;
 
     const total = await expenseService.getMonthlyTotal(user.userId, year, month);
-    res.json({ total, year, month });
+    res.json({ ...total, year, month });
   } catch (error) {
     logger.error({ err: error }, 'Failed to get monthly total');
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+// Totals, counts and averages grouped by category and by day/week/month
+router.get('/stats', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const params = statsQuerySchema.parse(req.query);
+
+    const stats = await expenseService.getExpenseStats({ userId: user.userId, ...params });
+    res.json(stats);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Expense stats validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to get expense stats');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Download every expense matching the list filters, streamed in batches
+router.get('/export', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { format, ...filters } = exportQuerySchema.parse(req.query);
+    const { contentType, extension } = exportService.getExportFormat(format);
+    const filename = `expenses-${new Date().toISOString().split('T')[0]}.${extension}`;
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    const count = await exportService.streamExpenses({ userId: user.userId, ...filters }, format, res);
+    res.end();
+
+    logger.info({ userId: user.userId, format, count }, 'Expenses exported');
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Expense export validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error && error.message === 'Export connection closed') {
+      logger.info({ userId: (req as AuthRequest).user.userId }, 'Expense export cancelled by the client');
+      return;
+    }
+    logger.error({ err: error }, 'Failed to export expenses');
+    // Once the download has started the status can no longer change. Drop the connection
+    // without the final chunk so the client sees a failed download, not a short file.
+    if (res.headersSent) {
+      res.destroy(error as Error);
+      return;
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 router.get('/:id', async (req: Request, res: Response) => {
   try {
     const { user } = req as AuthRequest;
@@ -97,6 +199,10 @@ router.post('/', async (req: Request, res: Response) => {
       res.status(400).json({ error: 'Invalid input', details: error.errors });
       return;
     }
+    if (error instanceof Error && error.message === 'Category not found') {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     logger.error({ err: error }, 'Failed to create expense');
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -122,6 +228,10 @@ router.put('/:id', async (req: Request, res: Response) => {
       res.status(400).json({ error: 'Invalid input', details: error.errors });
       return;
     }
+    if (error instanceof Error && error.message === 'Category not found') {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     logger.error({ err: error, expenseId: req.params.id }, 'Failed to update expense');
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -146,4 +256,111 @@ router.delete('/:id', async (req: Request, res: Response) => {
   }
 });
 
+router.get('/:id/attachments', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const id = Number(req.params.id);
+
+    const attachments = await attachmentService.listAttachments(id, user.userId);
+    if (!attachments) {
+      res.status(404).json({ error: 'Expense not found' });
+      return;
+    }
+
+    res.json(attachments);
+  } catch (error) {
+    logger.error({ err: error, expenseId: req.params.id }, 'Failed to list attachments');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Attach a receipt image or PDF, sent base64-encoded like spreadsheet imports
+router.post('/:id/attachments', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const id = Number(req.params.id);
+    const data = attachmentUploadSchema.parse(req.body);
+
+    const attachment = await attachmentService.addAttachment({
+      userId: user.userId,
+      expenseId: id,
+      fileName: data.fileName,
+      content: Buffer.from(data.content, 'base64'),
+    });
+    if (!attachment) {
+      res.status(404).json({ error: 'Expense not found' });
+      return;
+    }
+
+    res.status(201).json(attachment);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Attachment upload validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error && ATTACHMENT_CLIENT_ERRORS[error.message]) {
+      logger.info({ message: error.message }, 'Attachment upload rejected');
+      res.status(ATTACHMENT_CLIENT_ERRORS[error.message]).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error, expenseId: req.params.id }, 'Failed to add attachment');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.get('/:id/attachments/:attachmentId', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const file = await attachmentService.getAttachmentFile(
+      Number(req.params.attachmentId),
+      Number(req.params.id),
+      user.userId
+    );
+    if (!file) {
+      res.status(404).json({ error: 'Attachment not found' });
+      return;
+    }
+
+    const { fileName, mimeType } = file.attachment;
+    // Quotes and backslashes would end or escape the quoted fallback name
+    const asciiName = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+    // encodeURIComponent leaves ' ( ) * alone, which an RFC 5987 value may not contain
+    const encodedName = encodeURIComponent(fileName).replace(
+      /['()*]/g,
+      (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+    );
+    // Shown inline so images and PDFs open in the browser; the sniffed type is the only one sent
+    res.setHeader('Content-Type', mimeType);
+    res.setHeader(
+      'Content-Disposition',
+      `inline; filename="${asciiName}"; filename*=UTF-8''${encodedName}`
+    );
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.sendFile(file.filePath);
+  } catch (error) {
+    logger.error({ err: error, attachmentId: req.params.attachmentId }, 'Failed to download attachment');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/:id/attachments/:attachmentId', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const attachmentId = Number(req.params.attachmentId);
+
+    const deleted = await attachmentService.deleteAttachment(attachmentId, Number(req.params.id), user.userId);
+    if (!deleted) {
+      res.status(404).json({ error: 'Attachment not found' });
+      return;
+    }
+
+    logger.info({ userId: user.userId, attachmentId }, 'Attachment deleted');
+    res.status(204).send();
+  } catch (error) {
+    logger.error({ err: error, attachmentId: req.params.attachmentId }, 'Failed to delete attachment');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
@@ -3,6 +3,9 @@ import { z } from 'zod';
 import logger from '../logger.js';
 import { authenticateToken } from '../middleware/auth.js';
 import * as importService from '../services/importService.js';
+import * as importTemplateService from '../services/importTemplateService.js';
+import * as importJobService from '../services/importJobService.js';
+import { currencySchema } from './expenses.js';
 import type { JwtPayload } from '../types/index.js';
 
 const router = Router();
@@ -14,13 +17,68 @@ const uploadSchema = z.object({
   csvContent: z.string().min(1),
 });
 
+const ofxUploadSchema = z.object({
+  fileName: z.string().min(1),
+  ofxContent: z.string().min(1),
+});
+
+const qifUploadSchema = z.object({
+  fileName: z.string().min(1),
+  qifContent: z.string().min(1),
+});
+
+const spreadsheetUploadSchema = z.object({
+  fileName: z.string().min(1),
+  content: z.string().min(1), // base64
+  sheet: z.string().optional(),
+  headerRow: z.number().int().min(1).max(1000).optional(),
+});
+
+// Exported, with the mapping options, for validating saved templates in backups
+export const columnMappingSchema = z.object({
+  date: z.string().min(1),
+  amount: z.string().min(1).optional(),
+  debit: z.string().min(1).optional(),
+  credit: z.string().min(1).optional(),
+  description: z.string().min(1),
+  category: z.string().optional(),
+  currency: z.string().optional(),
+});
+
+export const mappingOptionsSchema = z.object({
+  delimiter: z.enum([',', ';', '\t']),
+  dateFormat: z.enum([
+    'auto',
+    'YYYY-MM-DD',
+    'MM/DD/YYYY',
+    'DD/MM/YYYY',
+    'MM/DD/YY',
+    'DD/MM/YY',
+    'DD-MM-YYYY',
+    'MM-DD-YYYY',
+    'DD.MM.YYYY',
+    'YYYY/MM/DD',
+  ]),
+  numberFormat: z.enum(['auto', '1,234.56', '1.234,56']).default('auto'),
+  amountMode: z.enum(['signed', 'split']).default('signed'),
+  amountSign: z.enum(['positive', 'negative']),
+  currency: currencySchema.nullable().default(null),
+});
+
 const mappingSchema = z.object({
-  columnMapping: z.object({
-    date: z.string().min(1),
-    amount: z.string().min(1),
-    description: z.string().min(1),
-    category: z.string().optional(),
-  }),
+  columnMapping: columnMappingSchema,
+  options: mappingOptionsSchema.partial().optional(),
+});
+
+const createTemplateSchema = mappingOptionsSchema.extend({
+  name: z.string().trim().min(1).max(100),
+  headers: z.array(z.string()).min(1),
+  columnMapping: columnMappingSchema,
+});
+
+const updateTemplateSchema = mappingOptionsSchema.partial().extend({
+  name: z.string().trim().min(1).max(100).optional(),
+  columnMapping: columnMappingSchema.optional(),
 });
 
 const updateRowSchema = z.object({
@@ -28,6 +86,7 @@ const updateRowSchema = z.object({
   updates: z.object({
     date: z.string().optional(),
     amount: z.number().optional(),
+    currency: currencySchema.optional(),
     description: z.string().optional(),
     category: z.string().optional(),
   }),
@@ -38,6 +97,46 @@ const skipRowSchema = z.object({
   skip: z.boolean(),
 });
 
+const rowFilterSchema = z.enum(['all', 'valid', 'invalid', 'skipped', 'duplicate']);
+
+const rowsQuerySchema = z.object({
+  filter: rowFilterSchema.default('all'),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const bulkActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('setCategory'), category: z.string().min(1) }),
+  z.object({ type: z.literal('skip'), skip: z.boolean() }),
+  z.object({
+    type: z.literal('replaceDescription'),
+    find: z.string().min(1),
+    replace: z.string(),
+    matchCase: z.boolean().default(false),
+  }),
+  z.object({ type: z.literal('shiftDates'), days: z.number().int().min(-3650).max(3650) }),
+]);
+
+const bulkUpdateSchema = z
+  .object({
+    rowIndexes: z.array(z.number().int().min(0)).min(1).max(1000).optional(),
+    filter: rowFilterSchema.optional(),
+    action: bulkActionSchema,
+  })
+  .refine((data) => (data.rowIndexes === undefined) !== (data.filter === undefined), {
+    message: 'Provide either rowIndexes or filter',
+  });
+
+const revertQuerySchema = z.object({
+  force: z.enum(['true', 'false']).optional(),
+});
+
+const TEMPLATE_MAPPING_ERRORS = [
+  'Mapped column not found in template headers',
+  'Amount column is required',
+  'Debit and credit columns are required',
+];
+
 router.use(authenticateToken);
 
 // Get active session (for resume)
@@ -51,13 +150,8 @@ router.get('/session', async (req: Request, res: Response) => {
       return;
     }
 
-    // Include parsed rows if in preview status
-    let parsedRows = null;
-    if (session.status === 'preview' && session.parsedRows) {
-      parsedRows = JSON.parse(session.parsedRows);
-    }
-
-    res.json({ session, parsedRows });
+    // Rows are fetched a page at a time from /session/:id/rows
+    res.json({ session });
   } catch (error) {
     logger.error({ err: error }, 'Failed to get active session');
     res.status(500).json({ error: 'Internal server error' });
@@ -71,6 +165,10 @@ router.post('/session', async (req: Request, res: Response) => {
     const session = await importService.createSession(user.userId);
     res.status(201).json({ session });
   } catch (error) {
+    if (error instanceof Error && error.message === 'Session has an import job in progress') {
+      res.status(409).json({ error: error.message });
+      return;
+    }
     logger.error({ err: error }, 'Failed to create session');
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -90,6 +188,10 @@ router.delete('/session/:id', async (req: Request, res: Response) => {
 
     res.status(204).send();
   } catch (error) {
+    if (error instanceof Error && error.message === 'Session has an import job in progress') {
+      res.status(409).json({ error: error.message });
+      return;
+    }
     logger.error({ err: error, sessionId: req.params.id }, 'Failed to cancel session');
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -124,20 +226,109 @@ router.post('/upload', async (req: Request, res: Response) => {
   }
 });
 
-// Save column mapping
+// Upload an OFX/QFX statement; rows are parsed immediately and the session goes straight to preview
+router.post('/upload/ofx', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const data = ofxUploadSchema.parse(req.body);
+
+    const result = await importService.uploadOfx(
+      user.userId,
+      data.fileName,
+      data.ofxContent
+    );
+
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'OFX upload validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error) {
+      logger.info({ message: error.message }, 'OFX upload failed');
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to upload OFX');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Upload a QIF file; like OFX it skips the mapping step
+router.post('/upload/qif', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const data = qifUploadSchema.parse(req.body);
+
+    const result = await importService.uploadQif(
+      user.userId,
+      data.fileName,
+      data.qifContent
+    );
+
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'QIF upload validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error) {
+      logger.info({ message: error.message }, 'QIF upload failed');
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to upload QIF');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Upload an .xlsx or .ods file; the chosen sheet then goes through column mapping like a CSV
+router.post('/upload/spreadsheet', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const data = spreadsheetUploadSchema.parse(req.body);
+
+    const result = await importService.uploadSpreadsheet(
+      user.userId,
+      data.fileName,
+      Buffer.from(data.content, 'base64'),
+      { sheet: data.sheet, headerRow: data.headerRow }
+    );
+
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Spreadsheet upload validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error) {
+      logger.info({ message: error.message }, 'Spreadsheet upload failed');
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to upload spreadsheet');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Save column mapping; the rows are parsed by a background job
 router.post('/session/:id/mapping', async (req: Request, res: Response) => {
   try {
     const { user } = req as AuthRequest;
     const sessionId = Number(req.params.id);
     const data = mappingSchema.parse(req.body);
 
-    const result = await importService.saveMapping(
+    const job = await importJobService.startMappingJob(
       sessionId,
       user.userId,
-      data.columnMapping
+      data.columnMapping,
+      data.options
     );
 
-    res.json(result);
+    res.status(202).json({ job });
   } catch (error) {
     if (error instanceof z.ZodError) {
       logger.info({ errors: error.errors }, 'Mapping validation failed');
@@ -149,6 +340,10 @@ router.post('/session/:id/mapping', async (req: Request, res: Response) => {
         res.status(404).json({ error: error.message });
         return;
       }
+      if (error.message === 'Session has an import job in progress') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
       logger.info({ message: error.message }, 'Mapping failed');
       res.status(400).json({ error: error.message });
       return;
@@ -158,6 +353,30 @@ router.post('/session/:id/mapping', async (req: Request, res: Response) => {
   }
 });
 
+// One page of a session's parsed rows, optionally filtered by status
+router.get('/session/:id/rows', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const sessionId = Number(req.params.id);
+    const query = rowsQuerySchema.parse(req.query);
+
+    const page = await importService.listSessionRows(sessionId, user.userId, query);
+    if (!page) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    res.json(page);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    logger.error({ err: error, sessionId: req.params.id }, 'Failed to get session rows');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Update a row's data
 router.patch('/session/:id/row', async (req: Request, res: Response) => {
   try {
@@ -184,6 +403,10 @@ router.patch('/session/:id/row', async (req: Request, res: Response) => {
         res.status(404).json({ error: error.message });
         return;
       }
+      if (error.message === 'Session has an import job in progress') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
       logger.info({ message: error.message }, 'Row update failed');
       res.status(400).json({ error: error.message });
       return;
@@ -219,6 +442,10 @@ router.post('/session/:id/skip', async (req: Request, res: Response) => {
         res.status(404).json({ error: error.message });
         return;
       }
+      if (error.message === 'Session has an import job in progress') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
       logger.info({ message: error.message }, 'Skip row failed');
       res.status(400).json({ error: error.message });
       return;
@@ -228,26 +455,64 @@ router.post('/session/:id/skip', async (req: Request, res: Response) => {
   }
 });
 
-// Confirm and execute import
-router.post('/session/:id/confirm', async (req: Request, res: Response) => {
+// Apply one action to picked rows or to every row matching a filter
+router.post('/session/:id/bulk', async (req: Request, res: Response) => {
   try {
     const { user } = req as AuthRequest;
     const sessionId = Number(req.params.id);
+    const data = bulkUpdateSchema.parse(req.body);
 
-    const result = await importService.confirmImport(sessionId, user.userId);
-
-    logger.info(
-      { userId: user.userId, sessionId, importedCount: result.importedCount },
-      'Import confirmed'
+    const result = await importService.bulkUpdateRows(
+      sessionId,
+      user.userId,
+      data.rowIndexes ? { rowIndexes: data.rowIndexes } : { filter: data.filter ?? 'all' },
+      data.action
     );
 
     res.json(result);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Bulk row update validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
     if (error instanceof Error) {
       if (error.message === 'Session not found') {
         res.status(404).json({ error: error.message });
         return;
       }
+      if (error.message === 'Session has an import job in progress') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      logger.info({ message: error.message }, 'Bulk row update failed');
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error, sessionId: req.params.id }, 'Failed to update rows in bulk');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Confirm import; the expenses are created by a background job
+router.post('/session/:id/confirm', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const sessionId = Number(req.params.id);
+
+    const job = await importJobService.startConfirmJob(sessionId, user.userId);
+
+    res.status(202).json({ job });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Session not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error.message === 'Session has an import job in progress') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
       logger.info({ message: error.message }, 'Import confirmation failed');
       res.status(400).json({ error: error.message });
       return;
@@ -257,6 +522,117 @@ router.post('/session/:id/confirm', async (req: Request, res: Response) => {
   }
 });
 
+// Status and progress of a mapping or confirm job, polled by the import wizard
+router.get('/jobs/:id', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const job = await importJobService.getJob(Number(req.params.id), user.userId);
+
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    res.json(job);
+  } catch (error) {
+    logger.error({ err: error, jobId: req.params.id }, 'Failed to get import job');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// List saved column-mapping templates
+router.get('/templates', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const templates = await importTemplateService.listTemplates(user.userId);
+    res.json(templates);
+  } catch (error) {
+    logger.error({ err: error }, 'Failed to list import templates');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Save a column mapping, with its parsing options, for files with the same headers
+router.post('/templates', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const data = createTemplateSchema.parse(req.body);
+
+    const template = await importTemplateService.createTemplate({ userId: user.userId, ...data });
+    res.status(201).json(template);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Template creation validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error) {
+      if (error.message === 'Template name already exists') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      if (TEMPLATE_MAPPING_ERRORS.includes(error.message)) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+    }
+    logger.error({ err: error }, 'Failed to create import template');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.put('/templates/:id', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const id = Number(req.params.id);
+    const data = updateTemplateSchema.parse(req.body);
+
+    const template = await importTemplateService.updateTemplate(id, user.userId, data);
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    res.json(template);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Template update validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error) {
+      if (error.message === 'Template name already exists') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      if (TEMPLATE_MAPPING_ERRORS.includes(error.message)) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+    }
+    logger.error({ err: error, templateId: req.params.id }, 'Failed to update import template');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/templates/:id', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const id = Number(req.params.id);
+
+    const deleted = await importTemplateService.deleteTemplate(id, user.userId);
+    if (!deleted) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    logger.error({ err: error, templateId: req.params.id }, 'Failed to delete import template');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // List import history
 router.get('/history', async (req: Request, res: Response) => {
   try {
@@ -269,4 +645,57 @@ router.get('/history', async (req: Request, res: Response) => {
   }
 });
 
+// One import with the outcome of every row in its file
+router.get('/history/:id', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const historyId = Number(req.params.id);
+
+    const detail = await importService.getImportHistoryDetail(historyId, user.userId);
+    if (!detail) {
+      res.status(404).json({ error: 'Import not found' });
+      return;
+    }
+
+    res.json(detail);
+  } catch (error) {
+    logger.error({ err: error, historyId: req.params.id }, 'Failed to get import history detail');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete the expenses created by an import and mark the history entry as reverted
+router.post('/history/:id/revert', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const historyId = Number(req.params.id);
+    const { force } = revertQuerySchema.parse(req.query);
+
+    const result = await importService.revertImport(historyId, user.userId, force === 'true');
+    if (!result) {
+      res.status(404).json({ error: 'Import not found' });
+      return;
+    }
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error) {
+      if (
+        error.message === 'Import has already been reverted' ||
+        error.message === 'Import has no expenses left to revert' ||
+        error.message === 'Some imported expenses were edited after the import'
+      ) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+    }
+    logger.error({ err: error, historyId: req.params.id }, 'Failed to revert import');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
@@ -0,0 +1,170 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import logger from '../logger.js';
+import { authenticateToken } from '../middleware/auth.js';
+import * as recurringService from '../services/recurringService.js';
+import { currencySchema } from './expenses.js';
+import type { JwtPayload } from '../types/index.js';
+
+const router = Router();
+
+type AuthRequest = Request & { user: JwtPayload };
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const frequency = z.enum(['daily', 'weekly', 'monthly', 'yearly']);
+
+const createRecurringSchema = z.object({
+  categoryId: z.number().int().positive(),
+  amount: z.number().positive(),
+  currency: currencySchema.optional(),
+  description: z.string().min(1).max(255),
+  frequency,
+  interval: z.number().int().min(1).max(365).default(1),
+  startDate: dateString,
+  endDate: dateString.nullable().optional(),
+});
+
+const updateRecurringSchema = z.object({
+  categoryId: z.number().int().positive().optional(),
+  amount: z.number().positive().optional(),
+  currency: currencySchema.optional(),
+  description: z.string().min(1).max(255).optional(),
+  frequency: frequency.optional(),
+  interval: z.number().int().min(1).max(365).optional(),
+  startDate: dateString.optional(),
+  endDate: dateString.nullable().optional(),
+  // "Edit this and future": apply from this occurrence onwards, including created expenses
+  effectiveFrom: dateString.optional(),
+});
+
+// Service errors caused by invalid input rather than server failure
+const RECURRING_CLIENT_ERRORS = ['End date must not be before start date', 'Category not found'];
+
+router.use(authenticateToken);
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const rules = await recurringService.listRecurring(user.userId);
+    res.json(rules);
+  } catch (error) {
+    logger.error({ err: error }, 'Failed to list recurring expenses');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const id = Number(req.params.id);
+
+    const rule = await recurringService.getRecurring(id, user.userId);
+    if (!rule) {
+      res.status(404).json({ error: 'Recurring expense not found' });
+      return;
+    }
+
+    res.json(rule);
+  } catch (error) {
+    logger.error({ err: error, recurringExpenseId: req.params.id }, 'Failed to get recurring expense');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const data = createRecurringSchema.parse(req.body);
+
+    const rule = await recurringService.createRecurring({
+      userId: user.userId,
+      ...data,
+    });
+
+    res.status(201).json(rule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Recurring expense creation validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error && RECURRING_CLIENT_ERRORS.includes(error.message)) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to create recurring expense');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const id = Number(req.params.id);
+    const { effectiveFrom, ...data } = updateRecurringSchema.parse(req.body);
+
+    const rule = await recurringService.updateRecurring(id, user.userId, data, effectiveFrom);
+    if (!rule) {
+      res.status(404).json({ error: 'Recurring expense not found' });
+      return;
+    }
+
+    res.json(rule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Recurring expense update validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error && RECURRING_CLIENT_ERRORS.includes(error.message)) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error, recurringExpenseId: req.params.id }, 'Failed to update recurring expense');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Skip the next occurrence
+router.post('/:id/skip', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const id = Number(req.params.id);
+
+    const rule = await recurringService.skipNextOccurrence(id, user.userId);
+    if (!rule) {
+      res.status(404).json({ error: 'Recurring expense not found' });
+      return;
+    }
+
+    res.json(rule);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Recurring expense has no upcoming occurrences') {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error, recurringExpenseId: req.params.id }, 'Failed to skip occurrence');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const id = Number(req.params.id);
+
+    const deleted = await recurringService.deleteRecurring(id, user.userId);
+    if (!deleted) {
+      res.status(404).json({ error: 'Recurring expense not found' });
+      return;
+    }
+
+    logger.info({ userId: user.userId, recurringExpenseId: id }, 'Recurring expense deleted');
+    res.status(204).send();
+  } catch (error) {
+    logger.error({ err: error, recurringExpenseId: req.params.id }, 'Failed to delete recurring expense');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
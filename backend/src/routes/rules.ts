@@ -0,0 +1,242 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import logger from '../logger.js';
+import { authenticateToken } from '../middleware/auth.js';
+import * as ruleService from '../services/ruleService.js';
+import type { JwtPayload } from '../types/index.js';
+
+const router = Router();
+
+type AuthRequest = Request & { user: JwtPayload };
+
+const conditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('contains'),
+    text: z.string().min(1).max(200),
+    matchCase: z.boolean().default(false),
+  }),
+  z.object({
+    type: z.literal('regex'),
+    pattern: z.string().min(1).max(200),
+    flags: z.string().regex(/^[imsu]*$/).default(''),
+  }),
+  z.object({
+    type: z.literal('amountRange'),
+    min: z.number().nullable().default(null),
+    max: z.number().nullable().default(null),
+  }),
+  z.object({
+    type: z.literal('weekday'),
+    days: z.array(z.number().int().min(0).max(6)).min(1).max(7),
+  }),
+]);
+
+// Checks that need the whole condition, which a discriminated union member cannot refine.
+// Exported with the actions schema for validating rules in backups.
+export const conditionsSchema = z
+  .array(conditionSchema)
+  .min(1)
+  .max(20)
+  .superRefine((conditions, ctx) => {
+    conditions.forEach((condition, i) => {
+      if (condition.type === 'regex') {
+        try {
+          new RegExp(condition.pattern, condition.flags);
+        } catch {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i, 'pattern'], message: 'Invalid regular expression' });
+          return;
+        }
+        const unsafe = ruleService.unsafePatternReason(condition.pattern);
+        if (unsafe) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i, 'pattern'], message: unsafe });
+        }
+      }
+      if (condition.type === 'amountRange') {
+        if (condition.min === null && condition.max === null) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i], message: 'Provide a minimum or a maximum amount' });
+        } else if (condition.min !== null && condition.max !== null && condition.min > condition.max) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i, 'max'], message: 'Maximum must not be below minimum' });
+        }
+      }
+    });
+  });
+
+const actionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('setCategory'), categoryId: z.number().int().positive() }),
+  z.object({ type: z.literal('rewriteDescription'), description: z.string().trim().min(1).max(255) }),
+  z.object({ type: z.literal('addTag'), tag: z.string().trim().min(1).max(50) }),
+  z.object({ type: z.literal('skipImport') }),
+]);
+
+export const actionsSchema = z.array(actionSchema).min(1).max(10);
+
+const createRuleSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  enabled: z.boolean().default(true),
+  conditions: conditionsSchema,
+  actions: actionsSchema,
+});
+
+const updateRuleSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  enabled: z.boolean().optional(),
+  conditions: conditionsSchema.optional(),
+  actions: actionsSchema.optional(),
+});
+
+const reorderSchema = z.object({
+  ids: z.array(z.number().int().positive()),
+});
+
+const runSchema = z.object({
+  ruleIds: z.array(z.number().int().positive()).max(1000).optional(),
+  expenseIds: z.array(z.number().int().positive()).max(5000).optional(),
+});
+
+// Service errors that are the caller's fault, mapped to their status codes
+const CLIENT_ERRORS: Record<string, number> = {
+  'Category not found': 400,
+  'Rule not found': 400,
+};
+
+router.use(authenticateToken);
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const rules = await ruleService.listRules(user.userId);
+    res.json(rules);
+  } catch (error) {
+    logger.error({ err: error }, 'Failed to list rules');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const data = createRuleSchema.parse(req.body);
+
+    const rule = await ruleService.createRule({ userId: user.userId, ...data });
+    res.status(201).json(rule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Rule creation validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS[error.message]) {
+      res.status(CLIENT_ERRORS[error.message]).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to create rule');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.put('/reorder', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { ids } = reorderSchema.parse(req.body);
+
+    const rules = await ruleService.reorderRules(user.userId, ids);
+    res.json(rules);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Rule reorder validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS[error.message]) {
+      res.status(CLIENT_ERRORS[error.message]).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to reorder rules');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Show what the rules would change on existing expenses
+router.post('/run/preview', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const data = runSchema.parse(req.body);
+
+    const preview = await ruleService.previewRuleRun(user.userId, data);
+    res.json(preview);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to preview rule run');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Apply the rules to existing expenses; pass the previewed expenseIds to change only those
+router.post('/run', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const data = runSchema.parse(req.body);
+
+    const result = await ruleService.applyRuleRun(user.userId, data);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Rule run validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    logger.error({ err: error }, 'Failed to apply rules');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const id = Number(req.params.id);
+    const data = updateRuleSchema.parse(req.body);
+
+    const rule = await ruleService.updateRule(id, user.userId, data);
+    if (!rule) {
+      res.status(404).json({ error: 'Rule not found' });
+      return;
+    }
+
+    res.json(rule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.info({ errors: error.errors }, 'Rule update validation failed');
+      res.status(400).json({ error: 'Invalid input', details: error.errors });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS[error.message]) {
+      res.status(CLIENT_ERRORS[error.message]).json({ error: error.message });
+      return;
+    }
+    logger.error({ err: error, ruleId: req.params.id }, 'Failed to update rule');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const id = Number(req.params.id);
+
+    const deleted = await ruleService.deleteRule(id, user.userId);
+    if (!deleted) {
+      res.status(404).json({ error: 'Rule not found' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    logger.error({ err: error, ruleId: req.params.id }, 'Failed to delete rule');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,24 @@
+import { Router, Request, Response } from 'express';
+import logger from '../logger.js';
+import { authenticateToken } from '../middleware/auth.js';
+import * as tagService from '../services/tagService.js';
+import type { JwtPayload } from '../types/index.js';
+
+const router = Router();
+
+type AuthRequest = Request & { user: JwtPayload };
+
+router.use(authenticateToken);
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const tags = await tagService.listTags(user.userId);
+    res.json(tags);
+  } catch (error) {
+    logger.error({ err: error }, 'Failed to list tags');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { Knex } from 'knex';
+import db from '../db/knex.js';
+import logger from '../logger.js';
+import type { Attachment } from '../types/index.js';
+
+// Where receipt files are kept; point ATTACHMENTS_DIR at a volume or backed-up disk in production
+export const ATTACHMENTS_DIR = process.env.ATTACHMENTS_DIR || path.join(__dirname, '../../attachments');
+
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+export const MAX_ATTACHMENTS_PER_EXPENSE = 10;
+
+// Hashes per whereIn query, keeping the bound parameters under SQLite's limit
+const LOOKUP_CHUNK_SIZE = 500;
+
+// Types are told apart by their first bytes; the name and type the browser sends are not trusted
+const FILE_SIGNATURES: { mimeType: string; matches: (data: Buffer) => boolean }[] = [
+  { mimeType: 'image/jpeg', matches: data => data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+  {
+    mimeType: 'image/png',
+    matches: data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  { mimeType: 'image/gif', matches: data => /^GIF8[79]a/.test(data.subarray(0, 6).toString('latin1')) },
+  {
+    mimeType: 'image/webp',
+    matches: data =>
+      data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP',
+  },
+  { mimeType: 'application/pdf', matches: data => data.subarray(0, 5).toString('latin1') === '%PDF-' },
+];
+
+interface AddAttachmentParams {
+  userId: number;
+  expenseId: number;
+  fileName: string;
+  content: Buffer;
+}
+
+interface AttachmentFile {
+  attachment: Attachment;
+  filePath: string;
+}
+
+function detectMimeType(data: Buffer): string | null {
+  return FILE_SIGNATURES.find(signature => signature.matches(data))?.mimeType ?? null;
+}
+
+// Files are named by their SHA-256 and spread over subdirectories by its first two characters
+function filePathFor(sha256: string): string {
+  return path.join(ATTACHMENTS_DIR, sha256.slice(0, 2), sha256);
+}
+
+// Keeps only the last path segment and drops control characters, as it ends up in a header
+function cleanFileName(fileName: string): string {
+  const base = fileName.split(/[\\/]/).pop() ?? '';
+  const cleaned = base.replace(/[\x00-\x1f\x7f"]/g, '').trim();
+  return cleaned || 'attachment';
+}
+
+async function expenseExists(expenseId: number, userId: number): Promise<boolean> {
+  return !!(await db('expenses').where({ id: expenseId, userId }).first('id'));
+}
+
+export async function listAttachments(expenseId: number, userId: number): Promise<Attachment[] | null> {
+  if (!(await expenseExists(expenseId, userId))) return null;
+
+  return db('attachments').where({ expenseId, userId }).orderBy('createdAt').orderBy('id');
+}
+
+export async function addAttachment({ userId, expenseId, fileName, content }: AddAttachmentParams): Promise<Attachment | null> {
+  if (content.length === 0) {
+    throw new Error('File is empty');
+  }
+  if (content.length > MAX_ATTACHMENT_BYTES) {
+    throw new Error('File is too large');
+  }
+  const mimeType = detectMimeType(content);
+  if (!mimeType) {
+    throw new Error('Only JPEG, PNG, GIF, WebP and PDF files can be attached');
+  }
+  if (!(await expenseExists(expenseId, userId))) return null;
+
+  const { count } = (await db('attachments').where({ expenseId }).count('id as count').first()) as { count: number };
+  if (Number(count) >= MAX_ATTACHMENTS_PER_EXPENSE) {
+    throw new Error('Too many attachments on this expense');
+  }
+
+  const sha256 = crypto.createHash('sha256').update(content).digest('hex');
+  const filePath = filePathFor(sha256);
+  const stored = await fs.stat(filePath).then(() => true, () => false);
+  if (!stored) {
+    // Written under a temporary name first so a crash never leaves a truncated file at the final path
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, content);
+    await fs.rename(tempPath, filePath);
+  }
+
+  // A receipt counts as an edit, so reverting the expense's import asks before deleting it
+  const id = await db.transaction(async (trx) => {
+    const [attachmentId] = await trx('attachments').insert({
+      userId,
+      expenseId,
+      fileName: cleanFileName(fileName),
+      mimeType,
+      size: content.length,
+      sha256,
+    });
+    await trx('expenses').where({ id: expenseId }).update({ updatedAt: db.fn.now() });
+    return attachmentId;
+  });
+  logger.info({ userId, expenseId, attachmentId: id, size: content.length, mimeType }, 'Attachment added');
+
+  return db('attachments').where({ id }).first();
+}
+
+export async function getAttachmentFile(
+  id: number,
+  expenseId: number,
+  userId: number
+): Promise<AttachmentFile | null> {
+  const attachment: Attachment | undefined = await db('attachments').where({ id, expenseId, userId }).first();
+  if (!attachment) return null;
+
+  const filePath = filePathFor(attachment.sha256);
+  if (!(await fs.stat(filePath).then(() => true, () => false))) {
+    logger.error({ attachmentId: id, sha256: attachment.sha256 }, 'Attachment file missing from disk');
+    return null;
+  }
+  return { attachment, filePath };
+}
+
+export async function deleteAttachment(id: number, expenseId: number, userId: number): Promise<boolean> {
+  const attachment: Attachment | undefined = await db('attachments').where({ id, expenseId, userId }).first();
+  if (!attachment) return false;
+
+  await db.transaction(async (trx) => {
+    await trx('attachments').where({ id }).delete();
+    await trx('expenses').where({ id: expenseId }).update({ updatedAt: db.fn.now() });
+  });
+  await removeUnusedFiles([attachment.sha256]);
+  return true;
+}
+
+// Hashes of the files attached to the given expenses, or to all of the user's expenses.
+// Gather them before the expenses are deleted, then pass them to removeUnusedFiles afterwards.
+export async function attachmentHashes(userId: number, expenseIds?: number[], conn: Knex = db): Promise<string[]> {
+  if (!expenseIds) {
+    const rows: { sha256: string }[] = await conn('attachments').where({ userId }).distinct('sha256');
+    return rows.map(row => row.sha256);
+  }
+
+  const hashes = new Set<string>();
+  for (let i = 0; i < expenseIds.length; i += LOOKUP_CHUNK_SIZE) {
+    const rows: { sha256: string }[] = await conn('attachments')
+      .where({ userId })
+      .whereIn('expenseId', expenseIds.slice(i, i + LOOKUP_CHUNK_SIZE))
+      .distinct('sha256');
+    for (const row of rows) {
+      hashes.add(row.sha256);
+    }
+  }
+  return [...hashes];
+}
+
+// Deletes the files no attachment refers to any more. Identical uploads share a file,
+// so it stays until the last attachment using it is gone.
+export async function removeUnusedFiles(hashes: string[]): Promise<void> {
+  const unique = [...new Set(hashes)];
+  const inUse = new Set<string>();
+  for (let i = 0; i < unique.length; i += LOOKUP_CHUNK_SIZE) {
+    const rows: { sha256: string }[] = await db('attachments')
+      .whereIn('sha256', unique.slice(i, i + LOOKUP_CHUNK_SIZE))
+      .distinct('sha256');
+    for (const row of rows) {
+      inUse.add(row.sha256);
+    }
+  }
+
+  let removed = 0;
+  for (const sha256 of unique) {
+    if (inUse.has(sha256)) continue;
+    try {
+      await fs.unlink(filePathFor(sha256));
+      removed++;
+    } catch (error) {
+      // Already gone is fine; anything else leaves an orphaned file but should not fail the delete
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error({ err: error, sha256 }, 'Failed to remove attachment file');
+      }
+    }
+  }
+  if (removed > 0) {
+    logger.info({ removed }, 'Attachment files removed');
+  }
+}
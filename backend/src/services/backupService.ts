@@ -0,0 +1,510 @@
+import type { Knex } from 'knex';
+import db from '../db/knex.js';
+import logger from '../logger.js';
+import { listCategories } from './categoryService.js';
+import { listTemplates, headerFingerprint } from './importTemplateService.js';
+import { listRules } from './ruleService.js';
+import { addExpenseTags, getExpenseTags } from './tagService.js';
+import { attachmentHashes, removeUnusedFiles } from './attachmentService.js';
+import { getBaseCurrency } from './currencyService.js';
+import { invalidateCategoryModel } from './categorizerService.js';
+import type {
+  Backup,
+  BackupCounts,
+  Category,
+  Expense,
+  RecurringExpense,
+  Budget,
+  ExchangeRate,
+  ImportHistory,
+  RestoreMode,
+  RestoreResult,
+} from '../types/index.js';
+
+export const BACKUP_VERSION = 8;
+
+type RawBackup = Record<string, unknown> & { version: number };
+
+// Each entry upgrades a backup document from the keyed version to the next one.
+// Add one whenever the backup format changes and bump BACKUP_VERSION.
+const UPGRADES: Record<number, (backup: RawBackup) => RawBackup> = {
+  // v2 added saved import templates
+  1: (backup) => ({ ...backup, importTemplates: [] }),
+  // v3 added revertedAt to import history
+  2: (backup) => ({
+    ...backup,
+    importHistory: Array.isArray(backup.importHistory)
+      ? backup.importHistory.map((entry) => ({ ...entry, revertedAt: null }))
+      : backup.importHistory,
+  }),
+  // v4 added numberFormat to import templates
+  3: (backup) => ({
+    ...backup,
+    importTemplates: Array.isArray(backup.importTemplates)
+      ? backup.importTemplates.map((template) => ({ ...template, numberFormat: 'auto' }))
+      : backup.importTemplates,
+  }),
+  // v5 added amountMode to import templates
+  4: (backup) => ({
+    ...backup,
+    importTemplates: Array.isArray(backup.importTemplates)
+      ? backup.importTemplates.map((template) => ({ ...template, amountMode: 'signed' }))
+      : backup.importTemplates,
+  }),
+  // v6 added categorization rules
+  5: (backup) => ({ ...backup, rules: [] }),
+  // v7 added expense tags
+  6: (backup) => ({
+    ...backup,
+    expenses: Array.isArray(backup.expenses)
+      ? backup.expenses.map((expense) => ({ ...expense, tags: [] }))
+      : backup.expenses,
+  }),
+  // v8 added currencies; everything before was in dollars
+  7: (backup) => ({
+    ...backup,
+    baseCurrency: 'USD',
+    exchangeRates: [],
+    expenses: Array.isArray(backup.expenses)
+      ? backup.expenses.map((expense) => ({ ...expense, currency: 'USD' }))
+      : backup.expenses,
+    recurringExpenses: Array.isArray(backup.recurringExpenses)
+      ? backup.recurringExpenses.map((rule) => ({ ...rule, currency: 'USD' }))
+      : backup.recurringExpenses,
+    importTemplates: Array.isArray(backup.importTemplates)
+      ? backup.importTemplates.map((template) => ({ ...template, currency: null }))
+      : backup.importTemplates,
+  }),
+};
+
+const INSERT_CHUNK_SIZE = 100;
+
+function emptyCounts(): BackupCounts {
+  return {
+    categories: 0,
+    expenses: 0,
+    recurringExpenses: 0,
+    budgets: 0,
+    importHistory: 0,
+    importTemplates: 0,
+    rules: 0,
+    exchangeRates: 0,
+  };
+}
+
+// Key used to recognise an expense that is already present when merging
+function expenseKey(expense: Pick<Expense, 'categoryId' | 'amount' | 'currency' | 'description' | 'date'>): string {
+  return [
+    expense.date,
+    Number(expense.amount).toFixed(2),
+    expense.currency,
+    expense.description,
+    expense.categoryId,
+  ].join('|');
+}
+
+export async function createBackup(userId: number): Promise<Backup> {
+  const [
+    categories,
+    expenses,
+    recurringExpenses,
+    budgets,
+    importHistory,
+    importTemplates,
+    rules,
+    exchangeRates,
+    baseCurrency,
+  ] = await Promise.all([
+    listCategories(userId),
+    db('expenses').where({ userId }).orderBy('date').orderBy('id') as Promise<Expense[]>,
+    db('recurring_expenses').where({ userId }).orderBy('id') as Promise<RecurringExpense[]>,
+    db('budgets').where({ userId }).orderBy('id') as Promise<Budget[]>,
+    db('import_history').where({ userId }).orderBy('id') as Promise<ImportHistory[]>,
+    listTemplates(userId),
+    listRules(userId),
+    db('exchange_rates').where({ userId }).orderBy('baseCurrency').orderBy('currency').orderBy('date') as Promise<
+      ExchangeRate[]
+    >,
+    getBaseCurrency(userId),
+  ]);
+  const categoryIds = new Set(categories.map((c) => c.id));
+  const tagsByExpense = await getExpenseTags(expenses.map((e) => e.id));
+
+  const backup: Backup = {
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    baseCurrency,
+    categories: categories.map(({ id, name, icon, sortOrder }) => ({ id, name, icon, sortOrder })),
+    expenses: expenses.map((e) => ({
+      categoryId: e.categoryId,
+      amount: Number(e.amount),
+      currency: e.currency,
+      description: e.description,
+      date: e.date,
+      recurringExpenseId: e.recurringExpenseId,
+      tags: tagsByExpense.get(e.id) ?? [],
+      createdAt: e.createdAt,
+    })),
+    recurringExpenses: recurringExpenses.map((r) => ({
+      id: r.id,
+      categoryId: r.categoryId,
+      amount: Number(r.amount),
+      currency: r.currency,
+      description: r.description,
+      frequency: r.frequency,
+      interval: r.interval,
+      startDate: r.startDate,
+      endDate: r.endDate,
+      nextDate: r.nextDate,
+    })),
+    budgets: budgets.map((b) => ({ categoryId: b.categoryId, month: b.month, amount: Number(b.amount) })),
+    importHistory: importHistory.map((h) => ({
+      fileName: h.fileName,
+      totalRows: h.totalRows,
+      importedRows: h.importedRows,
+      skippedRows: h.skippedRows,
+      revertedAt: h.revertedAt,
+      createdAt: h.createdAt,
+    })),
+    importTemplates: importTemplates.map((t) => ({
+      name: t.name,
+      headers: t.headers,
+      columnMapping: t.columnMapping,
+      delimiter: t.delimiter,
+      dateFormat: t.dateFormat,
+      numberFormat: t.numberFormat,
+      amountMode: t.amountMode,
+      amountSign: t.amountSign,
+      currency: t.currency,
+    })),
+    // Actions naming a deleted category do nothing, so they are left out, as is a rule left without actions
+    rules: rules.flatMap((r) => {
+      const actions = r.actions.filter((a) => a.type !== 'setCategory' || categoryIds.has(a.categoryId));
+      return actions.length > 0
+        ? [{ name: r.name, position: r.position, enabled: r.enabled, conditions: r.conditions, actions }]
+        : [];
+    }),
+    exchangeRates: exchangeRates.map((r) => ({
+      baseCurrency: r.baseCurrency,
+      currency: r.currency,
+      date: r.date,
+      rate: Number(r.rate),
+    })),
+  };
+
+  logger.info({ userId, expenses: backup.expenses.length }, 'Backup created');
+  return backup;
+}
+
+// Bring a backup written by an older version up to the current format, before validation
+export function upgradeBackup(raw: unknown): unknown {
+  if (typeof raw !== 'object' || raw === null || !Number.isInteger((raw as RawBackup).version)) {
+    throw new Error('Invalid backup file');
+  }
+
+  let backup = raw as RawBackup;
+  if (backup.version > BACKUP_VERSION) {
+    throw new Error('Backup was created by a newer version');
+  }
+
+  while (backup.version < BACKUP_VERSION) {
+    const upgrade = UPGRADES[backup.version];
+    if (!upgrade) {
+      throw new Error('Unsupported backup version');
+    }
+    backup = { ...upgrade(backup), version: backup.version + 1 };
+  }
+
+  return backup;
+}
+
+function assertReferences(backup: Backup): void {
+  const categoryIds = new Set(backup.categories.map((c) => c.id));
+  const recurringIds = new Set(backup.recurringExpenses.map((r) => r.id));
+
+  const categoryRefs = [
+    ...backup.expenses.map((e) => e.categoryId),
+    ...backup.recurringExpenses.map((r) => r.categoryId),
+    ...backup.budgets.flatMap((b) => (b.categoryId === null ? [] : [b.categoryId])),
+    ...backup.rules.flatMap((r) => r.actions.flatMap((a) => (a.type === 'setCategory' ? [a.categoryId] : []))),
+  ];
+  if (categoryRefs.some((id) => !categoryIds.has(id))) {
+    throw new Error('Backup references an unknown category');
+  }
+
+  if (backup.expenses.some((e) => e.recurringExpenseId !== null && !recurringIds.has(e.recurringExpenseId))) {
+    throw new Error('Backup references an unknown recurring expense');
+  }
+}
+
+// Returns the new ids in row order
+async function insertChunked(trx: Knex.Transaction, table: string, rows: object[]): Promise<number[]> {
+  const ids: number[] = [];
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = rows.slice(i, i + INSERT_CHUNK_SIZE);
+    const [lastId] = await trx(table).insert(chunk);
+    // SQLite numbers the rows of one insert consecutively, ending at the id it reports
+    ids.push(...chunk.map((_, k) => lastId - chunk.length + 1 + k));
+  }
+  return ids;
+}
+
+// Categories are matched by name against the defaults and the user's own, and created when missing
+async function restoreCategories(
+  trx: Knex.Transaction,
+  userId: number,
+  backup: Backup,
+  result: RestoreResult
+): Promise<Map<number, number>> {
+  const idMap = new Map<number, number>();
+  const existing = await trx('categories')
+    .where((q) => q.whereNull('userId').orWhere('userId', userId))
+    .select<Category[]>('*');
+  const byName = new Map(existing.map((c) => [c.name.trim().toLowerCase(), c.id]));
+
+  const last = await trx('categories').where({ userId }).max('sortOrder as maxOrder').first();
+  let sortOrder = Number(last?.maxOrder) || 0;
+
+  for (const category of [...backup.categories].sort((a, b) => a.sortOrder - b.sortOrder)) {
+    const key = category.name.trim().toLowerCase();
+    const match = byName.get(key);
+    if (match !== undefined) {
+      idMap.set(category.id, match);
+      result.skipped.categories++;
+      continue;
+    }
+
+    const [id] = await trx('categories').insert({
+      userId,
+      name: category.name.trim(),
+      icon: category.icon,
+      sortOrder: ++sortOrder,
+    });
+    byName.set(key, id);
+    idMap.set(category.id, id);
+    result.imported.categories++;
+  }
+
+  return idMap;
+}
+
+async function restoreRecurring(
+  trx: Knex.Transaction,
+  userId: number,
+  backup: Backup,
+  categoryIds: Map<number, number>,
+  result: RestoreResult
+): Promise<Map<number, number>> {
+  const idMap = new Map<number, number>();
+  const existing = await trx('recurring_expenses').where({ userId }).select<RecurringExpense[]>('*');
+
+  for (const rule of backup.recurringExpenses) {
+    const categoryId = categoryIds.get(rule.categoryId)!;
+    const match = existing.find(
+      (r) =>
+        r.categoryId === categoryId &&
+        Number(r.amount) === rule.amount &&
+        r.currency === rule.currency &&
+        r.description === rule.description &&
+        r.frequency === rule.frequency &&
+        r.interval === rule.interval &&
+        r.startDate === rule.startDate
+    );
+    if (match) {
+      idMap.set(rule.id, match.id);
+      result.skipped.recurringExpenses++;
+      continue;
+    }
+
+    const { id: backupId, ...fields } = rule;
+    const [id] = await trx('recurring_expenses').insert({ ...fields, userId, categoryId });
+    idMap.set(backupId, id);
+    result.imported.recurringExpenses++;
+  }
+
+  return idMap;
+}
+
+// Restore a validated backup for a user in a single transaction. 'replace' removes the
+// user's existing data first; 'merge' keeps it and skips records that are already present.
+// Backups carry no receipt files, so 'replace' refuses to run while the user has attachments
+// unless `discardAttachments` confirms they may be deleted.
+export async function restoreBackup(
+  userId: number,
+  backup: Backup,
+  mode: RestoreMode,
+  discardAttachments = false
+): Promise<RestoreResult> {
+  assertReferences(backup);
+
+  const result: RestoreResult = { mode, imported: emptyCounts(), skipped: emptyCounts() };
+
+  let removedHashes: string[] = [];
+  await db.transaction(async (trx) => {
+    if (mode === 'replace') {
+      removedHashes = await attachmentHashes(userId, undefined, trx);
+      if (removedHashes.length > 0 && !discardAttachments) {
+        throw new Error('Replacing would delete receipt attachments');
+      }
+      await trx('expenses').where({ userId }).delete();
+      await trx('tags').where({ userId }).delete();
+      await trx('recurring_expenses').where({ userId }).delete();
+      await trx('budgets').where({ userId }).delete();
+      await trx('import_history').where({ userId }).delete();
+      await trx('import_templates').where({ userId }).delete();
+      await trx('rules').where({ userId }).delete();
+      await trx('categories').where({ userId }).delete();
+      await trx('exchange_rates').where({ userId }).delete();
+      await trx('users').where({ id: userId }).update({ baseCurrency: backup.baseCurrency });
+    }
+
+    const categoryIds = await restoreCategories(trx, userId, backup, result);
+    const recurringIds = await restoreRecurring(trx, userId, backup, categoryIds, result);
+
+    // Count existing expenses per key so genuine duplicates within the backup are still restored
+    const existingExpenses = await trx('expenses').where({ userId }).select<Expense[]>('*');
+    const remaining = new Map<string, number>();
+    for (const expense of existingExpenses) {
+      const key = expenseKey(expense);
+      remaining.set(key, (remaining.get(key) || 0) + 1);
+    }
+
+    const expenseRows: object[] = [];
+    const expenseTags: string[][] = [];
+    for (const expense of backup.expenses) {
+      const row = {
+        userId,
+        categoryId: categoryIds.get(expense.categoryId)!,
+        amount: expense.amount,
+        currency: expense.currency,
+        description: expense.description,
+        date: expense.date,
+        recurringExpenseId: expense.recurringExpenseId === null ? null : recurringIds.get(expense.recurringExpenseId)!,
+        ...(expense.createdAt ? { createdAt: expense.createdAt } : {}),
+      };
+
+      const key = expenseKey(row);
+      const count = remaining.get(key) || 0;
+      if (count > 0) {
+        remaining.set(key, count - 1);
+        result.skipped.expenses++;
+        continue;
+      }
+      expenseRows.push(row);
+      expenseTags.push(expense.tags);
+    }
+    const expenseIds = await insertChunked(trx, 'expenses', expenseRows);
+    await addExpenseTags(userId, expenseIds.map((expenseId, i) => ({ expenseId, tags: expenseTags[i] })), trx);
+    result.imported.expenses = expenseRows.length;
+
+    const existingBudgets = await trx('budgets').where({ userId }).select<Budget[]>('*');
+    const budgetKeys = new Set(existingBudgets.map((b) => `${b.categoryId}|${b.month}`));
+    for (const budget of backup.budgets) {
+      const categoryId = budget.categoryId === null ? null : categoryIds.get(budget.categoryId)!;
+      const key = `${categoryId}|${budget.month}`;
+      if (budgetKeys.has(key)) {
+        result.skipped.budgets++;
+        continue;
+      }
+      await trx('budgets').insert({ userId, categoryId, month: budget.month, amount: budget.amount });
+      budgetKeys.add(key);
+      result.imported.budgets++;
+    }
+
+    const existingHistory = await trx('import_history').where({ userId }).select<ImportHistory[]>('*');
+    const historyKeys = new Set(existingHistory.map((h) => `${h.fileName}|${h.createdAt}`));
+    const historyRows: object[] = [];
+    for (const entry of backup.importHistory) {
+      if (historyKeys.has(`${entry.fileName}|${entry.createdAt}`)) {
+        result.skipped.importHistory++;
+        continue;
+      }
+      // The import session behind a restored entry does not exist on this instance
+      historyRows.push({
+        userId,
+        sessionId: 0,
+        fileName: entry.fileName,
+        totalRows: entry.totalRows,
+        importedRows: entry.importedRows,
+        skippedRows: entry.skippedRows,
+        revertedAt: entry.revertedAt,
+        ...(entry.createdAt ? { createdAt: entry.createdAt } : {}),
+      });
+    }
+    await insertChunked(trx, 'import_history', historyRows);
+    result.imported.importHistory = historyRows.length;
+
+    const existingTemplates = await trx('import_templates').where({ userId }).select<{ name: string }[]>('name');
+    const templateNames = new Set(existingTemplates.map((t) => t.name.trim().toLowerCase()));
+    for (const template of backup.importTemplates) {
+      const key = template.name.trim().toLowerCase();
+      if (templateNames.has(key)) {
+        result.skipped.importTemplates++;
+        continue;
+      }
+      await trx('import_templates').insert({
+        userId,
+        name: template.name.trim(),
+        headers: JSON.stringify(template.headers),
+        headerFingerprint: headerFingerprint(template.headers),
+        columnMapping: JSON.stringify(template.columnMapping),
+        delimiter: template.delimiter,
+        dateFormat: template.dateFormat,
+        numberFormat: template.numberFormat,
+        amountMode: template.amountMode,
+        amountSign: template.amountSign,
+        currency: template.currency,
+      });
+      templateNames.add(key);
+      result.imported.importTemplates++;
+    }
+
+    // Rules are matched by name; restored ones run after the user's existing rules
+    const existingRules = await trx('rules').where({ userId }).select<{ name: string; position: number }[]>('name', 'position');
+    const ruleNames = new Set(existingRules.map((r) => r.name.trim().toLowerCase()));
+    let position = Math.max(0, ...existingRules.map((r) => r.position));
+    for (const rule of [...backup.rules].sort((a, b) => a.position - b.position)) {
+      const key = rule.name.trim().toLowerCase();
+      if (ruleNames.has(key)) {
+        result.skipped.rules++;
+        continue;
+      }
+      const actions = rule.actions.map((action) =>
+        action.type === 'setCategory' ? { ...action, categoryId: categoryIds.get(action.categoryId)! } : action
+      );
+      await trx('rules').insert({
+        userId,
+        name: rule.name.trim(),
+        position: ++position,
+        enabled: rule.enabled,
+        conditions: JSON.stringify(rule.conditions),
+        actions: JSON.stringify(actions),
+      });
+      ruleNames.add(key);
+      result.imported.rules++;
+    }
+
+    // A rate already stored for the same currency pair and day is kept
+    const existingRates = await trx('exchange_rates')
+      .where({ userId })
+      .select<Pick<ExchangeRate, 'baseCurrency' | 'currency' | 'date'>[]>('baseCurrency', 'currency', 'date');
+    const rateKeys = new Set(existingRates.map((r) => `${r.baseCurrency}|${r.currency}|${r.date}`));
+    const rateRows: object[] = [];
+    for (const rate of backup.exchangeRates) {
+      const key = `${rate.baseCurrency}|${rate.currency}|${rate.date}`;
+      if (rateKeys.has(key)) {
+        result.skipped.exchangeRates++;
+        continue;
+      }
+      rateRows.push({ userId, ...rate });
+      rateKeys.add(key);
+    }
+    await insertChunked(trx, 'exchange_rates', rateRows);
+    result.imported.exchangeRates = rateRows.length;
+  });
+  await removeUnusedFiles(removedHashes);
+  invalidateCategoryModel(userId);
+
+  logger.info({ userId, mode, imported: result.imported, skipped: result.skipped }, 'Backup restored');
+  return result;
+}
@@ -0,0 +1,202 @@
+import type { Knex } from 'knex';
+import db from '../db/knex.js';
+import logger from '../logger.js';
+import { getCategory } from './categoryService.js';
+import { convertedAmount, getBaseCurrency } from './currencyService.js';
+import type {
+  Budget,
+  BudgetWithCategory,
+  BudgetProgress,
+  BudgetStatus,
+  BudgetSummary,
+} from '../types/index.js';
+
+interface CreateBudgetParams {
+  userId: number;
+  categoryId: number | null;
+  month: string | null;
+  amount: number;
+}
+
+interface UpdateBudgetParams {
+  categoryId?: number | null;
+  month?: string | null;
+  amount?: number;
+}
+
+function withCategory(query: Knex.QueryBuilder): Knex.QueryBuilder {
+  return query
+    .leftJoin('categories', 'budgets.categoryId', 'categories.id')
+    .select(
+      'budgets.*',
+      'categories.name as categoryName',
+      'categories.icon as categoryIcon'
+    );
+}
+
+// First and last day of a YYYY-MM month
+function monthRange(month: string): { startDate: string; endDate: string; daysInMonth: number } {
+  const [year, monthNum] = month.split('-').map(Number);
+  const daysInMonth = new Date(Date.UTC(year, monthNum, 0)).getUTCDate();
+  return {
+    startDate: `${month}-01`,
+    endDate: `${month}-${String(daysInMonth).padStart(2, '0')}`,
+    daysInMonth,
+  };
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+async function assertUnique(
+  userId: number,
+  categoryId: number | null,
+  month: string | null,
+  excludeId?: number
+): Promise<void> {
+  const query = db('budgets').where({ userId, categoryId, month });
+  if (excludeId) {
+    query.whereNot('id', excludeId);
+  }
+
+  if (await query.first()) {
+    throw new Error('Budget already exists for this category and month');
+  }
+}
+
+async function assertCategory(categoryId: number | null | undefined, userId: number): Promise<void> {
+  if (categoryId && !(await getCategory(categoryId, userId))) {
+    throw new Error('Category not found');
+  }
+}
+
+export async function listBudgets(userId: number): Promise<BudgetWithCategory[]> {
+  return withCategory(db('budgets'))
+    .where('budgets.userId', userId)
+    .orderByRaw('budgets.month IS NOT NULL')
+    .orderBy('budgets.month', 'desc')
+    .orderByRaw('budgets.categoryId IS NOT NULL')
+    .orderBy('categories.sortOrder');
+}
+
+export async function getBudget(id: number, userId: number): Promise<BudgetWithCategory | null> {
+  const budget = await withCategory(db('budgets'))
+    .where('budgets.id', id)
+    .where('budgets.userId', userId)
+    .first();
+
+  return budget || null;
+}
+
+export async function createBudget(params: CreateBudgetParams): Promise<BudgetWithCategory> {
+  await assertCategory(params.categoryId, params.userId);
+  await assertUnique(params.userId, params.categoryId, params.month);
+
+  const [id] = await db('budgets').insert(params);
+  logger.info({ userId: params.userId, budgetId: id }, 'Budget created');
+
+  const budget = await getBudget(id, params.userId);
+  return budget!;
+}
+
+export async function updateBudget(
+  id: number,
+  userId: number,
+  params: UpdateBudgetParams
+): Promise<BudgetWithCategory | null> {
+  const existing = await db('budgets').where({ id, userId }).first<Budget>();
+  if (!existing) return null;
+
+  await assertCategory(params.categoryId, userId);
+  await assertUnique(
+    userId,
+    params.categoryId !== undefined ? params.categoryId : existing.categoryId,
+    params.month !== undefined ? params.month : existing.month,
+    id
+  );
+
+  await db('budgets')
+    .where({ id, userId })
+    .update({ ...params, updatedAt: db.fn.now() });
+
+  logger.info({ userId, budgetId: id }, 'Budget updated');
+
+  return getBudget(id, userId);
+}
+
+export async function deleteBudget(id: number, userId: number): Promise<boolean> {
+  const deleted = await db('budgets').where({ id, userId }).delete();
+  return deleted > 0;
+}
+
+// Spent vs. limit for every budget that applies to a month. A budget set for that specific
+// month takes precedence over a recurring one for the same category.
+export async function getBudgetSummary(userId: number, month: string): Promise<BudgetSummary> {
+  const { startDate, endDate, daysInMonth } = monthRange(month);
+
+  const budgets: BudgetWithCategory[] = await withCategory(db('budgets'))
+    .where('budgets.userId', userId)
+    .where((q) => q.where('budgets.month', month).orWhereNull('budgets.month'))
+    .orderBy('categories.sortOrder');
+
+  const applicable = new Map<number | null, BudgetWithCategory>();
+  for (const budget of budgets) {
+    const current = applicable.get(budget.categoryId);
+    if (!current || (current.month === null && budget.month !== null)) {
+      applicable.set(budget.categoryId, budget);
+    }
+  }
+
+  // Budgets are in the base currency; expenses without an exchange rate do not count towards them
+  const baseCurrency = await getBaseCurrency(userId);
+  const spentRows: { categoryId: number; total: number }[] = await db('expenses')
+    .where('userId', userId)
+    .whereBetween('date', [startDate, endDate])
+    .groupBy('categoryId')
+    .select('categoryId', db.raw('sum(?) as total', [convertedAmount(baseCurrency)]));
+
+  const spentByCategory = new Map(spentRows.map((r) => [r.categoryId, Number(r.total) || 0]));
+  const totalSpent = spentRows.reduce((sum, r) => sum + (Number(r.total) || 0), 0);
+
+  // Linear projection to month end, only meaningful for the month in progress
+  const today = new Date().toISOString().split('T')[0];
+  const daysElapsed =
+    today >= startDate && today <= endDate ? Number(today.slice(8, 10)) : null;
+
+  const toProgress = (budget: BudgetWithCategory, spent: number): BudgetProgress => {
+    const limit = Number(budget.amount);
+    const projected = daysElapsed ? (spent / daysElapsed) * daysInMonth : spent;
+
+    let status: BudgetStatus = 'ok';
+    if (spent > limit) {
+      status = 'over';
+    } else if (projected > limit) {
+      status = 'projected-over';
+    }
+
+    return {
+      budgetId: budget.id,
+      categoryId: budget.categoryId,
+      categoryName: budget.categoryName,
+      categoryIcon: budget.categoryIcon,
+      limit,
+      spent: roundCents(spent),
+      remaining: roundCents(limit - spent),
+      percentUsed: limit > 0 ? roundCents((spent / limit) * 100) : 0,
+      projected: roundCents(projected),
+      status,
+    };
+  };
+
+  const overallBudget = applicable.get(null);
+  applicable.delete(null);
+
+  return {
+    month,
+    overall: overallBudget ? toProgress(overallBudget, totalSpent) : null,
+    categories: [...applicable.values()].map((budget) =>
+      toProgress(budget, spentByCategory.get(budget.categoryId!) || 0)
+    ),
+  };
+}
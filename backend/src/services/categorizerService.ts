@@ -0,0 +1,226 @@
+import db from '../db/knex.js';
+import logger from '../logger.js';
+import { listCategories } from './categoryService.js';
+import type { CategorySuggestion } from '../types/index.js';
+
+// Words bank statements add to descriptions that say nothing about what was bought
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'from', 'with', 'at', 'to', 'of',
+  'pos', 'card', 'payment', 'purchase', 'debit', 'credit', 'visa', 'mastercard', 'contactless',
+  'www', 'com', 'ltd', 'inc', 'llc',
+]);
+
+// A merchant is named by the first words of a description, before references and locations
+const MERCHANT_WORDS = 2;
+
+// Shorter words are mostly abbreviations shared by unrelated merchants
+const MIN_KEYWORD_LENGTH = 3;
+
+// A merchant identifies the category more reliably than any one word of the description
+const MERCHANT_WEIGHT = 3;
+
+// A correction counts as this many expenses, so one fix outweighs a few older ones
+const FEEDBACK_WEIGHT = 5;
+
+// Weaker suggestions are left out rather than offered as a guess
+const MIN_CONFIDENCE = 0.3;
+
+// Rows per insert statement, keeping the bound parameters under SQLite's limit
+const FEEDBACK_CHUNK_SIZE = 50;
+
+// Users whose tallies are kept in memory; the least recently used are dropped first
+const MAX_CACHED_USERS = 100;
+
+// categoryId -> weight of the expenses behind it
+type Tally = Map<number, number>;
+
+// What a user's expenses and corrections say about each merchant and word
+interface Evidence {
+  categoryIds: string; // the categories the tallies were counted against
+  merchants: Map<string, Tally>;
+  words: Map<string, Tally>;
+  corrections: Map<string, Tally>;
+}
+
+export interface CategoryModel {
+  suggest: (description: string) => CategorySuggestion | null;
+}
+
+interface FeedbackEntry {
+  description: string | null;
+  categoryId: number | null;
+}
+
+// Letters only: amounts, dates, card and reference numbers differ between visits to the same shop
+function descriptionWords(description: string): string[] {
+  return description
+    .toLowerCase()
+    .replace(/[^\p{L}]+/gu, ' ')
+    .split(' ')
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+function merchantKey(description: string): string | null {
+  const words = descriptionWords(description).slice(0, MERCHANT_WORDS);
+  return words.length > 0 ? words.join(' ') : null;
+}
+
+function keywords(description: string): string[] {
+  return [...new Set(descriptionWords(description).filter(word => word.length >= MIN_KEYWORD_LENGTH))];
+}
+
+function addToTally(index: Map<string, Tally>, key: string, categoryId: number, weight: number): void {
+  const tally = index.get(key) ?? new Map<number, number>();
+  tally.set(categoryId, (tally.get(categoryId) ?? 0) + weight);
+  index.set(key, tally);
+}
+
+// Tallies are cached per user until invalidateCategoryModel is called for them. Deleting a
+// category moves its expenses to another one, so a changed category list rebuilds them too.
+const evidenceCache = new Map<number, Evidence>();
+// Bumped on every invalidation, so tallies counted while a write happened are not cached
+const generations = new Map<number, number>();
+
+// Call after any write that adds, removes or recategorizes a user's expenses
+export function invalidateCategoryModel(userId: number): void {
+  evidenceCache.delete(userId);
+  generations.set(userId, (generations.get(userId) ?? 0) + 1);
+}
+
+async function loadEvidence(userId: number, categoryIds: string): Promise<Evidence> {
+  const cached = evidenceCache.get(userId);
+  if (cached && cached.categoryIds === categoryIds) {
+    // Moved to the end, so the first entry is always the least recently used
+    evidenceCache.delete(userId);
+    evidenceCache.set(userId, cached);
+    return cached;
+  }
+
+  const generation = generations.get(userId) ?? 0;
+  const expenses: { description: string; categoryId: number }[] = await db('expenses')
+    .where({ userId })
+    .select('description', 'categoryId');
+  const feedback: { merchant: string; description: string; categoryId: number }[] = await db('category_feedback')
+    .where({ userId })
+    .select('merchant', 'description', 'categoryId');
+
+  const merchants = new Map<string, Tally>();
+  const words = new Map<string, Tally>();
+  for (const expense of expenses) {
+    const merchant = merchantKey(expense.description);
+    if (merchant) {
+      addToTally(merchants, merchant, expense.categoryId, 1);
+    }
+    for (const word of keywords(expense.description)) {
+      addToTally(words, word, expense.categoryId, 1);
+    }
+  }
+
+  // A correction settles its merchant outright, whatever the older expenses say
+  const corrections = new Map<string, Tally>();
+  for (const entry of feedback) {
+    corrections.set(entry.merchant, new Map([[entry.categoryId, FEEDBACK_WEIGHT]]));
+    for (const word of keywords(entry.description)) {
+      addToTally(words, word, entry.categoryId, FEEDBACK_WEIGHT);
+    }
+  }
+
+  const evidence = { categoryIds, merchants, words, corrections };
+  if ((generations.get(userId) ?? 0) === generation) {
+    evidenceCache.delete(userId);
+    if (evidenceCache.size >= MAX_CACHED_USERS) {
+      evidenceCache.delete(evidenceCache.keys().next().value!);
+    }
+    evidenceCache.set(userId, evidence);
+  }
+  return evidence;
+}
+
+// Build the user's model from their expenses and corrections. Load it once per batch of rows.
+export async function loadCategoryModel(userId: number): Promise<CategoryModel> {
+  const categories = new Map((await listCategories(userId)).map(c => [c.id, c]));
+  const { merchants, words, corrections } = await loadEvidence(userId, [...categories.keys()].sort().join(','));
+
+  const suggest = (description: string): CategorySuggestion | null => {
+    const votes = new Map<number, number>();
+    const support = new Map<number, number>();
+    let totalWeight = 0;
+
+    // Each piece of evidence splits its weight by how often it was seen with each category
+    const vote = (tally: Tally | undefined, weight: number) => {
+      if (!tally) return;
+      let seen = 0;
+      for (const count of tally.values()) seen += count;
+      for (const [categoryId, count] of tally) {
+        votes.set(categoryId, (votes.get(categoryId) ?? 0) + (weight * count) / seen);
+        support.set(categoryId, (support.get(categoryId) ?? 0) + count);
+      }
+      totalWeight += weight;
+    };
+
+    const merchant = merchantKey(description);
+    if (merchant) {
+      vote(corrections.get(merchant) ?? merchants.get(merchant), MERCHANT_WEIGHT);
+    }
+    for (const word of keywords(description)) {
+      vote(words.get(word), 1);
+    }
+
+    let best: number | null = null;
+    for (const [categoryId, score] of votes) {
+      // Categories deleted since still have their old expenses' votes
+      if (categories.has(categoryId) && (best === null || score > votes.get(best)!)) {
+        best = categoryId;
+      }
+    }
+    if (best === null) return null;
+
+    // The share of the vote, discounted while only a few expenses back it up
+    const backing = support.get(best)!;
+    const confidence = (votes.get(best)! / totalWeight) * (backing / (backing + 1));
+    if (confidence < MIN_CONFIDENCE) return null;
+
+    return {
+      categoryId: best,
+      category: categories.get(best)!.name,
+      confidence: Math.round(confidence * 100) / 100,
+    };
+  };
+
+  return { suggest };
+}
+
+export async function suggestCategory(userId: number, description: string): Promise<CategorySuggestion | null> {
+  const model = await loadCategoryModel(userId);
+  return model.suggest(description);
+}
+
+// Remember the categories a user chose, so the next suggestion for the merchant follows them
+export async function recordCategoryFeedback(userId: number, entries: FeedbackEntry[]): Promise<void> {
+  // One choice per merchant; a later entry replaces an earlier one
+  const byMerchant = new Map<string, { description: string; categoryId: number }>();
+  for (const { description, categoryId } of entries) {
+    const merchant = description ? merchantKey(description) : null;
+    if (merchant && categoryId) {
+      byMerchant.set(merchant, { description: description!, categoryId });
+    }
+  }
+  if (byMerchant.size === 0) return;
+
+  const rows = [...byMerchant].map(([merchant, { description, categoryId }]) => ({
+    userId,
+    merchant,
+    description,
+    categoryId,
+    updatedAt: db.fn.now(),
+  }));
+  for (let i = 0; i < rows.length; i += FEEDBACK_CHUNK_SIZE) {
+    await db('category_feedback')
+      .insert(rows.slice(i, i + FEEDBACK_CHUNK_SIZE))
+      .onConflict(['userId', 'merchant'])
+      .merge(['description', 'categoryId', 'updatedAt']);
+  }
+  invalidateCategoryModel(userId);
+
+  logger.info({ userId, merchantCount: rows.length }, 'Category feedback recorded');
+}
@@ -0,0 +1,145 @@
+import type { Knex } from 'knex';
+import db from '../db/knex.js';
+import logger from '../logger.js';
+import type { Category } from '../types/index.js';
+
+interface CreateCategoryParams {
+  userId: number;
+  name: string;
+  icon: string;
+}
+
+interface UpdateCategoryParams {
+  name?: string;
+  icon?: string;
+}
+
+// Categories visible to a user: the global defaults plus their own
+function visibleTo(query: Knex.QueryBuilder, userId: number): Knex.QueryBuilder {
+  return query.where((q) => q.whereNull('categories.userId').orWhere('categories.userId', userId));
+}
+
+async function assertNameAvailable(userId: number, name: string, excludeId?: number): Promise<void> {
+  const query = visibleTo(db('categories'), userId).whereRaw('lower(name) = ?', [name.trim().toLowerCase()]);
+  if (excludeId) {
+    query.whereNot('id', excludeId);
+  }
+
+  const existing = await query.first();
+  if (existing) {
+    throw new Error('Category name already exists');
+  }
+}
+
+export async function listCategories(userId: number): Promise<Category[]> {
+  return visibleTo(db('categories'), userId)
+    .select<Category[]>('*')
+    .orderByRaw('userId IS NOT NULL')
+    .orderBy('sortOrder')
+    .orderBy('id');
+}
+
+export async function getCategory(id: number, userId: number): Promise<Category | null> {
+  const category = await visibleTo(db('categories'), userId).where({ id }).first<Category>();
+  return category || null;
+}
+
+export async function createCategory({ userId, name, icon }: CreateCategoryParams): Promise<Category> {
+  await assertNameAvailable(userId, name);
+
+  const last = await db('categories').where({ userId }).max('sortOrder as maxOrder').first();
+  const sortOrder = (Number(last?.maxOrder) || 0) + 1;
+
+  const [id] = await db('categories').insert({ userId, name: name.trim(), icon, sortOrder });
+  logger.info({ userId, categoryId: id }, 'Category created');
+
+  const category = await db('categories').where({ id }).first<Category>();
+  return category!;
+}
+
+export async function updateCategory(
+  id: number,
+  userId: number,
+  params: UpdateCategoryParams
+): Promise<Category | null> {
+  const existing = await getCategory(id, userId);
+  if (!existing) return null;
+
+  if (existing.userId === null) {
+    throw new Error('Default categories cannot be modified');
+  }
+
+  if (params.name !== undefined) {
+    await assertNameAvailable(userId, params.name, id);
+  }
+
+  await db('categories')
+    .where({ id, userId })
+    .update({ ...params, ...(params.name !== undefined && { name: params.name.trim() }) });
+
+  logger.info({ userId, categoryId: id }, 'Category updated');
+
+  const category = await db('categories').where({ id }).first<Category>();
+  return category!;
+}
+
+// Set the order of the user's own categories; ids not listed keep their relative order after these
+export async function reorderCategories(userId: number, orderedIds: number[]): Promise<Category[]> {
+  const owned = await db('categories').where({ userId }).orderBy('sortOrder').orderBy('id').pluck('id');
+  const ownedSet = new Set<number>(owned);
+
+  if (orderedIds.some((id) => !ownedSet.has(id))) {
+    throw new Error('Only custom categories can be reordered');
+  }
+
+  const remaining = owned.filter((id: number) => !orderedIds.includes(id));
+  const finalOrder = [...new Set(orderedIds), ...remaining];
+
+  await db.transaction(async (trx) => {
+    for (let i = 0; i < finalOrder.length; i++) {
+      await trx('categories').where({ id: finalOrder[i], userId }).update({ sortOrder: i + 1 });
+    }
+  });
+
+  logger.info({ userId, count: finalOrder.length }, 'Categories reordered');
+
+  return listCategories(userId);
+}
+
+// Delete a custom category. If anything still references it, reassignTo must name
+// another category visible to the user and those rows are moved there first.
+export async function deleteCategory(id: number, userId: number, reassignTo?: number): Promise<boolean> {
+  const existing = await getCategory(id, userId);
+  if (!existing) return false;
+
+  if (existing.userId === null) {
+    throw new Error('Default categories cannot be modified');
+  }
+
+  const usage = await db('expenses').where({ categoryId: id }).count('id as count').first();
+  const ruleUsage = await db('recurring_expenses').where({ categoryId: id }).count('id as count').first();
+  const inUse = Number(usage?.count) > 0 || Number(ruleUsage?.count) > 0;
+
+  if (inUse) {
+    if (reassignTo === undefined) {
+      throw new Error('Category has expenses; a reassignment target is required');
+    }
+    if (reassignTo === id || !(await getCategory(reassignTo, userId))) {
+      throw new Error('Invalid reassignment target');
+    }
+  }
+
+  await db.transaction(async (trx) => {
+    if (inUse) {
+      await trx('expenses').where({ categoryId: id, userId }).update({ categoryId: reassignTo });
+      await trx('recurring_expenses').where({ categoryId: id, userId }).update({ categoryId: reassignTo });
+    }
+    // Budgets are per category, so they go with it rather than being merged into the target
+    await trx('budgets').where({ categoryId: id, userId }).delete();
+    await trx('categories').where({ id, userId }).delete();
+  });
+
+  logger.info({ userId, categoryId: id, reassignTo }, 'Category deleted');
+
+  return true;
+}
@@ -0,0 +1,206 @@
+// RFC 4180 CSV tokenizer. Input is consumed character by character as a sequence of chunks,
+// so quoted fields may span lines and chunk boundaries. Structural problems are reported on
+// the record they affect instead of shifting the remaining columns.
+
+export interface CsvRecord {
+  fields: string[];
+  line: number; // line the record starts on, 1-based
+  errors: string[];
+}
+
+type State = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted' | 'afterQuoted';
+
+const DELIMITERS = [',', ';', '\t'];
+
+// Records looked at when detecting the delimiter
+const DETECTION_SAMPLE_SIZE = 20;
+
+// Spreadsheet apps run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function* tokenizeCsv(chunks: Iterable<string>, delimiter: string): Generator<CsvRecord> {
+  let state: State = 'fieldStart';
+  let fields: string[] = [];
+  let field = '';
+  let fieldQuoted = false;
+  let errors: string[] = [];
+  let line = 1;
+  let recordLine = 1;
+  let atStart = true;
+  let pendingCarriageReturn = false;
+  let expectedFields: number | null = null;
+
+  const endField = () => {
+    fields.push(fieldQuoted ? field : field.trim());
+    field = '';
+    fieldQuoted = false;
+    state = 'fieldStart';
+  };
+
+  // Returns the finished record, or null for a blank line
+  const endRecord = (): CsvRecord | null => {
+    const blank = fields.length === 0 && field.trim() === '' && !fieldQuoted;
+    let record: CsvRecord | null = null;
+
+    if (!blank) {
+      endField();
+      record = { fields, line: recordLine, errors };
+
+      // Trailing delimiters leave empty fields at the end of the line
+      if (expectedFields === null) {
+        while (fields.length > 1 && fields[fields.length - 1] === '') fields.pop();
+        expectedFields = fields.length;
+      } else {
+        while (fields.length > expectedFields && fields[fields.length - 1] === '') fields.pop();
+        if (fields.length !== expectedFields) {
+          errors.push(`Expected ${expectedFields} fields but found ${fields.length}`);
+          while (fields.length < expectedFields) fields.push('');
+        }
+      }
+    }
+
+    fields = [];
+    field = '';
+    fieldQuoted = false;
+    errors = [];
+    state = 'fieldStart';
+    return record;
+  };
+
+  for (const chunk of chunks) {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (atStart) {
+        atStart = false;
+        if (char === '﻿') continue; // byte order mark
+      }
+
+      if (pendingCarriageReturn) {
+        pendingCarriageReturn = false;
+        if (char === '\n') continue;
+      }
+
+      if (state === 'quoted') {
+        if (char === '"') {
+          state = 'quoteInQuoted';
+        } else {
+          field += char;
+          if (char === '\n') line++;
+        }
+        continue;
+      }
+
+      if (state === 'quoteInQuoted') {
+        if (char === '"') {
+          // Escaped quote
+          field += '"';
+          state = 'quoted';
+          continue;
+        }
+        state = 'afterQuoted';
+      }
+
+      if (char === '\n' || char === '\r') {
+        const record = endRecord();
+        if (record) yield record;
+        line++;
+        recordLine = line;
+        pendingCarriageReturn = char === '\r';
+        continue;
+      }
+
+      if (char === delimiter) {
+        endField();
+        continue;
+      }
+
+      switch (state) {
+        case 'fieldStart':
+          if (char === '"') {
+            state = 'quoted';
+            fieldQuoted = true;
+          } else if (char !== ' ') {
+            field += char;
+            state = 'unquoted';
+          }
+          break;
+        case 'unquoted':
+          field += char;
+          break;
+        case 'afterQuoted':
+          if (char !== ' ') {
+            if (!errors.includes('Unexpected character after closing quote')) {
+              errors.push('Unexpected character after closing quote');
+            }
+            field += char;
+          }
+          break;
+      }
+    }
+  }
+
+  if (state === 'quoted') {
+    errors.push('Quoted field is never closed');
+  }
+  const record = endRecord();
+  if (record) yield record;
+}
+
+export function parseCsv(content: string, delimiter: string): CsvRecord[] {
+  return [...tokenizeCsv([content], delimiter)];
+}
+
+function takeRecords(content: string, delimiter: string, count: number): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  for (const record of tokenizeCsv([content], delimiter)) {
+    records.push(record);
+    if (records.length === count) break;
+  }
+  return records;
+}
+
+// The delimiter that splits the first records into the most consistent, widest rows.
+// Delimiters inside quoted fields are not counted.
+export function detectDelimiter(content: string): string {
+  let detected = ',';
+  let bestScore = 0;
+
+  for (const delimiter of DELIMITERS) {
+    const records = takeRecords(content, delimiter, DETECTION_SAMPLE_SIZE);
+    const width = records[0]?.fields.length || 0;
+    if (width < 2) continue;
+
+    const consistent = records.filter(r => r.errors.length === 0).length;
+    const score = consistent * 1000 + width;
+    if (score > bestScore) {
+      bestScore = score;
+      detected = delimiter;
+    }
+  }
+
+  return detected;
+}
+
+// Quote a CSV field when it contains a delimiter, quote or line break (RFC 4180)
+function escapeCsvField(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+export function csvLine(fields: string[]): string {
+  return fields.map(escapeCsvField).join(',') + '\r\n';
+}
+
+// Text that opens as text in a spreadsheet: a leading apostrophe stops it being read as a
+// formula. Text already starting with apostrophes before a formula character gets one more,
+// so unescapeFormula gives back exactly what was written.
+export function escapeFormula(value: string): string {
+  return FORMULA_PREFIX.test(value.replace(/^'+/, '')) ? `'${value}` : value;
+}
+
+export function unescapeFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.replace(/^'+/, '')) ? value.slice(1) : value;
+}
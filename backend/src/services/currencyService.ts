@@ -0,0 +1,239 @@
+import type { Knex } from 'knex';
+import db from '../db/knex.js';
+import logger from '../logger.js';
+import { detectDelimiter, parseCsv } from './csvParser.js';
+import type {
+  CurrencySettings,
+  ExchangeRate,
+  RateCurrencySummary,
+  RateImportError,
+  RateImportResult,
+} from '../types/index.js';
+
+// ISO 4217 codes as stored; input is trimmed and uppercased first
+export const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+// Rates per insert statement, keeping the bound parameters under SQLite's limit
+const INSERT_CHUNK_SIZE = 100;
+
+interface SaveRateParams {
+  currency: string;
+  date: string;
+  rate: number;
+}
+
+interface ListRatesParams {
+  currency?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export function normalizeCurrency(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function toExchangeRate(row: ExchangeRate): ExchangeRate {
+  return { ...row, rate: Number(row.rate) };
+}
+
+export async function getBaseCurrency(userId: number, conn: Knex = db): Promise<string> {
+  const user = await conn('users').where({ id: userId }).first<{ baseCurrency: string }>('baseCurrency');
+  return user?.baseCurrency ?? 'USD';
+}
+
+export async function getSettings(userId: number): Promise<CurrencySettings> {
+  return { baseCurrency: await getBaseCurrency(userId) };
+}
+
+// Existing expenses keep their own currency; totals switch to the new base currency and
+// use the rates entered for it
+export async function updateSettings(userId: number, settings: CurrencySettings): Promise<CurrencySettings> {
+  const baseCurrency = normalizeCurrency(settings.baseCurrency);
+  await db('users').where({ id: userId }).update({ baseCurrency });
+  logger.info({ userId, baseCurrency }, 'Base currency changed');
+  return { baseCurrency };
+}
+
+// SQL for an expense's amount in the base currency: the amount itself in the base currency,
+// otherwise converted with the latest rate on or before the expense date, or the earliest
+// rate after it for expenses older than the first rate. Null when the currency has no rates.
+// Only valid in queries on the expenses table.
+export function convertedAmount(baseCurrency: string): Knex.Raw {
+  const rateQuery = (onOrBefore: boolean) => `
+    select r.rate from exchange_rates r
+    where r.userId = expenses.userId and r.baseCurrency = ? and r.currency = expenses.currency
+      and r.date ${onOrBefore ? '<=' : '>'} expenses.date
+    order by r.date ${onOrBefore ? 'desc' : 'asc'} limit 1`;
+
+  return db.raw(
+    `(case when expenses.currency = ? then expenses.amount
+      else expenses.amount * coalesce((${rateQuery(true)}), (${rateQuery(false)})) end)`,
+    [baseCurrency, baseCurrency, baseCurrency]
+  );
+}
+
+// Rates against the user's current base currency, newest first
+export async function listRates(userId: number, { currency, limit = 100, offset = 0 }: ListRatesParams = {}): Promise<ExchangeRate[]> {
+  const baseCurrency = await getBaseCurrency(userId);
+  let query = db('exchange_rates')
+    .where({ userId, baseCurrency })
+    .orderBy('date', 'desc')
+    .orderBy('currency')
+    .limit(limit)
+    .offset(offset);
+  if (currency) {
+    query = query.where('currency', normalizeCurrency(currency));
+  }
+
+  const rows: ExchangeRate[] = await query;
+  return rows.map(toExchangeRate);
+}
+
+// Every currency with rates or expenses, so currencies still missing rates stand out
+export async function listRateCurrencies(userId: number): Promise<RateCurrencySummary[]> {
+  const baseCurrency = await getBaseCurrency(userId);
+
+  const rateRows: { currency: string; rateCount: number; firstDate: string; lastDate: string }[] = await db(
+    'exchange_rates'
+  )
+    .where({ userId, baseCurrency })
+    .groupBy('currency')
+    .select('currency', db.raw('count(id) as rateCount'), db.raw('min(date) as firstDate'), db.raw('max(date) as lastDate'));
+  const expenseRows: { currency: string; expenseCount: number }[] = await db('expenses')
+    .where({ userId })
+    .whereNot('currency', baseCurrency)
+    .groupBy('currency')
+    .select('currency', db.raw('count(id) as expenseCount'));
+
+  const summaries = new Map<string, RateCurrencySummary>();
+  for (const row of rateRows) {
+    const latest = await db('exchange_rates')
+      .where({ userId, baseCurrency, currency: row.currency, date: row.lastDate })
+      .first<{ rate: number }>('rate');
+    summaries.set(row.currency, {
+      currency: row.currency,
+      rateCount: Number(row.rateCount),
+      firstDate: row.firstDate,
+      lastDate: row.lastDate,
+      latestRate: latest ? Number(latest.rate) : null,
+      expenseCount: 0,
+    });
+  }
+  for (const row of expenseRows) {
+    const summary = summaries.get(row.currency) ?? {
+      currency: row.currency,
+      rateCount: 0,
+      firstDate: null,
+      lastDate: null,
+      latestRate: null,
+      expenseCount: 0,
+    };
+    summary.expenseCount = Number(row.expenseCount);
+    summaries.set(row.currency, summary);
+  }
+
+  return [...summaries.values()].sort((a, b) => a.currency.localeCompare(b.currency));
+}
+
+function assertForeignCurrency(currency: string, baseCurrency: string): void {
+  if (currency === baseCurrency) {
+    throw new Error('Rates are for currencies other than the base currency');
+  }
+}
+
+// Save a rate against the base currency; a rate for the same currency and day is replaced
+export async function saveRate(userId: number, params: SaveRateParams): Promise<ExchangeRate> {
+  const baseCurrency = await getBaseCurrency(userId);
+  const currency = normalizeCurrency(params.currency);
+  assertForeignCurrency(currency, baseCurrency);
+
+  await db('exchange_rates')
+    .insert({ userId, baseCurrency, currency, date: params.date, rate: params.rate })
+    .onConflict(['userId', 'baseCurrency', 'currency', 'date'])
+    .merge(['rate']);
+  logger.info({ userId, baseCurrency, currency, date: params.date }, 'Exchange rate saved');
+
+  const saved = await db('exchange_rates')
+    .where({ userId, baseCurrency, currency, date: params.date })
+    .first<ExchangeRate>();
+  return toExchangeRate(saved!);
+}
+
+export async function deleteRate(id: number, userId: number): Promise<boolean> {
+  const deleted = await db('exchange_rates').where({ id, userId }).delete();
+  return deleted > 0;
+}
+
+// YYYY-MM-DD for a real calendar date
+function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function parseRate(value: string): number | null {
+  // A decimal comma is accepted when there is no decimal point
+  const normalized = value.includes('.') ? value.replace(/,/g, '') : value.replace(',', '.');
+  const rate = Number(normalized.replace(/\s/g, ''));
+  return normalized.trim() !== '' && isFinite(rate) && rate > 0 ? rate : null;
+}
+
+// Import rates from a CSV with date, currency and rate columns (YYYY-MM-DD dates, rate as the
+// value of one unit of the currency in the base currency). Valid lines are saved, replacing
+// rates for the same day; the others are reported with their line numbers.
+export async function importRates(userId: number, csvContent: string): Promise<RateImportResult> {
+  const baseCurrency = await getBaseCurrency(userId);
+  const records = parseCsv(csvContent, detectDelimiter(csvContent));
+  if (records.length === 0) {
+    throw new Error('File is empty');
+  }
+
+  const headers = records[0].fields.map((h) => h.trim().toLowerCase());
+  const column = (names: string[]) => headers.findIndex((h) => names.includes(h));
+  const dateIndex = column(['date', 'day']);
+  const currencyIndex = column(['currency', 'code', 'symbol']);
+  const rateIndex = column(['rate', 'value', 'price']);
+  if (dateIndex === -1 || currencyIndex === -1 || rateIndex === -1) {
+    throw new Error('Rates file needs date, currency and rate columns');
+  }
+
+  const errors: RateImportError[] = [];
+  const rates = new Map<string, { userId: number; baseCurrency: string; currency: string; date: string; rate: number }>();
+
+  for (const record of records.slice(1)) {
+    const fail = (message: string) => errors.push({ line: record.line, message });
+    if (record.errors.length > 0) {
+      fail(record.errors[0]);
+      continue;
+    }
+
+    const date = (record.fields[dateIndex] || '').trim();
+    const currency = normalizeCurrency(record.fields[currencyIndex] || '');
+    const rate = parseRate(record.fields[rateIndex] || '');
+    if (!isIsoDate(date)) {
+      fail('Date must be in YYYY-MM-DD format');
+    } else if (!CURRENCY_CODE.test(currency)) {
+      fail('Currency must be a three-letter code such as EUR');
+    } else if (currency === baseCurrency) {
+      fail('Rates are for currencies other than the base currency');
+    } else if (rate === null) {
+      fail('Rate must be a positive number');
+    } else {
+      // A later line for the same day wins
+      rates.set(`${currency}|${date}`, { userId, baseCurrency, currency, date, rate });
+    }
+  }
+
+  const rows = [...rates.values()];
+  await db.transaction(async (trx) => {
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      await trx('exchange_rates')
+        .insert(rows.slice(i, i + INSERT_CHUNK_SIZE))
+        .onConflict(['userId', 'baseCurrency', 'currency', 'date'])
+        .merge(['rate']);
+    }
+  });
+
+  logger.info({ userId, baseCurrency, importedCount: rows.length, errorCount: errors.length }, 'Exchange rates imported');
+  return { importedCount: rows.length, errors };
+}
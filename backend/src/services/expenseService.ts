@@ -1,28 +1,101 @@
 import db from '../db/knex.js';
-import type { Expense, ExpenseWithCategory } from '../types/index.js';
+import { getCategory } from './categoryService.js';
+import { invalidateCategoryModel, recordCategoryFeedback, suggestCategory } from './categorizerService.js';
+import { loadRuleSet } from './ruleService.js';
+import { attachmentHashes, removeUnusedFiles } from './attachmentService.js';
+import { convertedAmount, getBaseCurrency } from './currencyService.js';
+import { addExpenseTags, expensesWithTag, getExpenseTags, setExpenseTags } from './tagService.js';
+import type { Knex } from 'knex';
+import type {
+  Expense,
+  ExpenseWithCategory,
+  ExpenseWithTags,
+  ExpenseStats,
+  MonthlyTotal,
+  StatsInterval,
+  SpendingAggregate,
+} from '../types/index.js';
 
 interface CreateExpenseParams {
   userId: number;
   categoryId: number;
   amount: number;
+  currency?: string; // the user's base currency when left out
   description: string;
   date: string;
+  tags?: string[];
 }
 
 interface UpdateExpenseParams {
   categoryId?: number;
   amount?: number;
+  currency?: string;
   description?: string;
   date?: string;
+  tags?: string[]; // replaces the expense's tags
 }
 
-interface ListExpensesParams {
+export interface ExpenseFilters {
   userId: number;
+  startDate?: string;
+  endDate?: string;
+  search?: string;
+  categoryId?: number;
+  tag?: string;
+}
+
+interface ListExpensesParams extends ExpenseFilters {
   limit?: number;
   offset?: number;
+}
+
+interface ExpenseStatsParams {
+  userId: number;
   startDate?: string;
   endDate?: string;
-  search?: string;
+  categoryId?: number;
+  tag?: string;
+  interval?: StatsInterval;
+}
+
+interface AggregateRow {
+  total: number | null;
+  count: number | null;
+}
+
+interface CategoryAggregateRow extends AggregateRow {
+  categoryId: number;
+  categoryName: string;
+  categoryIcon: string;
+}
+
+interface TagAggregateRow extends AggregateRow {
+  tag: string;
+}
+
+interface PeriodAggregateRow extends AggregateRow {
+  period: string;
+}
+
+interface PeriodCategoryAggregateRow extends PeriodAggregateRow {
+  categoryId: number;
+}
+
+// SQLite expressions that bucket expenses.date into a period key
+const PERIOD_EXPRESSIONS: Record<StatsInterval, string> = {
+  day: "strftime('%Y-%m-%d', expenses.date)",
+  week: "date(expenses.date, 'weekday 0', '-6 days')",
+  month: "strftime('%Y-%m', expenses.date)",
+};
+
+// Correlated count for the expense list, so the paperclip shows without fetching each expense's files
+function attachmentCount(): Knex.QueryBuilder {
+  return db('attachments').whereRaw('"attachments"."expenseId" = "expenses"."id"').count('*').as('attachmentCount');
+}
+
+async function withTags<T extends Expense>(expenses: T[]): Promise<(T & { tags: string[] })[]> {
+  const tagsByExpense = await getExpenseTags(expenses.map(e => e.id));
+  return expenses.map(expense => ({ ...expense, tags: tagsByExpense.get(expense.id) ?? [] }));
 }
 
 export async function listExpenses({
@@ -32,16 +105,20 @@ export async function listExpenses({
   startDate,
   endDate,
   search,
+  categoryId,
+  tag,
 }: ListExpensesParams): Promise<ExpenseWithCategory[]> {
   let query = db('expenses')
     .join('categories', 'expenses.categoryId', 'categories.id')
     .select(
       'expenses.*',
       'categories.name as categoryName',
-      'categories.icon as categoryIcon'
+      'categories.icon as categoryIcon',
+      attachmentCount()
     )
     .where('expenses.userId', userId)
     .orderBy('expenses.date', 'desc')
+    .orderBy('expenses.id', 'desc')
     .limit(limit)
     .offset(offset);
 
@@ -54,8 +131,14 @@ export async function listExpenses({
   if (search) {
     query = query.where('expenses.description', 'like', `%${search}%`);
   }
+  if (categoryId) {
+    query = query.where('expenses.categoryId', categoryId);
+  }
+  if (tag) {
+    query = query.whereIn('expenses.id', expensesWithTag(userId, tag));
+  }
 
-  return query;
+  return withTags(await query);
 }
 
 export async function getExpense(id: number, userId: number): Promise<ExpenseWithCategory | null> {
@@ -64,48 +147,219 @@ export async function getExpense(id: number, userId: number): Promise<ExpenseWit
     .select(
       'expenses.*',
       'categories.name as categoryName',
-      'categories.icon as categoryIcon'
+      'categories.icon as categoryIcon',
+      attachmentCount()
     )
     .where('expenses.id', id)
     .where('expenses.userId', userId)
     .first();
+  if (!expense) return null;
 
-  return expense || null;
+  const [tagged] = await withTags([expense]);
+  return tagged;
 }
 
-export async function createExpense(params: CreateExpenseParams): Promise<Expense> {
-  const [id] = await db('expenses').insert(params);
-  const expense = await db('expenses').where({ id }).first<Expense>();
-  return expense!;
+export async function createExpense(params: CreateExpenseParams): Promise<ExpenseWithTags> {
+  if (!(await getCategory(params.categoryId, params.userId))) {
+    throw new Error('Category not found');
+  }
+
+  const { tags = [], ...fields } = params;
+  const rules = await loadRuleSet(params.userId);
+  const outcome = rules.apply(fields);
+  const values = {
+    ...fields,
+    currency: fields.currency ?? (await getBaseCurrency(params.userId)),
+    categoryId: outcome.categoryId ?? fields.categoryId,
+    description: outcome.description ?? fields.description,
+  };
+
+  // Asked before the expense is added, as it would otherwise count towards its own suggestion
+  const suggestion = outcome.categoryId === null ? await suggestCategory(params.userId, values.description) : null;
+
+  const id = await db.transaction(async (trx) => {
+    const [expenseId] = await trx('expenses').insert(values);
+    await addExpenseTags(params.userId, [{ expenseId, tags: [...tags, ...outcome.tags] }], trx);
+    return expenseId;
+  });
+  invalidateCategoryModel(params.userId);
+  // A category chosen over the suggestion is what suggestions for this merchant should offer
+  // next; keeping the suggestion needs no correction, and one set by a rule was not the user's choice
+  if (outcome.categoryId === null && suggestion?.categoryId !== values.categoryId) {
+    await recordCategoryFeedback(params.userId, [values]);
+  }
+  const [expense] = await withTags([(await db('expenses').where({ id }).first<Expense>())!]);
+  return expense;
 }
 
 export async function updateExpense(
   id: number,
   userId: number,
   params: UpdateExpenseParams
-): Promise<Expense | null> {
+): Promise<ExpenseWithTags | null> {
   const existing = await db('expenses').where({ id, userId }).first();
   if (!existing) return null;
 
-  await db('expenses').where({ id, userId }).update(params);
-  const expense = await db('expenses').where({ id }).first<Expense>();
-  return expense!;
+  if (params.categoryId !== undefined && !(await getCategory(params.categoryId, userId))) {
+    throw new Error('Category not found');
+  }
+
+  const { tags, ...fields } = params;
+  await db.transaction(async (trx) => {
+    await trx('expenses').where({ id, userId }).update({ ...fields, updatedAt: db.fn.now() });
+    if (tags) {
+      await setExpenseTags(userId, id, tags, trx);
+    }
+  });
+  invalidateCategoryModel(userId);
+  if (params.categoryId !== undefined && params.categoryId !== existing.categoryId) {
+    await recordCategoryFeedback(userId, [
+      { description: params.description ?? existing.description, categoryId: params.categoryId },
+    ]);
+  }
+  const [expense] = await withTags([(await db('expenses').where({ id }).first<Expense>())!]);
+  return expense;
 }
 
 export async function deleteExpense(id: number, userId: number): Promise<boolean> {
+  // Attachment rows go with the expense; their files are removed once nothing else uses them
+  const hashes = await attachmentHashes(userId, [id]);
   const deleted = await db('expenses').where({ id, userId }).delete();
+  if (deleted > 0) {
+    await removeUnusedFiles(hashes);
+    invalidateCategoryModel(userId);
+  }
   return deleted > 0;
 }
 
-export async function getMonthlyTotal(userId: number, year: number, month: number): Promise<number> {
+// A month's spending in the base currency
+export async function getMonthlyTotal(userId: number, year: number, month: number): Promise<MonthlyTotal> {
   const startDate = `${year}-${String(month).padStart(2, '0')}-01`;
   const endDate = new Date(year, month, 0).toISOString().split('T')[0];
+  const currency = await getBaseCurrency(userId);
+  const converted = convertedAmount(currency);
 
-  const result = await db('expenses')
+  const result: { total: number | null; unconvertedCount: number | null } | undefined = await db('expenses')
     .where('userId', userId)
     .whereBetween('date', [startDate, endDate])
-    .sum('amount as total')
+    .select(
+      db.raw('sum(?) as total', [converted]),
+      db.raw('count(expenses.id) - count(?) as unconvertedCount', [converted])
+    )
     .first();
 
-  return Number(result?.total) || 0;
+  return {
+    total: roundCents(Number(result?.total) || 0),
+    currency,
+    unconvertedCount: Number(result?.unconvertedCount) || 0,
+  };
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toAggregate(row: AggregateRow): SpendingAggregate {
+  const total = Number(row.total) || 0;
+  const count = Number(row.count) || 0;
+  return {
+    total: roundCents(total),
+    count,
+    average: count > 0 ? roundCents(total / count) : 0,
+  };
+}
+
+// Totals, counts and averages for a date range, overall, per category, per tag and per period
+export async function getExpenseStats({
+  userId,
+  startDate,
+  endDate,
+  categoryId,
+  tag,
+  interval = 'month',
+}: ExpenseStatsParams): Promise<ExpenseStats> {
+  const scoped = (): Knex.QueryBuilder => {
+    let query = db('expenses').where('expenses.userId', userId);
+    if (startDate) {
+      query = query.where('expenses.date', '>=', startDate);
+    }
+    if (endDate) {
+      query = query.where('expenses.date', '<=', endDate);
+    }
+    if (categoryId) {
+      query = query.where('expenses.categoryId', categoryId);
+    }
+    if (tag) {
+      query = query.whereIn('expenses.id', expensesWithTag(userId, tag));
+    }
+    return query;
+  };
+
+  // Expenses that cannot be converted are left out of every total, count and average
+  const currency = await getBaseCurrency(userId);
+  const converted = convertedAmount(currency);
+  const aggregates = [
+    db.raw('coalesce(sum(?), 0) as total', [converted]),
+    db.raw('count(?) as count', [converted]),
+  ];
+
+  const periodExpression = PERIOD_EXPRESSIONS[interval];
+
+  const [totalsRow, categoryRows, tagRows, periodRows, periodCategoryRows] = await Promise.all([
+    scoped()
+      .select(...aggregates, db.raw('count(expenses.id) - count(?) as unconvertedCount', [converted]))
+      .first<AggregateRow & { unconvertedCount: number }>(),
+    scoped()
+      .join('categories', 'expenses.categoryId', 'categories.id')
+      .select(
+        'expenses.categoryId',
+        'categories.name as categoryName',
+        'categories.icon as categoryIcon',
+        ...aggregates
+      )
+      .groupBy('expenses.categoryId', 'categories.name', 'categories.icon')
+      .orderBy('total', 'desc') as Promise<CategoryAggregateRow[]>,
+    scoped()
+      .join('expense_tags', 'expense_tags.expenseId', 'expenses.id')
+      .join('tags', 'tags.id', 'expense_tags.tagId')
+      .select('tags.name as tag', ...aggregates)
+      .groupBy('tags.name')
+      .orderBy('total', 'desc') as Promise<TagAggregateRow[]>,
+    scoped()
+      .select(db.raw(`${periodExpression} as period`), ...aggregates)
+      .groupBy('period')
+      .orderBy('period') as Promise<PeriodAggregateRow[]>,
+    scoped()
+      .select(db.raw(`${periodExpression} as period`), 'expenses.categoryId', ...aggregates)
+      .groupBy('period', 'expenses.categoryId')
+      .orderBy('period') as Promise<PeriodCategoryAggregateRow[]>,
+  ]);
+
+  return {
+    startDate: startDate || null,
+    endDate: endDate || null,
+    interval,
+    currency,
+    unconvertedCount: Number(totalsRow.unconvertedCount) || 0,
+    totals: toAggregate(totalsRow),
+    byCategory: categoryRows.map((row) => ({
+      categoryId: row.categoryId,
+      categoryName: row.categoryName,
+      categoryIcon: row.categoryIcon,
+      ...toAggregate(row),
+    })),
+    byTag: tagRows.map((row) => ({
+      tag: row.tag,
+      ...toAggregate(row),
+    })),
+    byPeriod: periodRows.map((row) => ({
+      period: row.period,
+      ...toAggregate(row),
+    })),
+    byPeriodAndCategory: periodCategoryRows.map((row) => ({
+      period: row.period,
+      categoryId: row.categoryId,
+      ...toAggregate(row),
+    })),
+  };
 }
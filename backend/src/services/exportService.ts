@@ -0,0 +1,103 @@
+import { once } from 'events';
+import type { Writable } from 'stream';
+import { listExpenses } from './expenseService.js';
+import { csvLine, escapeFormula } from './csvParser.js';
+import { qifHeader, writeQifRecord } from './qifParser.js';
+import type { ExpenseFilters } from './expenseService.js';
+import type { ExpenseWithCategory } from '../types/index.js';
+
+export type ExportFormat = 'csv' | 'qif';
+
+interface ExportFormatter {
+  contentType: string;
+  extension: string;
+  header: () => string;
+  row: (expense: ExpenseWithCategory) => string;
+}
+
+const BATCH_SIZE = 500;
+
+// Both formats re-import through the import wizard: CSV column names match its header
+// auto-mapping, and QIF goes through the QIF reader
+const FORMATTERS: Record<ExportFormat, ExportFormatter> = {
+  csv: {
+    contentType: 'text/csv; charset=utf-8',
+    extension: 'csv',
+    header: () => csvLine(['Date', 'Amount', 'Currency', 'Description', 'Category']),
+    row: (expense) =>
+      csvLine([
+        expense.date,
+        Number(expense.amount).toFixed(2),
+        expense.currency,
+        escapeFormula(expense.description),
+        escapeFormula(expense.categoryName),
+      ]),
+  },
+  // Written as a bank register, where spending is negative. QIF has no currency field, so
+  // amounts are written as entered and re-import in the base currency.
+  qif: {
+    contentType: 'application/qif; charset=utf-8',
+    extension: 'qif',
+    header: qifHeader,
+    row: (expense) =>
+      writeQifRecord({
+        date: expense.date,
+        amount: -Number(expense.amount),
+        payee: expense.description,
+        category: expense.categoryName,
+      }),
+  },
+};
+
+export function getExportFormat(format: ExportFormat): Pick<ExportFormatter, 'contentType' | 'extension'> {
+  const { contentType, extension } = FORMATTERS[format];
+  return { contentType, extension };
+}
+
+// Wait out backpressure, giving up if the client goes away before the output drains
+async function write(out: Writable, chunk: string): Promise<void> {
+  if (out.destroyed) {
+    throw new Error('Export connection closed');
+  }
+  if (out.write(chunk)) return;
+
+  const waiting = new AbortController();
+  try {
+    await Promise.race([
+      once(out, 'drain', { signal: waiting.signal }),
+      once(out, 'close', { signal: waiting.signal }),
+    ]);
+  } finally {
+    waiting.abort();
+  }
+  if (out.destroyed) {
+    throw new Error('Export connection closed');
+  }
+}
+
+// Write every expense matching the filters to the output, fetching in batches so large
+// histories are never held in memory at once. Returns the number of rows written.
+export async function streamExpenses(
+  filters: ExpenseFilters,
+  format: ExportFormat,
+  out: Writable
+): Promise<number> {
+  const formatter = FORMATTERS[format];
+  let offset = 0;
+  let written = 0;
+
+  await write(out, formatter.header());
+
+  for (;;) {
+    const batch = await listExpenses({ ...filters, limit: BATCH_SIZE, offset });
+    for (const expense of batch) {
+      await write(out, formatter.row(expense));
+    }
+
+    written += batch.length;
+    offset += BATCH_SIZE;
+    if (batch.length < BATCH_SIZE) break;
+  }
+
+  return written;
+}
@@ -0,0 +1,188 @@
+// Parsing of date and amount cells from imported files, and detection of the date and
+// number formats a column uses.
+
+import type { DateFormat, NumberFormat, DetectedColumnFormat } from '../types/index.js';
+
+// Quicken writes an apostrophe before two-digit years from 2000 on; never chosen by the user
+export type PatternFormat = Exclude<DateFormat, 'auto'> | "MM/DD'YY";
+
+// Date format patterns, tried in order when the format is 'auto'. Where two formats share a
+// pattern the first wins for ambiguous values such as 03/04/2024; detectDateFormat looks at
+// the whole column to settle it.
+const DATE_PATTERNS: { regex: RegExp; format: PatternFormat }[] = [
+  { regex: /^\d{4}-\d{1,2}-\d{1,2}$/, format: 'YYYY-MM-DD' },
+  { regex: /^\d{1,2}\/\d{1,2}\/\d{4}$/, format: 'MM/DD/YYYY' },
+  { regex: /^\d{1,2}\/\d{1,2}\/\d{4}$/, format: 'DD/MM/YYYY' },
+  { regex: /^\d{1,2}\/\d{1,2}\/\d{2}$/, format: 'MM/DD/YY' },
+  { regex: /^\d{1,2}\/\d{1,2}\/\d{2}$/, format: 'DD/MM/YY' },
+  { regex: /^\d{1,2}\/\d{1,2}'\d{2}$/, format: "MM/DD'YY" },
+  { regex: /^\d{1,2}-\d{1,2}-\d{4}$/, format: 'DD-MM-YYYY' },
+  { regex: /^\d{1,2}-\d{1,2}-\d{4}$/, format: 'MM-DD-YYYY' },
+  { regex: /^\d{1,2}\.\d{1,2}\.\d{4}$/, format: 'DD.MM.YYYY' },
+  { regex: /^\d{4}\/\d{1,2}\/\d{1,2}$/, format: 'YYYY/MM/DD' },
+];
+
+// Share of a column's non-empty values that must parse for a format to be detected
+const DETECTION_THRESHOLD = 0.8;
+
+// YYYY-MM-DD for a real calendar date, rejecting values such as 13/01 or 02/30
+function toIsoDate(year: string, month: string, day: string): string | null {
+  const iso = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const parsed = new Date(`${iso}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(iso) ? iso : null;
+}
+
+function twoDigitYear(year: string): string {
+  return `${Number(year) < 70 ? '20' : '19'}${year}`;
+}
+
+function parseDateParts(parts: string[], format: PatternFormat): string | null {
+  switch (format) {
+    case 'YYYY-MM-DD':
+    case 'YYYY/MM/DD':
+      return toIsoDate(parts[0], parts[1], parts[2]);
+    case 'MM/DD/YYYY':
+    case 'MM-DD-YYYY':
+      return toIsoDate(parts[2], parts[0], parts[1]);
+    case 'MM/DD/YY':
+      return toIsoDate(twoDigitYear(parts[2]), parts[0], parts[1]);
+    case "MM/DD'YY":
+      return toIsoDate(`20${parts[2]}`, parts[0], parts[1]);
+    case 'DD/MM/YY':
+      return toIsoDate(twoDigitYear(parts[2]), parts[1], parts[0]);
+    case 'DD/MM/YYYY':
+    case 'DD-MM-YYYY':
+    case 'DD.MM.YYYY':
+      return toIsoDate(parts[2], parts[1], parts[0]);
+  }
+}
+
+// Parse date string to YYYY-MM-DD format, optionally forcing one format
+export function parseDate(dateStr: string, dateFormat: DateFormat | PatternFormat = 'auto'): string | null {
+  if (!dateStr) return null;
+
+  const trimmed = dateStr.trim();
+  const patterns = dateFormat === 'auto' ? DATE_PATTERNS : DATE_PATTERNS.filter(p => p.format === dateFormat);
+
+  let knownShape = false;
+  for (const { regex, format } of patterns) {
+    if (regex.test(trimmed)) {
+      knownShape = true;
+      const date = parseDateParts(trimmed.split(/[-\/.']/), format);
+      if (date) return date;
+    }
+  }
+
+  // A known layout that is not a real date (e.g. 2024-02-30) must not be rolled over below
+  if (dateFormat !== 'auto' || knownShape) return null;
+
+  // Try to parse as a generic date
+  const parsed = new Date(trimmed);
+  if (!isNaN(parsed.getTime())) {
+    return parsed.toISOString().split('T')[0];
+  }
+
+  return null;
+}
+
+// The date format that parses the most values in a column, so that a single unambiguous
+// value such as 25/03/2024 decides the day/month order for the whole file
+export function detectDateFormat(values: string[]): PatternFormat | null {
+  const present = values.map(v => v.trim()).filter(Boolean);
+  if (present.length === 0) return null;
+
+  let best: PatternFormat | null = null;
+  let bestCount = 0;
+  for (const { format } of DATE_PATTERNS) {
+    const count = present.filter(v => parseDate(v, format) !== null).length;
+    if (count > bestCount) {
+      best = format;
+      bestCount = count;
+    }
+  }
+
+  return bestCount >= present.length * DETECTION_THRESHOLD ? best : null;
+}
+
+// Decide between 1,234.56 and 1.234,56 from the separators used across all values. A lone
+// separator followed by exactly three digits (1,234 or 1.234) could be either and does not count.
+export function detectNumberFormat(values: string[]): Exclude<NumberFormat, 'auto'> {
+  let point = 0;
+  let comma = 0;
+
+  for (const raw of values) {
+    const value = raw.replace(/[^\d.,]/g, '');
+    const lastPoint = value.lastIndexOf('.');
+    const lastComma = value.lastIndexOf(',');
+
+    if (lastPoint !== -1 && lastComma !== -1) {
+      if (lastComma > lastPoint) comma++;
+      else point++;
+      continue;
+    }
+
+    const separator = lastPoint !== -1 ? '.' : lastComma !== -1 ? ',' : null;
+    if (!separator) continue;
+
+    const repeated = value.split(separator).length > 2;
+    const decimals = value.length - value.lastIndexOf(separator) - 1;
+    if (repeated) {
+      // Only thousands separators repeat
+      if (separator === '.') comma++;
+      else point++;
+    } else if (decimals !== 3) {
+      if (separator === '.') point++;
+      else comma++;
+    }
+  }
+
+  return comma > point ? '1.234,56' : '1,234.56';
+}
+
+// Parse amount string to number
+export function parseAmount(amountStr: string, numberFormat: NumberFormat = 'auto'): number | null {
+  if (!amountStr) return null;
+
+  // Remove currency symbols, whitespace and apostrophes (Swiss thousands separator)
+  const cleaned = amountStr.replace(/[$\u20AC\u00A3\s']/g, '').trim();
+
+  // Handle negative amounts in parentheses
+  const isNegative = cleaned.startsWith('(') && cleaned.endsWith(')');
+  const signed = isNegative ? cleaned.slice(1, -1) : cleaned;
+
+  const format = numberFormat === 'auto' ? detectNumberFormat([signed]) : numberFormat;
+  const numStr = format === '1.234,56'
+    ? signed.replace(/\./g, '').replace(',', '.')
+    : signed.replace(/,/g, '');
+
+  const num = parseFloat(numStr);
+  if (isNaN(num)) return null;
+
+  return isNegative ? -num : num;
+}
+
+function looksNumeric(value: string): boolean {
+  return /^[-+]?\(?[-+]?[\d.,]*\d[\d.,]*\)?$/.test(value.replace(/[$\u20AC\u00A3\s']/g, ''));
+}
+
+// Detected date and number formats for every column, shown on the mapping step
+export function detectColumnFormats(headers: string[], dataRows: string[][]): Record<string, DetectedColumnFormat> {
+  const formats: Record<string, DetectedColumnFormat> = {};
+
+  headers.forEach((header, index) => {
+    const values = dataRows.map(row => row[index] || '').filter(v => v.trim());
+    const dateFormat = detectDateFormat(values);
+    const numeric = values.filter(looksNumeric).length;
+
+    formats[header] = {
+      // The Quicken-only format is not offered as a choice
+      dateFormat: dateFormat === "MM/DD'YY" ? null : dateFormat,
+      numberFormat:
+        !dateFormat && values.length > 0 && numeric >= values.length * DETECTION_THRESHOLD
+          ? detectNumberFormat(values)
+          : null,
+    };
+  });
+
+  return formats;
+}
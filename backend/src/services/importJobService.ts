@@ -0,0 +1,148 @@
+import db from '../db/knex.js';
+import logger from '../logger.js';
+import * as importService from './importService.js';
+import type {
+  ColumnMapping,
+  ImportJob,
+  ImportJobType,
+  ImportResult,
+  MappingOptions,
+  ProgressReporter,
+  RowCounts,
+} from '../types/index.js';
+
+type JobWork = (onProgress: ProgressReporter) => Promise<RowCounts | ImportResult>;
+
+interface ImportJobRow extends Omit<ImportJob, 'result'> {
+  result: string | null;
+}
+
+// Jobs run one at a time in this process. Their work is held in memory, so the table only
+// records status: a job left unfinished by a restart is marked failed rather than resumed.
+const queue: { id: number; work: JobWork }[] = [];
+let running = false;
+
+// Progress of the running job, kept in memory so reporting it costs no writes
+const progress = new Map<number, { processedRows: number; totalRows: number }>();
+
+function toJob(row: ImportJobRow): ImportJob {
+  return {
+    ...row,
+    ...progress.get(row.id),
+    result: row.result ? JSON.parse(row.result) : null,
+  };
+}
+
+export async function getJob(id: number, userId: number): Promise<ImportJob | null> {
+  const row = await db('import_jobs').where({ id, userId }).first<ImportJobRow>();
+  return row ? toJob(row) : null;
+}
+
+async function runJob(id: number, work: JobWork): Promise<void> {
+  await db('import_jobs').where({ id }).update({ status: 'running', updatedAt: db.fn.now() });
+  progress.set(id, { processedRows: 0, totalRows: 0 });
+
+  try {
+    const result = await work(async (processedRows, totalRows) => {
+      progress.set(id, { processedRows, totalRows });
+      // Let status requests in between batches
+      await new Promise((resolve) => setImmediate(resolve));
+    });
+
+    await db('import_jobs')
+      .where({ id })
+      .update({
+        status: 'completed',
+        ...progress.get(id),
+        result: JSON.stringify(result),
+        updatedAt: db.fn.now(),
+      });
+    logger.info({ jobId: id }, 'Import job completed');
+  } catch (error) {
+    await db('import_jobs')
+      .where({ id })
+      .update({
+        status: 'failed',
+        ...progress.get(id),
+        error: error instanceof Error ? error.message : 'Import job failed',
+        updatedAt: db.fn.now(),
+      });
+    logger.error({ err: error, jobId: id }, 'Import job failed');
+  } finally {
+    progress.delete(id);
+  }
+}
+
+async function runQueue(): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    let next = queue.shift();
+    while (next) {
+      await runJob(next.id, next.work);
+      next = queue.shift();
+    }
+  } finally {
+    running = false;
+  }
+}
+
+async function enqueueJob(userId: number, sessionId: number, type: ImportJobType, work: JobWork): Promise<ImportJob> {
+  // Check and insert together so two requests cannot both queue a job for the session
+  const id = await db.transaction(async (trx) => {
+    await importService.assertNoActiveJob(sessionId, trx);
+    const [id] = await trx('import_jobs').insert({ userId, sessionId, type, status: 'pending' });
+    return id;
+  });
+  queue.push({ id, work });
+  logger.info({ userId, sessionId, jobId: id, type }, 'Import job queued');
+
+  setImmediate(() => {
+    runQueue().catch((error) => {
+      logger.error({ err: error }, 'Import job runner stopped');
+    });
+  });
+
+  return (await getJob(id, userId))!;
+}
+
+// Parse every row of the session's file with this mapping
+export async function startMappingJob(
+  sessionId: number,
+  userId: number,
+  mapping: ColumnMapping,
+  options: Partial<MappingOptions> = {}
+): Promise<ImportJob> {
+  await importService.assertMappingReady(sessionId, userId, mapping, options);
+
+  return enqueueJob(userId, sessionId, 'mapping', async (onProgress) => {
+    const result = await importService.saveMapping(sessionId, userId, mapping, options, onProgress);
+    return { validCount: result.validCount, invalidCount: result.invalidCount, skippedCount: result.skippedCount };
+  });
+}
+
+// Create expenses from the session's valid rows
+export async function startConfirmJob(sessionId: number, userId: number): Promise<ImportJob> {
+  await importService.assertConfirmReady(sessionId, userId);
+
+  return enqueueJob(userId, sessionId, 'confirm', (onProgress) =>
+    importService.confirmImport(sessionId, userId, onProgress)
+  );
+}
+
+// Run at startup: the work of jobs queued before a restart is gone, and so are the expenses
+// an interrupted confirm job had committed
+export async function failInterruptedJobs(): Promise<number> {
+  await importService.discardInterruptedImports();
+
+  const failed = await db('import_jobs')
+    .whereIn('status', ['pending', 'running'])
+    .update({ status: 'failed', error: 'Interrupted by a server restart', updatedAt: db.fn.now() });
+
+  if (failed > 0) {
+    logger.info({ failed }, 'Marked interrupted import jobs as failed');
+  }
+
+  return failed;
+}
@@ -1,15 +1,55 @@
+import type { Knex } from 'knex';
 import db from '../db/knex.js';
 import logger from '../logger.js';
+import { listCategories } from './categoryService.js';
+import {
+  invalidateCategoryModel,
+  loadCategoryModel,
+  recordCategoryFeedback,
+  type CategoryModel,
+} from './categorizerService.js';
+import { loadRuleSet, type RuleSet } from './ruleService.js';
+import { addExpenseTags } from './tagService.js';
+import { CURRENCY_CODE, getBaseCurrency, normalizeCurrency } from './currencyService.js';
+import { attachmentHashes, removeUnusedFiles } from './attachmentService.js';
+import { isOfx, parseOfx } from './ofxParser.js';
+import { isQif, parseQif } from './qifParser.js';
+import { csvLine, detectDelimiter, parseCsv, unescapeFormula } from './csvParser.js';
+import { detectHeaderRow, readSpreadsheet } from './spreadsheetParser.js';
+import {
+  detectColumnFormats,
+  detectDateFormat,
+  detectNumberFormat,
+  parseAmount,
+  parseDate,
+} from './fieldParser.js';
+import { assertAmountColumns, findTemplateByHeaders } from './importTemplateService.js';
 import type {
   ImportSession,
   ImportHistory,
+  ImportHistoryWithCounts,
+  ImportHistoryDetail,
+  ImportHistoryRow,
+  RevertResult,
   ColumnMapping,
   ParsedRow,
   CsvStructure,
   UploadResult,
+  SpreadsheetUploadResult,
   MappingResult,
   ImportResult,
   RowValidationError,
+  Expense,
+  MappingOptions,
+  SkipReason,
+  Category,
+  RowCounts,
+  RowFilter,
+  RowPage,
+  RowSelection,
+  BulkRowAction,
+  BulkUpdateResult,
+  ProgressReporter,
 } from '../types/index.js';
 
 // Category aliases for matching
@@ -22,65 +62,36 @@ const CATEGORY_ALIASES: Record<string, string[]> = {
   'Other': ['other', 'misc', 'miscellaneous'],
 };
 
-// Date format patterns
-const DATE_PATTERNS = [
-  { regex: /^\d{4}-\d{2}-\d{2}$/, format: 'YYYY-MM-DD' },
-  { regex: /^\d{2}\/\d{2}\/\d{4}$/, format: 'MM/DD/YYYY' },
-  { regex: /^\d{2}-\d{2}-\d{4}$/, format: 'DD-MM-YYYY' },
-  { regex: /^\d{4}\/\d{2}\/\d{2}$/, format: 'YYYY/MM/DD' },
-];
-
-// Detect delimiter from CSV content
-function detectDelimiter(content: string): string {
-  const firstLine = content.split('\n')[0] || '';
-  const delimiters = [',', ';', '\t'];
-  let maxCount = 0;
-  let detected = ',';
-
-  for (const delimiter of delimiters) {
-    const count = (firstLine.match(new RegExp(delimiter === '\t' ? '\\t' : delimiter, 'g')) || []).length;
-    if (count > maxCount) {
-      maxCount = count;
-      detected = delimiter;
-    }
-  }
-
-  return detected;
-}
-
-// Parse CSV line handling quoted fields
-function parseCsvLine(line: string, delimiter: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    const nextChar = line[i + 1];
-
-    if (char === '"') {
-      if (inQuotes && nextChar === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === delimiter && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-
-  result.push(current.trim());
-  return result;
-}
-
-// Parse CSV content into lines
-function parseCsv(content: string, delimiter: string): string[][] {
-  const lines = content.split(/\r?\n/).filter(line => line.trim());
-  return lines.map(line => parseCsvLine(line, delimiter));
+// Bank posting dates can drift a few days from the date an expense was recorded
+const DUPLICATE_DATE_TOLERANCE_DAYS = 3;
+
+// Rows written per transaction, reporting progress after each
+const IMPORT_BATCH_SIZE = 500;
+
+// Rows per insert statement, keeping the bound parameters under SQLite's limit
+const INSERT_CHUNK_SIZE = 50;
+
+const noProgress: ProgressReporter = async () => {};
+
+// How an import row is stored; JSON columns are kept as strings
+interface ImportRowRecord {
+  id: number;
+  sessionId: number;
+  rowIndex: number;
+  originalData: string;
+  date: string | null;
+  amount: number | null;
+  currency: string | null;
+  description: string | null;
+  category: string | null;
+  categoryId: number | null;
+  categoryConfidence: number | null;
+  tags: string;
+  errors: string;
+  skipped: boolean | number;
+  skipReason: SkipReason | null;
+  duplicate: string | null;
+  expenseId: number | null;
 }
 
 // Suggest column mapping based on header names
@@ -93,9 +104,21 @@ function suggestMapping(headers: string[]): Partial<ColumnMapping> {
   const dateIndex = lowerHeaders.findIndex(h => dateKeywords.some(k => h.includes(k)));
   if (dateIndex !== -1) mapping.date = headers[dateIndex];
 
+  // Separate debit and credit columns, as in many bank exports
+  const debitKeywords = ['debit', 'withdrawal', 'paid out', 'money out'];
+  const creditKeywords = ['credit', 'deposit', 'paid in', 'money in'];
+  const debitIndex = lowerHeaders.findIndex(h => debitKeywords.some(k => h.includes(k)));
+  const creditIndex = lowerHeaders.findIndex(h => creditKeywords.some(k => h.includes(k)));
+  if (debitIndex !== -1 && creditIndex !== -1) {
+    mapping.debit = headers[debitIndex];
+    mapping.credit = headers[creditIndex];
+  }
+
   // Amount column detection
   const amountKeywords = ['amount', 'price', 'cost', 'total', 'value', 'sum'];
-  const amountIndex = lowerHeaders.findIndex(h => amountKeywords.some(k => h.includes(k)));
+  const amountIndex = lowerHeaders.findIndex(
+    (h, i) => i !== debitIndex && i !== creditIndex && amountKeywords.some(k => h.includes(k))
+  );
   if (amountIndex !== -1) mapping.amount = headers[amountIndex];
 
   // Description column detection
@@ -108,63 +131,18 @@ function suggestMapping(headers: string[]): Partial<ColumnMapping> {
   const catIndex = lowerHeaders.findIndex(h => catKeywords.some(k => h.includes(k)));
   if (catIndex !== -1) mapping.category = headers[catIndex];
 
-  return mapping;
-}
-
-// Parse date string to YYYY-MM-DD format
-function parseDate(dateStr: string): string | null {
-  if (!dateStr) return null;
-
-  const trimmed = dateStr.trim();
-
-  for (const { regex, format } of DATE_PATTERNS) {
-    if (regex.test(trimmed)) {
-      const parts = trimmed.split(/[-\/]/);
+  // Currency column detection
+  const currencyKeywords = ['currency', 'ccy'];
+  const currencyIndex = lowerHeaders.findIndex(h => currencyKeywords.some(k => h.includes(k)));
+  if (currencyIndex !== -1) mapping.currency = headers[currencyIndex];
 
-      switch (format) {
-        case 'YYYY-MM-DD':
-          return trimmed;
-        case 'MM/DD/YYYY':
-          return `${parts[2]}-${parts[0].padStart(2, '0')}-${parts[1].padStart(2, '0')}`;
-        case 'DD-MM-YYYY':
-          return `${parts[2]}-${parts[1].padStart(2, '0')}-${parts[0].padStart(2, '0')}`;
-        case 'YYYY/MM/DD':
-          return `${parts[0]}-${parts[1].padStart(2, '0')}-${parts[2].padStart(2, '0')}`;
-      }
-    }
-  }
-
-  // Try to parse as a generic date
-  const parsed = new Date(trimmed);
-  if (!isNaN(parsed.getTime())) {
-    return parsed.toISOString().split('T')[0];
-  }
-
-  return null;
-}
-
-// Parse amount string to number
-function parseAmount(amountStr: string): number | null {
-  if (!amountStr) return null;
-
-  // Remove currency symbols and whitespace
-  const cleaned = amountStr.replace(/[$\u20AC\u00A3\s,]/g, '').trim();
-
-  // Handle negative amounts in parentheses
-  const isNegative = cleaned.startsWith('(') && cleaned.endsWith(')');
-  const numStr = isNegative ? cleaned.slice(1, -1) : cleaned;
-
-  const num = parseFloat(numStr);
-  if (isNaN(num)) return null;
-
-  return isNegative ? -num : num;
+  return mapping;
 }
 
-// Match category name to existing categories
-async function matchCategory(categoryStr: string | null): Promise<{ id: number; name: string } | null> {
+// Match category name to the user's categories (global defaults plus their own)
+function matchCategory(categoryStr: string | null, categories: Category[]): Category | null {
   if (!categoryStr) return null;
 
-  const categories = await db('categories').select('id', 'name');
   const lowerInput = categoryStr.toLowerCase().trim();
 
   // Exact match
@@ -183,9 +161,51 @@ async function matchCategory(categoryStr: string | null): Promise<{ id: number;
     }
   }
 
-  // Default to "Other" category
-  const other = categories.find(c => c.name === 'Other');
-  return other || null;
+  return null;
+}
+
+function otherCategory(categories: Category[]): Category | null {
+  return categories.find(c => c.name === 'Other') || null;
+}
+
+// A category named in the file comes first, then one learned from the user's history, then "Other"
+function categorizeRow(
+  named: Category | null,
+  description: string,
+  categories: Category[],
+  model: CategoryModel
+): Pick<ParsedRow, 'category' | 'categoryId' | 'categoryConfidence'> {
+  if (named) {
+    return { category: named.name, categoryId: named.id, categoryConfidence: null };
+  }
+
+  const suggestion = model.suggest(description);
+  if (suggestion) {
+    return { category: suggestion.category, categoryId: suggestion.categoryId, categoryConfidence: suggestion.confidence };
+  }
+
+  const other = otherCategory(categories);
+  return { category: other?.name || null, categoryId: other?.id || null, categoryConfidence: null };
+}
+
+// The user's rules run last, so a rule's category replaces the file's or a suggested one
+function applyRulesToRow(row: Omit<ParsedRow, 'errors'>, rules: RuleSet, categories: Category[]): void {
+  const outcome = rules.apply({ description: row.description ?? '', amount: row.amount, date: row.date });
+
+  if (outcome.description !== null) {
+    row.description = outcome.description;
+  }
+  const category = categories.find(c => c.id === outcome.categoryId);
+  if (category) {
+    row.category = category.name;
+    row.categoryId = category.id;
+    row.categoryConfidence = null;
+  }
+  row.tags = outcome.tags;
+  if (outcome.skip && !row.skipped) {
+    row.skipped = true;
+    row.skipReason = 'rule';
+  }
 }
 
 // Validate a parsed row
@@ -198,7 +218,9 @@ function validateRow(row: Omit<ParsedRow, 'errors'>): RowValidationError[] {
 
   if (row.amount === null || row.amount === undefined) {
     errors.push({ field: 'amount', message: 'Amount is required and must be a number' });
-  } else if (row.amount <= 0) {
+  } else if (row.amount < 0) {
+    errors.push({ field: 'amount', message: 'Refunds and other credits cannot be imported as expenses' });
+  } else if (row.amount === 0) {
     errors.push({ field: 'amount', message: 'Amount must be greater than zero' });
   }
 
@@ -206,9 +228,205 @@ function validateRow(row: Omit<ParsedRow, 'errors'>): RowValidationError[] {
     errors.push({ field: 'description', message: 'Description is required' });
   }
 
+  if (!row.currency) {
+    errors.push({ field: 'currency', message: 'Currency must be a three-letter code such as EUR' });
+  }
+
   return errors;
 }
 
+function normalizeDescription(description: string): string {
+  return description.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86_400_000;
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(Date.parse(`${date}T00:00:00Z`) + days * 86_400_000);
+  return shifted.toISOString().split('T')[0];
+}
+
+// Flag rows whose amount, currency and normalized description match an existing expense within the
+// date tolerance, or an earlier row in the same file on the same date. Flagged rows are skipped.
+// Each existing expense accounts for at most one row, so repeated purchases are not all flagged.
+async function flagDuplicates(userId: number, rows: ParsedRow[]): Promise<void> {
+  const candidates = rows.filter(r => !r.skipped && r.date && r.amount !== null && r.description);
+  if (candidates.length === 0) return;
+
+  const dates = candidates.map(r => r.date!).sort();
+  const existing: Pick<Expense, 'id' | 'date' | 'amount' | 'currency' | 'description'>[] = await db('expenses')
+    .where({ userId })
+    .whereBetween('date', [
+      shiftDate(dates[0], -DUPLICATE_DATE_TOLERANCE_DAYS),
+      shiftDate(dates[dates.length - 1], DUPLICATE_DATE_TOLERANCE_DAYS),
+    ])
+    .select('id', 'date', 'amount', 'currency', 'description');
+
+  // Existing expenses by amount and normalized description, so large files are not compared row by row
+  const byAmountAndDescription = new Map<string, typeof existing>();
+  for (const expense of existing) {
+    const key = `${Math.round(Number(expense.amount) * 100)}|${expense.currency}|${normalizeDescription(expense.description)}`;
+    const matches = byAmountAndDescription.get(key);
+    if (matches) {
+      matches.push(expense);
+    } else {
+      byAmountAndDescription.set(key, [expense]);
+    }
+  }
+
+  const claimed = new Set<number>();
+  const seen = new Map<string, number>();
+
+  for (const row of candidates) {
+    const cents = Math.round(row.amount! * 100);
+    const description = normalizeDescription(row.description!);
+
+    const match = (byAmountAndDescription.get(`${cents}|${row.currency}|${description}`) ?? []).find(
+      e => !claimed.has(e.id) && daysBetween(e.date, row.date!) <= DUPLICATE_DATE_TOLERANCE_DAYS
+    );
+    if (match) {
+      claimed.add(match.id);
+      row.duplicate = { source: 'expense', expenseId: match.id, rowIndex: null, date: match.date };
+      row.skipped = true;
+      row.skipReason = 'duplicate';
+      continue;
+    }
+
+    const key = `${row.date}|${cents}|${row.currency}|${description}`;
+    const earlier = seen.get(key);
+    if (earlier !== undefined) {
+      row.duplicate = { source: 'file', expenseId: null, rowIndex: earlier, date: row.date! };
+      row.skipped = true;
+      row.skipReason = 'duplicate';
+      continue;
+    }
+    seen.set(key, row.rowIndex);
+  }
+}
+
+function toParsedRow(record: ImportRowRecord): ParsedRow {
+  return {
+    rowIndex: record.rowIndex,
+    originalData: JSON.parse(record.originalData),
+    date: record.date,
+    amount: record.amount === null ? null : Number(record.amount),
+    currency: record.currency,
+    description: record.description,
+    category: record.category,
+    categoryId: record.categoryId,
+    categoryConfidence: record.categoryConfidence,
+    tags: JSON.parse(record.tags),
+    errors: JSON.parse(record.errors),
+    skipped: Boolean(record.skipped),
+    skipReason: record.skipReason,
+    duplicate: record.duplicate ? JSON.parse(record.duplicate) : null,
+    expenseId: record.expenseId,
+  };
+}
+
+function toRowRecord(sessionId: number, row: ParsedRow): Omit<ImportRowRecord, 'id'> {
+  return {
+    sessionId,
+    rowIndex: row.rowIndex,
+    originalData: JSON.stringify(row.originalData),
+    date: row.date,
+    amount: row.amount,
+    currency: row.currency,
+    description: row.description,
+    category: row.category,
+    categoryId: row.categoryId,
+    categoryConfidence: row.categoryConfidence,
+    tags: JSON.stringify(row.tags),
+    errors: JSON.stringify(row.errors),
+    skipped: row.skipped,
+    skipReason: row.skipReason,
+    duplicate: row.duplicate ? JSON.stringify(row.duplicate) : null,
+    expenseId: row.expenseId,
+  };
+}
+
+// Replace a session's rows, one transaction per batch so status requests are not held up
+async function replaceSessionRows(
+  sessionId: number,
+  rows: ParsedRow[],
+  onProgress: ProgressReporter = noProgress
+): Promise<void> {
+  await db('import_rows').where({ sessionId }).delete();
+
+  for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + IMPORT_BATCH_SIZE).map(row => toRowRecord(sessionId, row));
+    await db.transaction(async (trx) => {
+      for (let j = 0; j < batch.length; j += INSERT_CHUNK_SIZE) {
+        await trx('import_rows').insert(batch.slice(j, j + INSERT_CHUNK_SIZE));
+      }
+    });
+    await onProgress(i + batch.length, rows.length);
+  }
+}
+
+async function getSessionRow(sessionId: number, rowIndex: number): Promise<ImportRowRecord | null> {
+  const record = await db('import_rows').where({ sessionId, rowIndex }).first<ImportRowRecord>();
+  return record || null;
+}
+
+// Narrow an import_rows query to the rows a preview filter shows
+function applyRowFilter(query: Knex.QueryBuilder, filter: RowFilter): Knex.QueryBuilder {
+  switch (filter) {
+    case 'valid':
+      return query.where({ skipped: false, errors: '[]' });
+    case 'invalid':
+      return query.where({ skipped: false }).whereNot({ errors: '[]' });
+    case 'skipped':
+      return query.where({ skipped: true });
+    case 'duplicate':
+      return query.whereNotNull('duplicate');
+    default:
+      return query;
+  }
+}
+
+async function countRows(sessionId: number): Promise<RowCounts> {
+  const totals = await db('import_rows')
+    .where({ sessionId })
+    .first(
+      db.raw('sum(case when skipped then 1 else 0 end) as skippedCount'),
+      db.raw("sum(case when not skipped and errors != '[]' then 1 else 0 end) as invalidCount"),
+      db.raw("sum(case when not skipped and errors = '[]' then 1 else 0 end) as validCount")
+    );
+
+  return {
+    validCount: Number(totals?.validCount ?? 0),
+    invalidCount: Number(totals?.invalidCount ?? 0),
+    skippedCount: Number(totals?.skippedCount ?? 0),
+  };
+}
+
+// Recount a session's rows and store the counts on the session
+async function refreshRowCounts(sessionId: number): Promise<RowCounts> {
+  const counts = await countRows(sessionId);
+
+  await db('import_sessions')
+    .where({ id: sessionId })
+    .update({
+      validRowCount: counts.validCount,
+      invalidRowCount: counts.invalidCount,
+      skippedRowCount: counts.skippedCount,
+      updatedAt: db.fn.now(),
+    });
+
+  return counts;
+}
+
+// Rows must not change under a queued or running mapping or confirm job
+export async function assertNoActiveJob(sessionId: number, conn: Knex = db): Promise<void> {
+  const active = await conn('import_jobs').where({ sessionId }).whereIn('status', ['pending', 'running']).first();
+  if (active) {
+    throw new Error('Session has an import job in progress');
+  }
+}
+
 // Get active session for user
 export async function getActiveSession(userId: number): Promise<ImportSession | null> {
   const session = await db('import_sessions')
@@ -231,11 +449,19 @@ export async function getSession(id: number, userId: number): Promise<ImportSess
 
 // Create new session (cancels any existing active session)
 export async function createSession(userId: number): Promise<ImportSession> {
-  // Cancel any existing active sessions
-  await db('import_sessions')
-    .where({ userId })
-    .whereNotIn('status', ['completed', 'cancelled'])
-    .update({ status: 'cancelled', updatedAt: db.fn.now() });
+  // Cancel any existing active sessions; their rows were never imported. One being imported
+  // is left for its confirm job to finish, and one being mapped would be revived by its job.
+  await db.transaction(async (trx) => {
+    const activeIds = await trx('import_sessions')
+      .where({ userId })
+      .whereNotIn('status', ['importing', 'completed', 'cancelled'])
+      .pluck<number[]>('id');
+    for (const activeId of activeIds) {
+      await assertNoActiveJob(activeId, trx);
+    }
+    await trx('import_sessions').whereIn('id', activeIds).update({ status: 'cancelled', updatedAt: trx.fn.now() });
+    await trx('import_rows').whereIn('sessionId', activeIds).delete();
+  });
 
   const [id] = await db('import_sessions').insert({
     userId,
@@ -250,10 +476,17 @@ export async function createSession(userId: number): Promise<ImportSession> {
 
 // Cancel session
 export async function cancelSession(id: number, userId: number): Promise<boolean> {
-  const updated = await db('import_sessions')
-    .where({ id, userId })
-    .whereNotIn('status', ['completed', 'cancelled'])
-    .update({ status: 'cancelled', updatedAt: db.fn.now() });
+  const updated = await db.transaction(async (trx) => {
+    await assertNoActiveJob(id, trx);
+    const count = await trx('import_sessions')
+      .where({ id, userId })
+      .whereNotIn('status', ['importing', 'completed', 'cancelled'])
+      .update({ status: 'cancelled', updatedAt: trx.fn.now() });
+    if (count > 0) {
+      await trx('import_rows').where({ sessionId: id }).delete();
+    }
+    return count;
+  });
 
   if (updated > 0) {
     logger.info({ userId, sessionId: id }, 'Cancelled import session');
@@ -267,6 +500,23 @@ export async function uploadCsv(
   userId: number,
   fileName: string,
   csvContent: string
+): Promise<UploadResult> {
+  const result = await storeCsv(userId, fileName, csvContent, detectDelimiter(csvContent));
+
+  logger.info(
+    { userId, sessionId: result.session.id, fileName, rowCount: result.structure.rowCount },
+    'CSV uploaded'
+  );
+
+  return result;
+}
+
+// Keep CSV content on the active session and describe its columns for the mapping step
+async function storeCsv(
+  userId: number,
+  fileName: string,
+  csvContent: string,
+  delimiter: string
 ): Promise<UploadResult> {
   // Get or create session
   let session = await getActiveSession(userId);
@@ -274,19 +524,22 @@ export async function uploadCsv(
     session = await createSession(userId);
   }
 
-  const delimiter = detectDelimiter(csvContent);
-  const rows = parseCsv(csvContent, delimiter);
+  await assertNoActiveJob(session.id);
 
-  if (rows.length < 2) {
+  const records = parseCsv(csvContent, delimiter);
+
+  if (records.length < 2) {
     throw new Error('CSV must have at least a header row and one data row');
   }
 
-  const headers = rows[0];
-  const dataRows = rows.slice(1);
-  const sampleRows = dataRows.slice(0, 5);
+  const headers = records[0].fields;
+  const dataRows = records.slice(1).map(record => record.fields);
+  const sampleRows = dataRows.slice(0, 5).map(row => row.map(unescapeFormula));
   const suggestedMapping = suggestMapping(headers);
+  const matchedTemplate = await findTemplateByHeaders(userId, headers);
+  const detectedFormats = detectColumnFormats(headers, dataRows);
 
-  // Update session with file data
+  // Update session with file data; rows parsed from an earlier file no longer apply
   await db('import_sessions')
     .where({ id: session.id })
     .update({
@@ -296,6 +549,7 @@ export async function uploadCsv(
       status: 'upload',
       updatedAt: db.fn.now(),
     });
+  await db('import_rows').where({ sessionId: session.id }).delete();
 
   session = await getSession(session.id, userId);
 
@@ -305,19 +559,225 @@ export async function uploadCsv(
     rowCount: dataRows.length,
     sampleRows,
     suggestedMapping,
+    matchedTemplate,
+    detectedFormats,
   };
 
-  logger.info({ userId, sessionId: session!.id, fileName, rowCount: dataRows.length }, 'CSV uploaded');
-
   return { session: session!, structure };
 }
 
-// Save mapping and parse all rows
-export async function saveMapping(
-  sessionId: number,
+// Upload one sheet of an .xlsx or .ods file. The sheet is converted to CSV from the header row
+// down, so mapping, templates and re-parsing work as for a CSV upload.
+export async function uploadSpreadsheet(
+  userId: number,
+  fileName: string,
+  content: Buffer,
+  options: { sheet?: string; headerRow?: number } = {}
+): Promise<SpreadsheetUploadResult> {
+  const spreadsheet = readSpreadsheet(content, options.sheet);
+  const headerRow = options.headerRow ?? detectHeaderRow(spreadsheet.rows);
+  const rows = spreadsheet.rows.slice(headerRow - 1);
+
+  const headerCells = rows[0] ?? [];
+  const width = headerCells.reduce((last, cell, i) => (cell ? i + 1 : last), 0);
+  if (width === 0) {
+    throw new Error('Header row is empty');
+  }
+
+  // Blank header cells still need a name to be mapped by
+  const headers = headerCells.slice(0, width).map((cell, i) => cell || `Column ${i + 1}`);
+  const lines = [csvLine(headers)];
+  for (const row of rows.slice(1)) {
+    if (row.some(cell => cell !== '')) {
+      lines.push(csvLine(Array.from({ length: width }, (_, i) => row[i] ?? '')));
+    }
+  }
+
+  if (lines.length < 2) {
+    throw new Error('Sheet must have a header row and at least one data row');
+  }
+
+  const result = await storeCsv(userId, fileName, lines.join(''), ',');
+
+  logger.info(
+    {
+      userId,
+      sessionId: result.session.id,
+      fileName,
+      sheet: spreadsheet.sheet,
+      headerRow,
+      rowCount: result.structure.rowCount,
+    },
+    'Spreadsheet uploaded'
+  );
+
+  return { ...result, sheets: spreadsheet.sheetNames, sheet: spreadsheet.sheet, headerRow };
+}
+
+// Store rows parsed from a statement file (OFX, QIF) on the user's session. Their fields are
+// known, so the session skips the column-mapping step and goes straight to preview.
+async function saveStatementRows(
+  userId: number,
+  fileName: string,
+  content: string,
+  parsedRows: ParsedRow[]
+): Promise<MappingResult> {
+  let session = await getActiveSession(userId);
+  if (!session) {
+    session = await createSession(userId);
+  }
+
+  await assertNoActiveJob(session.id);
+  await flagDuplicates(userId, parsedRows);
+  await replaceSessionRows(session.id, parsedRows);
+
+  await db('import_sessions')
+    .where({ id: session.id })
+    .update({
+      fileName,
+      fileSize: content.length,
+      rawCsvData: content,
+      columnMapping: null,
+      status: 'preview',
+      updatedAt: db.fn.now(),
+    });
+  const counts = await refreshRowCounts(session.id);
+
+  const updatedSession = await getSession(session.id, userId);
+
+  logger.info({ userId, sessionId: session.id, fileName, ...counts }, 'Statement uploaded');
+
+  return { session: updatedSession!, ...counts };
+}
+
+// Refunds and zero amounts are not expenses, so rows with them start out skipped
+function amountSkipReason(amount: number | null): SkipReason | null {
+  if (amount === null) return null;
+  return amount < 0 ? 'credit' : amount === 0 ? 'zero' : null;
+}
+
+// Statements record spending as negative amounts; expenses are positive
+function toExpenseAmount(amount: number | null): number | null {
+  return amount === null ? null : Math.round(-amount * 100) / 100;
+}
+
+// A file's currency value as a code, the fallback when it is empty, or null when it is not a code
+function toCurrency(value: string | null, fallback: string): string | null {
+  if (!value || !value.trim()) return fallback;
+  const code = normalizeCurrency(value);
+  return CURRENCY_CODE.test(code) ? code : null;
+}
+
+// Upload an OFX/QFX statement
+export async function uploadOfx(
   userId: number,
-  mapping: ColumnMapping
+  fileName: string,
+  ofxContent: string
+): Promise<MappingResult> {
+  const transactions = parseOfx(ofxContent);
+  const baseCurrency = await getBaseCurrency(userId);
+  const seenFitIds = new Map<string, number>();
+  // Statements carry no categories, so every row is categorized from the user's history
+  const categories = await listCategories(userId);
+  const model = await loadCategoryModel(userId);
+  const rules = await loadRuleSet(userId);
+
+  const parsedRows: ParsedRow[] = transactions.map((transaction, i) => {
+    const amount = toExpenseAmount(transaction.amount);
+
+    // Banks occasionally repeat a transaction with the same FITID
+    const firstIndex = transaction.fitId ? seenFitIds.get(transaction.fitId) : undefined;
+    if (transaction.fitId && firstIndex === undefined) seenFitIds.set(transaction.fitId, i);
+
+    // Credits (deposits, refunds) are not expenses
+    const skipReason = firstIndex !== undefined ? 'duplicate' : amountSkipReason(amount);
+    const description = transaction.name || transaction.memo || '';
+
+    const parsedRow: Omit<ParsedRow, 'errors'> = {
+      rowIndex: i,
+      originalData: transaction.raw,
+      date: transaction.datePosted,
+      amount,
+      currency: toCurrency(transaction.currency, baseCurrency),
+      description,
+      ...categorizeRow(null, description, categories, model),
+      skipped: skipReason !== null,
+      skipReason,
+      duplicate:
+        firstIndex !== undefined && transaction.datePosted
+          ? { source: 'file', expenseId: null, rowIndex: firstIndex, date: transaction.datePosted }
+          : null,
+      tags: [],
+      expenseId: null,
+    };
+    applyRulesToRow(parsedRow, rules, categories);
+
+    return { ...parsedRow, errors: validateRow(parsedRow) };
+  });
+
+  return saveStatementRows(userId, fileName, ofxContent, parsedRows);
+}
+
+// Upload a QIF file; the L (category) field goes through the same matching as CSV categories
+export async function uploadQif(
+  userId: number,
+  fileName: string,
+  qifContent: string
 ): Promise<MappingResult> {
+  const transactions = parseQif(qifContent);
+  // QIF has no currency field; amounts are taken to be in the base currency
+  const baseCurrency = await getBaseCurrency(userId);
+  const categories = await listCategories(userId);
+  const model = await loadCategoryModel(userId);
+  const rules = await loadRuleSet(userId);
+  const parsedRows: ParsedRow[] = [];
+
+  // Quicken pads single digits with spaces, e.g. "1/ 5'24"
+  const dates = transactions.map(t => (t.date || '').replace(/\s/g, ''));
+  const dateFormat = detectDateFormat(dates) ?? 'auto';
+
+  for (let i = 0; i < transactions.length; i++) {
+    const transaction = transactions[i];
+    const amount = toExpenseAmount(parseAmount(transaction.amount || ''));
+
+    // "Category:Subcategory/Class" - the class is not a category. "[Account]" marks a transfer.
+    const categoryStr = (transaction.category || '').split('/')[0].trim();
+    const isTransfer = categoryStr.startsWith('[');
+    const description = transaction.payee || transaction.memo || '';
+    // Deposits and transfers between accounts are not expenses
+    const skipReason = isTransfer ? 'transfer' : amountSkipReason(amount);
+
+    const parsedRow: Omit<ParsedRow, 'errors'> = {
+      rowIndex: i,
+      originalData: transaction.raw,
+      date: parseDate(dates[i], dateFormat),
+      amount,
+      currency: baseCurrency,
+      description,
+      ...(isTransfer
+        ? { category: null, categoryId: null, categoryConfidence: null }
+        : categorizeRow(matchCategory(categoryStr, categories), description, categories, model)),
+      skipped: skipReason !== null,
+      skipReason,
+      duplicate: null,
+      tags: [],
+      expenseId: null,
+    };
+    applyRulesToRow(parsedRow, rules, categories);
+
+    parsedRows.push({ ...parsedRow, errors: validateRow(parsedRow) });
+  }
+
+  return saveStatementRows(userId, fileName, qifContent, parsedRows);
+}
+
+// Check that a session's file can be parsed with a mapping, before the work is queued
+export async function assertMappingReady(
+  sessionId: number,
+  userId: number,
+  mapping: ColumnMapping,
+  options: Partial<MappingOptions> = {}
+): Promise<ImportSession> {
   const session = await getSession(sessionId, userId);
   if (!session) {
     throw new Error('Session not found');
@@ -327,80 +787,139 @@ export async function saveMapping(
     throw new Error('No CSV data in session');
   }
 
-  const delimiter = detectDelimiter(session.rawCsvData);
-  const rows = parseCsv(session.rawCsvData, delimiter);
-  const headers = rows[0];
-  const dataRows = rows.slice(1);
+  if (isOfx(session.rawCsvData) || isQif(session.rawCsvData)) {
+    throw new Error('Statement files do not use a column mapping');
+  }
+
+  assertAmountColumns(mapping, options.amountMode ?? 'signed');
+  return session;
+}
+
+// Save mapping and parse all rows. Runs as a background job; progress counts rows written.
+export async function saveMapping(
+  sessionId: number,
+  userId: number,
+  mapping: ColumnMapping,
+  options: Partial<MappingOptions> = {},
+  onProgress: ProgressReporter = noProgress
+): Promise<MappingResult> {
+  const session = await assertMappingReady(sessionId, userId, mapping, options);
+  const rawCsvData = session.rawCsvData!;
+  const { amountMode = 'signed', amountSign = 'positive' } = options;
+  const fixedCurrency = options.currency ?? (await getBaseCurrency(userId));
+
+  const delimiter = options.delimiter || detectDelimiter(rawCsvData);
+  const records = parseCsv(rawCsvData, delimiter);
+  const headers = records[0].fields;
+  const dataRecords = records.slice(1);
+  const dataRows = dataRecords.map(record => record.fields);
 
   // Create header index map
   const headerIndex: Record<string, number> = {};
   headers.forEach((h, i) => { headerIndex[h] = i; });
 
+  // 'auto' settles on one format from the whole column rather than guessing row by row
+  const columnValues = (column: string) => dataRows.map(row => row[headerIndex[column]] || '');
+  const amountColumns = amountMode === 'split' ? [mapping.debit!, mapping.credit!] : [mapping.amount!];
+  const dateFormat = !options.dateFormat || options.dateFormat === 'auto'
+    ? detectDateFormat(columnValues(mapping.date)) ?? 'auto'
+    : options.dateFormat;
+  const numberFormat = !options.numberFormat || options.numberFormat === 'auto'
+    ? detectNumberFormat(amountColumns.flatMap(columnValues))
+    : options.numberFormat;
+
+  // Categories are read once; files tend to repeat the same few category names
+  const categories = await listCategories(userId);
+  const model = await loadCategoryModel(userId);
+  const rules = await loadRuleSet(userId);
+  const categoryMatches = new Map<string, Category | null>();
+  const matchCached = (categoryStr: string) => {
+    if (!categoryMatches.has(categoryStr)) {
+      categoryMatches.set(categoryStr, matchCategory(categoryStr, categories));
+    }
+    return categoryMatches.get(categoryStr)!;
+  };
+
   // Parse and validate each row
   const parsedRows: ParsedRow[] = [];
-  let validCount = 0;
-  let invalidCount = 0;
 
   for (let i = 0; i < dataRows.length; i++) {
     const row = dataRows[i];
+    const cell = (column: string | undefined) => (column ? row[headerIndex[column]] || '' : '');
     const originalData: Record<string, string> = {};
     headers.forEach((h, idx) => { originalData[h] = row[idx] || ''; });
 
-    const dateStr = row[headerIndex[mapping.date]] || '';
-    const amountStr = row[headerIndex[mapping.amount]] || '';
-    const descStr = row[headerIndex[mapping.description]] || '';
-    const catStr = mapping.category ? (row[headerIndex[mapping.category]] || '') : '';
+    const amountErrors: RowValidationError[] = [];
+    let amount: number | null;
+    if (amountMode === 'split') {
+      // Debit and credit cells hold unsigned values; an empty cell counts as zero
+      const readCell = (column: string | undefined) => {
+        const value = cell(column).trim();
+        return value ? parseAmount(value, numberFormat) : 0;
+      };
+      const debit = readCell(mapping.debit);
+      const credit = readCell(mapping.credit);
+      amount = debit === null || credit === null
+        ? null
+        : Math.round((Math.abs(debit) - Math.abs(credit)) * 100) / 100;
+      if (debit && credit) {
+        amountErrors.push({ field: 'amount', message: 'Row has both a debit and a credit amount' });
+      }
+    } else {
+      const parsedAmount = parseAmount(cell(mapping.amount), numberFormat);
+      amount = parsedAmount !== null && amountSign === 'negative' ? -parsedAmount : parsedAmount;
+    }
 
-    const date = parseDate(dateStr);
-    const amount = parseAmount(amountStr);
-    const description = descStr.trim();
-    const categoryMatch = await matchCategory(catStr);
+    const date = parseDate(cell(mapping.date), dateFormat);
+    // Undo the apostrophe exports put before formula-like text
+    const description = unescapeFormula(cell(mapping.description)).trim();
+    const skipReason = amountSkipReason(amount);
 
     const parsedRow: Omit<ParsedRow, 'errors'> = {
       rowIndex: i,
       originalData,
       date,
       amount,
+      currency: toCurrency(cell(mapping.currency), fixedCurrency),
       description,
-      category: categoryMatch?.name || null,
-      categoryId: categoryMatch?.id || null,
-      skipped: false,
+      ...categorizeRow(matchCached(unescapeFormula(cell(mapping.category))), description, categories, model),
+      skipped: skipReason !== null,
+      skipReason,
+      duplicate: null,
+      tags: [],
+      expenseId: null,
     };
-
-    const errors = validateRow(parsedRow);
-    const fullRow: ParsedRow = { ...parsedRow, errors };
-
-    if (errors.length > 0) {
-      invalidCount++;
-    } else {
-      validCount++;
-    }
-
-    parsedRows.push(fullRow);
+    applyRulesToRow(parsedRow, rules, categories);
+
+    // Structural problems come first so the line they start on is visible in the preview
+    const structureErrors = dataRecords[i].errors.map(message => ({
+      field: 'row',
+      message: `Line ${dataRecords[i].line}: ${message}`,
+    }));
+    const errors = [...structureErrors, ...amountErrors, ...validateRow(parsedRow)];
+    parsedRows.push({ ...parsedRow, errors });
   }
 
-  // Update session
+  await flagDuplicates(userId, parsedRows);
+  await replaceSessionRows(sessionId, parsedRows, onProgress);
+
   await db('import_sessions')
     .where({ id: sessionId })
     .update({
       columnMapping: JSON.stringify(mapping),
-      parsedRows: JSON.stringify(parsedRows),
-      validRowCount: validCount,
-      invalidRowCount: invalidCount,
       status: 'preview',
       updatedAt: db.fn.now(),
     });
+  const counts = await refreshRowCounts(sessionId);
 
   const updatedSession = await getSession(sessionId, userId);
 
-  logger.info({ userId, sessionId, validCount, invalidCount }, 'Mapping saved and rows parsed');
+  logger.info(
+    { userId, sessionId, dateFormat, numberFormat, amountMode, fixedCurrency, ...counts },
+    'Mapping saved and rows parsed'
+  );
 
-  return {
-    session: updatedSession!,
-    parsedRows,
-    validCount,
-    invalidCount,
-  };
+  return { session: updatedSession!, ...counts };
 }
 
 // Update a specific row's data
@@ -408,23 +927,20 @@ export async function updateRow(
   sessionId: number,
   userId: number,
   rowIndex: number,
-  updates: { date?: string; amount?: number; description?: string; category?: string }
+  updates: { date?: string; amount?: number; currency?: string; description?: string; category?: string }
 ): Promise<ParsedRow> {
   const session = await getSession(sessionId, userId);
   if (!session) {
     throw new Error('Session not found');
   }
 
-  if (!session.parsedRows) {
-    throw new Error('No parsed rows in session');
-  }
-
-  const parsedRows: ParsedRow[] = JSON.parse(session.parsedRows);
-  const row = parsedRows.find(r => r.rowIndex === rowIndex);
+  await assertNoActiveJob(sessionId);
 
-  if (!row) {
+  const record = await getSessionRow(sessionId, rowIndex);
+  if (!record) {
     throw new Error('Row not found');
   }
+  const row = toParsedRow(record);
 
   // Apply updates
   if (updates.date !== undefined) {
@@ -433,39 +949,31 @@ export async function updateRow(
   if (updates.amount !== undefined) {
     row.amount = updates.amount;
   }
+  if (updates.currency !== undefined) {
+    row.currency = normalizeCurrency(updates.currency);
+  }
   if (updates.description !== undefined) {
     row.description = updates.description;
   }
   if (updates.category !== undefined) {
-    const categoryMatch = await matchCategory(updates.category);
+    const categories = await listCategories(userId);
+    const categoryMatch = matchCategory(updates.category, categories) ?? otherCategory(categories);
     row.category = categoryMatch?.name || null;
     row.categoryId = categoryMatch?.id || null;
+    row.categoryConfidence = null;
   }
 
-  // Re-validate
+  // Re-validate. Structural errors from the file are dropped: the edit is the user's correction.
   row.errors = validateRow(row);
 
-  // Recalculate counts
-  let validCount = 0;
-  let invalidCount = 0;
-  for (const r of parsedRows) {
-    if (r.skipped) continue;
-    if (r.errors.length > 0) {
-      invalidCount++;
-    } else {
-      validCount++;
-    }
-  }
+  await db('import_rows').where({ id: record.id }).update(toRowRecord(sessionId, row));
+  await refreshRowCounts(sessionId);
 
-  // Update session
-  await db('import_sessions')
-    .where({ id: sessionId })
-    .update({
-      parsedRows: JSON.stringify(parsedRows),
-      validRowCount: validCount,
-      invalidRowCount: invalidCount,
-      updatedAt: db.fn.now(),
-    });
+  // A category picked over the row's own is a correction the next suggestions should follow;
+  // keeping the suggested one needs no correction
+  if (updates.category !== undefined && row.categoryId !== record.categoryId) {
+    await recordCategoryFeedback(userId, [row]);
+  }
 
   logger.info({ userId, sessionId, rowIndex }, 'Row updated');
 
@@ -484,53 +992,121 @@ export async function skipRow(
     throw new Error('Session not found');
   }
 
-  if (!session.parsedRows) {
-    throw new Error('No parsed rows in session');
-  }
-
-  const parsedRows: ParsedRow[] = JSON.parse(session.parsedRows);
-  const row = parsedRows.find(r => r.rowIndex === rowIndex);
+  await assertNoActiveJob(sessionId);
 
-  if (!row) {
+  const record = await getSessionRow(sessionId, rowIndex);
+  if (!record) {
     throw new Error('Row not found');
   }
 
-  row.skipped = skip;
+  const skipReason = skip ? 'manual' : null;
+  await db('import_rows').where({ id: record.id }).update({ skipped: skip, skipReason });
+  await refreshRowCounts(sessionId);
 
-  // Recalculate counts
-  let validCount = 0;
-  let invalidCount = 0;
-  let skippedCount = 0;
-  for (const r of parsedRows) {
-    if (r.skipped) {
-      skippedCount++;
-      continue;
+  logger.info({ userId, sessionId, rowIndex, skip }, 'Row skip status updated');
+
+  return { ...toParsedRow(record), skipped: skip, skipReason };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Build the edit a bulk action makes to one row; it returns whether the row changed
+async function bulkRowEdit(
+  userId: number,
+  action: Exclude<BulkRowAction, { type: 'skip' }>
+): Promise<(row: ParsedRow) => boolean> {
+  switch (action.type) {
+    case 'setCategory': {
+      const categories = await listCategories(userId);
+      const categoryMatch = matchCategory(action.category, categories) ?? otherCategory(categories);
+      return (row) => {
+        if (row.categoryId === (categoryMatch?.id ?? null) && row.categoryConfidence === null) return false;
+        row.category = categoryMatch?.name || null;
+        row.categoryId = categoryMatch?.id || null;
+        row.categoryConfidence = null;
+        return true;
+      };
     }
-    if (r.errors.length > 0) {
-      invalidCount++;
-    } else {
-      validCount++;
+    case 'replaceDescription': {
+      const pattern = new RegExp(escapeRegExp(action.find), action.matchCase ? 'g' : 'gi');
+      return (row) => {
+        if (!row.description) return false;
+        // A function replacement keeps "$" in the user's text literal
+        const description = row.description.replace(pattern, () => action.replace);
+        if (description === row.description) return false;
+        row.description = description;
+        return true;
+      };
     }
+    case 'shiftDates':
+      return (row) => {
+        if (!row.date) return false;
+        row.date = shiftDate(row.date, action.days);
+        return true;
+      };
   }
+}
 
-  // Update session
-  await db('import_sessions')
-    .where({ id: sessionId })
-    .update({
-      parsedRows: JSON.stringify(parsedRows),
-      validRowCount: validCount,
-      invalidRowCount: invalidCount,
-      skippedRowCount: skippedCount,
-      updatedAt: db.fn.now(),
-    });
+// Apply one action to many rows, then recount the session once
+export async function bulkUpdateRows(
+  sessionId: number,
+  userId: number,
+  selection: RowSelection,
+  action: BulkRowAction
+): Promise<BulkUpdateResult> {
+  const session = await getSession(sessionId, userId);
+  if (!session) {
+    throw new Error('Session not found');
+  }
 
-  logger.info({ userId, sessionId, rowIndex, skip }, 'Row skip status updated');
+  await assertNoActiveJob(sessionId);
+
+  const selected = 'rowIndexes' in selection
+    ? db('import_rows').where({ sessionId }).whereIn('rowIndex', selection.rowIndexes)
+    : applyRowFilter(db('import_rows').where({ sessionId }), selection.filter);
+
+  let updatedCount = 0;
+  if (action.type === 'skip') {
+    updatedCount = await selected
+      .where({ skipped: !action.skip })
+      .update({ skipped: action.skip, skipReason: action.skip ? 'manual' : null });
+  } else {
+    const edit = await bulkRowEdit(userId, action);
+    // Ids first: edited rows can leave the filter, which would shift later pages
+    const ids: number[] = await selected.orderBy('rowIndex').pluck('id');
+    const categorized: ParsedRow[] = [];
+
+    for (let i = 0; i < ids.length; i += IMPORT_BATCH_SIZE) {
+      const records: ImportRowRecord[] = await db('import_rows').whereIn('id', ids.slice(i, i + IMPORT_BATCH_SIZE));
+      await db.transaction(async (trx) => {
+        for (const record of records) {
+          const row = toParsedRow(record);
+          if (!edit(row)) continue;
+          // Re-validated like a single edit, so structural errors from the file are dropped
+          row.errors = validateRow(row);
+          await trx('import_rows').where({ id: record.id }).update(toRowRecord(sessionId, row));
+          updatedCount++;
+          if (action.type === 'setCategory' && row.categoryId !== record.categoryId) {
+            categorized.push(row);
+          }
+        }
+      });
+    }
 
-  return row;
+    await recordCategoryFeedback(userId, categorized);
+  }
+
+  const counts = await refreshRowCounts(sessionId);
+
+  logger.info({ userId, sessionId, action: action.type, updatedCount }, 'Rows updated in bulk');
+
+  return { updatedCount, ...counts };
 }
 
-// Confirm and execute import
-export async function confirmImport(sessionId: number, userId: number): Promise<ImportResult> {
+// Check that a session can be imported, before the work is queued
+export async function assertConfirmReady(sessionId: number, userId: number): Promise<ImportSession> {
   const session = await getSession(sessionId, userId);
   if (!session) {
     throw new Error('Session not found');
@@ -540,61 +1116,113 @@ export async function confirmImport(sessionId: number, userId: number): Promise<
     throw new Error('Session is not in preview status');
   }
 
-  if (!session.parsedRows) {
-    throw new Error('No parsed rows in session');
+  if (session.validRowCount === 0) {
+    throw new Error('No valid rows to import');
   }
 
-  const parsedRows: ParsedRow[] = JSON.parse(session.parsedRows);
-  const rowsToImport = parsedRows.filter(r => !r.skipped && r.errors.length === 0);
+  return session;
+}
 
-  if (rowsToImport.length === 0) {
-    throw new Error('No valid rows to import');
-  }
+// Confirm and execute import. Runs as a background job; progress counts expenses created.
+export async function confirmImport(
+  sessionId: number,
+  userId: number,
+  onProgress: ProgressReporter = noProgress
+): Promise<ImportResult> {
+  const session = await assertConfirmReady(sessionId, userId);
+
+  const totalRows = await db('import_rows').where({ sessionId }).count<{ count: number }[]>('id as count');
+  const rowsToImport: Pick<ImportRowRecord, 'id' | 'date' | 'amount' | 'currency' | 'description' | 'categoryId' | 'tags'>[] =
+    await db('import_rows')
+      .where({ sessionId, skipped: false, errors: '[]' })
+      .orderBy('rowIndex')
+      .select('id', 'date', 'amount', 'currency', 'description', 'categoryId', 'tags');
+  // Rows parsed before currencies were recorded have none
+  const baseCurrency = await getBaseCurrency(userId);
 
   // Get default category for rows without category
-  const defaultCategory = await db('categories').where({ name: 'Other' }).first();
+  const defaultCategory = await db('categories').whereNull('userId').where({ name: 'Other' }).first();
   const defaultCategoryId = defaultCategory?.id || 1;
 
-  let importedCount = 0;
-  const skippedCount = parsedRows.length - rowsToImport.length;
+  const skippedCount = Number(totalRows[0].count) - rowsToImport.length;
 
-  // Use transaction for atomicity
-  await db.transaction(async (trx) => {
-    for (const row of rowsToImport) {
-      await trx('expenses').insert({
-        userId,
-        categoryId: row.categoryId || defaultCategoryId,
-        amount: row.amount,
-        description: row.description,
-        date: row.date,
-      });
-      importedCount++;
+  const historyId = await db.transaction(async (trx) => {
+    // Leave preview before any expense is committed, so the session cannot be confirmed twice
+    const started = await trx('import_sessions')
+      .where({ id: sessionId, status: 'preview' })
+      .update({ status: 'importing', updatedAt: db.fn.now() });
+    if (started === 0) {
+      throw new Error('Session is not in preview status');
     }
 
-    // Update session status
-    await trx('import_sessions')
-      .where({ id: sessionId })
-      .update({
-        status: 'completed',
-        importedExpenseCount: importedCount,
-        updatedAt: db.fn.now(),
-      });
-
-    // Create history record
-    await trx('import_history').insert({
+    // Create history record first so every expense can be linked to it for reverting
+    const [historyId] = await trx('import_history').insert({
       userId,
       sessionId,
       fileName: session.fileName || 'unknown.csv',
-      totalRows: parsedRows.length,
-      importedRows: importedCount,
+      totalRows: Number(totalRows[0].count),
+      importedRows: rowsToImport.length,
       skippedRows: skippedCount,
     });
+    return historyId;
   });
 
+  let importedCount = 0;
+  try {
+    for (let i = 0; i < rowsToImport.length; i += IMPORT_BATCH_SIZE) {
+      const batch = rowsToImport.slice(i, i + IMPORT_BATCH_SIZE);
+
+      await db.transaction(async (trx) => {
+        for (let j = 0; j < batch.length; j += INSERT_CHUNK_SIZE) {
+          const chunk = batch.slice(j, j + INSERT_CHUNK_SIZE);
+          const [lastId] = await trx('expenses').insert(
+            chunk.map(row => ({
+              userId,
+              categoryId: row.categoryId || defaultCategoryId,
+              amount: row.amount,
+              currency: row.currency ?? baseCurrency,
+              description: row.description,
+              date: row.date,
+              importHistoryId: historyId,
+            }))
+          );
+
+          // SQLite numbers the rows of one insert consecutively, ending at the id it reports.
+          // The rows keep their expense ids for the history detail.
+          const expenseIds = chunk.map((_, k) => lastId - chunk.length + 1 + k);
+          for (let k = 0; k < chunk.length; k++) {
+            await trx('import_rows').where({ id: chunk[k].id }).update({ expenseId: expenseIds[k] });
+          }
+          await addExpenseTags(
+            userId,
+            chunk.map((row, k) => ({ expenseId: expenseIds[k], tags: JSON.parse(row.tags) })),
+            trx
+          );
+        }
+      });
+
+      importedCount += batch.length;
+      await onProgress(importedCount, rowsToImport.length);
+    }
+  } catch (error) {
+    await discardPartialImport(sessionId);
+    invalidateCategoryModel(userId);
+    throw error;
+  }
+  invalidateCategoryModel(userId);
+
+  await db('import_sessions')
+    .where({ id: sessionId })
+    .update({
+      status: 'completed',
+      importedExpenseCount: importedCount,
+      updatedAt: db.fn.now(),
+    });
+
   logger.info({ userId, sessionId, importedCount, skippedCount }, 'Import completed');
 
   const history = await db('import_history')
-    .where({ sessionId })
+    .where({ id: historyId })
     .first<ImportHistory>();
 
   return {
@@ -604,18 +1232,170 @@ export async function confirmImport(sessionId: number, userId: number): Promise<
   };
 }
 
-// List import history
-export async function listImportHistory(userId: number): Promise<ImportHistory[]> {
-  return db('import_history')
-    .where({ userId })
-    .orderBy('createdAt', 'desc');
+// Batches commit one at a time, so remove what the earlier ones created and return the
+// session to preview
+async function discardPartialImport(sessionId: number): Promise<void> {
+  await db.transaction(async (trx) => {
+    const historyIds = await trx('import_history').where({ sessionId }).pluck<number[]>('id');
+    await trx('expenses').whereIn('importHistoryId', historyIds).delete();
+    await trx('import_rows').where({ sessionId }).update({ expenseId: null });
+    await trx('import_history').whereIn('id', historyIds).delete();
+    await trx('import_sessions')
+      .where({ id: sessionId, status: 'importing' })
+      .update({ status: 'preview', updatedAt: db.fn.now() });
+  });
+}
+
+// Run at startup: undo imports whose confirm job was cut short by a restart
+export async function discardInterruptedImports(): Promise<number> {
+  const sessionIds = await db('import_sessions').where({ status: 'importing' }).pluck<number[]>('id');
+  for (const sessionId of sessionIds) {
+    await discardPartialImport(sessionId);
+  }
+
+  if (sessionIds.length > 0) {
+    logger.info({ sessionIds }, 'Discarded interrupted imports');
+  }
+
+  return sessionIds.length;
+}
+
+// List import history, with how many of each import's expenses remain and were edited since
+export async function listImportHistory(userId: number): Promise<ImportHistoryWithCounts[]> {
+  const rows = await db('import_history')
+    .leftJoin('expenses', 'expenses.importHistoryId', 'import_history.id')
+    .where('import_history.userId', userId)
+    .groupBy('import_history.id')
+    .select(
+      'import_history.*',
+      db.raw('count(expenses.id) as remainingExpenses'),
+      db.raw('count(expenses.updatedAt) as editedExpenses')
+    )
+    .orderBy('import_history.createdAt', 'desc')
+    .orderBy('import_history.id', 'desc');
+
+  return rows.map((row) => ({
+    ...row,
+    remainingExpenses: Number(row.remainingExpenses),
+    editedExpenses: Number(row.editedExpenses),
+  }));
+}
+
+// One history entry with the outcome of every row in its file
+export async function getImportHistoryDetail(historyId: number, userId: number): Promise<ImportHistoryDetail | null> {
+  const history = await db('import_history').where({ id: historyId, userId }).first<ImportHistory>();
+  if (!history) return null;
+
+  const parsedRows = await getParsedRows(history.sessionId, userId);
+  const remaining = await db('expenses')
+    .where({ userId, importHistoryId: historyId })
+    .pluck<number[]>('id');
+  const remainingIds = new Set(remaining);
+
+  const rows: ImportHistoryRow[] = parsedRows.map((row) => {
+    // Rows parsed before skip reasons were recorded only know whether they were duplicates
+    const skipReason = row.skipped ? row.skipReason ?? (row.duplicate ? 'duplicate' : 'manual') : null;
+    const expenseId = row.expenseId ?? null;
+
+    return {
+      rowIndex: row.rowIndex,
+      outcome: row.skipped ? 'skipped' : row.errors.length > 0 ? 'invalid' : 'imported',
+      skipReason,
+      errors: row.errors,
+      originalData: row.originalData,
+      date: row.date,
+      amount: row.amount,
+      currency: row.currency,
+      description: row.description,
+      category: row.category,
+      expenseId,
+      expenseExists: expenseId !== null && remainingIds.has(expenseId),
+    };
+  });
+
+  return {
+    history,
+    columns: parsedRows.length > 0 ? Object.keys(parsedRows[0].originalData) : [],
+    rows,
+  };
+}
+
+// Delete the expenses an import created. Expenses edited since the import are only
+// deleted when `force` is set; the history entry is kept and marked as reverted.
+export async function revertImport(historyId: number, userId: number, force = false): Promise<RevertResult | null> {
+  const history = await db('import_history').where({ id: historyId, userId }).first<ImportHistory>();
+  if (!history) return null;
+
+  if (history.revertedAt) {
+    throw new Error('Import has already been reverted');
+  }
+
+  let deletedCount = 0;
+  let hashes: string[] = [];
+  await db.transaction(async (trx) => {
+    const expenses = await trx('expenses')
+      .where({ userId, importHistoryId: historyId })
+      .select<Pick<Expense, 'id' | 'updatedAt'>[]>('id', 'updatedAt');
+
+    // Also the case for imports restored from a backup, whose expenses are not linked
+    if (expenses.length === 0) {
+      throw new Error('Import has no expenses left to revert');
+    }
+    if (!force && expenses.some((e) => e.updatedAt)) {
+      throw new Error('Some imported expenses were edited after the import');
+    }
+
+    hashes = await attachmentHashes(userId, expenses.map((e) => e.id), trx);
+    deletedCount = await trx('expenses').where({ userId, importHistoryId: historyId }).delete();
+    await trx('import_history').where({ id: historyId }).update({ revertedAt: db.fn.now() });
+  });
+  // Receipts added to the imported expenses since; only after the commit, as files cannot be rolled back
+  await removeUnusedFiles(hashes);
+  invalidateCategoryModel(userId);
+
+  logger.info({ userId, historyId, deletedCount, force }, 'Import reverted');
+
+  const reverted = await db('import_history').where({ id: historyId }).first<ImportHistory>();
+  return { deletedCount, history: reverted! };
+}
+
+// One page of a session's rows, with the counts the preview shows alongside it
+export async function listSessionRows(
+  sessionId: number,
+  userId: number,
+  { filter = 'all', limit = 50, offset = 0 }: { filter?: RowFilter; limit?: number; offset?: number }
+): Promise<RowPage | null> {
+  const session = await getSession(sessionId, userId);
+  if (!session) {
+    return null;
+  }
+
+  const records: ImportRowRecord[] = await applyRowFilter(db('import_rows').where({ sessionId }), filter)
+    .orderBy('rowIndex')
+    .limit(limit)
+    .offset(offset);
+  const matching = await applyRowFilter(db('import_rows').where({ sessionId }), filter)
+    .count({ count: '*' })
+    .first();
+  const duplicates = await applyRowFilter(db('import_rows').where({ sessionId }), 'duplicate')
+    .count({ count: '*' })
+    .first();
+
+  return {
+    rows: records.map(toParsedRow),
+    total: Number(matching?.count ?? 0),
+    duplicateCount: Number(duplicates?.count ?? 0),
+    ...(await countRows(sessionId)),
+  };
 }
 
 // Get parsed rows from session
 export async function getParsedRows(sessionId: number, userId: number): Promise<ParsedRow[]> {
   const session = await getSession(sessionId, userId);
-  if (!session || !session.parsedRows) {
+  if (!session) {
     return [];
   }
-  return JSON.parse(session.parsedRows);
+
+  const records: ImportRowRecord[] = await db('import_rows').where({ sessionId }).orderBy('rowIndex');
+  return records.map(toParsedRow);
 }
@@ -0,0 +1,168 @@
+import db from '../db/knex.js';
+import logger from '../logger.js';
+import type { AmountMode, ColumnMapping, ImportTemplate, MappingOptions } from '../types/index.js';
+
+interface ImportTemplateRow extends Omit<ImportTemplate, 'headers' | 'columnMapping'> {
+  headers: string;
+  columnMapping: string;
+}
+
+interface CreateTemplateParams extends MappingOptions {
+  userId: number;
+  name: string;
+  headers: string[];
+  columnMapping: ColumnMapping;
+}
+
+interface UpdateTemplateParams extends Partial<MappingOptions> {
+  name?: string;
+  columnMapping?: ColumnMapping;
+}
+
+function toTemplate(row: ImportTemplateRow): ImportTemplate {
+  return {
+    ...row,
+    headers: JSON.parse(row.headers),
+    columnMapping: JSON.parse(row.columnMapping),
+  };
+}
+
+// Identifies a file layout by its column names, ignoring case and surrounding whitespace
+export function headerFingerprint(headers: string[]): string {
+  return JSON.stringify(headers.map(h => h.trim().toLowerCase()));
+}
+
+async function assertNameAvailable(userId: number, name: string, excludeId?: number): Promise<void> {
+  const query = db('import_templates').where({ userId }).whereRaw('lower(name) = ?', [name.trim().toLowerCase()]);
+  if (excludeId) {
+    query.whereNot('id', excludeId);
+  }
+
+  if (await query.first()) {
+    throw new Error('Template name already exists');
+  }
+}
+
+// Mapped columns are matched case-insensitively and stored as spelled in the template headers
+function resolveMappingColumns(headers: string[], mapping: ColumnMapping): ColumnMapping {
+  const resolve = (column: string | undefined) => {
+    if (!column) return column;
+    const header = headers.find(h => h.trim().toLowerCase() === column.trim().toLowerCase());
+    if (header === undefined) {
+      throw new Error('Mapped column not found in template headers');
+    }
+    return header;
+  };
+
+  return {
+    date: resolve(mapping.date)!,
+    amount: resolve(mapping.amount),
+    debit: resolve(mapping.debit),
+    credit: resolve(mapping.credit),
+    description: resolve(mapping.description)!,
+    category: resolve(mapping.category),
+    currency: resolve(mapping.currency),
+  };
+}
+
+// The amount mode decides which amount columns a mapping needs
+export function assertAmountColumns(mapping: ColumnMapping, amountMode: AmountMode): void {
+  if (amountMode === 'split' && (!mapping.debit || !mapping.credit)) {
+    throw new Error('Debit and credit columns are required');
+  }
+  if (amountMode === 'signed' && !mapping.amount) {
+    throw new Error('Amount column is required');
+  }
+}
+
+export async function listTemplates(userId: number): Promise<ImportTemplate[]> {
+  const rows: ImportTemplateRow[] = await db('import_templates').where({ userId }).orderBy('name');
+  return rows.map(toTemplate);
+}
+
+export async function getTemplate(id: number, userId: number): Promise<ImportTemplate | null> {
+  const row = await db('import_templates').where({ id, userId }).first<ImportTemplateRow>();
+  return row ? toTemplate(row) : null;
+}
+
+// The most recently updated template saved for a file with these headers. The fingerprint
+// ignores case, so the mapping is rewritten to the column names as spelled in this file.
+export async function findTemplateByHeaders(userId: number, headers: string[]): Promise<ImportTemplate | null> {
+  const row = await db('import_templates')
+    .where({ userId, headerFingerprint: headerFingerprint(headers) })
+    .orderBy('updatedAt', 'desc')
+    .orderBy('id', 'desc')
+    .first<ImportTemplateRow>();
+  if (!row) return null;
+
+  const template = toTemplate(row);
+  const toFileColumn = (column: string | undefined) =>
+    column ? headers[template.headers.indexOf(column)] : column;
+
+  return {
+    ...template,
+    columnMapping: {
+      date: toFileColumn(template.columnMapping.date)!,
+      amount: toFileColumn(template.columnMapping.amount),
+      debit: toFileColumn(template.columnMapping.debit),
+      credit: toFileColumn(template.columnMapping.credit),
+      description: toFileColumn(template.columnMapping.description)!,
+      category: toFileColumn(template.columnMapping.category),
+      currency: toFileColumn(template.columnMapping.currency),
+    },
+  };
+}
+
+export async function createTemplate(params: CreateTemplateParams): Promise<ImportTemplate> {
+  const { userId, name, headers, columnMapping, ...options } = params;
+
+  await assertNameAvailable(userId, name);
+  const resolvedMapping = resolveMappingColumns(headers, columnMapping);
+  assertAmountColumns(resolvedMapping, options.amountMode);
+
+  const [id] = await db('import_templates').insert({
+    userId,
+    name: name.trim(),
+    headers: JSON.stringify(headers),
+    headerFingerprint: headerFingerprint(headers),
+    columnMapping: JSON.stringify(resolvedMapping),
+    ...options,
+  });
+  logger.info({ userId, templateId: id }, 'Import template created');
+
+  return (await getTemplate(id, userId))!;
+}
+
+export async function updateTemplate(
+  id: number,
+  userId: number,
+  params: UpdateTemplateParams
+): Promise<ImportTemplate | null> {
+  const existing = await getTemplate(id, userId);
+  if (!existing) return null;
+
+  const { name, columnMapping, ...options } = params;
+  const updates: Record<string, unknown> = { ...options, updatedAt: db.fn.now() };
+
+  if (name !== undefined) {
+    await assertNameAvailable(userId, name, id);
+    updates.name = name.trim();
+  }
+  if (columnMapping !== undefined) {
+    updates.columnMapping = JSON.stringify(resolveMappingColumns(existing.headers, columnMapping));
+  }
+  assertAmountColumns(columnMapping ?? existing.columnMapping, options.amountMode ?? existing.amountMode);
+
+  await db('import_templates').where({ id, userId }).update(updates);
+  logger.info({ userId, templateId: id }, 'Import template updated');
+
+  return getTemplate(id, userId);
+}
+
+export async function deleteTemplate(id: number, userId: number): Promise<boolean> {
+  const deleted = await db('import_templates').where({ id, userId }).delete();
+  if (deleted > 0) {
+    logger.info({ userId, templateId: id }, 'Import template deleted');
+  }
+  return deleted > 0;
+}
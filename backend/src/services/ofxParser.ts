@@ -0,0 +1,98 @@
+// Parser for OFX/QFX bank statements. Handles both the SGML flavour (OFX 1.x, where
+// leaf elements are not closed) and the XML flavour (OFX 2.x).
+
+export interface OfxTransaction {
+  fitId: string | null;
+  type: string | null;
+  datePosted: string | null; // YYYY-MM-DD
+  amount: number | null; // signed as in the statement: negative for debits
+  currency: string | null; // ISO 4217 code, from the transaction or the statement default
+  name: string | null;
+  memo: string | null;
+  raw: Record<string, string>;
+}
+
+const TRANSACTION_FIELDS = ['FITID', 'TRNTYPE', 'DTPOSTED', 'TRNAMT', 'NAME', 'MEMO'];
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&');
+}
+
+// Value of a leaf element: everything up to the next tag or line break
+function readField(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  if (!match) return null;
+  const value = decodeEntities(match[1]).trim();
+  return value || null;
+}
+
+// DTPOSTED is YYYYMMDD optionally followed by time, fraction and timezone, e.g. 20240115120000.000[-5:EST]
+function parseOfxDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCMonth() !== Number(month) - 1) return null;
+
+  return `${year}-${month}-${day}`;
+}
+
+function parseOfxAmount(value: string | null): number | null {
+  if (!value) return null;
+  // Some banks write the decimal separator as a comma
+  const normalized = value.includes('.') ? value.replace(/,/g, '') : value.replace(',', '.');
+  const amount = Number(normalized.replace(/\s/g, ''));
+  return isNaN(amount) ? null : amount;
+}
+
+// A <CURRENCY> aggregate means TRNAMT is in that currency rather than the statement's CURDEF.
+// <ORIGCURRENCY> only records the original currency of an amount already converted.
+function readCurrency(block: string): string | null {
+  const aggregate = block.match(/<CURRENCY>[\s\S]*?(?:<\/CURRENCY>|<\/STMTTRN>)/i);
+  return aggregate ? readField(aggregate[0], 'CURSYM')?.toUpperCase() ?? null : null;
+}
+
+export function isOfx(content: string): boolean {
+  return /OFXHEADER\s*:|<OFX>/i.test(content.slice(0, 2048));
+}
+
+export function parseOfx(content: string): OfxTransaction[] {
+  if (!isOfx(content)) {
+    throw new Error('File is not a valid OFX statement');
+  }
+
+  const transactions: OfxTransaction[] = [];
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+  const defaultCurrency = readField(content, 'CURDEF');
+
+  for (const block of blocks) {
+    const raw: Record<string, string> = {};
+    for (const tag of TRANSACTION_FIELDS) {
+      raw[tag] = readField(block, tag) || '';
+    }
+
+    transactions.push({
+      fitId: raw.FITID || null,
+      type: raw.TRNTYPE || null,
+      datePosted: parseOfxDate(raw.DTPOSTED),
+      amount: parseOfxAmount(raw.TRNAMT),
+      currency: readCurrency(block) ?? defaultCurrency?.toUpperCase() ?? null,
+      name: raw.NAME || null,
+      memo: raw.MEMO || null,
+      raw,
+    });
+  }
+
+  if (transactions.length === 0) {
+    throw new Error('No transactions found in OFX file');
+  }
+
+  return transactions;
+}
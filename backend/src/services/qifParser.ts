@@ -0,0 +1,112 @@
+// Reader and writer for QIF (Quicken Interchange Format) files. A QIF file is a list of
+// records, one field per line keyed by its first character, each record ending with "^".
+
+export interface QifTransaction {
+  date: string | null; // as written in the file; date formats vary by locale
+  amount: string | null;
+  payee: string | null;
+  memo: string | null;
+  category: string | null;
+  raw: Record<string, string>;
+}
+
+export interface QifRecord {
+  date: string; // YYYY-MM-DD
+  amount: number; // signed as in the register: negative for spending
+  payee: string;
+  category: string | null;
+}
+
+// Account types whose records are transactions (as opposed to category or account lists)
+const TRANSACTION_TYPES = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+
+const FIELD_NAMES: Record<string, string> = {
+  D: 'Date',
+  T: 'Amount',
+  P: 'Payee',
+  M: 'Memo',
+  L: 'Category',
+};
+
+export function isQif(content: string): boolean {
+  return /^\s*!(Type|Account|Option)/i.test(content);
+}
+
+export function parseQif(content: string): QifTransaction[] {
+  if (!isQif(content)) {
+    throw new Error('File is not a valid QIF file');
+  }
+
+  const transactions: QifTransaction[] = [];
+  let inTransactions = false;
+  let fields: Record<string, string> = {};
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('!')) {
+      const type = line.match(/^!Type:(.*)$/i);
+      if (type) {
+        inTransactions = TRANSACTION_TYPES.includes(type[1].trim().toLowerCase());
+      }
+      fields = {};
+      continue;
+    }
+
+    if (line === '^') {
+      if (inTransactions && Object.keys(fields).length > 0) {
+        const raw: Record<string, string> = {};
+        for (const [code, name] of Object.entries(FIELD_NAMES)) {
+          raw[name] = fields[code] || '';
+        }
+
+        transactions.push({
+          date: fields.D || null,
+          amount: fields.T || fields.U || null,
+          payee: fields.P || null,
+          memo: fields.M || null,
+          category: fields.L || null,
+          raw,
+        });
+      }
+      fields = {};
+      continue;
+    }
+
+    // Split lines (S, E, $) repeat per split; only the transaction-level fields are used
+    const code = line[0];
+    if (!(code in fields)) {
+      fields[code] = line.slice(1).trim();
+    }
+  }
+
+  if (transactions.length === 0) {
+    throw new Error('No transactions found in QIF file');
+  }
+
+  return transactions;
+}
+
+// QIF fields are single lines; anything after a line break would start a new field
+function singleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+export function qifHeader(): string {
+  return '!Type:Bank\n';
+}
+
+export function writeQifRecord(record: QifRecord): string {
+  const [year, month, day] = record.date.split('-');
+  const lines = [
+    `D${month}/${day}/${year}`,
+    `T${record.amount.toFixed(2)}`,
+    `P${singleLine(record.payee)}`,
+  ];
+  if (record.category) {
+    lines.push(`L${singleLine(record.category)}`);
+  }
+  lines.push('^');
+  return lines.join('\n') + '\n';
+}
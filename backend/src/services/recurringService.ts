@@ -0,0 +1,390 @@
+import type { Knex } from 'knex';
+import db from '../db/knex.js';
+import logger from '../logger.js';
+import { getBaseCurrency } from './currencyService.js';
+import { getCategory } from './categoryService.js';
+import { invalidateCategoryModel } from './categorizerService.js';
+import type {
+  RecurringExpense,
+  RecurringExpenseWithCategory,
+  RecurringFrequency,
+} from '../types/index.js';
+
+interface CreateRecurringParams {
+  userId: number;
+  categoryId: number;
+  amount: number;
+  currency?: string; // the user's base currency when left out
+  description: string;
+  frequency: RecurringFrequency;
+  interval: number;
+  startDate: string;
+  endDate?: string | null;
+}
+
+interface UpdateRecurringParams {
+  categoryId?: number;
+  amount?: number;
+  currency?: string;
+  description?: string;
+  frequency?: RecurringFrequency;
+  interval?: number;
+  startDate?: string;
+  endDate?: string | null;
+}
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+// Date helpers (all dates are YYYY-MM-DD strings interpreted as UTC)
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function parseDateString(dateStr: string): Date {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function addDays(dateStr: string, days: number): string {
+  const date = parseDateString(dateStr);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateString(date);
+}
+
+// Add months, clamping to the last day of the target month (Jan 31 + 1 month = Feb 28)
+function addMonths(dateStr: string, months: number): string {
+  const date = parseDateString(dateStr);
+  const day = date.getUTCDate();
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return toDateString(target);
+}
+
+function today(): string {
+  return toDateString(new Date());
+}
+
+type Schedule = Pick<RecurringExpense, 'frequency' | 'interval' | 'startDate' | 'endDate'>;
+
+// Nth occurrence of a schedule, always computed from the start date so month-end clamping does not drift
+function occurrenceAt(schedule: Schedule, n: number): string {
+  const steps = n * schedule.interval;
+  switch (schedule.frequency) {
+    case 'daily':
+      return addDays(schedule.startDate, steps);
+    case 'weekly':
+      return addDays(schedule.startDate, steps * 7);
+    case 'monthly':
+      return addMonths(schedule.startDate, steps);
+    case 'yearly':
+      return addMonths(schedule.startDate, steps * 12);
+  }
+}
+
+// First occurrence on or after the given date, or null if the schedule has ended by then
+function firstOccurrenceOnOrAfter(schedule: Schedule, dateStr: string): string | null {
+  let n = 0;
+
+  if (dateStr > schedule.startDate) {
+    // Jump close to the target, then walk forward to the exact occurrence
+    const start = parseDateString(schedule.startDate);
+    const target = parseDateString(dateStr);
+    const elapsedDays = Math.floor((target.getTime() - start.getTime()) / 86400000);
+    const elapsedMonths =
+      (target.getUTCFullYear() - start.getUTCFullYear()) * 12 + target.getUTCMonth() - start.getUTCMonth();
+
+    const periodLength = {
+      daily: schedule.interval,
+      weekly: schedule.interval * 7,
+      monthly: schedule.interval,
+      yearly: schedule.interval * 12,
+    }[schedule.frequency];
+    const elapsed = schedule.frequency === 'daily' || schedule.frequency === 'weekly' ? elapsedDays : elapsedMonths;
+
+    n = Math.max(0, Math.floor(elapsed / periodLength) - 1);
+    while (occurrenceAt(schedule, n) < dateStr) {
+      n++;
+    }
+  }
+
+  const occurrence = occurrenceAt(schedule, n);
+  if (schedule.endDate && occurrence > schedule.endDate) {
+    return null;
+  }
+  return occurrence;
+}
+
+function nextOccurrenceAfter(schedule: Schedule, dateStr: string): string | null {
+  return firstOccurrenceOnOrAfter(schedule, addDays(dateStr, 1));
+}
+
+// Insert expense rows for every occurrence of a rule that has come due
+async function materializeRule(
+  trx: Knex.Transaction,
+  rule: RecurringExpense,
+  asOf: string
+): Promise<number> {
+  let pending = rule.nextDate;
+  let created = 0;
+
+  while (pending && pending <= asOf) {
+    await trx('expenses').insert({
+      userId: rule.userId,
+      categoryId: rule.categoryId,
+      amount: rule.amount,
+      currency: rule.currency,
+      description: rule.description,
+      date: pending,
+      recurringExpenseId: rule.id,
+    });
+    created++;
+    pending = nextOccurrenceAfter(rule, pending);
+  }
+
+  if (created > 0) {
+    await trx('recurring_expenses')
+      .where({ id: rule.id })
+      .update({ nextDate: pending, updatedAt: db.fn.now() });
+    invalidateCategoryModel(rule.userId);
+  }
+
+  return created;
+}
+
+function withCategory(query: Knex.QueryBuilder): Knex.QueryBuilder {
+  return query
+    .join('categories', 'recurring_expenses.categoryId', 'categories.id')
+    .select(
+      'recurring_expenses.*',
+      'categories.name as categoryName',
+      'categories.icon as categoryIcon'
+    );
+}
+
+export async function listRecurring(userId: number): Promise<RecurringExpenseWithCategory[]> {
+  return withCategory(db('recurring_expenses'))
+    .where('recurring_expenses.userId', userId)
+    .orderBy('recurring_expenses.createdAt', 'desc');
+}
+
+export async function getRecurring(id: number, userId: number): Promise<RecurringExpenseWithCategory | null> {
+  const rule = await withCategory(db('recurring_expenses'))
+    .where('recurring_expenses.id', id)
+    .where('recurring_expenses.userId', userId)
+    .first();
+
+  return rule || null;
+}
+
+export async function createRecurring(params: CreateRecurringParams): Promise<RecurringExpenseWithCategory> {
+  if (params.endDate && params.endDate < params.startDate) {
+    throw new Error('End date must not be before start date');
+  }
+  if (!(await getCategory(params.categoryId, params.userId))) {
+    throw new Error('Category not found');
+  }
+
+  const id = await db.transaction(async (trx) => {
+    const [id] = await trx('recurring_expenses').insert({
+      ...params,
+      currency: params.currency ?? (await getBaseCurrency(params.userId, trx)),
+      endDate: params.endDate ?? null,
+      nextDate: params.startDate,
+    });
+
+    // Back-fill any occurrences that are already due
+    const rule = await trx('recurring_expenses').where({ id }).first<RecurringExpense>();
+    await materializeRule(trx, rule!, today());
+
+    return id;
+  });
+
+  logger.info({ userId: params.userId, recurringExpenseId: id }, 'Recurring expense created');
+
+  const rule = await getRecurring(id, params.userId);
+  return rule!;
+}
+
+// Update a rule. Without effectiveFrom the change applies to occurrences that have not been
+// created yet; with effectiveFrom the series is split so that the occurrence on that date and
+// every later one (including already-created expenses) take the new values.
+export async function updateRecurring(
+  id: number,
+  userId: number,
+  params: UpdateRecurringParams,
+  effectiveFrom?: string
+): Promise<RecurringExpenseWithCategory | null> {
+  const existing = await db('recurring_expenses').where({ id, userId }).first<RecurringExpense>();
+  if (!existing) return null;
+
+  const merged: RecurringExpense = { ...existing, ...params };
+  if (merged.endDate && merged.endDate < merged.startDate) {
+    throw new Error('End date must not be before start date');
+  }
+  if (params.categoryId !== undefined && !(await getCategory(params.categoryId, userId))) {
+    throw new Error('Category not found');
+  }
+
+  const resultId = await db.transaction(async (trx) => {
+    if (!effectiveFrom || effectiveFrom <= existing.startDate) {
+      const resumeFrom = existing.nextDate ?? addDays(existing.endDate ?? today(), 1);
+      const nextDate = firstOccurrenceOnOrAfter(
+        merged,
+        resumeFrom > merged.startDate ? resumeFrom : merged.startDate
+      );
+
+      await trx('recurring_expenses')
+        .where({ id })
+        .update({ ...params, nextDate, updatedAt: db.fn.now() });
+
+      if (effectiveFrom) {
+        await updateMaterialized(trx, id, id, params, effectiveFrom);
+      }
+
+      const updated = await trx('recurring_expenses').where({ id }).first<RecurringExpense>();
+      await materializeRule(trx, updated!, today());
+      return id;
+    }
+
+    // Split: end the current rule the day before, continue the series as a new rule
+    const cutoff = addDays(effectiveFrom, -1);
+    await trx('recurring_expenses')
+      .where({ id })
+      .update({
+        endDate: existing.endDate && existing.endDate < cutoff ? existing.endDate : cutoff,
+        nextDate: existing.nextDate && existing.nextDate <= cutoff ? existing.nextDate : null,
+        updatedAt: db.fn.now(),
+      });
+
+    const continuation: Schedule = {
+      ...merged,
+      startDate: params.startDate ?? firstOccurrenceOnOrAfter({ ...existing, endDate: null }, effectiveFrom)!,
+    };
+    const resumeFrom = existing.nextDate && existing.nextDate > effectiveFrom ? existing.nextDate : effectiveFrom;
+
+    const [newId] = await trx('recurring_expenses').insert({
+      userId,
+      categoryId: merged.categoryId,
+      amount: merged.amount,
+      currency: merged.currency,
+      description: merged.description,
+      frequency: continuation.frequency,
+      interval: continuation.interval,
+      startDate: continuation.startDate,
+      endDate: continuation.endDate,
+      nextDate: firstOccurrenceOnOrAfter(
+        continuation,
+        resumeFrom > continuation.startDate ? resumeFrom : continuation.startDate
+      ),
+    });
+
+    await updateMaterialized(trx, id, newId, params, effectiveFrom);
+
+    const created = await trx('recurring_expenses').where({ id: newId }).first<RecurringExpense>();
+    await materializeRule(trx, created!, today());
+    return newId;
+  });
+  // Expenses already created from the rule were changed too
+  if (effectiveFrom) {
+    invalidateCategoryModel(userId);
+  }
+
+  logger.info({ userId, recurringExpenseId: id, resultId, effectiveFrom }, 'Recurring expense updated');
+
+  return getRecurring(resultId, userId);
+}
+
+// Re-point and update expenses already created from a rule on or after a date
+async function updateMaterialized(
+  trx: Knex.Transaction,
+  fromRuleId: number,
+  toRuleId: number,
+  params: UpdateRecurringParams,
+  fromDate: string
+): Promise<void> {
+  const updates: Record<string, unknown> = { recurringExpenseId: toRuleId };
+  if (params.categoryId !== undefined) updates.categoryId = params.categoryId;
+  if (params.amount !== undefined) updates.amount = params.amount;
+  if (params.currency !== undefined) updates.currency = params.currency;
+  if (params.description !== undefined) updates.description = params.description;
+
+  await trx('expenses')
+    .where({ recurringExpenseId: fromRuleId })
+    .where('date', '>=', fromDate)
+    .update(updates);
+}
+
+// Skip the next pending occurrence without creating an expense for it
+export async function skipNextOccurrence(id: number, userId: number): Promise<RecurringExpenseWithCategory | null> {
+  const rule = await db('recurring_expenses').where({ id, userId }).first<RecurringExpense>();
+  if (!rule) return null;
+
+  if (!rule.nextDate) {
+    throw new Error('Recurring expense has no upcoming occurrences');
+  }
+
+  const nextDate = nextOccurrenceAfter(rule, rule.nextDate);
+  await db('recurring_expenses')
+    .where({ id })
+    .update({ nextDate, updatedAt: db.fn.now() });
+
+  logger.info({ userId, recurringExpenseId: id, skippedDate: rule.nextDate }, 'Recurring occurrence skipped');
+
+  return getRecurring(id, userId);
+}
+
+// Delete a rule; expenses it already created are kept but unlinked
+export async function deleteRecurring(id: number, userId: number): Promise<boolean> {
+  return db.transaction(async (trx) => {
+    const rule = await trx('recurring_expenses').where({ id, userId }).first();
+    if (!rule) return false;
+
+    await trx('expenses').where({ recurringExpenseId: id }).update({ recurringExpenseId: null });
+    await trx('recurring_expenses').where({ id }).delete();
+    return true;
+  });
+}
+
+// Create expenses for every rule with a pending occurrence on or before asOf
+export async function materializeDueExpenses(asOf: string = today()): Promise<number> {
+  const dueIds = await db('recurring_expenses')
+    .whereNotNull('nextDate')
+    .where('nextDate', '<=', asOf)
+    .pluck<number[]>('id');
+
+  let created = 0;
+  for (const id of dueIds) {
+    try {
+      created += await db.transaction(async (trx) => {
+        // The rule may have been deleted, edited or skipped since the list was read
+        const rule = await trx('recurring_expenses')
+          .where({ id })
+          .whereNotNull('nextDate')
+          .where('nextDate', '<=', asOf)
+          .first<RecurringExpense>();
+        return rule ? materializeRule(trx, rule, asOf) : 0;
+      });
+    } catch (error) {
+      // One broken rule must not hold up the others
+      logger.error({ err: error, recurringExpenseId: id }, 'Failed to materialize recurring expense');
+    }
+  }
+
+  if (created > 0) {
+    logger.info({ ruleCount: dueIds.length, created, asOf }, 'Materialized recurring expenses');
+  }
+
+  return created;
+}
+
+export function startRecurringScheduler(intervalMs: number = SCHEDULER_INTERVAL_MS): NodeJS.Timeout {
+  const run = () => {
+    materializeDueExpenses().catch((error) => {
+      logger.error({ err: error }, 'Failed to materialize recurring expenses');
+    });
+  };
+
+  run();
+  return setInterval(run, intervalMs);
+}
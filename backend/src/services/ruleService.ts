@@ -0,0 +1,415 @@
+import db from '../db/knex.js';
+import logger from '../logger.js';
+import { getCategory, listCategories } from './categoryService.js';
+import { addExpenseTags, getExpenseTags, normalizeTag } from './tagService.js';
+import { invalidateCategoryModel } from './categorizerService.js';
+import type {
+  Rule,
+  RuleAction,
+  RuleCondition,
+  RuleOutcome,
+  RuleRunChange,
+  RuleRunPreview,
+  RuleRunResult,
+} from '../types/index.js';
+
+// Changes listed in a preview; the total still counts every expense that would change
+const RULE_PREVIEW_LIMIT = 200;
+
+// Expenses updated per transaction when rules are applied to existing expenses
+const RULE_RUN_BATCH_SIZE = 500;
+
+// Characters of a description a regex condition looks at, bounding the work of any one match
+const MAX_REGEX_INPUT = 500;
+
+interface RuleRow extends Omit<Rule, 'enabled' | 'conditions' | 'actions'> {
+  enabled: boolean | number;
+  conditions: string;
+  actions: string;
+}
+
+interface CreateRuleParams {
+  userId: number;
+  name: string;
+  enabled: boolean;
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+}
+
+interface UpdateRuleParams {
+  name?: string;
+  enabled?: boolean;
+  conditions?: RuleCondition[];
+  actions?: RuleAction[];
+}
+
+// An expense or import row as the rules see it; rows may still be missing a date or amount
+export interface RuleInput {
+  description: string;
+  amount: number | null;
+  date: string | null;
+}
+
+export interface RuleSet {
+  apply: (input: RuleInput) => RuleOutcome;
+}
+
+interface RunOptions {
+  ruleIds?: number[]; // only these rules, still in their order
+  expenseIds?: number[]; // only these expenses, e.g. the ones accepted from a preview
+}
+
+function toRule(row: RuleRow): Rule {
+  return {
+    ...row,
+    enabled: Boolean(row.enabled),
+    conditions: JSON.parse(row.conditions),
+    actions: JSON.parse(row.actions),
+  };
+}
+
+async function assertActionCategories(userId: number, actions: RuleAction[]): Promise<void> {
+  for (const action of actions) {
+    if (action.type === 'setCategory' && !(await getCategory(action.categoryId, userId))) {
+      throw new Error('Category not found');
+    }
+  }
+}
+
+// Weekday of a YYYY-MM-DD date, 0 = Sunday
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+interface PatternGroup {
+  hasQuantifier: boolean;
+  hasAlternation: boolean;
+}
+
+// Length of the quantifier at `index`, with whether it can repeat more than once; 0 when none
+function readQuantifier(pattern: string, index: number): { length: number; repeats: boolean } {
+  const char = pattern[index];
+  if (char === '*' || char === '+') return { length: 1, repeats: true };
+  if (char === '?') return { length: 1, repeats: false };
+  if (char === '{') {
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+    if (match) {
+      const max = match[2] === undefined ? Number(match[1]) : match[3] === '' ? Infinity : Number(match[3]);
+      return { length: match[0].length, repeats: max > 1 };
+    }
+  }
+  return { length: 0, repeats: false };
+}
+
+// Why a pattern could backtrack exponentially, or null when it is safe to run. JavaScript regexes
+// backtrack, so a repeated group that itself repeats or has alternatives, as in (a+)+ or (a|a)*,
+// can take exponential time on a non-matching description. Backreferences are refused as well.
+export function unsafePatternReason(pattern: string): string | null {
+  const groups: PatternGroup[] = [{ hasQuantifier: false, hasAlternation: false }];
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+    const current = groups[groups.length - 1];
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) return 'Backreferences are not supported';
+      i += 2;
+    } else if (char === '[') {
+      // Skip the character class; quantifiers and bars inside it are literal
+      i++;
+      if (pattern[i] === '^') i++;
+      if (pattern[i] === ']') i++;
+      while (i < pattern.length && pattern[i] !== ']') {
+        i += pattern[i] === '\\' ? 2 : 1;
+      }
+      i++;
+    } else if (char === '(') {
+      groups.push({ hasQuantifier: false, hasAlternation: false });
+      i++;
+      // Skip the (?: (?= (?! (?<= (?<! and (?<name> prefixes
+      if (pattern[i] === '?') {
+        const prefix = /^\?(:|=|!|<=|<!|<[^>]*>)/.exec(pattern.slice(i));
+        i += prefix ? prefix[0].length : 1;
+      }
+      continue;
+    } else if (char === ')') {
+      const group = groups.pop()!;
+      const parent = groups[groups.length - 1] ?? current;
+      i++;
+      const quantifier = readQuantifier(pattern, i);
+      if (quantifier.repeats && (group.hasQuantifier || group.hasAlternation)) {
+        return 'Repeating a group that contains a quantifier or alternatives can take too long to match';
+      }
+      parent.hasQuantifier ||= group.hasQuantifier || quantifier.length > 0;
+      parent.hasAlternation ||= group.hasAlternation;
+      i += quantifier.length;
+      continue;
+    } else if (char === '|') {
+      current.hasAlternation = true;
+      i++;
+    } else {
+      i++;
+    }
+
+    const quantifier = readQuantifier(pattern, i);
+    if (quantifier.length > 0) {
+      current.hasQuantifier = true;
+      i += quantifier.length;
+    }
+  }
+
+  return null;
+}
+
+function compileCondition(condition: RuleCondition): (input: RuleInput) => boolean {
+  switch (condition.type) {
+    case 'contains': {
+      const text = condition.matchCase ? condition.text : condition.text.toLowerCase();
+      return ({ description }) =>
+        (condition.matchCase ? description : description.toLowerCase()).includes(text);
+    }
+    case 'regex': {
+      // Patterns are checked when saved; one that no longer compiles, or was saved before the
+      // backtracking check, matches nothing
+      let pattern: RegExp | null = null;
+      try {
+        if (unsafePatternReason(condition.pattern) === null) {
+          pattern = new RegExp(condition.pattern, condition.flags.replace(/[gy]/g, ''));
+        }
+      } catch {
+        pattern = null;
+      }
+      return ({ description }) => pattern !== null && pattern.test(description.slice(0, MAX_REGEX_INPUT));
+    }
+    case 'amountRange':
+      return ({ amount }) =>
+        amount !== null &&
+        (condition.min === null || amount >= condition.min) &&
+        (condition.max === null || amount <= condition.max);
+    case 'weekday':
+      return ({ date }) => date !== null && condition.days.includes(weekdayOf(date));
+  }
+}
+
+export async function listRules(userId: number): Promise<Rule[]> {
+  const rows: RuleRow[] = await db('rules').where({ userId }).orderBy('position').orderBy('id');
+  return rows.map(toRule);
+}
+
+export async function getRule(id: number, userId: number): Promise<Rule | null> {
+  const row = await db('rules').where({ id, userId }).first<RuleRow>();
+  return row ? toRule(row) : null;
+}
+
+// New rules run after the existing ones
+export async function createRule(params: CreateRuleParams): Promise<Rule> {
+  const { userId, name, enabled, conditions, actions } = params;
+  await assertActionCategories(userId, actions);
+
+  const last = await db('rules').where({ userId }).max('position as position').first();
+  const [id] = await db('rules').insert({
+    userId,
+    name,
+    enabled,
+    position: Number(last?.position ?? 0) + 1,
+    conditions: JSON.stringify(conditions),
+    actions: JSON.stringify(actions),
+  });
+
+  logger.info({ userId, ruleId: id }, 'Rule created');
+
+  return (await getRule(id, userId))!;
+}
+
+export async function updateRule(id: number, userId: number, params: UpdateRuleParams): Promise<Rule | null> {
+  const existing = await getRule(id, userId);
+  if (!existing) return null;
+
+  if (params.actions) {
+    await assertActionCategories(userId, params.actions);
+  }
+
+  const { conditions, actions, ...fields } = params;
+  await db('rules')
+    .where({ id, userId })
+    .update({
+      ...fields,
+      ...(conditions && { conditions: JSON.stringify(conditions) }),
+      ...(actions && { actions: JSON.stringify(actions) }),
+      updatedAt: db.fn.now(),
+    });
+
+  logger.info({ userId, ruleId: id }, 'Rule updated');
+
+  return getRule(id, userId);
+}
+
+// Set the order rules run in; ids not listed keep their relative order after these
+export async function reorderRules(userId: number, orderedIds: number[]): Promise<Rule[]> {
+  const owned: number[] = await db('rules').where({ userId }).orderBy('position').orderBy('id').pluck('id');
+  const ownedSet = new Set(owned);
+
+  if (orderedIds.some((id) => !ownedSet.has(id))) {
+    throw new Error('Rule not found');
+  }
+
+  const remaining = owned.filter((id) => !orderedIds.includes(id));
+  const finalOrder = [...new Set(orderedIds), ...remaining];
+
+  await db.transaction(async (trx) => {
+    for (let i = 0; i < finalOrder.length; i++) {
+      await trx('rules').where({ id: finalOrder[i], userId }).update({ position: i + 1 });
+    }
+  });
+
+  logger.info({ userId, count: finalOrder.length }, 'Rules reordered');
+
+  return listRules(userId);
+}
+
+export async function deleteRule(id: number, userId: number): Promise<boolean> {
+  const deleted = await db('rules').where({ id, userId }).delete();
+  if (deleted > 0) {
+    logger.info({ userId, ruleId: id }, 'Rule deleted');
+  }
+  return deleted > 0;
+}
+
+// Compile the user's enabled rules once per batch of expenses or import rows. Every matching
+// rule runs in order, but a field set by an earlier rule is not changed by a later one, so
+// specific rules belong above general ones. Tags from all matching rules are kept.
+export async function loadRuleSet(userId: number, ruleIds?: number[]): Promise<RuleSet> {
+  const categoryIds = new Set((await listCategories(userId)).map(c => c.id));
+  const rules = (await listRules(userId))
+    .filter(rule => rule.enabled && (!ruleIds || ruleIds.includes(rule.id)))
+    .map(rule => ({ ...rule, matchers: rule.conditions.map(compileCondition) }));
+
+  const apply = (input: RuleInput): RuleOutcome => {
+    const outcome: RuleOutcome = { categoryId: null, description: null, tags: [], skip: false, ruleIds: [] };
+
+    for (const rule of rules) {
+      const current = { ...input, description: outcome.description ?? input.description };
+      if (!rule.matchers.every(matches => matches(current))) continue;
+
+      outcome.ruleIds.push(rule.id);
+      for (const action of rule.actions) {
+        switch (action.type) {
+          case 'setCategory':
+            // A category deleted since the rule was saved is passed over
+            if (outcome.categoryId === null && categoryIds.has(action.categoryId)) {
+              outcome.categoryId = action.categoryId;
+            }
+            break;
+          case 'rewriteDescription':
+            if (outcome.description === null) {
+              outcome.description = action.description;
+            }
+            break;
+          case 'addTag': {
+            const tag = normalizeTag(action.tag);
+            if (!outcome.tags.includes(tag)) {
+              outcome.tags.push(tag);
+            }
+            break;
+          }
+          case 'skipImport':
+            outcome.skip = true;
+            break;
+        }
+      }
+    }
+
+    return outcome;
+  };
+
+  return { apply };
+}
+
+interface ExpenseForRules {
+  id: number;
+  date: string;
+  amount: number;
+  currency: string;
+  description: string;
+  categoryId: number;
+}
+
+// Work out what the rules would change on the user's existing expenses
+async function findRuleChanges(userId: number, options: RunOptions): Promise<RuleRunChange[]> {
+  const rules = await loadRuleSet(userId, options.ruleIds);
+  const query = db('expenses')
+    .where({ userId })
+    .orderBy('date', 'desc')
+    .orderBy('id', 'desc')
+    .select('id', 'date', 'amount', 'currency', 'description', 'categoryId');
+  if (options.expenseIds) {
+    query.whereIn('id', options.expenseIds);
+  }
+  const expenses: ExpenseForRules[] = await query;
+  const tagsByExpense = await getExpenseTags(expenses.map(e => e.id));
+
+  const changes: RuleRunChange[] = [];
+  for (const expense of expenses) {
+    const amount = Number(expense.amount);
+    const outcome = rules.apply({ description: expense.description, amount, date: expense.date });
+    const newDescription =
+      outcome.description !== null && outcome.description !== expense.description ? outcome.description : null;
+    const newCategoryId =
+      outcome.categoryId !== null && outcome.categoryId !== expense.categoryId ? outcome.categoryId : null;
+    const currentTags = tagsByExpense.get(expense.id) ?? [];
+    const newTags = outcome.tags.filter(tag => !currentTags.includes(tag));
+    if (newDescription === null && newCategoryId === null && newTags.length === 0) continue;
+
+    changes.push({
+      expenseId: expense.id,
+      date: expense.date,
+      amount,
+      currency: expense.currency,
+      description: expense.description,
+      newDescription,
+      categoryId: expense.categoryId,
+      newCategoryId,
+      newTags,
+      ruleIds: outcome.ruleIds,
+    });
+  }
+
+  return changes;
+}
+
+// Show what running the rules over existing expenses would change, without changing anything
+export async function previewRuleRun(userId: number, options: RunOptions = {}): Promise<RuleRunPreview> {
+  const changes = await findRuleChanges(userId, options);
+  return { total: changes.length, changes: changes.slice(0, RULE_PREVIEW_LIMIT) };
+}
+
+// Run the rules over existing expenses. Skipping only applies to imports, so it is ignored here.
+export async function applyRuleRun(userId: number, options: RunOptions = {}): Promise<RuleRunResult> {
+  const changes = await findRuleChanges(userId, options);
+
+  for (let i = 0; i < changes.length; i += RULE_RUN_BATCH_SIZE) {
+    const batch = changes.slice(i, i + RULE_RUN_BATCH_SIZE);
+    await db.transaction(async (trx) => {
+      for (const change of batch) {
+        await trx('expenses')
+          .where({ id: change.expenseId, userId })
+          .update({
+            ...(change.newDescription !== null && { description: change.newDescription }),
+            ...(change.newCategoryId !== null && { categoryId: change.newCategoryId }),
+            updatedAt: db.fn.now(),
+          });
+      }
+      await addExpenseTags(
+        userId,
+        batch.map(change => ({ expenseId: change.expenseId, tags: change.newTags })),
+        trx
+      );
+    });
+  }
+  invalidateCategoryModel(userId);
+
+  logger.info({ userId, ruleIds: options.ruleIds, updatedCount: changes.length }, 'Rules applied to expenses');
+
+  return { updatedCount: changes.length };
+}
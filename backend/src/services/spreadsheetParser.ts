@@ -0,0 +1,461 @@
+// Reader for .xlsx (Office Open XML) and .ods (OpenDocument) spreadsheets. Cells are read by
+// type rather than as displayed: dates become YYYY-MM-DD and numbers plain decimals, so the
+// CSV mapping flow parses them without guessing at locale formats.
+import { openZip, type ZipArchive } from './zipReader.js';
+
+export interface Spreadsheet {
+  sheetNames: string[];
+  sheet: string; // the sheet that was read
+  rows: string[][]; // one entry per spreadsheet row, so row numbers match what the user sees
+}
+
+interface XmlTag {
+  name: string;
+  attrs: Record<string, string>;
+  closing: boolean;
+  selfClosing: boolean;
+}
+
+type XmlToken = { tag: XmlTag; text?: undefined } | { tag?: undefined; text: string };
+
+// Repeated rows and columns in ODS files often run to the sheet's limits; only repeats
+// followed by content are expanded, and none beyond these bounds
+const MAX_ROWS = 100_000;
+const MAX_COLUMNS = 1_000;
+// Cells a sheet may fill in total, counting blanks before a filled cell. Wide rows repeated
+// many times stay within both bounds above and would still not fit in memory.
+const MAX_CELLS = 1_000_000;
+
+// Longest run of spaces a text:s element expands to; the count comes straight from the file
+const MAX_SPACE_RUN = 1_000;
+
+const ODS_MIMETYPE = 'application/vnd.oasis.opendocument.spreadsheet';
+
+// Built-in number formats that display dates; others are identified by their format code
+const XLSX_DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return String.fromCodePoint(point);
+    }
+    const named: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Tags and text in document order; comments, declarations and processing instructions are dropped
+function* scanXml(xml: string): Generator<XmlToken> {
+  const pattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][^>]*>|<(\/?)([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(xml)) !== null) {
+    const [, cdata, closing, name, attrText, selfClosing, text] = match;
+    if (cdata !== undefined) {
+      yield { text: cdata };
+    } else if (text !== undefined) {
+      yield { text: decodeXml(text) };
+    } else if (name !== undefined) {
+      const attrs: Record<string, string> = {};
+      for (const attr of attrText.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attrs[attr[1]] = decodeXml(attr[2] ?? attr[3]);
+      }
+      yield { tag: { name, attrs, closing: closing === '/', selfClosing: selfClosing === '/' } };
+    }
+  }
+}
+
+function requireEntry(zip: ZipArchive, name: string): string {
+  const xml = zip.readText(name);
+  if (xml === null) {
+    throw new Error('Not a valid spreadsheet file');
+  }
+  return xml;
+}
+
+function pickSheet(sheetNames: string[], sheet: string | undefined): string {
+  if (sheetNames.length === 0) {
+    throw new Error('Spreadsheet has no sheets');
+  }
+  if (sheet === undefined) return sheetNames[0];
+  if (!sheetNames.includes(sheet)) {
+    throw new Error('Sheet not found');
+  }
+  return sheet;
+}
+
+// Up to 15 significant digits, which drops binary noise such as 0.30000000000000004
+function formatNumber(value: string): string {
+  const number = Number(value);
+  return Number.isFinite(number) ? String(Number(number.toPrecision(15))) : value;
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+// Excel stores dates as days since 1899-12-30 (or 1904-01-01); the time of day is the fraction
+function excelSerialToDate(serial: number, date1904: boolean): string {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  return toIsoDate(new Date(epoch + Math.floor(serial) * 86_400_000));
+}
+
+// A format code displays a date when it has day, month or year parts outside quoted text.
+// "m" alone next to hours or seconds means minutes.
+function isDateFormatCode(code: string): boolean {
+  const parts = code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+  return /[dy]/i.test(parts) || (/m/i.test(parts) && !/[hs]/i.test(parts));
+}
+
+// Column letters of a cell reference such as "AB12", as a 0-based index
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.toUpperCase()) {
+    if (char < 'A' || char > 'Z') break;
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+// Counts cells as a sheet is read, failing once there are more than MAX_CELLS
+function cellCounter(): (count: number) => void {
+  let total = 0;
+  return (count) => {
+    total += count;
+    if (total > MAX_CELLS) {
+      throw new Error('Spreadsheet file is too large');
+    }
+  };
+}
+
+function setCell(
+  rows: string[][],
+  rowIndex: number,
+  column: number,
+  value: string,
+  countCells: (count: number) => void
+): void {
+  if (rowIndex >= MAX_ROWS || column >= MAX_COLUMNS || value === '') return;
+  while (rows.length <= rowIndex) rows.push([]);
+  const row = rows[rowIndex];
+  countCells(Math.max(column + 1 - row.length, 0));
+  while (row.length < column) row.push('');
+  row[column] = value;
+}
+
+function readXlsxSharedStrings(zip: ZipArchive): string[] {
+  const xml = zip.readText('xl/sharedStrings.xml');
+  if (xml === null) return [];
+
+  const strings: string[] = [];
+  let current: string[] | null = null;
+  let inText = false;
+  let inPhonetic = false;
+
+  for (const token of scanXml(xml)) {
+    if (token.tag) {
+      const { name, closing, selfClosing } = token.tag;
+      if (name === 'si') {
+        if (!closing) current = [];
+        if (closing || selfClosing) {
+          strings.push((current ?? []).join(''));
+          current = null;
+        }
+      } else if (name === 'rPh') {
+        // Phonetic guides for East Asian text are not part of the value
+        inPhonetic = !closing && !selfClosing;
+      } else if (name === 't') {
+        inText = !closing && !selfClosing;
+      }
+    } else if (inText && !inPhonetic && current) {
+      current.push(token.text);
+    }
+  }
+
+  return strings;
+}
+
+// Which cell styles (by index) display their number as a date
+function readXlsxDateStyles(zip: ZipArchive): Set<number> {
+  const xml = zip.readText('xl/styles.xml');
+  const dateStyles = new Set<number>();
+  if (xml === null) return dateStyles;
+
+  const customDateFormats = new Set<number>();
+  let inCellXfs = false;
+  let styleIndex = 0;
+
+  for (const { tag } of scanXml(xml)) {
+    if (!tag) continue;
+    if (tag.name === 'numFmt' && !tag.closing && isDateFormatCode(tag.attrs.formatCode ?? '')) {
+      customDateFormats.add(Number(tag.attrs.numFmtId));
+    } else if (tag.name === 'cellXfs') {
+      inCellXfs = !tag.closing && !tag.selfClosing;
+    } else if (tag.name === 'xf' && inCellXfs && !tag.closing) {
+      const formatId = Number(tag.attrs.numFmtId ?? 0);
+      if (XLSX_DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) {
+        dateStyles.add(styleIndex);
+      }
+      styleIndex++;
+    }
+  }
+
+  return dateStyles;
+}
+
+// Sheet part paths are listed in the workbook relationships, relative to xl/
+function resolveXlsxTarget(target: string): string {
+  return target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+}
+
+function readXlsx(zip: ZipArchive, sheet: string | undefined): Spreadsheet {
+  const sheets: { name: string; relationId: string }[] = [];
+  let date1904 = false;
+  for (const { tag } of scanXml(requireEntry(zip, 'xl/workbook.xml'))) {
+    if (tag?.name === 'sheet' && !tag.closing) {
+      sheets.push({ name: tag.attrs.name, relationId: tag.attrs['r:id'] });
+    } else if (tag?.name === 'workbookPr' && !tag.closing) {
+      date1904 = tag.attrs.date1904 === '1' || tag.attrs.date1904 === 'true';
+    }
+  }
+
+  const sheetNames = sheets.map(s => s.name);
+  const selected = pickSheet(sheetNames, sheet);
+  const relationId = sheets.find(s => s.name === selected)!.relationId;
+
+  let sheetPath: string | null = null;
+  for (const { tag } of scanXml(requireEntry(zip, 'xl/_rels/workbook.xml.rels'))) {
+    if (tag?.name === 'Relationship' && tag.attrs.Id === relationId) {
+      sheetPath = resolveXlsxTarget(tag.attrs.Target);
+    }
+  }
+  if (!sheetPath) {
+    throw new Error('Not a valid spreadsheet file');
+  }
+
+  const sharedStrings = readXlsxSharedStrings(zip);
+  const dateStyles = readXlsxDateStyles(zip);
+
+  const rows: string[][] = [];
+  const countCells = cellCounter();
+  let rowIndex = -1;
+  let column = -1;
+  let cell: { type: string; style: number; value: string[] } | null = null;
+  let inValue = false;
+
+  for (const token of scanXml(requireEntry(zip, sheetPath))) {
+    if (!token.tag) {
+      if (inValue && cell) cell.value.push(token.text);
+      continue;
+    }
+
+    const { name, attrs, closing, selfClosing } = token.tag;
+    if (name === 'row' && !closing) {
+      rowIndex = attrs.r ? Number(attrs.r) - 1 : rowIndex + 1;
+      column = -1;
+    } else if (name === 'c' && !closing) {
+      column = attrs.r ? columnIndex(attrs.r) : column + 1;
+      cell = { type: attrs.t ?? 'n', style: Number(attrs.s ?? 0), value: [] };
+      if (selfClosing) cell = null;
+    } else if (name === 'v' || name === 't') {
+      // <v> holds the value; inline strings keep theirs in <is><t>
+      inValue = !closing && !selfClosing;
+    } else if (name === 'c' && closing && cell) {
+      const raw = cell.value.join('');
+      let value: string;
+      switch (cell.type) {
+        case 's':
+          value = sharedStrings[Number(raw)] ?? '';
+          break;
+        case 'b':
+          value = raw === '1' ? 'TRUE' : 'FALSE';
+          break;
+        case 'e':
+          value = '';
+          break;
+        case 'd':
+          value = raw.slice(0, 10);
+          break;
+        case 'n':
+          value = raw === '' ? '' : dateStyles.has(cell.style)
+            ? excelSerialToDate(Number(raw), date1904)
+            : formatNumber(raw);
+          break;
+        default: // 'str' formula results and 'inlineStr'
+          value = raw;
+      }
+      setCell(rows, rowIndex, column, value.trim(), countCells);
+      cell = null;
+    }
+  }
+
+  return { sheetNames, sheet: selected, rows };
+}
+
+// Text of an ODS cell: paragraphs are lines, with runs of spaces and tabs stored as elements
+function odsCellText(tokens: XmlToken[]): string {
+  const paragraphs: string[] = [];
+  let current: string[] | null = null;
+
+  for (const token of tokens) {
+    if (!token.tag) {
+      current?.push(token.text);
+      continue;
+    }
+    const { name, attrs, closing, selfClosing } = token.tag;
+    if (name === 'text:p' || name === 'text:h') {
+      if (!closing) current = [];
+      if (closing || selfClosing) {
+        paragraphs.push((current ?? []).join(''));
+        current = null;
+      }
+    } else if (name === 'text:s') {
+      const count = Math.floor(Number(attrs['text:c'] ?? 1));
+      current?.push(' '.repeat(Number.isFinite(count) ? Math.min(Math.max(count, 0), MAX_SPACE_RUN) : 1));
+    } else if (name === 'text:tab') {
+      current?.push('\t');
+    } else if (name === 'text:line-break') {
+      current?.push('\n');
+    }
+  }
+
+  return paragraphs.join('\n');
+}
+
+function odsCellValue(attrs: Record<string, string>, tokens: XmlToken[]): string {
+  switch (attrs['office:value-type']) {
+    case 'float':
+    case 'currency':
+    case 'percentage':
+      return formatNumber(attrs['office:value'] ?? '');
+    case 'date':
+      return (attrs['office:date-value'] ?? '').slice(0, 10);
+    case 'boolean':
+      return attrs['office:boolean-value'] === 'true' ? 'TRUE' : 'FALSE';
+    default:
+      return odsCellText(tokens);
+  }
+}
+
+function readOds(zip: ZipArchive, sheet: string | undefined): Spreadsheet {
+  const xml = requireEntry(zip, 'content.xml');
+
+  const sheetNames: string[] = [];
+  for (const { tag } of scanXml(xml)) {
+    if (tag?.name === 'table:table' && !tag.closing) {
+      sheetNames.push(tag.attrs['table:name']);
+    }
+  }
+  const selected = pickSheet(sheetNames, sheet);
+
+  const rows: string[][] = [];
+  const countCells = cellCounter();
+  let inSheet = false;
+  let row: string[] = [];
+  let rowRepeat = 1;
+  let pendingRows = 0; // empty rows, added only if content follows
+  let pendingCells = 0; // empty cells, likewise
+  let cell: { attrs: Record<string, string>; repeat: number; tokens: XmlToken[] } | null = null;
+
+  const addCell = (value: string, repeat: number) => {
+    if (value === '') {
+      pendingCells += repeat;
+      return;
+    }
+    for (let i = 0; i < pendingCells + repeat && row.length < MAX_COLUMNS; i++) {
+      row.push(i < pendingCells ? '' : value);
+    }
+    pendingCells = 0;
+  };
+
+  for (const token of scanXml(xml)) {
+    if (cell && !(token.tag && /^table:(covered-)?table-cell$/.test(token.tag.name) && token.tag.closing)) {
+      cell.tokens.push(token);
+      continue;
+    }
+    if (!token.tag) continue;
+
+    const { name, attrs, closing, selfClosing } = token.tag;
+    if (name === 'table:table') {
+      inSheet = !closing && attrs['table:name'] === selected;
+    } else if (!inSheet) {
+      continue;
+    } else if (name === 'table:table-row' && !closing) {
+      row = [];
+      pendingCells = 0;
+      rowRepeat = Number(attrs['table:number-rows-repeated'] ?? 1);
+      if (!selfClosing) continue;
+      pendingRows += rowRepeat;
+    } else if (name === 'table:table-row' && closing) {
+      if (row.length === 0) {
+        pendingRows += rowRepeat;
+        continue;
+      }
+      const added = Math.min(pendingRows + rowRepeat, MAX_ROWS - rows.length);
+      countCells(Math.max(added - pendingRows, 0) * row.length);
+      for (let i = 0; i < added; i++) {
+        rows.push(i < pendingRows ? [] : [...row]);
+      }
+      pendingRows = 0;
+    } else if (/^table:(covered-)?table-cell$/.test(name)) {
+      const repeat = Number(attrs['table:number-columns-repeated'] ?? 1);
+      if (closing && cell) {
+        addCell(odsCellValue(cell.attrs, cell.tokens).trim(), cell.repeat);
+        cell = null;
+      } else if (selfClosing) {
+        addCell(odsCellValue(attrs, []).trim(), repeat);
+      } else {
+        cell = { attrs, repeat, tokens: [] };
+      }
+    }
+  }
+
+  return { sheetNames, sheet: selected, rows };
+}
+
+// Rows looked at when guessing the header row
+const HEADER_SAMPLE_SIZE = 20;
+
+// Title and notes lines above a table fill fewer cells than its header, so the header is
+// taken to be the first of the opening rows with the most filled cells. 1-based.
+export function detectHeaderRow(rows: string[][]): number {
+  let headerRow = 1;
+  let mostFilled = 0;
+  rows.slice(0, HEADER_SAMPLE_SIZE).forEach((row, i) => {
+    const filled = row.filter(cell => cell !== '').length;
+    if (filled > mostFilled) {
+      mostFilled = filled;
+      headerRow = i + 1;
+    }
+  });
+  return headerRow;
+}
+
+function hasTable(rows: string[][]): boolean {
+  return rows.filter(row => row.length > 0).length >= 2;
+}
+
+// Without a sheet name, the first sheet holding a header and a data row is read, so cover and
+// summary sheets are passed over
+export function readSpreadsheet(content: Buffer, sheet?: string): Spreadsheet {
+  const zip = openZip(content);
+
+  let read: (zip: ZipArchive, sheet: string | undefined) => Spreadsheet;
+  if (zip.names.includes('xl/workbook.xml')) {
+    read = readXlsx;
+  } else if (zip.readText('mimetype')?.trim() === ODS_MIMETYPE || zip.names.includes('content.xml')) {
+    read = readOds;
+  } else {
+    throw new Error('Not a valid spreadsheet file');
+  }
+
+  const first = read(zip, sheet);
+  if (sheet !== undefined || hasTable(first.rows)) return first;
+
+  for (const name of first.sheetNames.slice(1)) {
+    const next = read(zip, name);
+    if (hasTable(next.rows)) return next;
+  }
+  return first;
+}
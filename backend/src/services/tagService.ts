@@ -0,0 +1,110 @@
+import type { Knex } from 'knex';
+import db from '../db/knex.js';
+import type { Tag } from '../types/index.js';
+
+// Expense ids per whereIn query, keeping the bound parameters under SQLite's limit
+const LOOKUP_CHUNK_SIZE = 500;
+
+// Rows per insert statement, for the same reason
+const INSERT_CHUNK_SIZE = 100;
+
+interface ExpenseTagsEntry {
+  expenseId: number;
+  tags: string[];
+}
+
+// "Trip Lisbon", "trip-lisbon " and "TRIP-LISBON" are one tag
+export function normalizeTag(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+function normalizeTags(names: string[]): string[] {
+  return [...new Set(names.map(normalizeTag).filter(name => name.length > 0))];
+}
+
+// Tags on at least one expense, most used first, for autocomplete and filters
+export async function listTags(userId: number): Promise<Tag[]> {
+  const rows: { id: number; name: string; expenseCount: number }[] = await db('tags')
+    .join('expense_tags', 'expense_tags.tagId', 'tags.id')
+    .where('tags.userId', userId)
+    .groupBy('tags.id', 'tags.name')
+    .select('tags.id', 'tags.name', db.raw('count(expense_tags.expenseId) as expenseCount'))
+    .orderBy('expenseCount', 'desc')
+    .orderBy('tags.name');
+
+  return rows.map(row => ({ ...row, expenseCount: Number(row.expenseCount) }));
+}
+
+// Subquery of the user's expense ids carrying a tag, for narrowing expense queries
+export function expensesWithTag(userId: number, tag: string): Knex.QueryBuilder {
+  return db('expense_tags')
+    .join('tags', 'tags.id', 'expense_tags.tagId')
+    .where('tags.userId', userId)
+    .where('tags.name', normalizeTag(tag))
+    .select('expense_tags.expenseId');
+}
+
+// Tag names per expense, sorted; expenses without tags are left out of the map
+export async function getExpenseTags(expenseIds: number[], conn: Knex = db): Promise<Map<number, string[]>> {
+  const tagsByExpense = new Map<number, string[]>();
+
+  for (let i = 0; i < expenseIds.length; i += LOOKUP_CHUNK_SIZE) {
+    const rows: { expenseId: number; name: string }[] = await conn('expense_tags')
+      .join('tags', 'tags.id', 'expense_tags.tagId')
+      .whereIn('expense_tags.expenseId', expenseIds.slice(i, i + LOOKUP_CHUNK_SIZE))
+      .orderBy('tags.name')
+      .select('expense_tags.expenseId', 'tags.name');
+
+    for (const row of rows) {
+      const tags = tagsByExpense.get(row.expenseId) ?? [];
+      tags.push(row.name);
+      tagsByExpense.set(row.expenseId, tags);
+    }
+  }
+
+  return tagsByExpense;
+}
+
+// Ids of the named tags, creating the ones the user does not have yet
+async function ensureTags(conn: Knex, userId: number, names: string[]): Promise<Map<string, number>> {
+  const ids = new Map<string, number>();
+  for (let i = 0; i < names.length; i += LOOKUP_CHUNK_SIZE) {
+    const rows: { id: number; name: string }[] = await conn('tags')
+      .where({ userId })
+      .whereIn('name', names.slice(i, i + LOOKUP_CHUNK_SIZE))
+      .select('id', 'name');
+    for (const row of rows) {
+      ids.set(row.name, row.id);
+    }
+  }
+
+  for (const name of names) {
+    if (!ids.has(name)) {
+      const [id] = await conn('tags').insert({ userId, name });
+      ids.set(name, id);
+    }
+  }
+
+  return ids;
+}
+
+// Add tags to expenses, keeping the tags they already have. Pass a transaction to make it
+// part of a larger change.
+export async function addExpenseTags(userId: number, entries: ExpenseTagsEntry[], conn: Knex = db): Promise<void> {
+  const normalized = entries.map(({ expenseId, tags }) => ({ expenseId, tags: normalizeTags(tags) }));
+  const ids = await ensureTags(conn, userId, normalizeTags(normalized.flatMap(entry => entry.tags)));
+
+  const links = normalized.flatMap(({ expenseId, tags }) => tags.map(name => ({ expenseId, tagId: ids.get(name)! })));
+  for (let i = 0; i < links.length; i += INSERT_CHUNK_SIZE) {
+    await conn('expense_tags')
+      .insert(links.slice(i, i + INSERT_CHUNK_SIZE))
+      .onConflict(['expenseId', 'tagId'])
+      .ignore();
+  }
+}
+
+// Replace an expense's tags
+export async function setExpenseTags(userId: number, expenseId: number, tags: string[], conn: Knex = db): Promise<void> {
+  await conn('expense_tags').where({ expenseId }).delete();
+  await addExpenseTags(userId, [{ expenseId, tags }], conn);
+}
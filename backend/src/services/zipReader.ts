@@ -0,0 +1,108 @@
+// Reader for the ZIP container that .xlsx and .ods files are stored in. Only what office
+// suites write is supported: stored or deflated entries, no encryption and no ZIP64.
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// The end record sits in the last 22 bytes unless the archive has a comment (up to 64 KB)
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+// Largest entry that is unpacked. Spreadsheet XML compresses very well, so a small upload
+// could otherwise inflate to gigabytes.
+export const MAX_ENTRY_BYTES = 50 * 1024 * 1024;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+  names: string[];
+  readText: (name: string) => string | null; // null when the entry does not exist
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const stop = Math.max(0, buffer.length - MAX_END_RECORD_SEARCH);
+  for (let offset = buffer.length - 22; offset >= stop; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('Not a valid spreadsheet file');
+}
+
+function readEntries(buffer: Buffer): Map<string, ZipEntry> {
+  const end = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Not a valid spreadsheet file');
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, {
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function readEntry(buffer: Buffer, entry: ZipEntry): Buffer {
+  if (entry.uncompressedSize > MAX_ENTRY_BYTES) {
+    throw new Error('Spreadsheet file is too large');
+  }
+  const offset = entry.localHeaderOffset;
+  if (offset + 30 > buffer.length || buffer.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+    throw new Error('Not a valid spreadsheet file');
+  }
+
+  // The local header repeats the name and may carry a different extra field
+  const start = offset + 30 + buffer.readUInt16LE(offset + 26) + buffer.readUInt16LE(offset + 28);
+  const data = buffer.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === STORED) return data;
+  if (entry.method !== DEFLATED) {
+    throw new Error('Spreadsheet file uses an unsupported compression method');
+  }
+
+  // The central directory's size can lie, so inflating is capped as well
+  try {
+    return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_BYTES });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error('Spreadsheet file is too large');
+    }
+    throw new Error('Not a valid spreadsheet file');
+  }
+}
+
+export function openZip(buffer: Buffer): ZipArchive {
+  const entries = readEntries(buffer);
+
+  return {
+    names: [...entries.keys()],
+    readText: (name) => {
+      const entry = entries.get(name);
+      return entry ? readEntry(buffer, entry).toString('utf8') : null;
+    },
+  };
+}
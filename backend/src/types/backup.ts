@@ -0,0 +1,106 @@
+import type { RecurringFrequency } from './recurring';
+import type { ColumnMapping, MappingOptions } from './import';
+import type { RuleAction, RuleCondition } from './rule';
+
+// Records in a backup reference each other by their ids in the source instance;
+// restore maps them onto whatever ids the target instance assigns.
+export interface BackupCategory {
+  id: number;
+  name: string;
+  icon: string;
+  sortOrder: number;
+}
+
+export interface BackupExpense {
+  categoryId: number;
+  amount: number;
+  currency: string;
+  description: string;
+  date: string;
+  recurringExpenseId: number | null;
+  tags: string[];
+  createdAt: string | null;
+}
+
+export interface BackupRecurringExpense {
+  id: number;
+  categoryId: number;
+  amount: number;
+  currency: string;
+  description: string;
+  frequency: RecurringFrequency;
+  interval: number;
+  startDate: string;
+  endDate: string | null;
+  nextDate: string | null;
+}
+
+export interface BackupBudget {
+  categoryId: number | null;
+  month: string | null;
+  amount: number;
+}
+
+export interface BackupImportHistory {
+  fileName: string;
+  totalRows: number;
+  importedRows: number;
+  skippedRows: number;
+  revertedAt: string | null;
+  createdAt: string | null;
+}
+
+export interface BackupImportTemplate extends MappingOptions {
+  name: string;
+  headers: string[];
+  columnMapping: ColumnMapping;
+}
+
+export interface BackupRule {
+  name: string;
+  position: number;
+  enabled: boolean;
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+}
+
+// Rates keep their base currency, so ones entered for another base survive a restore
+export interface BackupExchangeRate {
+  baseCurrency: string;
+  currency: string;
+  date: string;
+  rate: number;
+}
+
+export interface Backup {
+  version: number;
+  exportedAt: string;
+  baseCurrency: string;
+  categories: BackupCategory[];
+  expenses: BackupExpense[];
+  recurringExpenses: BackupRecurringExpense[];
+  budgets: BackupBudget[];
+  importHistory: BackupImportHistory[];
+  importTemplates: BackupImportTemplate[];
+  rules: BackupRule[];
+  exchangeRates: BackupExchangeRate[];
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupCounts {
+  categories: number;
+  expenses: number;
+  recurringExpenses: number;
+  budgets: number;
+  importHistory: number;
+  importTemplates: number;
+  rules: number;
+  exchangeRates: number;
+}
+
+export interface RestoreResult {
+  mode: RestoreMode;
+  imported: BackupCounts;
+  skipped: BackupCounts; // records already present when merging
+}
@@ -0,0 +1,35 @@
+export interface Budget {
+  id: number;
+  userId: number;
+  categoryId: number | null; // null = overall budget across all categories
+  month: string | null; // YYYY-MM, null = recurring every month
+  amount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BudgetWithCategory extends Budget {
+  categoryName: string | null;
+  categoryIcon: string | null;
+}
+
+export type BudgetStatus = 'ok' | 'projected-over' | 'over';
+
+export interface BudgetProgress {
+  budgetId: number;
+  categoryId: number | null;
+  categoryName: string | null;
+  categoryIcon: string | null;
+  limit: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  projected: number;
+  status: BudgetStatus;
+}
+
+export interface BudgetSummary {
+  month: string;
+  overall: BudgetProgress | null;
+  categories: BudgetProgress[];
+}
@@ -0,0 +1,34 @@
+// Value of one unit of `currency` in `baseCurrency` on a date
+export interface ExchangeRate {
+  id: number;
+  userId: number;
+  baseCurrency: string;
+  currency: string;
+  date: string; // YYYY-MM-DD
+  rate: number;
+  createdAt: string;
+}
+
+// Rates stored for one foreign currency, and how many expenses use it
+export interface RateCurrencySummary {
+  currency: string;
+  rateCount: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  latestRate: number | null;
+  expenseCount: number;
+}
+
+export interface CurrencySettings {
+  baseCurrency: string;
+}
+
+export interface RateImportError {
+  line: number;
+  message: string;
+}
+
+export interface RateImportResult {
+  importedCount: number; // new rates plus ones that replaced a rate for the same day
+  errors: RateImportError[];
+}
@@ -1,4 +1,4 @@
-export type ImportSessionStatus = 'upload' | 'mapping' | 'preview' | 'completed' | 'cancelled';
+export type ImportSessionStatus = 'upload' | 'mapping' | 'preview' | 'importing' | 'completed' | 'cancelled';
 
 export interface ImportSession {
   id: number;
@@ -8,7 +8,6 @@ export interface ImportSession {
   fileSize: number | null;
   rawCsvData: string | null;
   columnMapping: string | null; // JSON string
-  parsedRows: string | null; // JSON string
   validRowCount: number;
   invalidRowCount: number;
   skippedRowCount: number;
@@ -25,14 +24,24 @@ export interface ImportHistory {
   totalRows: number;
   importedRows: number;
   skippedRows: number;
+  revertedAt: string | null;
   createdAt: string;
 }
 
+export interface ImportHistoryWithCounts extends ImportHistory {
+  remainingExpenses: number; // imported expenses that still exist
+  editedExpenses: number; // of those, how many were edited after the import
+}
+
+// Signed mode reads the single amount column; split mode reads the debit and credit columns
 export interface ColumnMapping {
   date: string;
-  amount: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
   description: string;
   category?: string;
+  currency?: string; // ISO 4217 codes; rows with an empty cell use the fixed currency
 }
 
 export interface RowValidationError {
@@ -40,16 +49,83 @@ export interface RowValidationError {
   message: string;
 }
 
+// What an import row appears to duplicate: an existing expense or an earlier row in the same file
+export interface DuplicateMatch {
+  source: 'expense' | 'file';
+  expenseId: number | null;
+  rowIndex: number | null;
+  date: string;
+}
+
+// Why a row was left out: a likely duplicate, a credit or transfer, a zero amount, or by the user
+export type SkipReason = 'duplicate' | 'credit' | 'transfer' | 'zero' | 'manual' | 'rule';
+
 export interface ParsedRow {
   rowIndex: number;
   originalData: Record<string, string>;
   date: string | null;
-  amount: number | null;
+  amount: number | null; // as spending: negative for a refund or other credit
+  currency: string | null; // null when the file's value is not a currency code
   description: string | null;
   category: string | null;
   categoryId: number | null;
+  categoryConfidence: number | null; // set when the category was suggested from the user's history
+  tags: string[]; // added by rules
   errors: RowValidationError[];
   skipped: boolean;
+  skipReason: SkipReason | null;
+  duplicate: DuplicateMatch | null; // duplicates are skipped by default; the user may include them
+  expenseId: number | null; // set once the row has been imported
+}
+
+// 'auto' detects one format from every value in the column; the others force a format
+export type DateFormat =
+  | 'auto'
+  | 'YYYY-MM-DD'
+  | 'MM/DD/YYYY'
+  | 'DD/MM/YYYY'
+  | 'MM/DD/YY'
+  | 'DD/MM/YY'
+  | 'DD-MM-YYYY'
+  | 'MM-DD-YYYY'
+  | 'DD.MM.YYYY'
+  | 'YYYY/MM/DD';
+
+// Decimal and thousands separators of amounts, named by example. Spaces and apostrophes
+// are accepted as thousands separators in either format.
+export type NumberFormat = 'auto' | '1,234.56' | '1.234,56';
+
+// What a column's values look like, detected from every row of the file
+export interface DetectedColumnFormat {
+  dateFormat: DateFormat | null;
+  numberFormat: NumberFormat | null;
+}
+
+// Sign that expenses carry in the file: 'negative' for bank exports that list spending as debits
+export type AmountSign = 'positive' | 'negative';
+
+// 'signed' reads one amount column using the amount sign; 'split' reads separate debit and
+// credit columns, where debits are spending and credits are refunds
+export type AmountMode = 'signed' | 'split';
+
+export interface MappingOptions {
+  delimiter: string;
+  dateFormat: DateFormat;
+  numberFormat: NumberFormat;
+  amountMode: AmountMode;
+  amountSign: AmountSign;
+  currency: string | null; // for rows without a currency column value; null for the base currency
+}
+
+export interface ImportTemplate extends MappingOptions {
+  id: number;
+  userId: number;
+  name: string;
+  headers: string[];
+  headerFingerprint: string;
+  columnMapping: ColumnMapping;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface CsvStructure {
@@ -58,6 +134,8 @@ export interface CsvStructure {
   rowCount: number;
   sampleRows: string[][];
   suggestedMapping: Partial<ColumnMapping>;
+  matchedTemplate: ImportTemplate | null; // saved template whose headers match this file
+  detectedFormats: Record<string, DetectedColumnFormat>; // keyed by header
 }
 
 export interface UploadResult {
@@ -65,11 +143,43 @@ export interface UploadResult {
   structure: CsvStructure;
 }
 
-export interface MappingResult {
-  session: ImportSession;
-  parsedRows: ParsedRow[];
+// A spreadsheet upload is the chosen sheet converted to CSV, read from the chosen header row
+export interface SpreadsheetUploadResult extends UploadResult {
+  sheets: string[];
+  sheet: string;
+  headerRow: number; // 1-based, as numbered in the spreadsheet
+}
+
+export interface RowCounts {
   validCount: number;
   invalidCount: number;
+  skippedCount: number;
+}
+
+export interface MappingResult extends RowCounts {
+  session: ImportSession;
+}
+
+// 'duplicate' matches every row flagged as a possible duplicate, whether skipped or included
+export type RowFilter = 'all' | 'valid' | 'invalid' | 'skipped' | 'duplicate';
+
+export interface RowPage extends RowCounts {
+  rows: ParsedRow[];
+  total: number; // rows matching the filter
+  duplicateCount: number;
+}
+
+// Rows a bulk action applies to: ones picked in the preview, or every row matching a filter
+export type RowSelection = { rowIndexes: number[] } | { filter: RowFilter };
+
+export type BulkRowAction =
+  | { type: 'setCategory'; category: string }
+  | { type: 'skip'; skip: boolean }
+  | { type: 'replaceDescription'; find: string; replace: string; matchCase: boolean }
+  | { type: 'shiftDates'; days: number };
+
+export interface BulkUpdateResult extends RowCounts {
+  updatedCount: number;
 }
 
 export interface ImportResult {
@@ -77,3 +187,53 @@ export interface ImportResult {
   skippedCount: number;
   history: ImportHistory;
 }
+
+// Parsing a mapped file and confirming an import run as background jobs
+export type ImportJobType = 'mapping' | 'confirm';
+
+export type ImportJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface ImportJob {
+  id: number;
+  userId: number;
+  sessionId: number;
+  type: ImportJobType;
+  status: ImportJobStatus;
+  processedRows: number;
+  totalRows: number;
+  result: RowCounts | ImportResult | null; // set once completed
+  error: string | null; // set when failed
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Called by long-running import work after each batch of rows
+export type ProgressReporter = (processedRows: number, totalRows: number) => Promise<void>;
+
+export type ImportRowOutcome = 'imported' | 'skipped' | 'invalid';
+
+export interface ImportHistoryRow {
+  rowIndex: number;
+  outcome: ImportRowOutcome;
+  skipReason: SkipReason | null;
+  errors: RowValidationError[];
+  originalData: Record<string, string>;
+  date: string | null;
+  amount: number | null;
+  currency: string | null;
+  description: string | null;
+  category: string | null;
+  expenseId: number | null;
+  expenseExists: boolean; // false once the expense was deleted or the import reverted
+}
+
+export interface ImportHistoryDetail {
+  history: ImportHistory;
+  columns: string[]; // original file columns, in file order
+  rows: ImportHistoryRow[]; // empty when the import session is not available, e.g. restored from a backup
+}
+
+export interface RevertResult {
+  deletedCount: number;
+  history: ImportHistory;
+}
@@ -2,28 +2,116 @@ export interface User {
   id: number;
   email: string;
   passwordHash: string;
+  baseCurrency: string; // ISO 4217 code that totals and reports are converted to
   createdAt: string;
 }
 
 export interface Category {
   id: number;
+  userId: number | null; // null for global default categories
   name: string;
   icon: string;
+  sortOrder: number;
+}
+
+// A category learned from the user's own expenses; confidence runs from 0 to 1
+export interface CategorySuggestion {
+  categoryId: number;
+  category: string;
+  confidence: number;
 }
 
 export interface Expense {
   id: number;
   userId: number;
   categoryId: number;
-  amount: number;
+  amount: number; // in the expense's own currency
+  currency: string; // ISO 4217 code
   description: string;
   date: string;
+  recurringExpenseId: number | null;
+  importHistoryId: number | null;
   createdAt: string;
+  updatedAt: string | null;
+}
+
+export interface ExpenseWithTags extends Expense {
+  tags: string[];
 }
 
-export interface ExpenseWithCategory extends Expense {
+export interface ExpenseWithCategory extends ExpenseWithTags {
   categoryName: string;
   categoryIcon: string;
+  attachmentCount: number;
+}
+
+// A file kept with an expense, such as a receipt photo or PDF
+export interface Attachment {
+  id: number;
+  userId: number;
+  expenseId: number;
+  fileName: string;
+  mimeType: string;
+  size: number; // bytes
+  sha256: string;
+  createdAt: string;
+}
+
+// A label shared across categories, e.g. a trip or a client; names are stored normalized
+export interface Tag {
+  id: number;
+  name: string;
+  expenseCount: number;
+}
+
+// Spending in a month, converted to the base currency
+export interface MonthlyTotal {
+  total: number;
+  currency: string;
+  unconvertedCount: number; // expenses in a currency without exchange rates, left out of the total
+}
+
+export type StatsInterval = 'day' | 'week' | 'month';
+
+export interface SpendingAggregate {
+  total: number;
+  count: number;
+  average: number;
+}
+
+export interface CategoryStats extends SpendingAggregate {
+  categoryId: number;
+  categoryName: string;
+  categoryIcon: string;
+}
+
+// An expense with several tags counts towards each of them
+export interface TagStats extends SpendingAggregate {
+  tag: string;
+}
+
+export interface PeriodStats extends SpendingAggregate {
+  period: string; // YYYY-MM-DD for day and week (week start, Monday), YYYY-MM for month
+}
+
+export interface PeriodCategoryStats extends SpendingAggregate {
+  period: string;
+  categoryId: number;
+}
+
+// Amounts are converted to the base currency; expenses in a currency without exchange
+// rates are left out and counted in unconvertedCount
+export interface ExpenseStats {
+  startDate: string | null;
+  endDate: string | null;
+  interval: StatsInterval;
+  currency: string;
+  unconvertedCount: number;
+  totals: SpendingAggregate;
+  byCategory: CategoryStats[];
+  byTag: TagStats[];
+  byPeriod: PeriodStats[];
+  byPeriodAndCategory: PeriodCategoryStats[];
 }
 
 export interface JwtPayload {
@@ -36,3 +124,8 @@ export interface AuthenticatedRequest {
 }
 
 export * from './import';
+export * from './recurring';
+export * from './budget';
+export * from './backup';
+export * from './rule';
+export * from './currency';
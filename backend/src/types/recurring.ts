@@ -0,0 +1,22 @@
+export type RecurringFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringExpense {
+  id: number;
+  userId: number;
+  categoryId: number;
+  amount: number;
+  currency: string;
+  description: string;
+  frequency: RecurringFrequency;
+  interval: number;
+  startDate: string;
+  endDate: string | null;
+  nextDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RecurringExpenseWithCategory extends RecurringExpense {
+  categoryName: string;
+  categoryIcon: string;
+}
@@ -0,0 +1,55 @@
+// Conditions are all checked against the description as rewritten by earlier rules
+export type RuleCondition =
+  | { type: 'contains'; text: string; matchCase: boolean }
+  | { type: 'regex'; pattern: string; flags: string }
+  | { type: 'amountRange'; min: number | null; max: number | null } // inclusive; null = open
+  | { type: 'weekday'; days: number[] }; // 0 = Sunday
+
+export type RuleAction =
+  | { type: 'setCategory'; categoryId: number }
+  | { type: 'rewriteDescription'; description: string }
+  | { type: 'addTag'; tag: string }
+  | { type: 'skipImport' };
+
+export interface Rule {
+  id: number;
+  userId: number;
+  name: string;
+  position: number;
+  enabled: boolean;
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What the matching rules do to one expense or import row; null leaves the field as it was
+export interface RuleOutcome {
+  categoryId: number | null;
+  description: string | null;
+  tags: string[];
+  skip: boolean;
+  ruleIds: number[];
+}
+
+export interface RuleRunChange {
+  expenseId: number;
+  date: string;
+  amount: number;
+  currency: string;
+  description: string;
+  newDescription: string | null;
+  categoryId: number;
+  newCategoryId: number | null;
+  newTags: string[]; // tags the expense does not have yet
+  ruleIds: number[];
+}
+
+export interface RuleRunPreview {
+  total: number;
+  changes: RuleRunChange[]; // the first RULE_PREVIEW_LIMIT of total
+}
+
+export interface RuleRunResult {
+  updatedCount: number;
+}
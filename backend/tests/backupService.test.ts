@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import db, { categoryId, createUser, resetDb } from './helpers/db.js';
+import { BACKUP_VERSION, createBackup, restoreBackup, upgradeBackup } from '../src/services/backupService.js';
+import { createExpense } from '../src/services/expenseService.js';
+import type { Backup } from '../src/types/index.js';
+
+vi.mock('../src/db/knex.js', () => import('./helpers/db.js'));
+
+// A backup as the first version wrote it: no templates, rules, tags or currencies
+const V1_BACKUP = {
+  version: 1,
+  exportedAt: '2024-01-01T00:00:00.000Z',
+  categories: [
+    { id: 1, name: 'Food', icon: 'tag', sortOrder: 1 },
+    { id: 40, name: 'Pets', icon: 'paw', sortOrder: 7 },
+  ],
+  expenses: [
+    { categoryId: 1, amount: 12.5, description: 'Lunch', date: '2023-12-01', recurringExpenseId: null, createdAt: null },
+    { categoryId: 40, amount: 30, description: 'Vet', date: '2023-12-02', recurringExpenseId: 9, createdAt: null },
+  ],
+  recurringExpenses: [
+    {
+      id: 9,
+      categoryId: 40,
+      amount: 30,
+      description: 'Vet',
+      frequency: 'monthly',
+      interval: 1,
+      startDate: '2023-12-02',
+      endDate: '2023-12-31',
+      nextDate: null,
+    },
+  ],
+  budgets: [{ categoryId: 40, month: '2023-12', amount: 100 }],
+  importHistory: [{ fileName: 'bank.csv', totalRows: 2, importedRows: 2, skippedRows: 0, createdAt: '2023-12-03 10:00:00' }],
+};
+
+const expenseRows = (userId: number) =>
+  db('expenses').where({ userId }).orderBy('date').select('description', 'amount', 'currency');
+
+let userId: number;
+
+beforeEach(async () => {
+  await resetDb();
+  userId = await createUser();
+});
+
+describe('upgradeBackup', () => {
+  it('brings a first-version backup up to the current format', () => {
+    const backup = upgradeBackup(V1_BACKUP) as Backup;
+
+    expect(backup.version).toBe(BACKUP_VERSION);
+    expect(backup).toMatchObject({ baseCurrency: 'USD', importTemplates: [], rules: [], exchangeRates: [] });
+    expect(backup.expenses[0]).toMatchObject({ currency: 'USD', tags: [] });
+    expect(backup.recurringExpenses[0].currency).toBe('USD');
+    expect(backup.importHistory[0].revertedAt).toBeNull();
+  });
+
+  it('rejects backups it cannot upgrade', () => {
+    expect(() => upgradeBackup({ ...V1_BACKUP, version: BACKUP_VERSION + 1 })).toThrow(
+      'Backup was created by a newer version'
+    );
+    expect(() => upgradeBackup({ expenses: [] })).toThrow('Invalid backup file');
+    expect(() => upgradeBackup({ version: 0 })).toThrow('Unsupported backup version');
+  });
+});
+
+describe('restoreBackup', () => {
+  it('restores an upgraded backup, matching categories by name and creating missing ones', async () => {
+    const result = await restoreBackup(userId, upgradeBackup(V1_BACKUP) as Backup, 'merge');
+
+    expect(result.imported).toMatchObject({ categories: 1, expenses: 2, recurringExpenses: 1, budgets: 1, importHistory: 1 });
+    expect(result.skipped.categories).toBe(1);
+
+    const pets = await db('categories').where({ userId, name: 'Pets' }).first();
+    const rule = await db('recurring_expenses').where({ userId }).first();
+    expect(rule.categoryId).toBe(pets.id);
+    expect(await db('expenses').where({ userId, description: 'Vet' }).first()).toMatchObject({
+      categoryId: pets.id,
+      recurringExpenseId: rule.id,
+    });
+  });
+
+  it('skips what is already there when merging', async () => {
+    await createExpense({ userId, categoryId: await categoryId('Food'), amount: 12.5, description: 'Lunch', date: '2023-12-01' });
+
+    const result = await restoreBackup(userId, upgradeBackup(V1_BACKUP) as Backup, 'merge');
+
+    expect(result.imported.expenses).toBe(1);
+    expect(result.skipped.expenses).toBe(1);
+    expect(await expenseRows(userId)).toHaveLength(2);
+
+    const again = await restoreBackup(userId, upgradeBackup(V1_BACKUP) as Backup, 'merge');
+    expect(again.imported).toMatchObject({ categories: 0, expenses: 0, recurringExpenses: 0, budgets: 0, importHistory: 0 });
+    expect(await expenseRows(userId)).toHaveLength(2);
+  });
+
+  it('removes existing data first when replacing', async () => {
+    await createExpense({ userId, categoryId: await categoryId('Food'), amount: 3, description: 'Coffee', date: '2024-02-01' });
+
+    await restoreBackup(userId, upgradeBackup(V1_BACKUP) as Backup, 'replace');
+
+    expect(await expenseRows(userId)).toEqual([
+      { description: 'Lunch', amount: 12.5, currency: 'USD' },
+      { description: 'Vet', amount: 30, currency: 'USD' },
+    ]);
+  });
+
+  it('round-trips a backup into another account', async () => {
+    await restoreBackup(userId, upgradeBackup(V1_BACKUP) as Backup, 'merge');
+    const otherUserId = await createUser('other@example.com');
+
+    const result = await restoreBackup(otherUserId, await createBackup(userId), 'merge');
+
+    expect(result.imported).toMatchObject({ categories: 1, expenses: 2, recurringExpenses: 1, budgets: 1, importHistory: 1 });
+    expect(await expenseRows(otherUserId)).toEqual(await expenseRows(userId));
+    expect(await db('categories').where({ userId: otherUserId }).pluck('name')).toEqual(['Pets']);
+  });
+
+  it('refuses backups that reference unknown categories', async () => {
+    const backup = upgradeBackup({ ...V1_BACKUP, budgets: [{ categoryId: 99, month: '2023-12', amount: 5 }] }) as Backup;
+
+    await expect(restoreBackup(userId, backup, 'merge')).rejects.toThrow('Backup references an unknown category');
+  });
+});
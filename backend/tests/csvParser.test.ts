@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import {
+  csvLine,
+  detectDelimiter,
+  escapeFormula,
+  parseCsv,
+  tokenizeCsv,
+  unescapeFormula,
+} from '../src/services/csvParser.js';
+
+const fieldsOf = (content: string, delimiter = ',') => parseCsv(content, delimiter).map((r) => r.fields);
+
+describe('parseCsv', () => {
+  it('splits records on LF, CRLF and lone CR', () => {
+    expect(fieldsOf('a,b\nc,d\r\ne,f\rg,h')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+      ['e', 'f'],
+      ['g', 'h'],
+    ]);
+  });
+
+  it('keeps delimiters, escaped quotes and line breaks inside quoted fields', () => {
+    const records = parseCsv('Date,Description\n2024-01-05,"Lunch, ""Joe\'s""\nand tip"\n2024-01-06,Bus\n', ',');
+
+    expect(records.map((r) => r.fields)).toEqual([
+      ['Date', 'Description'],
+      ['2024-01-05', 'Lunch, "Joe\'s"\nand tip'],
+      ['2024-01-06', 'Bus'],
+    ]);
+    // Line numbers count the line break inside the quoted field
+    expect(records.map((r) => r.line)).toEqual([1, 2, 4]);
+  });
+
+  it('strips a byte order mark from the first header', () => {
+    expect(fieldsOf('\uFEFFDate,Amount\n2024-01-05,12.50')[0]).toEqual(['Date', 'Amount']);
+  });
+
+  it('trims unquoted fields but keeps spaces inside quotes', () => {
+    expect(fieldsOf('a,b\n  padded  ," spaced "')[1]).toEqual(['padded', ' spaced ']);
+  });
+
+  it('skips blank lines', () => {
+    expect(fieldsOf('a,b\n\n1,2\n   \n3,4\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4'],
+    ]);
+  });
+
+  it('pads short rows and reports the field count on them', () => {
+    const records = parseCsv('a,b,c\n1,2\n4,5,6', ',');
+
+    expect(records[1].fields).toEqual(['1', '2', '']);
+    expect(records[1].errors).toEqual(['Expected 3 fields but found 2']);
+    expect(records[2].errors).toEqual([]);
+  });
+
+  it('reports long rows without shifting later ones', () => {
+    const records = parseCsv('a,b\n1,2,3\n4,5', ',');
+
+    expect(records[1].fields).toEqual(['1', '2', '3']);
+    expect(records[1].errors).toEqual(['Expected 2 fields but found 3']);
+    expect(records[2]).toMatchObject({ fields: ['4', '5'], errors: [] });
+  });
+
+  it('ignores trailing delimiters', () => {
+    const records = parseCsv('a,b,\n1,2,,\n', ',');
+
+    expect(records.map((r) => r.fields)).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+    expect(records[1].errors).toEqual([]);
+  });
+
+  it('reports text after a closing quote and an unclosed quote', () => {
+    const records = parseCsv('a,b\n"x"y,1\n2,"never closed\n3,4', ',');
+
+    expect(records[1].errors).toContain('Unexpected character after closing quote');
+    expect(records[1].fields).toEqual(['xy', '1']);
+    expect(records[2].errors).toContain('Quoted field is never closed');
+    expect(records[2].fields).toEqual(['2', 'never closed\n3,4']);
+  });
+});
+
+describe('tokenizeCsv', () => {
+  it('handles quotes and line endings split across chunks', () => {
+    const chunks = ['a,"b', '""c"\r', '\nd,e'];
+
+    expect([...tokenizeCsv(chunks, ',')].map((r) => r.fields)).toEqual([
+      ['a', 'b"c'],
+      ['d', 'e'],
+    ]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter that gives consistent rows', () => {
+    expect(detectDelimiter('Date;Amount;Description\n05.01.2024;12,50;Lunch\n06.01.2024;3,20;Bus')).toBe(';');
+    expect(detectDelimiter('Date\tAmount\n2024-01-05\t12.50')).toBe('\t');
+    expect(detectDelimiter('Date,Amount\n2024-01-05,12.50')).toBe(',');
+  });
+
+  it('does not count delimiters inside quoted fields', () => {
+    expect(detectDelimiter('Date;Description\n2024-01-05;"Lunch, drinks, tip"\n2024-01-06;"Bus, return"')).toBe(';');
+  });
+});
+
+describe('csvLine', () => {
+  it('quotes fields with delimiters, quotes or line breaks', () => {
+    expect(csvLine(['plain', 'a,b', 'say "hi"', 'two\nlines'])).toBe('plain,"a,b","say ""hi""","two\nlines"\r\n');
+  });
+
+  it('round-trips through the parser', () => {
+    const fields = ['2024-01-05', 'Lunch, "Joe\'s"', 'line\r\nbreak'];
+    expect(fieldsOf(csvLine(['x', 'y', 'z']) + csvLine(fields))[1]).toEqual(fields);
+  });
+});
+
+describe('escapeFormula', () => {
+  it('puts an apostrophe before text a spreadsheet would run as a formula', () => {
+    expect(escapeFormula('=SUM(A1:A9)')).toBe("'=SUM(A1:A9)");
+    expect(escapeFormula('-5% member discount lunch')).toBe("'-5% member discount lunch");
+    expect(escapeFormula('@home')).toBe("'@home");
+    expect(escapeFormula("Joe's diner")).toBe("Joe's diner");
+  });
+
+  it('round-trips through csvLine, the parser and unescapeFormula', () => {
+    const fields = ['-5% member discount lunch', '+44 call', "'=already quoted", "''-twice", "'plain", 'Lunch', '\tindented'];
+    const [, record] = fieldsOf(csvLine(['a', 'b', 'c', 'd', 'e', 'f', 'g']) + csvLine(fields.map(escapeFormula)));
+
+    expect(record.map(unescapeFormula)).toEqual(fields);
+  });
+});
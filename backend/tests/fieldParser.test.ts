@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectColumnFormats,
+  detectDateFormat,
+  detectNumberFormat,
+  parseAmount,
+  parseDate,
+} from '../src/services/fieldParser.js';
+
+describe('parseAmount', () => {
+  it('reads both decimal conventions', () => {
+    expect(parseAmount('1,234.56')).toBe(1234.56);
+    expect(parseAmount('1.234,56')).toBe(1234.56);
+    expect(parseAmount('12,50')).toBe(12.5);
+    expect(parseAmount('1.234.567')).toBe(1234567);
+    expect(parseAmount('1,234,567')).toBe(1234567);
+  });
+
+  it('follows a forced format for values that could be either', () => {
+    expect(parseAmount('1,234', '1,234.56')).toBe(1234);
+    expect(parseAmount('1,234', '1.234,56')).toBe(1.234);
+    expect(parseAmount('1.234', '1.234,56')).toBe(1234);
+  });
+
+  it('drops currency symbols and Swiss apostrophes and reads parentheses as negative', () => {
+    expect(parseAmount('$1,234.56')).toBe(1234.56);
+    expect(parseAmount('€ 12,50')).toBe(12.5);
+    expect(parseAmount("1'234.50")).toBe(1234.5);
+    expect(parseAmount('(45.00)')).toBe(-45);
+    expect(parseAmount('-45.00')).toBe(-45);
+  });
+
+  it('returns null for empty or non-numeric values', () => {
+    expect(parseAmount('')).toBeNull();
+    expect(parseAmount('n/a')).toBeNull();
+  });
+});
+
+describe('detectNumberFormat', () => {
+  it('decides from the separator after the last digit group', () => {
+    expect(detectNumberFormat(['1.234,56', '12,00'])).toBe('1.234,56');
+    expect(detectNumberFormat(['1,234.56', '12.00'])).toBe('1,234.56');
+  });
+
+  it('lets an unambiguous value settle a column of ambiguous ones', () => {
+    expect(detectNumberFormat(['1.234', '2.500', '3,5'])).toBe('1.234,56');
+    expect(detectNumberFormat(['1,234', '2,500', '3.5'])).toBe('1,234.56');
+  });
+
+  it('reads repeated separators as thousands', () => {
+    expect(detectNumberFormat(['1.234.567'])).toBe('1.234,56');
+    expect(detectNumberFormat(['1,234,567'])).toBe('1,234.56');
+  });
+});
+
+describe('parseDate', () => {
+  it('reads each supported layout', () => {
+    expect(parseDate('2024-03-25')).toBe('2024-03-25');
+    expect(parseDate('2024/3/5')).toBe('2024-03-05');
+    expect(parseDate('25.03.2024')).toBe('2024-03-25');
+    expect(parseDate("3/25'24")).toBe('2024-03-25');
+  });
+
+  it('takes month first for ambiguous slash dates unless a format is given', () => {
+    expect(parseDate('03/04/2024')).toBe('2024-03-04');
+    expect(parseDate('03/04/2024', 'DD/MM/YYYY')).toBe('2024-04-03');
+  });
+
+  it('falls back to day first when month first is impossible', () => {
+    expect(parseDate('25/03/2024')).toBe('2024-03-25');
+  });
+
+  it('maps two-digit years around 1970', () => {
+    expect(parseDate('03/25/24')).toBe('2024-03-25');
+    expect(parseDate('03/25/85')).toBe('1985-03-25');
+  });
+
+  it('rejects dates that do not exist instead of rolling them over', () => {
+    expect(parseDate('2024-02-30')).toBeNull();
+    expect(parseDate('2023-02-29')).toBeNull();
+    expect(parseDate('13/13/2024')).toBeNull();
+    expect(parseDate('25/03/2024', 'MM/DD/YYYY')).toBeNull();
+  });
+
+  it('returns null for empty values', () => {
+    expect(parseDate('')).toBeNull();
+    expect(parseDate('not a date')).toBeNull();
+  });
+});
+
+describe('detectDateFormat', () => {
+  it('settles day and month order from one unambiguous value', () => {
+    expect(detectDateFormat(['03/04/2024', '05/06/2024', '25/06/2024'])).toBe('DD/MM/YYYY');
+    expect(detectDateFormat(['03/04/2024', '05/06/2024', '06/25/2024'])).toBe('MM/DD/YYYY');
+  });
+
+  it('prefers month first when every value is ambiguous', () => {
+    expect(detectDateFormat(['03/04/2024', '05/06/2024'])).toBe('MM/DD/YYYY');
+  });
+
+  it('returns null when too few values are dates', () => {
+    expect(detectDateFormat(['2024-01-05', 'Lunch', 'Bus'])).toBeNull();
+    expect(detectDateFormat(['', '  '])).toBeNull();
+  });
+});
+
+describe('detectColumnFormats', () => {
+  it('reports a date format or a number format for each column', () => {
+    const formats = detectColumnFormats(
+      ['Datum', 'Betrag', 'Beschreibung'],
+      [
+        ['03.04.2024', '1.234,56', 'Miete'],
+        ['15.04.2024', '-12,50', 'Bäcker'],
+      ]
+    );
+
+    expect(formats).toEqual({
+      Datum: { dateFormat: 'DD.MM.YYYY', numberFormat: null },
+      Betrag: { dateFormat: null, numberFormat: '1.234,56' },
+      Beschreibung: { dateFormat: null, numberFormat: null },
+    });
+  });
+
+  it('does not offer the Quicken date format', () => {
+    expect(detectColumnFormats(['Date'], [["3/25'24"], ["4/1'24"]]).Date.dateFormat).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+// In-memory database for service tests. A test file swaps it in for the app's database with
+//   vi.mock('../src/db/knex.js', () => import('./helpers/db.js'));
+// and calls resetDb() before each test.
+import path from 'path';
+import Knex from 'knex';
+
+// Loaded through Vite so the TypeScript migrations run as they do under the knex CLI
+const migrations = import.meta.glob<Knex.Migration>('../../src/db/migrations/*.ts', { eager: true });
+
+const migrationSource: Knex.MigrationSource<string> = {
+  getMigrations: async () => Object.keys(migrations).sort(),
+  getMigrationName: (file) => path.basename(file),
+  getMigration: async (file) => migrations[file],
+};
+
+// Global default categories, as the seed creates them
+const DEFAULT_CATEGORIES = ['Food', 'Transport', 'Entertainment', 'Bills', 'Shopping', 'Other'];
+
+const db = Knex({
+  client: 'better-sqlite3',
+  connection: { filename: ':memory:' },
+  useNullAsDefault: true,
+});
+
+export default db;
+
+// Start over with an empty, fully migrated database holding only the default categories.
+// Each new connection to ':memory:' opens a fresh database.
+export async function resetDb(): Promise<void> {
+  await db.destroy();
+  db.initialize();
+  await db.migrate.latest({ migrationSource });
+  await db('categories').insert(DEFAULT_CATEGORIES.map((name, i) => ({ name, icon: 'tag', sortOrder: i + 1 })));
+}
+
+export async function createUser(email = 'test@example.com'): Promise<number> {
+  const [id] = await db('users').insert({ email, passwordHash: 'not-a-hash' });
+  return id;
+}
+
+export async function categoryId(name: string): Promise<number> {
+  const category = await db('categories').whereNull('userId').where({ name }).first();
+  return category.id;
+}
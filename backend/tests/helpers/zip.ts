@@ -0,0 +1,53 @@
+import { deflateRawSync } from 'zlib';
+
+export interface ZipFixtureEntry {
+  name: string;
+  content: string | Buffer;
+  stored?: boolean; // written without compression
+  declaredSize?: number; // uncompressed size written to the headers, when it should lie
+}
+
+// A minimal ZIP archive with the same layout office suites write: local headers and data,
+// then the central directory and its end record
+export function buildZip(entries: ZipFixtureEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const content = Buffer.from(entry.content);
+    const data = entry.stored ? content : deflateRawSync(content);
+    const name = Buffer.from(entry.name);
+    const method = entry.stored ? 0 : 8;
+    const size = entry.declaredSize ?? content.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, data);
+    directory.push(central, name);
+    offset += local.length + name.length + data.length;
+  }
+
+  const directorySize = directory.reduce((total, part) => total + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...directory, end]);
+}
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import db, { categoryId, createUser, resetDb } from './helpers/db.js';
+import { confirmImport, getParsedRows, revertImport, saveMapping, uploadCsv } from '../src/services/importService.js';
+import { createExpense, updateExpense } from '../src/services/expenseService.js';
+
+vi.mock('../src/db/knex.js', () => import('./helpers/db.js'));
+
+let userId: number;
+
+beforeEach(async () => {
+  await resetDb();
+  userId = await createUser();
+});
+
+// Upload a Date,Amount,Description file and map it, returning the session id
+async function importCsv(lines: string[]): Promise<number> {
+  const { session } = await uploadCsv(userId, 'bank.csv', ['Date,Amount,Description', ...lines].join('\n'));
+  await saveMapping(session.id, userId, { date: 'Date', amount: 'Amount', description: 'Description' });
+  return session.id;
+}
+
+const addExpense = async (date: string, amount: number, description: string) =>
+  createExpense({ userId, categoryId: await categoryId('Food'), amount, description, date });
+
+describe('duplicate detection', () => {
+  it('flags rows matching an existing expense up to three days apart', async () => {
+    const expense = await addExpense('2024-03-10', 12.5, 'Coffee Shop');
+
+    const sessionId = await importCsv([
+      '2024-03-14,12.50,Coffee Shop',
+      '2024-03-07,12.50,COFFEE-SHOP',
+      '2024-03-10,12.75,Coffee Shop',
+    ]);
+    const rows = await getParsedRows(sessionId, userId);
+
+    expect(rows.map((r) => r.skipped)).toEqual([false, true, false]);
+    expect(rows[1]).toMatchObject({
+      skipReason: 'duplicate',
+      duplicate: { source: 'expense', expenseId: expense.id, rowIndex: null, date: '2024-03-10' },
+    });
+  });
+
+  it('lets each existing expense account for only one row', async () => {
+    await addExpense('2024-03-10', 4, 'Bus ticket');
+
+    const rows = await getParsedRows(await importCsv(['2024-03-10,4,Bus ticket', '2024-03-11,4,Bus ticket']), userId);
+
+    expect(rows.map((r) => r.skipped)).toEqual([true, false]);
+  });
+
+  it('flags repeats within the file only on the same date', async () => {
+    const rows = await getParsedRows(
+      await importCsv(['2024-03-10,4,Bus ticket', '2024-03-10,4,Bus ticket', '2024-03-11,4,Bus ticket']),
+      userId
+    );
+
+    expect(rows.map((r) => r.skipped)).toEqual([false, true, false]);
+    expect(rows[1].duplicate).toEqual({ source: 'file', expenseId: null, rowIndex: 0, date: '2024-03-10' });
+  });
+});
+
+describe('revertImport', () => {
+  async function confirmCsv(lines: string[]) {
+    const { history } = await confirmImport(await importCsv(lines), userId);
+    const expenseIds: number[] = await db('expenses').where({ importHistoryId: history.id }).orderBy('id').pluck('id');
+    return { historyId: history.id, expenseIds };
+  }
+
+  it('deletes the imported expenses and marks the import as reverted', async () => {
+    const kept = await addExpense('2024-03-01', 9, 'Groceries');
+    const { historyId } = await confirmCsv(['2024-03-10,4,Bus ticket', '2024-03-11,6,Lunch']);
+
+    const result = await revertImport(historyId, userId);
+
+    expect(result?.deletedCount).toBe(2);
+    expect(result?.history.revertedAt).not.toBeNull();
+    expect(await db('expenses').where({ userId }).pluck('id')).toEqual([kept.id]);
+    await expect(revertImport(historyId, userId)).rejects.toThrow('Import has already been reverted');
+  });
+
+  it('leaves an import alone when expenses were edited since, unless forced', async () => {
+    const { historyId, expenseIds } = await confirmCsv(['2024-03-10,4,Bus ticket', '2024-03-11,6,Lunch']);
+    await updateExpense(expenseIds[1], userId, { amount: 7 });
+
+    await expect(revertImport(historyId, userId)).rejects.toThrow('Some imported expenses were edited after the import');
+    expect(await db('expenses').where({ importHistoryId: historyId }).count('id as count').first()).toEqual({ count: 2 });
+
+    expect((await revertImport(historyId, userId, true))?.deletedCount).toBe(2);
+  });
+
+  it('returns null for an import of another user', async () => {
+    const { historyId } = await confirmCsv(['2024-03-10,4,Bus ticket']);
+
+    expect(await revertImport(historyId, await createUser('other@example.com'))).toBeNull();
+  });
+});
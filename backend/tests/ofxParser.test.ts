@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { isOfx, parseOfx } from '../src/services/ofxParser.js';
+
+// OFX 1.x: SGML header, leaf elements left unclosed
+const SGML_STATEMENT = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>eur
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240115120000.000[-5:EST]
+<TRNAMT>-12,50
+<FITID>1001
+<NAME>Bakery &amp; Café
+<MEMO>Card payment
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240116
+<TRNAMT>-40.00
+<FITID>1002
+<NAME>Hotel
+<CURRENCY><CURRATE>1.1<CURSYM>USD</CURRENCY>
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>
+`;
+
+// OFX 2.x: XML with every element closed
+const XML_STATEMENT = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="211"?>
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>GBP</CURDEF>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>CREDIT</TRNTYPE><DTPOSTED>20240301</DTPOSTED><TRNAMT>1500.00</TRNAMT><FITID>A1</FITID><NAME>Salary</NAME></STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20240231</DTPOSTED><TRNAMT>abc</TRNAMT><FITID>A2</FITID></STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>
+`;
+
+describe('isOfx', () => {
+  it('recognises both header styles', () => {
+    expect(isOfx(SGML_STATEMENT)).toBe(true);
+    expect(isOfx(XML_STATEMENT)).toBe(true);
+    expect(isOfx('Date,Amount\n2024-01-05,12.50')).toBe(false);
+  });
+});
+
+describe('parseOfx', () => {
+  it('reads unclosed SGML elements', () => {
+    const [first] = parseOfx(SGML_STATEMENT);
+
+    expect(first).toMatchObject({
+      fitId: '1001',
+      type: 'DEBIT',
+      datePosted: '2024-01-15',
+      amount: -12.5,
+      currency: 'EUR',
+      name: 'Bakery & Café',
+      memo: 'Card payment',
+    });
+    expect(first.raw.TRNAMT).toBe('-12,50');
+  });
+
+  it('uses a transaction currency over the statement default', () => {
+    const transactions = parseOfx(SGML_STATEMENT);
+
+    expect(transactions[1]).toMatchObject({ currency: 'USD', amount: -40, memo: null });
+  });
+
+  it('reads XML statements and leaves invalid dates and amounts empty', () => {
+    const transactions = parseOfx(XML_STATEMENT);
+
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0]).toMatchObject({ datePosted: '2024-03-01', amount: 1500, currency: 'GBP', name: 'Salary' });
+    expect(transactions[1]).toMatchObject({ datePosted: null, amount: null, name: null });
+  });
+
+  it('rejects files that are not statements or have no transactions', () => {
+    expect(() => parseOfx('Date,Amount')).toThrow('File is not a valid OFX statement');
+    expect(() => parseOfx('<OFX><BANKTRANLIST></BANKTRANLIST></OFX>')).toThrow('No transactions found in OFX file');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { isQif, parseQif, qifHeader, writeQifRecord } from '../src/services/qifParser.js';
+
+describe('parseQif', () => {
+  it('reads transaction records and keeps dates as written', () => {
+    const transactions = parseQif('!Type:Bank\r\nD1/15\'24\r\nT-1,234.56\r\nPRent\r\nMJanuary\r\nLBills\r\n^\r\nD01/16/2024\r\nU-3.20\r\nPBus\r\n^\r\n');
+
+    expect(transactions).toEqual([
+      {
+        date: "1/15'24",
+        amount: '-1,234.56',
+        payee: 'Rent',
+        memo: 'January',
+        category: 'Bills',
+        raw: { Date: "1/15'24", Amount: '-1,234.56', Payee: 'Rent', Memo: 'January', Category: 'Bills' },
+      },
+      {
+        date: '01/16/2024',
+        amount: '-3.20',
+        payee: 'Bus',
+        memo: null,
+        category: null,
+        raw: { Date: '01/16/2024', Amount: '', Payee: 'Bus', Memo: '', Category: '' },
+      },
+    ]);
+  });
+
+  it('takes transaction-level fields over repeated split lines', () => {
+    const [transaction] = parseQif('!Type:CCard\nD2024-01-05\nT-60.00\nPMarket\nLFood\nSFood\n$-40.00\nSHousehold\n$-20.00\n^\n');
+
+    expect(transaction).toMatchObject({ amount: '-60.00', category: 'Food' });
+  });
+
+  it('skips category and account lists', () => {
+    const transactions = parseQif('!Type:Cat\nNFood\nE\n^\n!Account\nNChecking\nTBank\n^\n!Type:Bank\nD01/05/2024\nT-5\nPCoffee\n^\n');
+
+    expect(transactions.map((t) => t.payee)).toEqual(['Coffee']);
+  });
+
+  it('rejects files that are not QIF or have no transactions', () => {
+    expect(isQif('Date,Amount')).toBe(false);
+    expect(() => parseQif('Date,Amount')).toThrow('File is not a valid QIF file');
+    expect(() => parseQif('!Type:Cat\nNFood\n^\n')).toThrow('No transactions found in QIF file');
+  });
+});
+
+describe('writeQifRecord', () => {
+  it('writes records the parser reads back', () => {
+    const content =
+      qifHeader() +
+      writeQifRecord({ date: '2024-03-25', amount: -12.5, payee: 'Lunch\nwith team', category: 'Food' }) +
+      writeQifRecord({ date: '2024-03-26', amount: 100, payee: 'Refund', category: null });
+
+    expect(parseQif(content)).toMatchObject([
+      { date: '03/25/2024', amount: '-12.50', payee: 'Lunch with team', category: 'Food' },
+      { date: '03/26/2024', amount: '100.00', payee: 'Refund', category: null },
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import db, { categoryId, createUser, resetDb } from './helpers/db.js';
+import {
+  createRecurring,
+  getRecurring,
+  materializeDueExpenses,
+  updateRecurring,
+} from '../src/services/recurringService.js';
+
+vi.mock('../src/db/knex.js', () => import('./helpers/db.js'));
+
+const expensesOf = (recurringExpenseId: number) =>
+  db('expenses').where({ recurringExpenseId }).orderBy('date').select('date', 'amount');
+
+let userId: number;
+let food: number;
+
+beforeAll(() => {
+  // Only the clock moves; the database pool keeps real timers
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+beforeEach(async () => {
+  vi.setSystemTime(new Date('2024-05-15T12:00:00Z'));
+  await resetDb();
+  userId = await createUser();
+  food = await categoryId('Food');
+});
+
+const monthlyRent = () =>
+  createRecurring({
+    userId,
+    categoryId: food,
+    amount: 10,
+    description: 'Rent',
+    frequency: 'monthly',
+    interval: 1,
+    startDate: '2024-01-31',
+  });
+
+describe('createRecurring', () => {
+  it('back-fills due occurrences, clamping month ends without drifting', async () => {
+    const rule = await monthlyRent();
+
+    expect((await expensesOf(rule.id)).map((e) => e.date)).toEqual([
+      '2024-01-31',
+      '2024-02-29',
+      '2024-03-31',
+      '2024-04-30',
+    ]);
+    expect(rule.nextDate).toBe('2024-05-31');
+  });
+
+  it('rejects an end date before the start date', async () => {
+    await expect(
+      createRecurring({
+        userId,
+        categoryId: food,
+        amount: 10,
+        description: 'Rent',
+        frequency: 'monthly',
+        interval: 1,
+        startDate: '2024-01-31',
+        endDate: '2024-01-01',
+      })
+    ).rejects.toThrow('End date must not be before start date');
+  });
+});
+
+describe('materializeDueExpenses', () => {
+  it('creates the occurrences that came due and moves the next date on', async () => {
+    const rule = await monthlyRent();
+
+    expect(await materializeDueExpenses('2024-07-01')).toBe(2);
+    expect((await expensesOf(rule.id)).map((e) => e.date).slice(-2)).toEqual(['2024-05-31', '2024-06-30']);
+    expect((await getRecurring(rule.id, userId))?.nextDate).toBe('2024-07-31');
+    expect(await materializeDueExpenses('2024-07-01')).toBe(0);
+  });
+
+  it('stops at the end date', async () => {
+    const rule = await createRecurring({
+      userId,
+      categoryId: food,
+      amount: 5,
+      description: 'Gym',
+      frequency: 'weekly',
+      interval: 2,
+      startDate: '2024-05-01',
+      endDate: '2024-06-01',
+    });
+
+    await materializeDueExpenses('2024-12-31');
+
+    expect((await expensesOf(rule.id)).map((e) => e.date)).toEqual(['2024-05-01', '2024-05-15', '2024-05-29']);
+    expect((await getRecurring(rule.id, userId))?.nextDate).toBeNull();
+  });
+});
+
+describe('updateRecurring', () => {
+  it('changes only occurrences not created yet when no effective date is given', async () => {
+    const rule = await monthlyRent();
+
+    const updated = await updateRecurring(rule.id, userId, { amount: 12 });
+
+    expect(updated).toMatchObject({ id: rule.id, amount: 12, nextDate: '2024-05-31' });
+    expect((await expensesOf(rule.id)).map((e) => e.amount)).toEqual([10, 10, 10, 10]);
+  });
+
+  it('splits the series at the effective date and moves later expenses to the new rule', async () => {
+    const rule = await monthlyRent();
+
+    const continuation = await updateRecurring(rule.id, userId, { amount: 12 }, '2024-03-01');
+
+    expect(continuation).toMatchObject({ amount: 12, startDate: '2024-03-31', nextDate: '2024-05-31' });
+    expect(continuation!.id).not.toBe(rule.id);
+    expect(await getRecurring(rule.id, userId)).toMatchObject({ endDate: '2024-02-29', nextDate: null });
+    expect(await expensesOf(rule.id)).toEqual([
+      { date: '2024-01-31', amount: 10 },
+      { date: '2024-02-29', amount: 10 },
+    ]);
+    expect(await expensesOf(continuation!.id)).toEqual([
+      { date: '2024-03-31', amount: 12 },
+      { date: '2024-04-30', amount: 12 },
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import db, { categoryId, createUser, resetDb } from './helpers/db.js';
+import { createRule, loadRuleSet, reorderRules, unsafePatternReason } from '../src/services/ruleService.js';
+
+vi.mock('../src/db/knex.js', () => import('./helpers/db.js'));
+
+describe('unsafePatternReason', () => {
+  it('accepts patterns without nested repetition', () => {
+    for (const pattern of ['^coffee', 'uber\\s*eats', '(ab)+', '(?:ab|cd)?x', '[a+]+', '(a*){1}', '\\d{2,4}']) {
+      expect(unsafePatternReason(pattern)).toBeNull();
+    }
+  });
+
+  it('refuses repeated groups that contain a quantifier or alternatives', () => {
+    for (const pattern of ['(a+)+', '(a|b)*', '(x+x+)+y', '((ab)*c)+', '(?:a?b)*', '(a*){2,}']) {
+      expect(unsafePatternReason(pattern)).toBe(
+        'Repeating a group that contains a quantifier or alternatives can take too long to match'
+      );
+    }
+  });
+
+  it('refuses backreferences', () => {
+    expect(unsafePatternReason('(a)\\1')).toBe('Backreferences are not supported');
+    expect(unsafePatternReason('(?<x>a)\\k<x>')).toBe('Backreferences are not supported');
+  });
+});
+
+describe('loadRuleSet', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await resetDb();
+    userId = await createUser();
+  });
+
+  const input = (description: string) => ({ description, amount: 4.5, date: '2024-03-25' });
+
+  it('lets the first matching rule set each field and later rules see its rewrite', async () => {
+    const general = await createRule({
+      userId,
+      name: 'Coffee',
+      enabled: true,
+      conditions: [{ type: 'contains', text: 'coffee', matchCase: false }],
+      actions: [
+        { type: 'setCategory', categoryId: await categoryId('Food') },
+        { type: 'rewriteDescription', description: 'Coffee' },
+      ],
+    });
+    const specific = await createRule({
+      userId,
+      name: 'Coffee on the way to work',
+      enabled: true,
+      conditions: [{ type: 'regex', pattern: '^Coffee$', flags: '' }],
+      actions: [
+        { type: 'setCategory', categoryId: await categoryId('Transport') },
+        { type: 'rewriteDescription', description: 'Commute coffee' },
+      ],
+    });
+
+    expect((await loadRuleSet(userId)).apply(input('COFFEE HOUSE 1234'))).toMatchObject({
+      categoryId: await categoryId('Food'),
+      description: 'Coffee',
+      ruleIds: [general.id, specific.id],
+    });
+
+    await reorderRules(userId, [specific.id]);
+
+    expect((await loadRuleSet(userId)).apply(input('COFFEE HOUSE 1234'))).toMatchObject({
+      categoryId: await categoryId('Food'),
+      description: 'Coffee',
+      ruleIds: [general.id],
+    });
+    expect((await loadRuleSet(userId)).apply(input('Coffee'))).toMatchObject({
+      categoryId: await categoryId('Transport'),
+      description: 'Commute coffee',
+      ruleIds: [specific.id, general.id],
+    });
+  });
+
+  it('needs every condition to match and passes over disabled rules', async () => {
+    await createRule({
+      userId,
+      name: 'Weekend taxis',
+      enabled: true,
+      conditions: [
+        { type: 'contains', text: 'Taxi', matchCase: true },
+        { type: 'amountRange', min: 10, max: null },
+        { type: 'weekday', days: [0, 6] },
+      ],
+      actions: [{ type: 'skipImport' }],
+    });
+    await createRule({
+      userId,
+      name: 'Off',
+      enabled: false,
+      conditions: [{ type: 'contains', text: 'taxi', matchCase: false }],
+      actions: [{ type: 'rewriteDescription', description: 'Never' }],
+    });
+    const rules = await loadRuleSet(userId);
+
+    // 2024-03-23 was a Saturday
+    expect(rules.apply({ description: 'Taxi home', amount: 25, date: '2024-03-23' })).toMatchObject({
+      skip: true,
+      description: null,
+    });
+    expect(rules.apply({ description: 'Taxi home', amount: 25, date: '2024-03-25' }).skip).toBe(false);
+    expect(rules.apply({ description: 'taxi home', amount: 25, date: '2024-03-23' }).skip).toBe(false);
+    expect(rules.apply({ description: 'Taxi home', amount: null, date: '2024-03-23' }).skip).toBe(false);
+  });
+
+  it('never matches a stored pattern that is unsafe to run', async () => {
+    // Saved directly, as a rule from before the check would have been
+    await db('rules').insert({
+      userId,
+      name: 'Old',
+      position: 1,
+      enabled: true,
+      conditions: JSON.stringify([{ type: 'regex', pattern: '(a+)+$', flags: '' }]),
+      actions: JSON.stringify([{ type: 'skipImport' }]),
+    });
+
+    expect((await loadRuleSet(userId)).apply(input('aaaa')).skip).toBe(false);
+  });
+});
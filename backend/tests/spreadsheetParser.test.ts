@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { detectHeaderRow, readSpreadsheet } from '../src/services/spreadsheetParser.js';
+import { buildZip } from './helpers/zip.js';
+
+function xlsx(sheets: Record<string, string>, options: { sharedStrings?: string[]; date1904?: boolean } = {}): Buffer {
+  const names = Object.keys(sheets);
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<workbookPr${options.date1904 ? ' date1904="1"' : ''}/>
+<sheets>${names.map((name, i) => `<sheet name="${name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>
+</workbook>`;
+  const relationships = `<Relationships>${names
+    .map((_, i) => `<Relationship Id="rId${i + 1}" Target="worksheets/sheet${i + 1}.xml"/>`)
+    .join('')}</Relationships>`;
+  // Style 1 is a built-in date format, style 2 a custom one, style 3 a plain number
+  const styles = `<styleSheet>
+<numFmts count="1"><numFmt numFmtId="164" formatCode="dd&quot;.&quot;mm&quot;.&quot;yyyy"/></numFmts>
+<cellXfs count="4"><xf numFmtId="0"/><xf numFmtId="14"/><xf numFmtId="164"/><xf numFmtId="4"/></cellXfs>
+</styleSheet>`;
+  const sharedStrings = `<sst>${(options.sharedStrings ?? []).map((s) => `<si>${s}</si>`).join('')}</sst>`;
+
+  return buildZip([
+    { name: 'xl/workbook.xml', content: workbook },
+    { name: 'xl/_rels/workbook.xml.rels', content: relationships },
+    { name: 'xl/styles.xml', content: styles },
+    { name: 'xl/sharedStrings.xml', content: sharedStrings },
+    ...names.map((name, i) => ({
+      name: `xl/worksheets/sheet${i + 1}.xml`,
+      content: `<worksheet><sheetData>${sheets[name]}</sheetData></worksheet>`,
+    })),
+  ]);
+}
+
+function ods(tables: string): Buffer {
+  return buildZip([
+    { name: 'mimetype', content: 'application/vnd.oasis.opendocument.spreadsheet', stored: true },
+    {
+      name: 'content.xml',
+      content: `<office:document-content><office:body><office:spreadsheet>${tables}</office:spreadsheet></office:body></office:document-content>`,
+    },
+  ]);
+}
+
+describe('readSpreadsheet (xlsx)', () => {
+  it('resolves shared strings, including rich text runs, and skips phonetic guides', () => {
+    const content = xlsx(
+      { Expenses: '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' },
+      { sharedStrings: ['<t>Date</t>', '<r><t>Desc</t></r><r><t xml:space="preserve">ription</t></r><rPh><t>ignored</t></rPh>'] }
+    );
+
+    expect(readSpreadsheet(content).rows).toEqual([['Date', 'Description']]);
+  });
+
+  it('turns serial numbers in date styles into dates and leaves other numbers alone', () => {
+    const content = xlsx({
+      Sheet1:
+        '<row r="1"><c r="A1" s="1"><v>45376</v></c><c r="B1" s="2"><v>45376.75</v></c><c r="C1" s="3"><v>45376</v></c><c r="D1"><v>0.30000000000000004</v></c></row>',
+    });
+
+    expect(readSpreadsheet(content).rows).toEqual([['2024-03-25', '2024-03-25', '45376', '0.3']]);
+  });
+
+  it('counts serial dates from 1904 when the workbook says so', () => {
+    const content = xlsx({ Sheet1: '<row r="1"><c r="A1" s="1"><v>43914</v></c></row>' }, { date1904: true });
+
+    expect(readSpreadsheet(content).rows).toEqual([['2024-03-25']]);
+  });
+
+  it('reads inline strings, booleans, errors and ISO dates', () => {
+    const content = xlsx({
+      Sheet1:
+        '<row r="1"><c r="A1" t="inlineStr"><is><t>Caf&#233; &amp; bar</t></is></c><c r="B1" t="b"><v>1</v></c><c r="C1" t="e"><v>#DIV/0!</v></c><c r="D1" t="d"><v>2024-03-25T00:00:00</v></c></row>',
+    });
+
+    expect(readSpreadsheet(content).rows).toEqual([['Café & bar', 'TRUE', '', '2024-03-25']]);
+  });
+
+  it('keeps gaps where rows and cells are missing', () => {
+    const content = xlsx({ Sheet1: '<row r="1"><c r="B1"><v>1</v></c></row><row r="3"><c r="A3"><v>2</v></c></row>' });
+
+    expect(readSpreadsheet(content).rows).toEqual([['', '1'], [], ['2']]);
+  });
+
+  it('rejects sheets that fill too many cells', () => {
+    // Each row's last column pads it out to a thousand cells
+    const rows = Array.from({ length: 1001 }, (_, i) => `<row r="${i + 1}"><c r="ALL${i + 1}"><v>1</v></c></row>`);
+
+    expect(() => readSpreadsheet(xlsx({ Sheet1: rows.join('') }))).toThrow('Spreadsheet file is too large');
+  });
+
+  it('passes over sheets without a table unless one is named', () => {
+    const content = xlsx({
+      Cover: '<row r="1"><c r="A1" t="inlineStr"><is><t>Report</t></is></c></row>',
+      Data: '<row r="1"><c r="A1"><v>1</v></c></row><row r="2"><c r="A2"><v>2</v></c></row>',
+    });
+
+    expect(readSpreadsheet(content)).toMatchObject({ sheetNames: ['Cover', 'Data'], sheet: 'Data' });
+    expect(readSpreadsheet(content, 'Cover').rows).toEqual([['Report']]);
+    expect(() => readSpreadsheet(content, 'Missing')).toThrow('Sheet not found');
+  });
+});
+
+describe('readSpreadsheet (ods)', () => {
+  it('reads typed cell values rather than their display text', () => {
+    const content = ods(`<table:table table:name="Sheet1">
+<table:table-row>
+<table:table-cell office:value-type="date" office:date-value="2024-03-25T10:00:00"><text:p>25.03.24</text:p></table:table-cell>
+<table:table-cell office:value-type="currency" office:value="1234.5"><text:p>1.234,50 €</text:p></table:table-cell>
+<table:table-cell office:value-type="boolean" office:boolean-value="false"><text:p>FALSE</text:p></table:table-cell>
+</table:table-row>
+</table:table>`);
+
+    expect(readSpreadsheet(content).rows).toEqual([['2024-03-25', '1234.5', 'FALSE']]);
+  });
+
+  it('expands spaces, tabs and paragraphs in text cells and caps long space runs', () => {
+    const content = ods(`<table:table table:name="Sheet1"><table:table-row>
+<table:table-cell><text:p>a<text:s text:c="3"/>b<text:tab/>c</text:p><text:p>d<text:line-break/>e</text:p></table:table-cell>
+<table:table-cell><text:p>x<text:s text:c="1000000000"/>y</text:p></table:table-cell>
+</table:table-row></table:table>`);
+
+    const [row] = readSpreadsheet(content).rows;
+    expect(row[0]).toBe('a   b\tc\nd\ne');
+    expect(row[1]).toBe(`x${' '.repeat(1000)}y`);
+  });
+
+  it('expands repeated cells and rows only when content follows them', () => {
+    const content = ods(`<table:table table:name="Sheet1">
+<table:table-row><table:table-cell table:number-columns-repeated="2"><text:p>x</text:p></table:table-cell><table:table-cell table:number-columns-repeated="1020"/></table:table-row>
+<table:table-row table:number-rows-repeated="2"><table:table-cell/></table:table-row>
+<table:table-row><table:table-cell/><table:table-cell><text:p>y</text:p></table:table-cell></table:table-row>
+<table:table-row table:number-rows-repeated="1048570"><table:table-cell table:number-columns-repeated="1024"/></table:table-row>
+</table:table>`);
+
+    expect(readSpreadsheet(content).rows).toEqual([['x', 'x'], [], [], ['', 'y']]);
+  });
+
+  it('rejects repeats that expand to too many cells', () => {
+    const content = ods(`<table:table table:name="Sheet1">
+<table:table-row table:number-rows-repeated="100000"><table:table-cell table:number-columns-repeated="1000"><text:p>x</text:p></table:table-cell></table:table-row>
+</table:table>`);
+
+    expect(() => readSpreadsheet(content)).toThrow('Spreadsheet file is too large');
+  });
+
+  it('rejects archives that are not spreadsheets', () => {
+    expect(() => readSpreadsheet(buildZip([{ name: 'readme.txt', content: 'hello' }]))).toThrow(
+      'Not a valid spreadsheet file'
+    );
+  });
+});
+
+describe('detectHeaderRow', () => {
+  it('skips title lines above the table', () => {
+    expect(detectHeaderRow([['Statement'], [], ['Date', 'Amount', 'Description'], ['2024-03-25', '12.5', 'Lunch']])).toBe(3);
+    expect(detectHeaderRow([])).toBe(1);
+  });
+});
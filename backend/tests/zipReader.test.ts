@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_ENTRY_BYTES, openZip } from '../src/services/zipReader.js';
+import { buildZip } from './helpers/zip.js';
+
+describe('openZip', () => {
+  it('lists entries and reads stored and deflated ones', () => {
+    const zip = openZip(
+      buildZip([
+        { name: 'mimetype', content: 'application/vnd.oasis.opendocument.spreadsheet', stored: true },
+        { name: 'content.xml', content: '<office:document>Grüße</office:document>' },
+      ])
+    );
+
+    expect(zip.names).toEqual(['mimetype', 'content.xml']);
+    expect(zip.readText('mimetype')).toBe('application/vnd.oasis.opendocument.spreadsheet');
+    expect(zip.readText('content.xml')).toBe('<office:document>Grüße</office:document>');
+    expect(zip.readText('missing.xml')).toBeNull();
+  });
+
+  it('rejects files that are not ZIP archives', () => {
+    expect(() => openZip(Buffer.from('Date,Amount\n2024-01-05,12.50\n'))).toThrow('Not a valid spreadsheet file');
+  });
+
+  it('rejects entries that are not valid deflate data', () => {
+    const zip = buildZip([{ name: 'content.xml', content: 'not deflated', stored: true }]);
+    // Mark the stored entry as deflated in both headers
+    zip.writeUInt16LE(8, 8);
+    zip.writeUInt16LE(8, zip.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 10);
+
+    expect(() => openZip(zip).readText('content.xml')).toThrow('Not a valid spreadsheet file');
+  });
+
+  it('rejects entries that would unpack past the size cap', () => {
+    const content = Buffer.alloc(MAX_ENTRY_BYTES + 1);
+
+    // Both when the headers admit the size and when they understate it
+    expect(() => openZip(buildZip([{ name: 'sheet.xml', content }])).readText('sheet.xml')).toThrow(
+      'Spreadsheet file is too large'
+    );
+    expect(() => openZip(buildZip([{ name: 'sheet.xml', content, declaredSize: 100 }])).readText('sheet.xml')).toThrow(
+      'Spreadsheet file is too large'
+    );
+  });
+});
@@ -5,6 +5,14 @@ import { Login } from './pages/Login';
 import { Dashboard } from './pages/Dashboard';
 import { Expenses } from './pages/Expenses';
 import { Import } from './pages/Import';
+import { ImportHistoryDetail } from './pages/ImportHistoryDetail';
+import { Recurring } from './pages/Recurring';
+import { Categories } from './pages/Categories';
+import { Budgets } from './pages/Budgets';
+import { Reports } from './pages/Reports';
+import { Backup } from './pages/Backup';
+import { Rules } from './pages/Rules';
+import { Currencies } from './pages/Currencies';
 
 export default function App() {
   const {
@@ -54,7 +62,15 @@ export default function App() {
           }
         />
         <Route path="/expenses" element={<Expenses />} />
+        <Route path="/reports" element={<Reports />} />
+        <Route path="/recurring" element={<Recurring />} />
+        <Route path="/budgets" element={<Budgets />} />
+        <Route path="/categories" element={<Categories />} />
+        <Route path="/rules" element={<Rules />} />
+        <Route path="/currencies" element={<Currencies />} />
         <Route path="/import" element={<Import />} />
+        <Route path="/import/history/:id" element={<ImportHistoryDetail />} />
+        <Route path="/backup" element={<Backup />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
     </Layout>
@@ -0,0 +1,32 @@
+import { apiRequest, apiBlob, apiDownload, toBase64 } from './client';
+import type { Attachment } from '../types';
+
+// Mirrors the server's limits so oversized or unsupported files are refused before uploading
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+export const ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'application/pdf'];
+
+export async function getAttachments(expenseId: number): Promise<Attachment[]> {
+  return apiRequest<Attachment[]>(`/expenses/${expenseId}/attachments`);
+}
+
+export async function uploadAttachment(expenseId: number, file: File): Promise<Attachment> {
+  const content = toBase64(await file.arrayBuffer());
+  return apiRequest<Attachment>(`/expenses/${expenseId}/attachments`, {
+    method: 'POST',
+    body: JSON.stringify({ fileName: file.name, content }),
+  });
+}
+
+export async function getAttachmentBlob(attachment: Attachment): Promise<Blob> {
+  return apiBlob(`/expenses/${attachment.expenseId}/attachments/${attachment.id}`);
+}
+
+export async function downloadAttachment(attachment: Attachment): Promise<void> {
+  return apiDownload(`/expenses/${attachment.expenseId}/attachments/${attachment.id}`, attachment.fileName);
+}
+
+export async function deleteAttachment(attachment: Attachment): Promise<void> {
+  return apiRequest<void>(`/expenses/${attachment.expenseId}/attachments/${attachment.id}`, {
+    method: 'DELETE',
+  });
+}
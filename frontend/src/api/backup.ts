@@ -0,0 +1,20 @@
+import { apiRequest, apiDownload } from './client';
+import type { RestoreMode, RestoreResult } from '../types';
+
+export async function downloadBackup(): Promise<void> {
+  return apiDownload('/backup', 'expense-tracker-backup.json');
+}
+
+// Replacing deletes the user's receipt files, which backups do not contain; the server
+// refuses unless `discardAttachments` confirms that
+export async function restoreBackup(
+  backupJson: string,
+  mode: RestoreMode,
+  discardAttachments = false
+): Promise<RestoreResult> {
+  const query = discardAttachments ? '&discardAttachments=true' : '';
+  return apiRequest<RestoreResult>(`/backup/restore?mode=${mode}${query}`, {
+    method: 'POST',
+    body: backupJson,
+  });
+}
@@ -0,0 +1,31 @@
+import { apiRequest } from './client';
+import type { Budget, BudgetData, BudgetSummary } from '../types';
+
+export async function getBudgets(): Promise<Budget[]> {
+  return apiRequest<Budget[]>('/budgets');
+}
+
+export async function getBudgetSummary(month?: string): Promise<BudgetSummary> {
+  const query = month ? `?month=${month}` : '';
+  return apiRequest<BudgetSummary>(`/budgets/summary${query}`);
+}
+
+export async function createBudget(data: BudgetData): Promise<Budget> {
+  return apiRequest<Budget>('/budgets', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateBudget(id: number, data: Partial<BudgetData>): Promise<Budget> {
+  return apiRequest<Budget>(`/budgets/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function deleteBudget(id: number): Promise<void> {
+  return apiRequest<void>(`/budgets/${id}`, {
+    method: 'DELETE',
+  });
+}
@@ -1,6 +1,39 @@
 import { apiRequest } from './client';
-import type { Category } from '../types';
+import type { Category, CategoryData, CategorySuggestion } from '../types';
 
 export async function getCategories(): Promise<Category[]> {
   return apiRequest<Category[]>('/categories');
 }
+
+export async function suggestCategory(description: string): Promise<{ suggestion: CategorySuggestion | null }> {
+  const params = new URLSearchParams({ description });
+  return apiRequest<{ suggestion: CategorySuggestion | null }>(`/categories/suggest?${params}`);
+}
+
+export async function createCategory(data: CategoryData): Promise<Category> {
+  return apiRequest<Category>('/categories', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateCategory(id: number, data: Partial<CategoryData>): Promise<Category> {
+  return apiRequest<Category>(`/categories/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function reorderCategories(ids: number[]): Promise<Category[]> {
+  return apiRequest<Category[]>('/categories/reorder', {
+    method: 'PUT',
+    body: JSON.stringify({ ids }),
+  });
+}
+
+export async function deleteCategory(id: number, reassignTo?: number): Promise<void> {
+  const query = reassignTo ? `?reassignTo=${reassignTo}` : '';
+  return apiRequest<void>(`/categories/${id}${query}`, {
+    method: 'DELETE',
+  });
+}
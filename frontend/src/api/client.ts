@@ -42,3 +42,56 @@ export async function apiRequest<T>(
 
   return response.json();
 }
+
+// Fetch a file from the API with the auth header, failing like apiRequest does
+async function fetchFile(endpoint: string): Promise<Response> {
+  const token = localStorage.getItem('token');
+  const headers: Record<string, string> = {};
+
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  const response = await fetch(`${API_BASE}${endpoint}`, { headers });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Download failed' }));
+    throw new ApiError(error.error || 'Download failed', response.status, error.details);
+  }
+
+  return response;
+}
+
+// Fetch a file for showing in the page, e.g. as an object URL
+export async function apiBlob(endpoint: string): Promise<Blob> {
+  const response = await fetchFile(endpoint);
+  return response.blob();
+}
+
+// Fetch a file from the API and hand it to the browser as a download
+export async function apiDownload(endpoint: string, fallbackFilename: string): Promise<void> {
+  const response = await fetchFile(endpoint);
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || fallbackFilename;
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Binary uploads are sent as base64 inside the JSON body
+export function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked so large files stay under the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,61 @@
+import { apiRequest } from './client';
+import type {
+  CurrencySettings,
+  ExchangeRate,
+  ExchangeRateData,
+  RateCurrencySummary,
+  RateImportResult,
+} from '../types';
+
+// Offered in the currency pickers; any other three-letter code can still be typed in
+export const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'NZD', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK', 'MXN', 'BRL', 'INR', 'CNY'];
+
+// Amounts with the currency's own symbol and decimals, e.g. €12.50 or ¥1,200
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Codes the browser does not know still show up readably
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+export async function getCurrencySettings(): Promise<CurrencySettings> {
+  return apiRequest<CurrencySettings>('/currency/settings');
+}
+
+export async function updateCurrencySettings(data: CurrencySettings): Promise<CurrencySettings> {
+  return apiRequest<CurrencySettings>('/currency/settings', {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function getExchangeRates(currency?: string): Promise<ExchangeRate[]> {
+  const query = currency ? `?currency=${currency}` : '';
+  return apiRequest<ExchangeRate[]>(`/currency/rates${query}`);
+}
+
+export async function getRateCurrencies(): Promise<RateCurrencySummary[]> {
+  return apiRequest<RateCurrencySummary[]>('/currency/rates/currencies');
+}
+
+export async function saveExchangeRate(data: ExchangeRateData): Promise<ExchangeRate> {
+  return apiRequest<ExchangeRate>('/currency/rates', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function importExchangeRates(csvContent: string): Promise<RateImportResult> {
+  return apiRequest<RateImportResult>('/currency/rates/import', {
+    method: 'POST',
+    body: JSON.stringify({ csvContent }),
+  });
+}
+
+export async function deleteExchangeRate(id: number): Promise<void> {
+  return apiRequest<void>(`/currency/rates/${id}`, {
+    method: 'DELETE',
+  });
+}
@@ -1,10 +1,27 @@
-import { apiRequest } from './client';
-import type { Expense, CreateExpenseData, UpdateExpenseData, MonthlyTotal } from '../types';
+import { apiRequest, apiDownload } from './client';
+import type {
+  Expense,
+  CreateExpenseData,
+  UpdateExpenseData,
+  MonthlyTotal,
+  ExpenseStats,
+  StatsInterval,
+} from '../types';
 
 export interface GetExpensesParams {
   search?: string;
   startDate?: string;
   endDate?: string;
+  categoryId?: number;
+  tag?: string;
+}
+
+export interface GetExpenseStatsParams {
+  startDate?: string;
+  endDate?: string;
+  categoryId?: number;
+  tag?: string;
+  interval?: StatsInterval;
 }
 
 export async function getExpenses(params?: GetExpensesParams): Promise<Expense[]> {
@@ -12,10 +29,24 @@ export async function getExpenses(params?: GetExpensesParams): Promise<Expense[]
   if (params?.search) searchParams.append('search', params.search);
   if (params?.startDate) searchParams.append('startDate', params.startDate);
   if (params?.endDate) searchParams.append('endDate', params.endDate);
+  if (params?.categoryId) searchParams.append('categoryId', params.categoryId.toString());
+  if (params?.tag) searchParams.append('tag', params.tag);
   const query = searchParams.toString() ? `?${searchParams}` : '';
   return apiRequest<Expense[]>(`/expenses${query}`);
 }
 
+export type ExportFormat = 'csv' | 'qif';
+
+export async function exportExpenses(params?: GetExpensesParams, format: ExportFormat = 'csv'): Promise<void> {
+  const searchParams = new URLSearchParams({ format });
+  if (params?.search) searchParams.append('search', params.search);
+  if (params?.startDate) searchParams.append('startDate', params.startDate);
+  if (params?.endDate) searchParams.append('endDate', params.endDate);
+  if (params?.categoryId) searchParams.append('categoryId', params.categoryId.toString());
+  if (params?.tag) searchParams.append('tag', params.tag);
+  return apiDownload(`/expenses/export?${searchParams}`, `expenses.${format}`);
+}
+
 export async function getExpense(id: number): Promise<Expense> {
   return apiRequest<Expense>(`/expenses/${id}`);
 }
@@ -47,3 +78,14 @@ export async function getMonthlyTotal(year?: number, month?: number): Promise<Mo
   const query = params.toString() ? `?${params}` : '';
   return apiRequest<MonthlyTotal>(`/expenses/monthly-total${query}`);
 }
+
+export async function getExpenseStats(params?: GetExpenseStatsParams): Promise<ExpenseStats> {
+  const searchParams = new URLSearchParams();
+  if (params?.startDate) searchParams.append('startDate', params.startDate);
+  if (params?.endDate) searchParams.append('endDate', params.endDate);
+  if (params?.categoryId) searchParams.append('categoryId', params.categoryId.toString());
+  if (params?.tag) searchParams.append('tag', params.tag);
+  if (params?.interval) searchParams.append('interval', params.interval);
+  const query = searchParams.toString() ? `?${searchParams}` : '';
+  return apiRequest<ExpenseStats>(`/expenses/stats${query}`);
+}
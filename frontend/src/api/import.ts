@@ -1,17 +1,27 @@
 import { apiRequest } from './client';
 import type {
   ImportSession,
-  ImportHistory,
+  ImportHistoryWithCounts,
+  ImportHistoryDetail,
+  RevertResult,
   ColumnMapping,
   ParsedRow,
+  RowFilter,
+  RowPage,
+  RowSelection,
+  BulkRowAction,
+  BulkUpdateResult,
   UploadResult,
+  SpreadsheetUploadResult,
   MappingResult,
-  ImportResult,
+  ImportJob,
+  ImportTemplate,
+  ImportTemplateData,
+  MappingOptions,
 } from '../types';
 
 export interface ActiveSessionResponse {
   session: ImportSession;
-  parsedRows: ParsedRow[] | null;
 }
 
 export async function getActiveSession(): Promise<ActiveSessionResponse> {
@@ -37,17 +47,67 @@ export async function uploadCsv(fileName: string, csvContent: string): Promise<U
   });
 }
 
-export async function saveMapping(sessionId: number, columnMapping: ColumnMapping): Promise<MappingResult> {
-  return apiRequest<MappingResult>(`/import/session/${sessionId}/mapping`, {
+export interface SpreadsheetOptions {
+  sheet?: string;
+  headerRow?: number;
+}
+
+// content is the .xlsx or .ods file encoded as base64
+export async function uploadSpreadsheet(
+  fileName: string,
+  content: string,
+  options: SpreadsheetOptions = {}
+): Promise<SpreadsheetUploadResult> {
+  return apiRequest<SpreadsheetUploadResult>('/import/upload/spreadsheet', {
+    method: 'POST',
+    body: JSON.stringify({ fileName, content, ...options }),
+  });
+}
+
+export async function uploadOfx(fileName: string, ofxContent: string): Promise<MappingResult> {
+  return apiRequest<MappingResult>('/import/upload/ofx', {
     method: 'POST',
-    body: JSON.stringify({ columnMapping }),
+    body: JSON.stringify({ fileName, ofxContent }),
   });
 }
 
+export async function uploadQif(fileName: string, qifContent: string): Promise<MappingResult> {
+  return apiRequest<MappingResult>('/import/upload/qif', {
+    method: 'POST',
+    body: JSON.stringify({ fileName, qifContent }),
+  });
+}
+
+export async function saveMapping(
+  sessionId: number,
+  columnMapping: ColumnMapping,
+  options?: Partial<MappingOptions>
+): Promise<{ job: ImportJob }> {
+  return apiRequest<{ job: ImportJob }>(`/import/session/${sessionId}/mapping`, {
+    method: 'POST',
+    body: JSON.stringify({ columnMapping, options }),
+  });
+}
+
+export interface RowPageParams {
+  filter: RowFilter;
+  limit: number;
+  offset: number;
+}
+
+export async function getSessionRows(sessionId: number, params: RowPageParams): Promise<RowPage> {
+  const query = new URLSearchParams({
+    filter: params.filter,
+    limit: String(params.limit),
+    offset: String(params.offset),
+  });
+  return apiRequest<RowPage>(`/import/session/${sessionId}/rows?${query}`);
+}
+
 export async function updateRow(
   sessionId: number,
   rowIndex: number,
-  updates: { date?: string; amount?: number; description?: string; category?: string }
+  updates: { date?: string; amount?: number; currency?: string; description?: string; category?: string }
 ): Promise<{ row: ParsedRow }> {
   return apiRequest<{ row: ParsedRow }>(`/import/session/${sessionId}/row`, {
     method: 'PATCH',
@@ -66,12 +126,65 @@ export async function skipRow(
   });
 }
 
-export async function confirmImport(sessionId: number): Promise<ImportResult> {
-  return apiRequest<ImportResult>(`/import/session/${sessionId}/confirm`, {
+export async function bulkUpdateRows(
+  sessionId: number,
+  selection: RowSelection,
+  action: BulkRowAction
+): Promise<BulkUpdateResult> {
+  return apiRequest<BulkUpdateResult>(`/import/session/${sessionId}/bulk`, {
+    method: 'POST',
+    body: JSON.stringify({ ...selection, action }),
+  });
+}
+
+export async function confirmImport(sessionId: number): Promise<{ job: ImportJob }> {
+  return apiRequest<{ job: ImportJob }>(`/import/session/${sessionId}/confirm`, {
+    method: 'POST',
+  });
+}
+
+export async function getImportJob(jobId: number): Promise<ImportJob> {
+  return apiRequest<ImportJob>(`/import/jobs/${jobId}`);
+}
+
+export async function getImportHistory(): Promise<ImportHistoryWithCounts[]> {
+  return apiRequest<ImportHistoryWithCounts[]>('/import/history');
+}
+
+export async function getImportHistoryDetail(historyId: number): Promise<ImportHistoryDetail> {
+  return apiRequest<ImportHistoryDetail>(`/import/history/${historyId}`);
+}
+
+export async function revertImport(historyId: number, force: boolean): Promise<RevertResult> {
+  const query = force ? '?force=true' : '';
+  return apiRequest<RevertResult>(`/import/history/${historyId}/revert${query}`, {
     method: 'POST',
   });
 }
 
-export async function getImportHistory(): Promise<ImportHistory[]> {
-  return apiRequest<ImportHistory[]>('/import/history');
+export async function getImportTemplates(): Promise<ImportTemplate[]> {
+  return apiRequest<ImportTemplate[]>('/import/templates');
+}
+
+export async function createImportTemplate(data: ImportTemplateData): Promise<ImportTemplate> {
+  return apiRequest<ImportTemplate>('/import/templates', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateImportTemplate(
+  id: number,
+  data: Partial<Omit<ImportTemplateData, 'headers'>>
+): Promise<ImportTemplate> {
+  return apiRequest<ImportTemplate>(`/import/templates/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function deleteImportTemplate(id: number): Promise<void> {
+  return apiRequest<void>(`/import/templates/${id}`, {
+    method: 'DELETE',
+  });
 }
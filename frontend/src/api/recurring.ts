@@ -0,0 +1,32 @@
+import { apiRequest } from './client';
+import type { RecurringExpense, CreateRecurringData, UpdateRecurringData } from '../types';
+
+export async function getRecurringExpenses(): Promise<RecurringExpense[]> {
+  return apiRequest<RecurringExpense[]>('/recurring');
+}
+
+export async function createRecurringExpense(data: CreateRecurringData): Promise<RecurringExpense> {
+  return apiRequest<RecurringExpense>('/recurring', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateRecurringExpense(id: number, data: UpdateRecurringData): Promise<RecurringExpense> {
+  return apiRequest<RecurringExpense>(`/recurring/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function skipNextOccurrence(id: number): Promise<RecurringExpense> {
+  return apiRequest<RecurringExpense>(`/recurring/${id}/skip`, {
+    method: 'POST',
+  });
+}
+
+export async function deleteRecurringExpense(id: number): Promise<void> {
+  return apiRequest<void>(`/recurring/${id}`, {
+    method: 'DELETE',
+  });
+}
@@ -0,0 +1,47 @@
+import { apiRequest } from './client';
+import type { Rule, RuleData, RuleRunParams, RuleRunPreview, RuleRunResult } from '../types';
+
+export async function getRules(): Promise<Rule[]> {
+  return apiRequest<Rule[]>('/rules');
+}
+
+export async function createRule(data: RuleData): Promise<Rule> {
+  return apiRequest<Rule>('/rules', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateRule(id: number, data: Partial<RuleData>): Promise<Rule> {
+  return apiRequest<Rule>(`/rules/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function reorderRules(ids: number[]): Promise<Rule[]> {
+  return apiRequest<Rule[]>('/rules/reorder', {
+    method: 'PUT',
+    body: JSON.stringify({ ids }),
+  });
+}
+
+export async function deleteRule(id: number): Promise<void> {
+  return apiRequest<void>(`/rules/${id}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function previewRuleRun(params: RuleRunParams): Promise<RuleRunPreview> {
+  return apiRequest<RuleRunPreview>('/rules/run/preview', {
+    method: 'POST',
+    body: JSON.stringify(params),
+  });
+}
+
+export async function applyRuleRun(params: RuleRunParams): Promise<RuleRunResult> {
+  return apiRequest<RuleRunResult>('/rules/run', {
+    method: 'POST',
+    body: JSON.stringify(params),
+  });
+}
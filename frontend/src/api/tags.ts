@@ -0,0 +1,6 @@
+import { apiRequest } from './client';
+import type { Tag } from '../types';
+
+export async function getTags(): Promise<Tag[]> {
+  return apiRequest<Tag[]>('/tags');
+}
@@ -0,0 +1,68 @@
+import { AlertTriangle } from 'lucide-react';
+import type { BudgetProgress, BudgetSummary } from '../types';
+import { CategoryIcon } from './CategoryIcon';
+import { useBaseCurrency } from '../hooks/useCurrency';
+import { formatMoney } from '../api/currency';
+
+interface BudgetProgressListProps {
+  summary: BudgetSummary;
+}
+
+const BAR_COLORS: Record<BudgetProgress['status'], string> = {
+  ok: 'bg-green-500',
+  'projected-over': 'bg-yellow-500',
+  over: 'bg-red-500',
+};
+
+export function BudgetProgressList({ summary }: BudgetProgressListProps) {
+  // Budgets are set and tracked in the base currency
+  const currency = useBaseCurrency();
+  const rows = summary.overall ? [summary.overall, ...summary.categories] : summary.categories;
+
+  if (rows.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        No budgets set for this month.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg divide-y divide-gray-200">
+      {rows.map((row) => (
+        <div key={row.budgetId} className="p-4">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center space-x-3">
+              {row.categoryIcon && <CategoryIcon icon={row.categoryIcon} className="w-4 h-4" />}
+              <span className="text-sm font-medium text-gray-900">
+                {row.categoryName ?? 'Overall'}
+              </span>
+              {row.status !== 'ok' && (
+                <span
+                  className={`inline-flex items-center text-xs ${
+                    row.status === 'over' ? 'text-red-600' : 'text-yellow-600'
+                  }`}
+                >
+                  <AlertTriangle className="w-3 h-3 mr-1" />
+                  {row.status === 'over'
+                    ? `Over by ${formatMoney(Math.abs(row.remaining), currency)}`
+                    : `Projected ${formatMoney(row.projected, currency)}`}
+                </span>
+              )}
+            </div>
+            <span className="text-sm text-gray-600">
+              {formatMoney(row.spent, currency)}{' '}
+              <span className="text-gray-400">/ {formatMoney(row.limit, currency)}</span>
+            </span>
+          </div>
+          <div className="h-2 w-full bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-2 rounded-full ${BAR_COLORS[row.status]}`}
+              style={{ width: `${Math.min(row.percentUsed, 100)}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
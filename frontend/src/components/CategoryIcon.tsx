@@ -5,6 +5,18 @@ import {
   FileText,
   ShoppingBag,
   MoreHorizontal,
+  Baby,
+  Plane,
+  Home,
+  Heart,
+  Gift,
+  Briefcase,
+  GraduationCap,
+  PawPrint,
+  Dumbbell,
+  Stethoscope,
+  Coffee,
+  Wifi,
 } from 'lucide-react';
 
 const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
@@ -14,8 +26,22 @@ const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
   'file-text': FileText,
   'shopping-bag': ShoppingBag,
   'more-horizontal': MoreHorizontal,
+  baby: Baby,
+  plane: Plane,
+  home: Home,
+  heart: Heart,
+  gift: Gift,
+  briefcase: Briefcase,
+  'graduation-cap': GraduationCap,
+  'paw-print': PawPrint,
+  dumbbell: Dumbbell,
+  stethoscope: Stethoscope,
+  coffee: Coffee,
+  wifi: Wifi,
 };
 
+export const CATEGORY_ICONS = Object.keys(iconMap);
+
 interface CategoryIconProps {
   icon: string;
   className?: string;
@@ -0,0 +1,255 @@
+import { formatMoney } from '../api/currency';
+
+// Lightweight SVG charts used by the Reports page
+
+export const CHART_COLORS = [
+  '#6366f1',
+  '#f59e0b',
+  '#10b981',
+  '#ef4444',
+  '#3b82f6',
+  '#ec4899',
+  '#8b5cf6',
+  '#14b8a6',
+  '#f97316',
+  '#84cc16',
+  '#06b6d4',
+  '#a855f7',
+];
+
+// Donut
+export interface DonutSlice {
+  key: number;
+  label: string;
+  value: number;
+  color: string;
+}
+
+interface DonutChartProps {
+  slices: DonutSlice[];
+  currency: string;
+  onSelect?: (key: number) => void;
+}
+
+function polar(cx: number, cy: number, r: number, angle: number): [number, number] {
+  return [cx + r * Math.cos(angle), cy + r * Math.sin(angle)];
+}
+
+function arcPath(start: number, end: number, outer: number, inner: number): string {
+  const large = end - start > Math.PI ? 1 : 0;
+  const [x1, y1] = polar(100, 100, outer, start);
+  const [x2, y2] = polar(100, 100, outer, end);
+  const [x3, y3] = polar(100, 100, inner, end);
+  const [x4, y4] = polar(100, 100, inner, start);
+  return `M ${x1} ${y1} A ${outer} ${outer} 0 ${large} 1 ${x2} ${y2} L ${x3} ${y3} A ${inner} ${inner} 0 ${large} 0 ${x4} ${y4} Z`;
+}
+
+export function DonutChart({ slices, currency, onSelect }: DonutChartProps) {
+  const total = slices.reduce((sum, s) => sum + s.value, 0);
+
+  if (total <= 0) {
+    return <div className="text-center py-12 text-gray-500">No data for this period.</div>;
+  }
+
+  let angle = -Math.PI / 2;
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-6">
+      <svg viewBox="0 0 200 200" className="w-48 h-48 flex-shrink-0">
+        {slices.map((slice) => {
+          const sweep = (slice.value / total) * Math.PI * 2;
+          const start = angle;
+          angle += sweep;
+          // A full circle cannot be drawn as a single arc, so stop just short of it
+          const end = sweep >= Math.PI * 2 ? start + Math.PI * 2 - 0.0001 : angle;
+          return (
+            <path
+              key={slice.key}
+              d={arcPath(start, end, 90, 55)}
+              fill={slice.color}
+              className={onSelect ? 'cursor-pointer hover:opacity-80' : undefined}
+              onClick={() => onSelect?.(slice.key)}
+            >
+              <title>{`${slice.label}: ${formatMoney(slice.value, currency)}`}</title>
+            </path>
+          );
+        })}
+        <text x="100" y="96" textAnchor="middle" className="fill-gray-500 text-[10px]">
+          Total
+        </text>
+        <text x="100" y="114" textAnchor="middle" className="fill-gray-900 text-sm font-semibold">
+          {formatMoney(total, currency)}
+        </text>
+      </svg>
+      <ul className="space-y-1 text-sm">
+        {slices.map((slice) => (
+          <li key={slice.key}>
+            <button
+              onClick={() => onSelect?.(slice.key)}
+              className="flex items-center text-gray-700 hover:text-gray-900"
+            >
+              <span className="w-3 h-3 rounded-sm mr-2" style={{ backgroundColor: slice.color }} />
+              {slice.label}
+              <span className="ml-2 text-gray-400">
+                {formatMoney(slice.value, currency)} ({((slice.value / total) * 100).toFixed(1)}%)
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Stacked bars
+export interface BarSegment {
+  key: number;
+  label: string;
+  value: number;
+  color: string;
+}
+
+export interface StackedBar {
+  key: string;
+  label: string;
+  segments: BarSegment[];
+}
+
+interface StackedBarChartProps {
+  bars: StackedBar[];
+  currency: string;
+  onSelect?: (barKey: string, segmentKey?: number) => void;
+}
+
+export function StackedBarChart({ bars, currency, onSelect }: StackedBarChartProps) {
+  const width = 600;
+  const height = 240;
+  const padding = { top: 10, right: 10, bottom: 24, left: 50 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+
+  const max = Math.max(0, ...bars.map((b) => b.segments.reduce((sum, s) => sum + s.value, 0)));
+  const slot = bars.length > 0 ? plotWidth / bars.length : plotWidth;
+  const barWidth = slot * 0.7;
+  const scale = (value: number) => (max > 0 ? (value / max) * plotHeight : 0);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full">
+      {[0, 0.5, 1].map((fraction) => {
+        const y = padding.top + plotHeight - plotHeight * fraction;
+        return (
+          <g key={fraction}>
+            <line x1={padding.left} x2={width - padding.right} y1={y} y2={y} stroke="#e5e7eb" />
+            <text x={padding.left - 6} y={y + 4} textAnchor="end" className="fill-gray-400 text-[10px]">
+              {formatMoney(max * fraction, currency)}
+            </text>
+          </g>
+        );
+      })}
+      {bars.map((bar, i) => {
+        const x = padding.left + i * slot + (slot - barWidth) / 2;
+        let y = padding.top + plotHeight;
+        return (
+          <g key={bar.key}>
+            {bar.segments.map((segment) => {
+              const h = scale(segment.value);
+              y -= h;
+              return (
+                <rect
+                  key={segment.key}
+                  x={x}
+                  y={y}
+                  width={barWidth}
+                  height={h}
+                  fill={segment.color}
+                  className={onSelect ? 'cursor-pointer hover:opacity-80' : undefined}
+                  onClick={() => onSelect?.(bar.key, segment.key)}
+                >
+                  <title>{`${bar.label} · ${segment.label}: ${formatMoney(segment.value, currency)}`}</title>
+                </rect>
+              );
+            })}
+            <text
+              x={x + barWidth / 2}
+              y={height - 8}
+              textAnchor="middle"
+              className={`fill-gray-500 text-[10px] ${onSelect ? 'cursor-pointer' : ''}`}
+              onClick={() => onSelect?.(bar.key)}
+            >
+              {bar.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+// Lines
+export interface LineSeries {
+  label: string;
+  color: string;
+  points: number[];
+}
+
+interface LineChartProps {
+  series: LineSeries[];
+  xLabels: string[];
+  currency: string;
+}
+
+export function LineChart({ series, xLabels, currency }: LineChartProps) {
+  const width = 600;
+  const height = 240;
+  const padding = { top: 10, right: 10, bottom: 24, left: 50 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+
+  const max = Math.max(0, ...series.flatMap((s) => s.points));
+  const steps = Math.max(1, xLabels.length - 1);
+  const xAt = (i: number) => padding.left + (i / steps) * plotWidth;
+  const yAt = (value: number) => padding.top + plotHeight - (max > 0 ? (value / max) * plotHeight : 0);
+  const labelEvery = Math.ceil(xLabels.length / 8);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full">
+        {[0, 0.5, 1].map((fraction) => {
+          const y = padding.top + plotHeight - plotHeight * fraction;
+          return (
+            <g key={fraction}>
+              <line x1={padding.left} x2={width - padding.right} y1={y} y2={y} stroke="#e5e7eb" />
+              <text x={padding.left - 6} y={y + 4} textAnchor="end" className="fill-gray-400 text-[10px]">
+                {formatMoney(max * fraction, currency)}
+              </text>
+            </g>
+          );
+        })}
+        {xLabels.map((label, i) =>
+          i % labelEvery === 0 ? (
+            <text key={label} x={xAt(i)} y={height - 8} textAnchor="middle" className="fill-gray-500 text-[10px]">
+              {label}
+            </text>
+          ) : null
+        )}
+        {series.map((s) => (
+          <polyline
+            key={s.label}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={2}
+            points={s.points.map((value, i) => `${xAt(i)},${yAt(value)}`).join(' ')}
+          />
+        ))}
+      </svg>
+      <div className="flex justify-center gap-4 text-sm text-gray-600">
+        {series.map((s) => (
+          <span key={s.label} className="flex items-center">
+            <span className="w-3 h-0.5 mr-2" style={{ backgroundColor: s.color }} />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useRef, useState } from 'react';
+import { Paperclip, FileText, Download, Trash2 } from 'lucide-react';
+import { useAttachments, useUploadAttachment, useDeleteAttachment } from '../hooks/useAttachments';
+import {
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  downloadAttachment,
+  getAttachmentBlob,
+} from '../api/attachments';
+import type { Attachment } from '../types';
+
+interface ExpenseAttachmentsProps {
+  expenseId: number;
+}
+
+export function ExpenseAttachments({ expenseId }: ExpenseAttachmentsProps) {
+  const { data: attachments, isLoading } = useAttachments(expenseId);
+  const uploadAttachment = useUploadAttachment(expenseId);
+  const deleteAttachment = useDeleteAttachment();
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (files: FileList | null) => {
+    setError(null);
+    for (const file of Array.from(files || [])) {
+      if (!ATTACHMENT_TYPES.includes(file.type)) {
+        setError(`${file.name}: only JPEG, PNG, GIF, WebP and PDF files can be attached`);
+        continue;
+      }
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        setError(`${file.name}: larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+        continue;
+      }
+      try {
+        await uploadAttachment.mutateAsync(file);
+      } catch (err) {
+        setError(`${file.name}: ${err instanceof Error ? err.message : 'upload failed'}`);
+      }
+    }
+    // Lets the same file be picked again after removing it
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-700">Receipts</h4>
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={uploadAttachment.isPending}
+          className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+        >
+          <Paperclip className="w-4 h-4 mr-1" />
+          {uploadAttachment.isPending ? 'Uploading...' : 'Attach file'}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ATTACHMENT_TYPES.join(',')}
+          onChange={(e) => handleFiles(e.target.files)}
+          className="hidden"
+        />
+      </div>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      {isLoading ? (
+        <p className="mt-2 text-sm text-gray-500">Loading...</p>
+      ) : attachments && attachments.length > 0 ? (
+        <ul className="mt-3 grid grid-cols-3 gap-3">
+          {attachments.map((attachment) => (
+            <AttachmentTile
+              key={attachment.id}
+              attachment={attachment}
+              onDelete={() => deleteAttachment.mutate(attachment)}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-2 text-sm text-gray-500">No receipts attached.</p>
+      )}
+    </div>
+  );
+}
+
+interface AttachmentTileProps {
+  attachment: Attachment;
+  onDelete: () => void;
+}
+
+function AttachmentTile({ attachment, onDelete }: AttachmentTileProps) {
+  // Files need the auth header, so they are fetched and shown through an object URL
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getAttachmentBlob(attachment)
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => setUrl(null));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment]);
+
+  const isImage = attachment.mimeType.startsWith('image/');
+
+  return (
+    <li className="group relative">
+      <a
+        href={url ?? undefined}
+        target="_blank"
+        rel="noreferrer"
+        className="flex h-20 items-center justify-center overflow-hidden rounded-md border border-gray-200 bg-gray-50 hover:border-indigo-400"
+        title={`Open ${attachment.fileName}`}
+      >
+        {isImage && url ? (
+          <img src={url} alt={attachment.fileName} className="h-full w-full object-cover" />
+        ) : (
+          <FileText className="w-8 h-8 text-gray-400" />
+        )}
+      </a>
+      <p className="mt-1 truncate text-xs text-gray-600" title={attachment.fileName}>
+        {attachment.fileName}
+      </p>
+      <p className="text-xs text-gray-400">{formatSize(attachment.size)}</p>
+      <div className="absolute right-1 top-1 hidden space-x-1 group-hover:flex">
+        <button
+          type="button"
+          onClick={() => downloadAttachment(attachment)}
+          className="rounded bg-white p-1 text-gray-500 shadow hover:text-indigo-600"
+          title="Download"
+        >
+          <Download className="w-3 h-3" />
+        </button>
+        <button
+          type="button"
+          onClick={onDelete}
+          className="rounded bg-white p-1 text-gray-500 shadow hover:text-red-600"
+          title="Remove"
+        >
+          <Trash2 className="w-3 h-3" />
+        </button>
+      </div>
+    </li>
+  );
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -1,7 +1,13 @@
 import { useState, useEffect } from 'react';
-import { useCategories } from '../hooks/useCategories';
+import { useCategories, useCategorySuggestion } from '../hooks/useCategories';
+import { useBaseCurrency } from '../hooks/useCurrency';
+import { COMMON_CURRENCIES } from '../api/currency';
+import { TagInput } from './TagInput';
 import type { CreateExpenseData, Expense } from '../types';
 
+// Wait for a pause in typing before asking for a category suggestion
+const SUGGESTION_DELAY_MS = 300;
+
 interface ExpenseFormProps {
   onSubmit: (data: CreateExpenseData) => void;
   onCancel: () => void;
@@ -11,21 +17,42 @@ interface ExpenseFormProps {
 
 export function ExpenseForm({ onSubmit, onCancel, initialData, isLoading }: ExpenseFormProps) {
   const { data: categories } = useCategories();
+  const baseCurrency = useBaseCurrency();
   const [formData, setFormData] = useState<CreateExpenseData>({
     categoryId: initialData?.categoryId || 1,
     amount: initialData?.amount || 0,
+    currency: initialData?.currency,
     description: initialData?.description || '',
     date: initialData?.date || new Date().toISOString().split('T')[0],
+    tags: initialData?.tags || [],
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
+  // Suggestions only fill in the category until the user picks one, and never for an edit
+  const [categoryChosen, setCategoryChosen] = useState(!!initialData);
+  const [settledDescription, setSettledDescription] = useState(formData.description);
+  const { data: suggestionData } = useCategorySuggestion(categoryChosen ? '' : settledDescription);
+  const suggestion = suggestionData?.suggestion ?? null;
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSettledDescription(formData.description), SUGGESTION_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [formData.description]);
+
+  useEffect(() => {
+    if (suggestion && !categoryChosen) {
+      setFormData((data) => ({ ...data, categoryId: suggestion.categoryId }));
+    }
+  }, [suggestion, categoryChosen]);
 
   useEffect(() => {
     if (initialData) {
       setFormData({
         categoryId: initialData.categoryId,
         amount: initialData.amount,
+        currency: initialData.currency,
         description: initialData.description,
         date: initialData.date,
+        tags: initialData.tags,
       });
     }
   }, [initialData]);
@@ -47,10 +74,14 @@ export function ExpenseForm({ onSubmit, onCancel, initialData, isLoading }: Expe
     return Object.keys(newErrors).length === 0;
   };
 
+  const currency = formData.currency ?? baseCurrency;
+  const currencies = [...new Set([currency, baseCurrency, ...COMMON_CURRENCIES])];
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (validate()) {
-      onSubmit(formData);
+      // New expenses are in the base currency unless another one was picked
+      onSubmit({ ...formData, currency: formData.currency ?? baseCurrency });
     }
   };
 
@@ -63,7 +94,10 @@ export function ExpenseForm({ onSubmit, onCancel, initialData, isLoading }: Expe
         <select
           id="category"
           value={formData.categoryId}
-          onChange={(e) => setFormData({ ...formData, categoryId: Number(e.target.value) })}
+          onChange={(e) => {
+            setCategoryChosen(true);
+            setFormData({ ...formData, categoryId: Number(e.target.value) });
+          }}
           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
         >
           {categories?.map((category) => (
@@ -72,24 +106,49 @@ export function ExpenseForm({ onSubmit, onCancel, initialData, isLoading }: Expe
             </option>
           ))}
         </select>
+        {!categoryChosen && suggestion?.categoryId === formData.categoryId && (
+          <p className="mt-1 text-xs text-gray-500">
+            Suggested from your past expenses ({Math.round(suggestion.confidence * 100)}% confidence)
+          </p>
+        )}
       </div>
 
       <div>
         <label htmlFor="amount" className="block text-sm font-medium text-gray-700">
           Amount
         </label>
-        <input
-          type="number"
-          id="amount"
-          step="0.01"
-          value={formData.amount || ''}
-          onChange={(e) => setFormData({ ...formData, amount: Number(e.target.value) })}
-          className={`mt-1 block w-full rounded-md shadow-sm sm:text-sm border p-2 ${
-            errors.amount ? 'border-red-500' : 'border-gray-300'
-          } focus:border-indigo-500 focus:ring-indigo-500`}
-          placeholder="0.00"
-        />
+        <div className="mt-1 flex space-x-2">
+          <input
+            type="number"
+            id="amount"
+            step="0.01"
+            value={formData.amount || ''}
+            onChange={(e) => setFormData({ ...formData, amount: Number(e.target.value) })}
+            className={`block w-full rounded-md shadow-sm sm:text-sm border p-2 ${
+              errors.amount ? 'border-red-500' : 'border-gray-300'
+            } focus:border-indigo-500 focus:ring-indigo-500`}
+            placeholder="0.00"
+          />
+          <select
+            id="currency"
+            aria-label="Currency"
+            value={currency}
+            onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+            className="block w-28 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+          >
+            {currencies.map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+        </div>
         {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount}</p>}
+        {currency !== baseCurrency && (
+          <p className="mt-1 text-xs text-gray-500">
+            Converted to {baseCurrency} in totals with the exchange rate for the expense date.
+          </p>
+        )}
       </div>
 
       <div>
@@ -125,6 +184,13 @@ export function ExpenseForm({ onSubmit, onCancel, initialData, isLoading }: Expe
         {errors.date && <p className="mt-1 text-sm text-red-600">{errors.date}</p>}
       </div>
 
+      <div>
+        <label htmlFor="tags" className="block text-sm font-medium text-gray-700">
+          Tags <span className="text-gray-400 font-normal">(optional)</span>
+        </label>
+        <TagInput id="tags" value={formData.tags || []} onChange={(tags) => setFormData({ ...formData, tags })} />
+      </div>
+
       <div className="flex justify-end space-x-3 pt-4">
         <button
           type="button"
@@ -1,14 +1,17 @@
-import { Pencil, Trash2 } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Pencil, Trash2, Repeat, Paperclip } from 'lucide-react';
 import type { Expense } from '../types';
 import { CategoryIcon } from './CategoryIcon';
+import { formatMoney } from '../api/currency';
 
 interface ExpenseListProps {
   expenses: Expense[];
   onEdit: (expense: Expense) => void;
   onDelete: (id: number) => void;
+  onTagClick?: (tag: string) => void;
 }
 
-export function ExpenseList({ expenses, onEdit, onDelete }: ExpenseListProps) {
+export function ExpenseList({ expenses, onEdit, onDelete, onTagClick }: ExpenseListProps) {
   if (expenses.length === 0) {
     return (
       <div className="text-center py-12 text-gray-500">
@@ -31,12 +34,50 @@ export function ExpenseList({ expenses, onEdit, onDelete }: ExpenseListProps) {
                   <p className="text-sm font-medium text-gray-900">{expense.description}</p>
                   <p className="text-sm text-gray-500">
                     {expense.categoryName} &middot; {formatDate(expense.date)}
+                    {expense.recurringExpenseId && (
+                      <>
+                        {' '}&middot;{' '}
+                        <Link
+                          to={`/recurring?rule=${expense.recurringExpenseId}`}
+                          className="inline-flex items-center text-indigo-600 hover:text-indigo-800"
+                          title="Created by a recurring rule"
+                        >
+                          <Repeat className="w-3 h-3 mr-1" />
+                          Recurring
+                        </Link>
+                      </>
+                    )}
                   </p>
+                  {expense.tags.length > 0 && (
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {expense.tags.map((tag) => (
+                        <button
+                          key={tag}
+                          onClick={() => onTagClick?.(tag)}
+                          disabled={!onTagClick}
+                          className="px-2 py-0.5 text-xs font-medium rounded-full bg-indigo-50 text-indigo-700 hover:bg-indigo-100 disabled:hover:bg-indigo-50"
+                          title={onTagClick ? `Show expenses tagged ${tag}` : undefined}
+                        >
+                          #{tag}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
               <div className="flex items-center space-x-4">
+                {expense.attachmentCount > 0 && (
+                  <button
+                    onClick={() => onEdit(expense)}
+                    className="inline-flex items-center text-xs text-gray-400 hover:text-indigo-600"
+                    title={`${expense.attachmentCount} attachment${expense.attachmentCount === 1 ? '' : 's'}`}
+                  >
+                    <Paperclip className="w-4 h-4 mr-0.5" />
+                    {expense.attachmentCount}
+                  </button>
+                )}
                 <span className="text-sm font-semibold text-gray-900">
-                  ${expense.amount.toFixed(2)}
+                  {formatMoney(expense.amount, expense.currency)}
                 </span>
                 <div className="flex space-x-2">
                   <button
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { useCategories } from '../hooks/useCategories';
+import type { BulkRowAction, RowFilter } from '../types';
+
+export type BulkTarget = 'selected' | 'filter';
+
+type BulkActionType = BulkRowAction['type'] | 'include';
+
+const ACTIONS: { value: BulkActionType; label: string }[] = [
+  { value: 'setCategory', label: 'Set category' },
+  { value: 'replaceDescription', label: 'Find and replace in description' },
+  { value: 'shiftDates', label: 'Shift dates' },
+  { value: 'skip', label: 'Skip' },
+  { value: 'include', label: 'Include' },
+];
+
+const FILTER_ROWS: Record<RowFilter, string> = {
+  all: 'rows',
+  valid: 'valid rows',
+  invalid: 'invalid rows',
+  skipped: 'skipped rows',
+  duplicate: 'duplicate rows',
+};
+
+const inputClass =
+  'block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2';
+
+interface ImportBulkActionsProps {
+  selectedCount: number;
+  filter: RowFilter;
+  filterTotal: number;
+  onApply: (target: BulkTarget, action: BulkRowAction) => void;
+  isLoading: boolean;
+}
+
+// Applies one edit to the rows picked in the preview, or to every row the current filter shows
+export function ImportBulkActions({
+  selectedCount,
+  filter,
+  filterTotal,
+  onApply,
+  isLoading,
+}: ImportBulkActionsProps) {
+  const { data: categories } = useCategories();
+  const [actionType, setActionType] = useState<BulkActionType>('setCategory');
+  const [category, setCategory] = useState('');
+  const [find, setFind] = useState('');
+  const [replace, setReplace] = useState('');
+  const [matchCase, setMatchCase] = useState(false);
+  const [days, setDays] = useState('');
+
+  const target: BulkTarget = selectedCount > 0 ? 'selected' : 'filter';
+  const targetCount = target === 'selected' ? selectedCount : filterTotal;
+
+  const buildAction = (): BulkRowAction | null => {
+    switch (actionType) {
+      case 'setCategory':
+        return category ? { type: 'setCategory', category } : null;
+      case 'replaceDescription':
+        return find ? { type: 'replaceDescription', find, replace, matchCase } : null;
+      case 'shiftDates': {
+        const shift = Number(days);
+        return Number.isInteger(shift) && shift !== 0 ? { type: 'shiftDates', days: shift } : null;
+      }
+      case 'skip':
+        return { type: 'skip', skip: true };
+      case 'include':
+        return { type: 'skip', skip: false };
+    }
+  };
+
+  const action = buildAction();
+
+  return (
+    <div className="mb-3 p-3 bg-gray-50 border border-gray-200 rounded-lg flex flex-wrap items-center gap-2 text-sm">
+      <select
+        value={actionType}
+        onChange={(e) => setActionType(e.target.value as BulkActionType)}
+        className={inputClass}
+      >
+        {ACTIONS.map(({ value, label }) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      {actionType === 'setCategory' && (
+        <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputClass}>
+          <option value="">-- Select Category --</option>
+          {categories?.map((c) => (
+            <option key={c.id} value={c.name}>
+              {c.icon} {c.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {actionType === 'replaceDescription' && (
+        <>
+          <input
+            type="text"
+            value={find}
+            onChange={(e) => setFind(e.target.value)}
+            placeholder="Find"
+            className={`${inputClass} w-36`}
+          />
+          <input
+            type="text"
+            value={replace}
+            onChange={(e) => setReplace(e.target.value)}
+            placeholder="Replace with"
+            className={`${inputClass} w-36`}
+          />
+          <label className="flex items-center text-gray-700">
+            <input
+              type="checkbox"
+              checked={matchCase}
+              onChange={(e) => setMatchCase(e.target.checked)}
+              className="mr-1"
+            />
+            Match case
+          </label>
+        </>
+      )}
+
+      {actionType === 'shiftDates' && (
+        <label className="flex items-center gap-2 text-gray-700">
+          by
+          <input
+            type="number"
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+            placeholder="0"
+            className={`${inputClass} w-20`}
+          />
+          days
+        </label>
+      )}
+
+      <button
+        onClick={() => action && onApply(target, action)}
+        disabled={isLoading || !action || targetCount === 0}
+        className="ml-auto px-3 py-2 font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+      >
+        {target === 'selected'
+          ? `Apply to ${selectedCount} selected`
+          : `Apply to all ${filterTotal} ${FILTER_ROWS[filter]}`}
+      </button>
+    </div>
+  );
+}
@@ -1,12 +1,45 @@
-import { useState, useCallback } from 'react';
-import { Upload, ArrowRight, ArrowLeft, Check, AlertCircle, SkipForward } from 'lucide-react';
+import { useState, useCallback, useEffect } from 'react';
+import { Upload, ArrowRight, ArrowLeft, Check, AlertCircle, SkipForward, Copy } from 'lucide-react';
 import {
   useUploadCsv,
+  useUploadOfx,
+  useUploadQif,
+  useUploadSpreadsheet,
   useSaveMapping,
   useSkipRow,
+  useUpdateRow,
+  useBulkUpdateRows,
   useConfirmImport,
+  useImportJob,
+  useImportRows,
+  useImportTemplates,
+  useCreateImportTemplate,
+  useUpdateImportTemplate,
 } from '../hooks/useImport';
-import type { CsvStructure, ColumnMapping, ParsedRow, ImportSession } from '../types';
+import { useCategories } from '../hooks/useCategories';
+import { toBase64 } from '../api/client';
+import { formatMoney } from '../api/currency';
+import {
+  MappingOptionsFields,
+  mappingFields,
+  mappedColumns,
+  isMappingComplete,
+  type ParseOptions,
+} from './MappingOptionsFields';
+import { ImportBulkActions, type BulkTarget } from './ImportBulkActions';
+import type {
+  CsvStructure,
+  ColumnMapping,
+  ImportSession,
+  ImportJob,
+  ImportResult,
+  DuplicateMatch,
+  ImportTemplate,
+  RowFilter,
+  RowPage,
+  BulkRowAction,
+  UploadResult,
+} from '../types';
 
 type WizardStep = 'upload' | 'mapping' | 'preview' | 'complete';
 
@@ -15,6 +48,53 @@ interface ImportWizardProps {
   onCancel: () => void;
 }
 
+// Bank statement formats whose fields are known, so they skip column mapping
+const STATEMENT_FILE = /\.(ofx|qfx|qif)$/i;
+const QIF_FILE = /\.qif$/i;
+const SPREADSHEET_FILE = /\.(xlsx|ods)$/i;
+
+// A spreadsheet is kept in the browser so a different sheet or header row can be uploaded again
+interface SheetChoice {
+  sheet: string;
+  headerRow?: number; // detected from the sheet when left out
+}
+
+interface SpreadsheetFile {
+  fileName: string;
+  content: string; // base64
+  sheets: string[];
+  sheet: string;
+  headerRow: number;
+}
+
+const DEFAULT_OPTIONS: ParseOptions = {
+  dateFormat: 'auto',
+  numberFormat: 'auto',
+  amountMode: 'signed',
+  amountSign: 'positive',
+  currency: null,
+};
+
+// Templates saved for another layout can still be offered when every mapped column exists here
+function fitsHeaders(template: ImportTemplate, headers: string[]): boolean {
+  return Object.values(template.columnMapping).every((column) => !column || headers.includes(column));
+}
+
+// How the preview reads a row's amount: positive amounts are spending, negative ones refunds
+function describeAmount(amount: number): string {
+  return amount > 0 ? 'Spend' : amount < 0 ? 'Refund' : 'Zero amount';
+}
+
+const PREVIEW_PAGE_SIZE = 50;
+
+const ROW_FILTERS: { key: RowFilter; label: string }[] = [
+  { key: 'all', label: 'All' },
+  { key: 'valid', label: 'Valid' },
+  { key: 'invalid', label: 'Invalid' },
+  { key: 'skipped', label: 'Skipped' },
+  { key: 'duplicate', label: 'Duplicates' },
+];
+
 const STEPS: { key: WizardStep; label: string }[] = [
   { key: 'upload', label: 'Upload' },
   { key: 'mapping', label: 'Map Columns' },
@@ -26,20 +106,122 @@ export function ImportWizard({ onComplete, onCancel }: ImportWizardProps) {
   const [currentStep, setCurrentStep] = useState<WizardStep>('upload');
   const [session, setSession] = useState<ImportSession | null>(null);
   const [structure, setStructure] = useState<CsvStructure | null>(null);
-  const [parsedRows, setParsedRows] = useState<ParsedRow[]>([]);
+  const [spreadsheet, setSpreadsheet] = useState<SpreadsheetFile | null>(null);
+  const [jobId, setJobId] = useState<number | null>(null);
+  const [rowFilter, setRowFilter] = useState<RowFilter>('all');
+  const [rowOffset, setRowOffset] = useState(0);
+  const [selectedRows, setSelectedRows] = useState<number[]>([]);
   const [mapping, setMapping] = useState<ColumnMapping>({
     date: '',
     amount: '',
+    debit: '',
+    credit: '',
     description: '',
     category: '',
+    currency: '',
   });
+  const [options, setOptions] = useState<ParseOptions>(DEFAULT_OPTIONS);
+  const [templateId, setTemplateId] = useState<number | null>(null);
+  const [saveTemplate, setSaveTemplate] = useState(false);
+  const [templateName, setTemplateName] = useState('');
   const [importResult, setImportResult] = useState<{ importedCount: number; skippedCount: number } | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const uploadMutation = useUploadCsv();
+  const uploadOfxMutation = useUploadOfx();
+  const uploadQifMutation = useUploadQif();
+  const uploadSpreadsheetMutation = useUploadSpreadsheet();
   const mappingMutation = useSaveMapping();
   const skipRowMutation = useSkipRow();
+  const updateRowMutation = useUpdateRow();
+  const bulkMutation = useBulkUpdateRows();
   const confirmMutation = useConfirmImport();
+  const { data: job } = useImportJob(jobId);
+  const { data: rowPage } = useImportRows(currentStep === 'preview' ? session?.id ?? null : null, {
+    filter: rowFilter,
+    limit: PREVIEW_PAGE_SIZE,
+    offset: rowOffset,
+  });
+
+  // Skipping or fixing rows can move them out of the filter and empty the last page
+  const filteredTotal = rowPage?.total;
+  useEffect(() => {
+    if (filteredTotal !== undefined && rowOffset > 0 && rowOffset >= filteredTotal) {
+      setRowOffset(Math.max(0, Math.ceil(filteredTotal / PREVIEW_PAGE_SIZE) - 1) * PREVIEW_PAGE_SIZE);
+    }
+  }, [filteredTotal, rowOffset]);
+
+  const showPreview = useCallback(() => {
+    setRowFilter('all');
+    setRowOffset(0);
+    setSelectedRows([]);
+    setCurrentStep('preview');
+  }, []);
+
+  const { data: templates } = useImportTemplates();
+  const createTemplateMutation = useCreateImportTemplate();
+  const updateTemplateMutation = useUpdateImportTemplate();
+
+  const applyTemplate = useCallback((template: ImportTemplate | null) => {
+    setTemplateId(template?.id ?? null);
+    setTemplateName(template?.name ?? '');
+    setSaveTemplate(false);
+    if (template) {
+      setMapping({
+        ...template.columnMapping,
+        category: template.columnMapping.category || '',
+        currency: template.columnMapping.currency || '',
+      });
+      setOptions({
+        dateFormat: template.dateFormat,
+        numberFormat: template.numberFormat,
+        amountMode: template.amountMode,
+        amountSign: template.amountSign,
+        currency: template.currency,
+      });
+    }
+  }, []);
+
+  // CSV and spreadsheet uploads both continue to column mapping with the detected structure
+  const showMapping = useCallback((result: UploadResult) => {
+    setSession(result.session);
+    setStructure(result.structure);
+    const suggested = result.structure.suggestedMapping;
+    // Debit and credit columns without a single amount column point to split mode
+    const splitSuggested = !!suggested.debit && !!suggested.credit && !suggested.amount;
+    setOptions({ ...DEFAULT_OPTIONS, amountMode: splitSuggested ? 'split' : 'signed' });
+    setMapping({
+      date: suggested.date || '',
+      amount: suggested.amount || '',
+      debit: suggested.debit || '',
+      credit: suggested.credit || '',
+      description: suggested.description || '',
+      category: suggested.category || '',
+      currency: suggested.currency || '',
+    });
+    applyTemplate(result.structure.matchedTemplate);
+    setCurrentStep('mapping');
+  }, [applyTemplate]);
+
+  const uploadSpreadsheet = useCallback(
+    async (fileName: string, content: string, choice?: SheetChoice) => {
+      setError(null);
+      try {
+        const result = await uploadSpreadsheetMutation.mutateAsync({ fileName, content, options: choice });
+        setSpreadsheet({
+          fileName,
+          content,
+          sheets: result.sheets,
+          sheet: result.sheet,
+          headerRow: result.headerRow,
+        });
+        showMapping(result);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to upload file');
+      }
+    },
+    [uploadSpreadsheetMutation, showMapping]
+  );
 
   const handleFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -47,87 +229,208 @@ export function ImportWizard({ onComplete, onCancel }: ImportWizardProps) {
 
     setError(null);
     const reader = new FileReader();
+
+    if (SPREADSHEET_FILE.test(file.name)) {
+      reader.onload = (event) => {
+        uploadSpreadsheet(file.name, toBase64(event.target?.result as ArrayBuffer));
+      };
+      reader.readAsArrayBuffer(file);
+      return;
+    }
+
     reader.onload = async (event) => {
-      const csvContent = event.target?.result as string;
+      const content = event.target?.result as string;
+      setSpreadsheet(null);
+
+      if (STATEMENT_FILE.test(file.name)) {
+        try {
+          const result = QIF_FILE.test(file.name)
+            ? await uploadQifMutation.mutateAsync({ fileName: file.name, qifContent: content })
+            : await uploadOfxMutation.mutateAsync({ fileName: file.name, ofxContent: content });
+          setSession(result.session);
+          setStructure(null);
+          showPreview();
+        } catch (err) {
+          setError(err instanceof Error ? err.message : 'Failed to upload file');
+        }
+        return;
+      }
+
       try {
         const result = await uploadMutation.mutateAsync({
           fileName: file.name,
-          csvContent,
+          csvContent: content,
         });
-        setSession(result.session);
-        setStructure(result.structure);
-        if (result.structure.suggestedMapping) {
-          setMapping({
-            date: result.structure.suggestedMapping.date || '',
-            amount: result.structure.suggestedMapping.amount || '',
-            description: result.structure.suggestedMapping.description || '',
-            category: result.structure.suggestedMapping.category || '',
-          });
-        }
-        setCurrentStep('mapping');
+        showMapping(result);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to upload file');
       }
     };
     reader.readAsText(file);
-  }, [uploadMutation]);
+  }, [uploadMutation, uploadOfxMutation, uploadQifMutation, uploadSpreadsheet, showMapping, showPreview]);
+
+  // Another sheet or header row changes the columns, so the file is read again from the top
+  const handleSpreadsheetChange = useCallback(
+    (choice: SheetChoice) => {
+      if (spreadsheet) {
+        uploadSpreadsheet(spreadsheet.fileName, spreadsheet.content, choice);
+      }
+    },
+    [spreadsheet, uploadSpreadsheet]
+  );
 
   const handleMappingSubmit = useCallback(async () => {
-    if (!session || !mapping.date || !mapping.amount || !mapping.description) {
+    if (!session || !structure || !isMappingComplete(mapping, options.amountMode)) {
       setError('Please map all required fields (date, amount, description)');
       return;
     }
 
+    const columnMapping = mappedColumns(mapping, options.amountMode);
     setError(null);
     try {
+      if (saveTemplate && templateName.trim()) {
+        const selected = templates?.find((t) => t.id === templateId);
+        if (selected && selected.name.toLowerCase() === templateName.trim().toLowerCase()) {
+          await updateTemplateMutation.mutateAsync({
+            id: selected.id,
+            data: { columnMapping, ...options },
+          });
+        } else {
+          const created = await createTemplateMutation.mutateAsync({
+            name: templateName.trim(),
+            headers: structure.headers,
+            columnMapping,
+            delimiter: structure.delimiter,
+            ...options,
+          });
+          setTemplateId(created.id);
+        }
+        setSaveTemplate(false);
+      }
+
       const result = await mappingMutation.mutateAsync({
         sessionId: session.id,
-        columnMapping: mapping,
+        columnMapping,
+        options: { delimiter: structure.delimiter, ...options },
       });
-      setSession(result.session);
-      setParsedRows(result.parsedRows);
-      setCurrentStep('preview');
+      setJobId(result.job.id);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save mapping');
     }
-  }, [session, mapping, mappingMutation]);
+  }, [
+    session,
+    structure,
+    mapping,
+    options,
+    saveTemplate,
+    templateName,
+    templateId,
+    templates,
+    mappingMutation,
+    createTemplateMutation,
+    updateTemplateMutation,
+  ]);
 
   const handleSkipRow = useCallback(async (rowIndex: number, skip: boolean) => {
     if (!session) return;
 
     try {
-      const result = await skipRowMutation.mutateAsync({
+      await skipRowMutation.mutateAsync({
         sessionId: session.id,
         rowIndex,
         skip,
       });
-      setParsedRows((prev) =>
-        prev.map((row) => (row.rowIndex === rowIndex ? result.row : row))
-      );
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update row');
     }
   }, [session, skipRowMutation]);
 
+  // A category picked here also teaches the suggestions for the merchant
+  const handleCategoryChange = useCallback(async (rowIndex: number, category: string) => {
+    if (!session) return;
+
+    try {
+      await updateRowMutation.mutateAsync({
+        sessionId: session.id,
+        rowIndex,
+        updates: { category },
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update row');
+    }
+  }, [session, updateRowMutation]);
+
+  const handleSkipInvalid = useCallback(async () => {
+    if (!session) return;
+
+    try {
+      await bulkMutation.mutateAsync({
+        sessionId: session.id,
+        selection: { filter: 'invalid' },
+        action: { type: 'skip', skip: true },
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update rows');
+    }
+  }, [session, bulkMutation]);
+
+  const handleBulkApply = useCallback(async (target: BulkTarget, action: BulkRowAction) => {
+    if (!session) return;
+
+    setError(null);
+    try {
+      await bulkMutation.mutateAsync({
+        sessionId: session.id,
+        selection: target === 'selected' ? { rowIndexes: selectedRows } : { filter: rowFilter },
+        action,
+      });
+      setSelectedRows([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update rows');
+    }
+  }, [session, bulkMutation, selectedRows, rowFilter]);
+
+  const handleFilterChange = useCallback((filter: RowFilter) => {
+    setRowFilter(filter);
+    setRowOffset(0);
+    setSelectedRows([]);
+  }, []);
+
   const handleConfirm = useCallback(async () => {
     if (!session) return;
 
     setError(null);
     try {
       const result = await confirmMutation.mutateAsync(session.id);
-      setImportResult({
-        importedCount: result.importedCount,
-        skippedCount: result.skippedCount,
-      });
-      setCurrentStep('complete');
+      setJobId(result.job.id);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to import expenses');
     }
   }, [session, confirmMutation]);
 
-  const validRows = parsedRows.filter((r) => !r.skipped && r.errors.length === 0);
-  const invalidRows = parsedRows.filter((r) => !r.skipped && r.errors.length > 0);
-  const skippedRows = parsedRows.filter((r) => r.skipped);
+  // Move on once the background job finishes
+  useEffect(() => {
+    if (!job || job.id !== jobId) return;
+
+    if (job.status === 'failed') {
+      setError(job.error || 'Import job failed');
+      setJobId(null);
+    } else if (job.status === 'completed') {
+      if (job.type === 'confirm') {
+        const result = job.result as ImportResult;
+        setImportResult({
+          importedCount: result.importedCount,
+          skippedCount: result.skippedCount,
+        });
+        setCurrentStep('complete');
+      } else {
+        showPreview();
+      }
+      setJobId(null);
+    }
+  }, [job, jobId, showPreview]);
+
+  const activeJob = jobId != null ? job : undefined;
 
   const currentStepIndex = STEPS.findIndex((s) => s.key === currentStep);
 
@@ -178,34 +481,68 @@ export function ImportWizard({ onComplete, onCancel }: ImportWizardProps) {
 
       {/* Step Content */}
       <div className="p-6">
-        {currentStep === 'upload' && (
+        {jobId != null && <JobProgress job={activeJob} />}
+
+        {jobId == null && currentStep === 'upload' && (
           <UploadStep
             onFileSelect={handleFileSelect}
-            isLoading={uploadMutation.isPending}
+            isLoading={
+              uploadMutation.isPending ||
+              uploadOfxMutation.isPending ||
+              uploadQifMutation.isPending ||
+              uploadSpreadsheetMutation.isPending
+            }
           />
         )}
 
-        {currentStep === 'mapping' && structure && (
+        {jobId == null && currentStep === 'mapping' && structure && (
           <MappingStep
             structure={structure}
+            spreadsheet={spreadsheet}
+            onSpreadsheetChange={handleSpreadsheetChange}
             mapping={mapping}
             onMappingChange={setMapping}
+            options={options}
+            onOptionsChange={setOptions}
+            templates={(templates || []).filter((t) => fitsHeaders(t, structure.headers))}
+            templateId={templateId}
+            onTemplateSelect={(id) => applyTemplate(templates?.find((t) => t.id === id) ?? null)}
+            saveTemplate={saveTemplate}
+            onSaveTemplateChange={setSaveTemplate}
+            templateName={templateName}
+            onTemplateNameChange={setTemplateName}
             onSubmit={handleMappingSubmit}
             onBack={() => setCurrentStep('upload')}
-            isLoading={mappingMutation.isPending}
+            isLoading={
+              mappingMutation.isPending ||
+              createTemplateMutation.isPending ||
+              updateTemplateMutation.isPending ||
+              uploadSpreadsheetMutation.isPending
+            }
           />
         )}
 
-        {currentStep === 'preview' && (
+        {jobId == null && currentStep === 'preview' && (
           <PreviewStep
-            parsedRows={parsedRows}
-            validCount={validRows.length}
-            invalidCount={invalidRows.length}
-            skippedCount={skippedRows.length}
+            page={rowPage}
+            filter={rowFilter}
+            onFilterChange={handleFilterChange}
+            offset={rowOffset}
+            onOffsetChange={setRowOffset}
             onSkipRow={handleSkipRow}
+            onCategoryChange={handleCategoryChange}
+            onSkipInvalid={handleSkipInvalid}
+            selectedRows={selectedRows}
+            onSelectedRowsChange={setSelectedRows}
+            onBulkApply={handleBulkApply}
             onConfirm={handleConfirm}
-            onBack={() => setCurrentStep('mapping')}
-            isLoading={confirmMutation.isPending || skipRowMutation.isPending}
+            onBack={() => setCurrentStep(structure ? 'mapping' : 'upload')}
+            isLoading={
+              confirmMutation.isPending ||
+              skipRowMutation.isPending ||
+              updateRowMutation.isPending ||
+              bulkMutation.isPending
+            }
           />
         )}
 
@@ -219,7 +556,7 @@ export function ImportWizard({ onComplete, onCancel }: ImportWizardProps) {
       </div>
 
       {/* Cancel Button */}
-      {currentStep !== 'complete' && (
+      {currentStep !== 'complete' && jobId == null && (
         <div className="border-t border-gray-200 px-6 py-4">
           <button
             onClick={onCancel}
@@ -233,6 +570,30 @@ export function ImportWizard({ onComplete, onCancel }: ImportWizardProps) {
   );
 }
 
+// Shown in place of the current step while a mapping or confirm job runs
+interface JobProgressProps {
+  job: ImportJob | undefined;
+}
+
+function JobProgress({ job }: JobProgressProps) {
+  const label = job?.type === 'confirm' ? 'Importing expenses' : 'Reading rows';
+  const percent = job && job.totalRows > 0 ? Math.round((job.processedRows / job.totalRows) * 100) : 0;
+
+  return (
+    <div className="py-12 max-w-md mx-auto text-center">
+      <h3 className="text-lg font-medium text-gray-900">{label}...</h3>
+      <div className="mt-4 h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div className="h-full bg-indigo-600 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      <p className="mt-2 text-sm text-gray-500">
+        {job && job.totalRows > 0
+          ? `${job.processedRows.toLocaleString()} of ${job.totalRows.toLocaleString()} rows`
+          : 'Waiting to start'}
+      </p>
+    </div>
+  );
+}
+
 // Step 1: Upload
 interface UploadStepProps {
   onFileSelect: (e: React.ChangeEvent<HTMLInputElement>) => void;
@@ -243,9 +604,9 @@ function UploadStep({ onFileSelect, isLoading }: UploadStepProps) {
   return (
     <div className="text-center py-8">
       <Upload className="mx-auto h-12 w-12 text-gray-400" />
-      <h3 className="mt-4 text-lg font-medium text-gray-900">Upload CSV File</h3>
+      <h3 className="mt-4 text-lg font-medium text-gray-900">Upload File</h3>
       <p className="mt-2 text-sm text-gray-500">
-        Select a CSV file containing your expenses to import
+        Select a CSV file, spreadsheet or bank statement containing your expenses to import
       </p>
       <div className="mt-6">
         <label className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 cursor-pointer disabled:opacity-50">
@@ -259,7 +620,7 @@ function UploadStep({ onFileSelect, isLoading }: UploadStepProps) {
           )}
           <input
             type="file"
-            accept=".csv"
+            accept=".csv,.xlsx,.ods,.ofx,.qfx,.qif"
             onChange={onFileSelect}
             disabled={isLoading}
             className="hidden"
@@ -267,17 +628,88 @@ function UploadStep({ onFileSelect, isLoading }: UploadStepProps) {
         </label>
       </div>
       <p className="mt-4 text-xs text-gray-400">
-        Supported formats: CSV with comma, semicolon, or tab delimiter
+        Supported formats: CSV with comma, semicolon, or tab delimiter, Excel (.xlsx) and OpenDocument
+        (.ods) spreadsheets, OFX/QFX bank statements, and QIF
       </p>
     </div>
   );
 }
 
 // Step 2: Mapping
+interface SpreadsheetFieldsProps {
+  spreadsheet: SpreadsheetFile;
+  onChange: (choice: SheetChoice) => void;
+  isLoading: boolean;
+}
+
+// The header row is applied when the field is left, not on every keystroke
+function SpreadsheetFields({ spreadsheet, onChange, isLoading }: SpreadsheetFieldsProps) {
+  const [headerRow, setHeaderRow] = useState(String(spreadsheet.headerRow));
+
+  useEffect(() => {
+    setHeaderRow(String(spreadsheet.headerRow));
+  }, [spreadsheet.headerRow]);
+
+  const applyHeaderRow = () => {
+    const row = Number(headerRow);
+    if (Number.isInteger(row) && row >= 1 && row !== spreadsheet.headerRow) {
+      onChange({ sheet: spreadsheet.sheet, headerRow: row });
+    } else {
+      setHeaderRow(String(spreadsheet.headerRow));
+    }
+  };
+
+  return (
+    <div className="mb-6 grid grid-cols-1 gap-4 sm:grid-cols-2">
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Sheet</label>
+        <select
+          value={spreadsheet.sheet}
+          // A new sheet has its own layout, so its header row is detected again
+          onChange={(e) => onChange({ sheet: e.target.value })}
+          disabled={isLoading}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+        >
+          {spreadsheet.sheets.map((sheet) => (
+            <option key={sheet} value={sheet}>
+              {sheet}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Header Row</label>
+        <input
+          type="number"
+          min={1}
+          value={headerRow}
+          onChange={(e) => setHeaderRow(e.target.value)}
+          onBlur={applyHeaderRow}
+          onKeyDown={(e) => e.key === 'Enter' && applyHeaderRow()}
+          disabled={isLoading}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+        />
+        <p className="mt-1 text-xs text-gray-500">Rows above the header row are left out.</p>
+      </div>
+    </div>
+  );
+}
+
 interface MappingStepProps {
   structure: CsvStructure;
+  spreadsheet: SpreadsheetFile | null;
+  onSpreadsheetChange: (choice: SheetChoice) => void;
   mapping: ColumnMapping;
   onMappingChange: (mapping: ColumnMapping) => void;
+  options: ParseOptions;
+  onOptionsChange: (options: ParseOptions) => void;
+  templates: ImportTemplate[];
+  templateId: number | null;
+  onTemplateSelect: (id: number | null) => void;
+  saveTemplate: boolean;
+  onSaveTemplateChange: (save: boolean) => void;
+  templateName: string;
+  onTemplateNameChange: (name: string) => void;
   onSubmit: () => void;
   onBack: () => void;
   isLoading: boolean;
@@ -285,27 +717,65 @@ interface MappingStepProps {
 
 function MappingStep({
   structure,
+  spreadsheet,
+  onSpreadsheetChange,
   mapping,
   onMappingChange,
+  options,
+  onOptionsChange,
+  templates,
+  templateId,
+  onTemplateSelect,
+  saveTemplate,
+  onSaveTemplateChange,
+  templateName,
+  onTemplateNameChange,
   onSubmit,
   onBack,
   isLoading,
 }: MappingStepProps) {
-  const fields = [
-    { key: 'date' as const, label: 'Date', required: true },
-    { key: 'amount' as const, label: 'Amount', required: true },
-    { key: 'description' as const, label: 'Description', required: true },
-    { key: 'category' as const, label: 'Category', required: false },
-  ];
+  const selectedTemplate = templates.find((t) => t.id === templateId);
+  const fields = mappingFields(options.amountMode);
+  const amountColumn = options.amountMode === 'split' ? mapping.debit : mapping.amount;
 
   return (
     <div>
-      <h3 className="text-lg font-medium text-gray-900 mb-4">Map CSV Columns</h3>
+      <h3 className="text-lg font-medium text-gray-900 mb-4">
+        {spreadsheet ? 'Map Spreadsheet Columns' : 'Map CSV Columns'}
+      </h3>
       <p className="text-sm text-gray-500 mb-6">
-        Match your CSV columns to the expense fields. We've suggested mappings based on your
-        column names.
+        Match your {spreadsheet ? 'spreadsheet' : 'CSV'} columns to the expense fields. We've suggested
+        mappings based on your column names.
       </p>
 
+      {spreadsheet && (
+        <SpreadsheetFields spreadsheet={spreadsheet} onChange={onSpreadsheetChange} isLoading={isLoading} />
+      )}
+
+      {/* Saved Templates */}
+      {templates.length > 0 && (
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700">Mapping Template</label>
+          <select
+            value={templateId ?? ''}
+            onChange={(e) => onTemplateSelect(e.target.value ? Number(e.target.value) : null)}
+            className="mt-1 block w-full sm:w-1/2 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+          >
+            <option value="">-- None --</option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+          {selectedTemplate && (
+            <p className="mt-1 text-xs text-gray-500">
+              Applied the mapping and options saved in "{selectedTemplate.name}".
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Sample Data Preview */}
       <div className="mb-6 overflow-x-auto">
         <p className="text-sm font-medium text-gray-700 mb-2">Sample Data:</p>
@@ -356,6 +826,35 @@ function MappingStep({
             </select>
           </div>
         ))}
+        <MappingOptionsFields
+          options={options}
+          onChange={onOptionsChange}
+          detectedDateFormat={structure.detectedFormats[mapping.date]?.dateFormat}
+          detectedNumberFormat={amountColumn ? structure.detectedFormats[amountColumn]?.numberFormat : null}
+        />
+      </div>
+
+      {/* Save as Template */}
+      <div className="mt-6 flex flex-wrap items-center gap-3">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={saveTemplate}
+            onChange={(e) => onSaveTemplateChange(e.target.checked)}
+            className="mr-2"
+          />
+          {selectedTemplate ? 'Save changes to template' : 'Save as template'}
+        </label>
+        {saveTemplate && (
+          <input
+            type="text"
+            value={templateName}
+            onChange={(e) => onTemplateNameChange(e.target.value)}
+            placeholder="Template name"
+            maxLength={100}
+            className="block w-64 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+          />
+        )}
       </div>
 
       {/* Actions */}
@@ -369,7 +868,11 @@ function MappingStep({
         </button>
         <button
           onClick={onSubmit}
-          disabled={isLoading || !mapping.date || !mapping.amount || !mapping.description}
+          disabled={
+            isLoading ||
+            !isMappingComplete(mapping, options.amountMode) ||
+            (saveTemplate && !templateName.trim())
+          }
           className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
         >
           {isLoading ? 'Processing...' : 'Continue'}
@@ -380,28 +883,77 @@ function MappingStep({
   );
 }
 
+function describeDuplicate(duplicate: DuplicateMatch): string {
+  return duplicate.source === 'expense'
+    ? `Matches an existing expense on ${duplicate.date}`
+    : `Same as row ${(duplicate.rowIndex ?? 0) + 1} in this file`;
+}
+
 // Step 3: Preview
 interface PreviewStepProps {
-  parsedRows: ParsedRow[];
-  validCount: number;
-  invalidCount: number;
-  skippedCount: number;
+  page: RowPage | undefined;
+  filter: RowFilter;
+  onFilterChange: (filter: RowFilter) => void;
+  offset: number;
+  onOffsetChange: (offset: number) => void;
   onSkipRow: (rowIndex: number, skip: boolean) => void;
+  onCategoryChange: (rowIndex: number, category: string) => void;
+  onSkipInvalid: () => void;
+  selectedRows: number[];
+  onSelectedRowsChange: (rowIndexes: number[]) => void;
+  onBulkApply: (target: BulkTarget, action: BulkRowAction) => void;
   onConfirm: () => void;
   onBack: () => void;
   isLoading: boolean;
 }
 
 function PreviewStep({
-  parsedRows,
-  validCount,
-  invalidCount,
-  skippedCount,
+  page,
+  filter,
+  onFilterChange,
+  offset,
+  onOffsetChange,
   onSkipRow,
+  onCategoryChange,
+  onSkipInvalid,
+  selectedRows,
+  onSelectedRowsChange,
+  onBulkApply,
   onConfirm,
   onBack,
   isLoading,
 }: PreviewStepProps) {
+  const { data: categories } = useCategories();
+  const rows = page?.rows ?? [];
+  const validCount = page?.validCount ?? 0;
+  const invalidCount = page?.invalidCount ?? 0;
+  const skippedCount = page?.skippedCount ?? 0;
+  const duplicateCount = page?.duplicateCount ?? 0;
+  const total = page?.total ?? 0;
+  const filterCounts: Record<RowFilter, number> = {
+    all: validCount + invalidCount + skippedCount,
+    valid: validCount,
+    invalid: invalidCount,
+    skipped: skippedCount,
+    duplicate: duplicateCount,
+  };
+  const pageSelected = rows.length > 0 && rows.every((row) => selectedRows.includes(row.rowIndex));
+
+  const toggleRow = (rowIndex: number) => {
+    onSelectedRowsChange(
+      selectedRows.includes(rowIndex) ? selectedRows.filter((i) => i !== rowIndex) : [...selectedRows, rowIndex]
+    );
+  };
+
+  const togglePage = () => {
+    const pageIndexes = rows.map((row) => row.rowIndex);
+    onSelectedRowsChange(
+      pageSelected
+        ? selectedRows.filter((i) => !pageIndexes.includes(i))
+        : [...new Set([...selectedRows, ...pageIndexes])]
+    );
+  };
+
   return (
     <div>
       <h3 className="text-lg font-medium text-gray-900 mb-4">Preview Import</h3>
@@ -422,12 +974,54 @@ function PreviewStep({
         </div>
       </div>
 
+      {duplicateCount > 0 && (
+        <div className="mb-6 p-3 bg-yellow-50 border border-yellow-200 rounded-md flex items-center text-sm text-yellow-800">
+          <Copy className="w-4 h-4 mr-2 flex-shrink-0" />
+          {duplicateCount} {duplicateCount === 1 ? 'row looks' : 'rows look'} like already imported expenses and
+          {duplicateCount === 1 ? ' is' : ' are'} skipped unless you include {duplicateCount === 1 ? 'it' : 'them'}.
+          Use Include on any that are genuinely new.
+        </div>
+      )}
+
+      {/* Row Filters */}
+      <div className="mb-3 flex flex-wrap gap-2">
+        {ROW_FILTERS.map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => onFilterChange(key)}
+            className={`px-3 py-1 text-sm rounded-full border ${
+              filter === key
+                ? 'bg-indigo-600 border-indigo-600 text-white'
+                : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {label} ({filterCounts[key]})
+          </button>
+        ))}
+      </div>
+
+      <ImportBulkActions
+        selectedCount={selectedRows.length}
+        filter={filter}
+        filterTotal={total}
+        onApply={onBulkApply}
+        isLoading={isLoading}
+      />
+
       {/* Rows Table */}
       <div className="border border-gray-200 rounded-lg overflow-hidden mb-6">
         <div className="max-h-80 overflow-y-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50 sticky top-0">
               <tr>
+                <th className="px-4 py-2 text-left">
+                  <input
+                    type="checkbox"
+                    checked={pageSelected}
+                    onChange={togglePage}
+                    aria-label="Select all rows on this page"
+                  />
+                </th>
                 <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
                   Status
                 </th>
@@ -449,7 +1043,14 @@ function PreviewStep({
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {parsedRows.map((row) => (
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-4 py-6 text-center text-sm text-gray-500">
+                    No rows match this filter
+                  </td>
+                </tr>
+              )}
+              {rows.map((row) => (
                 <tr
                   key={row.rowIndex}
                   className={
@@ -461,7 +1062,22 @@ function PreviewStep({
                   }
                 >
                   <td className="px-4 py-2">
-                    {row.skipped ? (
+                    <input
+                      type="checkbox"
+                      checked={selectedRows.includes(row.rowIndex)}
+                      onChange={() => toggleRow(row.rowIndex)}
+                      aria-label={`Select row ${row.rowIndex + 1}`}
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    {row.skipped && row.duplicate ? (
+                      <span
+                        className="inline-flex items-center text-xs text-yellow-700"
+                        title={describeDuplicate(row.duplicate)}
+                      >
+                        <Copy className="w-3 h-3 mr-1" /> Duplicate
+                      </span>
+                    ) : row.skipped ? (
                       <span className="inline-flex items-center text-xs text-gray-500">
                         <SkipForward className="w-3 h-3 mr-1" /> Skipped
                       </span>
@@ -480,15 +1096,51 @@ function PreviewStep({
                   </td>
                   <td className="px-4 py-2 text-sm">
                     {row.amount != null ? (
-                      `$${row.amount.toFixed(2)}`
+                      <>
+                        {row.currency
+                          ? formatMoney(Math.abs(row.amount), row.currency)
+                          : Math.abs(row.amount).toFixed(2)}
+                        <div className={`text-xs ${row.amount > 0 ? 'text-gray-500' : 'text-yellow-700'}`}>
+                          {describeAmount(row.amount)}
+                        </div>
+                      </>
                     ) : (
                       <span className="text-red-500">Missing</span>
                     )}
                   </td>
                   <td className="px-4 py-2 text-sm max-w-xs truncate">
                     {row.description || <span className="text-red-500">Missing</span>}
+                    {row.tags.length > 0 && (
+                      <div className="text-xs text-indigo-700">{row.tags.map((tag) => `#${tag}`).join(' ')}</div>
+                    )}
+                    {row.duplicate && (
+                      <div className="text-xs text-yellow-700">{describeDuplicate(row.duplicate)}</div>
+                    )}
+                    {!row.skipped && row.errors.length > 0 && (
+                      <div className="text-xs text-red-600 whitespace-normal">
+                        {row.errors.map((e) => e.message).join(', ')}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    <select
+                      value={row.category || 'Other'}
+                      onChange={(e) => onCategoryChange(row.rowIndex, e.target.value)}
+                      disabled={isLoading}
+                      className="rounded-md border-gray-300 text-sm border p-1"
+                    >
+                      {categories?.map((c) => (
+                        <option key={c.id} value={c.name}>
+                          {c.name}
+                        </option>
+                      ))}
+                    </select>
+                    {row.categoryConfidence != null && (
+                      <div className="text-xs text-gray-500" title="Learned from your past expenses">
+                        Suggested, {Math.round(row.categoryConfidence * 100)}% confident
+                      </div>
+                    )}
                   </td>
-                  <td className="px-4 py-2 text-sm">{row.category || 'Other'}</td>
                   <td className="px-4 py-2">
                     <button
                       onClick={() => onSkipRow(row.rowIndex, !row.skipped)}
@@ -503,28 +1155,46 @@ function PreviewStep({
             </tbody>
           </table>
         </div>
+        {total > PREVIEW_PAGE_SIZE && (
+          <div className="flex items-center justify-between px-4 py-2 border-t border-gray-200 bg-gray-50 text-sm text-gray-600">
+            <span>
+              Rows {offset + 1}-{Math.min(offset + PREVIEW_PAGE_SIZE, total)} of {total}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onOffsetChange(Math.max(0, offset - PREVIEW_PAGE_SIZE))}
+                disabled={offset === 0}
+                className="px-3 py-1 border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => onOffsetChange(offset + PREVIEW_PAGE_SIZE)}
+                disabled={offset + PREVIEW_PAGE_SIZE >= total}
+                className="px-3 py-1 border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
-      {/* Error Details */}
+      {/* Invalid Rows */}
       {invalidCount > 0 && (
-        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
-          <h4 className="text-sm font-medium text-red-800 mb-2">Validation Errors:</h4>
-          <ul className="text-sm text-red-700 space-y-1">
-            {parsedRows
-              .filter((r) => !r.skipped && r.errors.length > 0)
-              .slice(0, 5)
-              .map((row) => (
-                <li key={row.rowIndex}>
-                  Row {row.rowIndex + 1}: {row.errors.map((e) => e.message).join(', ')}
-                </li>
-              ))}
-            {invalidCount > 5 && (
-              <li className="text-red-600">...and {invalidCount - 5} more errors</li>
-            )}
-          </ul>
-          <p className="mt-2 text-xs text-red-600">
-            Skip invalid rows or go back to adjust column mapping.
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between gap-4">
+          <p className="text-sm text-red-700">
+            {invalidCount} {invalidCount === 1 ? 'row has' : 'rows have'} validation errors. Skip invalid rows or
+            go back to adjust column mapping.
           </p>
+          <button
+            onClick={onSkipInvalid}
+            disabled={isLoading}
+            className="flex-shrink-0 inline-flex items-center px-3 py-1.5 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+          >
+            <SkipForward className="w-4 h-4 mr-2" />
+            Skip All Invalid
+          </button>
         </div>
       )}
 
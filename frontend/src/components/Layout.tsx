@@ -1,5 +1,5 @@
 import { Link, useLocation } from 'react-router-dom';
-import { LayoutDashboard, Receipt, LogOut, Upload } from 'lucide-react';
+import { LayoutDashboard, Receipt, LogOut, Upload, Repeat, Tags, PiggyBank, PieChart, DatabaseBackup, Wand2, Coins } from 'lucide-react';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -12,7 +12,14 @@ export function Layout({ children, onLogout }: LayoutProps) {
   const navItems = [
     { path: '/', label: 'Dashboard', icon: LayoutDashboard },
     { path: '/expenses', label: 'Expenses', icon: Receipt },
+    { path: '/reports', label: 'Reports', icon: PieChart },
+    { path: '/recurring', label: 'Recurring', icon: Repeat },
+    { path: '/budgets', label: 'Budgets', icon: PiggyBank },
+    { path: '/categories', label: 'Categories', icon: Tags },
+    { path: '/rules', label: 'Rules', icon: Wand2 },
+    { path: '/currencies', label: 'Currencies', icon: Coins },
     { path: '/import', label: 'Import', icon: Upload },
+    { path: '/backup', label: 'Backup', icon: DatabaseBackup },
   ];
 
   return (
@@ -30,7 +37,7 @@ export function Layout({ children, onLogout }: LayoutProps) {
                     key={path}
                     to={path}
                     className={`inline-flex items-center px-3 py-2 text-sm font-medium rounded-md ${
-                      location.pathname === path
+                      location.pathname === path || location.pathname.startsWith(`${path}/`)
                         ? 'text-indigo-600 bg-indigo-50'
                         : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
                     }`}
@@ -0,0 +1,181 @@
+import { COMMON_CURRENCIES } from '../api/currency';
+import type { AmountMode, AmountSign, ColumnMapping, DateFormat, NumberFormat } from '../types';
+
+export interface ParseOptions {
+  dateFormat: DateFormat;
+  numberFormat: NumberFormat;
+  amountMode: AmountMode;
+  amountSign: AmountSign;
+  currency: string | null; // null for the base currency
+}
+
+export interface MappingField {
+  key: keyof ColumnMapping;
+  label: string;
+  required: boolean;
+}
+
+// Columns a mapping asks for; which amount columns depends on the amount mode
+export function mappingFields(amountMode: AmountMode): MappingField[] {
+  const amountFields: MappingField[] =
+    amountMode === 'split'
+      ? [
+          { key: 'debit', label: 'Debit (spending)', required: true },
+          { key: 'credit', label: 'Credit (refunds)', required: true },
+        ]
+      : [{ key: 'amount', label: 'Amount', required: true }];
+
+  return [
+    { key: 'date', label: 'Date', required: true },
+    ...amountFields,
+    { key: 'description', label: 'Description', required: true },
+    { key: 'category', label: 'Category', required: false },
+    { key: 'currency', label: 'Currency', required: false },
+  ];
+}
+
+// The mapping without columns the amount mode does not read, e.g. after switching modes
+export function mappedColumns(mapping: ColumnMapping, amountMode: AmountMode): ColumnMapping {
+  const columns: ColumnMapping = { date: mapping.date, description: mapping.description };
+  for (const field of mappingFields(amountMode)) {
+    const column = mapping[field.key];
+    if (column) columns[field.key] = column;
+  }
+  return columns;
+}
+
+export function isMappingComplete(mapping: ColumnMapping, amountMode: AmountMode): boolean {
+  return mappingFields(amountMode).every((field) => !field.required || !!mapping[field.key]);
+}
+
+const DATE_FORMATS: DateFormat[] = [
+  'YYYY-MM-DD',
+  'MM/DD/YYYY',
+  'DD/MM/YYYY',
+  'MM/DD/YY',
+  'DD/MM/YY',
+  'DD-MM-YYYY',
+  'MM-DD-YYYY',
+  'DD.MM.YYYY',
+  'YYYY/MM/DD',
+];
+
+const NUMBER_FORMATS: { value: NumberFormat; label: string }[] = [
+  { value: '1,234.56', label: '1,234.56 (decimal point)' },
+  { value: '1.234,56', label: '1.234,56 (decimal comma)' },
+];
+
+const AMOUNT_MODES: { value: AmountMode; label: string }[] = [
+  { value: 'signed', label: 'One amount column' },
+  { value: 'split', label: 'Separate debit and credit columns' },
+];
+
+const AMOUNT_SIGNS: { value: AmountSign; label: string }[] = [
+  { value: 'positive', label: 'Expenses are positive' },
+  { value: 'negative', label: 'Expenses are negative (bank export)' },
+];
+
+interface MappingOptionsFieldsProps {
+  options: ParseOptions;
+  onChange: (options: ParseOptions) => void;
+  // Formats detected from the file's mapped columns, shown on the automatic choice
+  detectedDateFormat?: DateFormat | null;
+  detectedNumberFormat?: NumberFormat | null;
+}
+
+function autoLabel(detected: string | null | undefined): string {
+  return detected && detected !== 'auto' ? `Detect automatically (${detected})` : 'Detect automatically';
+}
+
+export function MappingOptionsFields({
+  options,
+  onChange,
+  detectedDateFormat,
+  detectedNumberFormat,
+}: MappingOptionsFieldsProps) {
+  const currencies =
+    options.currency && !COMMON_CURRENCIES.includes(options.currency)
+      ? [options.currency, ...COMMON_CURRENCIES]
+      : COMMON_CURRENCIES;
+
+  return (
+    <>
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Date Format</label>
+        <select
+          value={options.dateFormat}
+          onChange={(e) => onChange({ ...options, dateFormat: e.target.value as DateFormat })}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+        >
+          <option value="auto">{autoLabel(detectedDateFormat)}</option>
+          {DATE_FORMATS.map((format) => (
+            <option key={format} value={format}>
+              {format}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Number Format</label>
+        <select
+          value={options.numberFormat}
+          onChange={(e) => onChange({ ...options, numberFormat: e.target.value as NumberFormat })}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+        >
+          <option value="auto">{autoLabel(detectedNumberFormat)}</option>
+          {NUMBER_FORMATS.map((format) => (
+            <option key={format.value} value={format.value}>
+              {format.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Amount Columns</label>
+        <select
+          value={options.amountMode}
+          onChange={(e) => onChange({ ...options, amountMode: e.target.value as AmountMode })}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+        >
+          {AMOUNT_MODES.map((mode) => (
+            <option key={mode.value} value={mode.value}>
+              {mode.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {options.amountMode === 'signed' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Amount Sign</label>
+          <select
+            value={options.amountSign}
+            onChange={(e) => onChange({ ...options, amountSign: e.target.value as AmountSign })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+          >
+            {AMOUNT_SIGNS.map((sign) => (
+              <option key={sign.value} value={sign.value}>
+                {sign.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Currency</label>
+        <select
+          value={options.currency ?? ''}
+          onChange={(e) => onChange({ ...options, currency: e.target.value || null })}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+        >
+          <option value="">Base currency</option>
+          {currencies.map((currency) => (
+            <option key={currency} value={currency}>
+              {currency}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">For rows without a value in a mapped Currency column.</p>
+      </div>
+    </>
+  );
+}
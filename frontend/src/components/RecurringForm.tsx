@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { useCategories } from '../hooks/useCategories';
+import { useBaseCurrency } from '../hooks/useCurrency';
+import { COMMON_CURRENCIES } from '../api/currency';
+import type { CreateRecurringData, RecurringExpense, RecurringFrequency, UpdateRecurringData } from '../types';
+
+interface RecurringFormProps {
+  onSubmit: (data: CreateRecurringData | UpdateRecurringData) => void;
+  onCancel: () => void;
+  initialData?: RecurringExpense;
+  isLoading?: boolean;
+}
+
+const FREQUENCIES: { value: RecurringFrequency; label: string }[] = [
+  { value: 'daily', label: 'Day(s)' },
+  { value: 'weekly', label: 'Week(s)' },
+  { value: 'monthly', label: 'Month(s)' },
+  { value: 'yearly', label: 'Year(s)' },
+];
+
+export function RecurringForm({ onSubmit, onCancel, initialData, isLoading }: RecurringFormProps) {
+  const { data: categories } = useCategories();
+  const baseCurrency = useBaseCurrency();
+  const [formData, setFormData] = useState<CreateRecurringData>({
+    categoryId: initialData?.categoryId || 1,
+    amount: initialData?.amount || 0,
+    currency: initialData?.currency,
+    description: initialData?.description || '',
+    frequency: initialData?.frequency || 'monthly',
+    interval: initialData?.interval || 1,
+    startDate: initialData?.startDate || new Date().toISOString().split('T')[0],
+    endDate: initialData?.endDate || null,
+  });
+  const [applyToExisting, setApplyToExisting] = useState(false);
+  const [effectiveFrom, setEffectiveFrom] = useState(
+    initialData?.nextDate || new Date().toISOString().split('T')[0]
+  );
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.amount || formData.amount <= 0) {
+      newErrors.amount = 'Amount must be greater than 0';
+    }
+    if (!formData.description.trim()) {
+      newErrors.description = 'Description is required';
+    }
+    if (!formData.interval || formData.interval < 1) {
+      newErrors.interval = 'Repeat interval must be at least 1';
+    }
+    if (!formData.startDate) {
+      newErrors.startDate = 'Start date is required';
+    }
+    if (formData.endDate && formData.endDate < formData.startDate) {
+      newErrors.endDate = 'End date must be after the start date';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const currency = formData.currency ?? baseCurrency;
+  const currencies = [...new Set([currency, baseCurrency, ...COMMON_CURRENCIES])];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    // New rules are in the base currency unless another one was picked
+    const data = { ...formData, currency };
+    if (initialData && applyToExisting) {
+      onSubmit({ ...data, effectiveFrom });
+    } else {
+      onSubmit(data);
+    }
+  };
+
+  const inputClass = (field: string) =>
+    `mt-1 block w-full rounded-md shadow-sm sm:text-sm border p-2 ${
+      errors[field] ? 'border-red-500' : 'border-gray-300'
+    } focus:border-indigo-500 focus:ring-indigo-500`;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="recurring-description" className="block text-sm font-medium text-gray-700">
+          Description
+        </label>
+        <input
+          type="text"
+          id="recurring-description"
+          value={formData.description}
+          onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+          className={inputClass('description')}
+          placeholder="e.g. Rent, Gym membership"
+        />
+        {errors.description && <p className="mt-1 text-sm text-red-600">{errors.description}</p>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="recurring-amount" className="block text-sm font-medium text-gray-700">
+            Amount
+          </label>
+          <div className="flex space-x-2">
+            <input
+              type="number"
+              id="recurring-amount"
+              step="0.01"
+              value={formData.amount || ''}
+              onChange={(e) => setFormData({ ...formData, amount: Number(e.target.value) })}
+              className={inputClass('amount')}
+              placeholder="0.00"
+            />
+            <select
+              id="recurring-currency"
+              aria-label="Currency"
+              value={currency}
+              onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+              className="mt-1 block w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+            >
+              {currencies.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          </div>
+          {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="recurring-category" className="block text-sm font-medium text-gray-700">
+            Category
+          </label>
+          <select
+            id="recurring-category"
+            value={formData.categoryId}
+            onChange={(e) => setFormData({ ...formData, categoryId: Number(e.target.value) })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+          >
+            {categories?.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="recurring-interval" className="block text-sm font-medium text-gray-700">
+          Repeat every
+        </label>
+        <div className="mt-1 flex gap-2">
+          <input
+            type="number"
+            id="recurring-interval"
+            min={1}
+            value={formData.interval || ''}
+            onChange={(e) => setFormData({ ...formData, interval: Number(e.target.value) })}
+            className={`w-20 rounded-md shadow-sm sm:text-sm border p-2 ${
+              errors.interval ? 'border-red-500' : 'border-gray-300'
+            } focus:border-indigo-500 focus:ring-indigo-500`}
+          />
+          <select
+            value={formData.frequency}
+            onChange={(e) => setFormData({ ...formData, frequency: e.target.value as RecurringFrequency })}
+            className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+          >
+            {FREQUENCIES.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {errors.interval && <p className="mt-1 text-sm text-red-600">{errors.interval}</p>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="recurring-start" className="block text-sm font-medium text-gray-700">
+            Start date
+          </label>
+          <input
+            type="date"
+            id="recurring-start"
+            value={formData.startDate}
+            onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+            className={inputClass('startDate')}
+          />
+          {errors.startDate && <p className="mt-1 text-sm text-red-600">{errors.startDate}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="recurring-end" className="block text-sm font-medium text-gray-700">
+            End date <span className="text-gray-400 font-normal">(optional)</span>
+          </label>
+          <input
+            type="date"
+            id="recurring-end"
+            value={formData.endDate || ''}
+            onChange={(e) => setFormData({ ...formData, endDate: e.target.value || null })}
+            className={inputClass('endDate')}
+          />
+          {errors.endDate && <p className="mt-1 text-sm text-red-600">{errors.endDate}</p>}
+        </div>
+      </div>
+
+      {initialData && (
+        <div className="p-3 bg-gray-50 rounded-md space-y-2">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={applyToExisting}
+              onChange={(e) => setApplyToExisting(e.target.checked)}
+              className="mr-2"
+            />
+            Edit this and future occurrences
+          </label>
+          {applyToExisting ? (
+            <div className="flex items-center gap-2">
+              <label htmlFor="recurring-effective" className="text-sm text-gray-600">
+                Starting from:
+              </label>
+              <input
+                type="date"
+                id="recurring-effective"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">
+              Only occurrences that have not been created yet will change.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3 pt-4">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isLoading ? 'Saving...' : initialData ? 'Update' : 'Create'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,434 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { useCategories } from '../hooks/useCategories';
+import type { Category, Rule, RuleAction, RuleCondition, RuleData } from '../types';
+
+interface RuleFormProps {
+  onSubmit: (data: RuleData) => void;
+  onCancel: () => void;
+  initialData?: Rule;
+  isLoading?: boolean;
+}
+
+const CONDITION_TYPES: { value: RuleCondition['type']; label: string }[] = [
+  { value: 'contains', label: 'Description contains' },
+  { value: 'regex', label: 'Description matches pattern' },
+  { value: 'amountRange', label: 'Amount between' },
+  { value: 'weekday', label: 'Date falls on' },
+];
+
+const ACTION_TYPES: { value: RuleAction['type']; label: string }[] = [
+  { value: 'setCategory', label: 'Set category' },
+  { value: 'rewriteDescription', label: 'Rename to' },
+  { value: 'addTag', label: 'Add tag' },
+  { value: 'skipImport', label: 'Skip when importing' },
+];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const inputClass = (hasError: boolean) =>
+  `rounded-md shadow-sm sm:text-sm border p-2 ${
+    hasError ? 'border-red-500' : 'border-gray-300'
+  } focus:border-indigo-500 focus:ring-indigo-500`;
+
+const selectClass =
+  'rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2';
+
+function newCondition(type: RuleCondition['type']): RuleCondition {
+  switch (type) {
+    case 'contains':
+      return { type, text: '', matchCase: false };
+    case 'regex':
+      return { type, pattern: '', flags: 'i' };
+    case 'amountRange':
+      return { type, min: null, max: null };
+    case 'weekday':
+      return { type, days: [0, 6] };
+  }
+}
+
+function newAction(type: RuleAction['type'], categories: Category[] | undefined): RuleAction {
+  switch (type) {
+    case 'setCategory':
+      return { type, categoryId: categories?.[0]?.id ?? 0 };
+    case 'rewriteDescription':
+      return { type, description: '' };
+    case 'addTag':
+      return { type, tag: '' };
+    case 'skipImport':
+      return { type };
+  }
+}
+
+function conditionError(condition: RuleCondition): string | null {
+  switch (condition.type) {
+    case 'contains':
+      return condition.text ? null : 'Enter the text to look for';
+    case 'regex':
+      if (!condition.pattern) return 'Enter a pattern';
+      try {
+        new RegExp(condition.pattern, condition.flags);
+        return null;
+      } catch {
+        return 'Not a valid regular expression';
+      }
+    case 'amountRange':
+      if (condition.min === null && condition.max === null) return 'Enter a minimum or a maximum';
+      if (condition.min !== null && condition.max !== null && condition.min > condition.max) {
+        return 'Maximum must not be below minimum';
+      }
+      return null;
+    case 'weekday':
+      return condition.days.length > 0 ? null : 'Pick at least one day';
+  }
+}
+
+function actionError(action: RuleAction): string | null {
+  switch (action.type) {
+    case 'setCategory':
+      return action.categoryId ? null : 'Pick a category';
+    case 'rewriteDescription':
+      return action.description.trim() ? null : 'Enter the new description';
+    case 'addTag':
+      return action.tag.trim() ? null : 'Enter a tag';
+    case 'skipImport':
+      return null;
+  }
+}
+
+function parseAmount(value: string): number | null {
+  return value === '' ? null : Number(value);
+}
+
+export function RuleForm({ onSubmit, onCancel, initialData, isLoading }: RuleFormProps) {
+  const { data: categories } = useCategories();
+  const [name, setName] = useState(initialData?.name || '');
+  const [enabled, setEnabled] = useState(initialData?.enabled ?? true);
+  const [conditions, setConditions] = useState<RuleCondition[]>(
+    initialData?.conditions || [newCondition('contains')]
+  );
+  const [actions, setActions] = useState<RuleAction[]>(initialData?.actions || []);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const updateCondition = (index: number, condition: RuleCondition) => {
+    setConditions(conditions.map((c, i) => (i === index ? condition : c)));
+  };
+
+  const updateAction = (index: number, action: RuleAction) => {
+    setActions(actions.map((a, i) => (i === index ? action : a)));
+  };
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+    if (conditions.length === 0) {
+      newErrors.conditions = 'Add at least one condition';
+    }
+    conditions.forEach((condition, i) => {
+      const error = conditionError(condition);
+      if (error) newErrors[`condition-${i}`] = error;
+    });
+    if (actions.length === 0) {
+      newErrors.actions = 'Add at least one action';
+    }
+    actions.forEach((action, i) => {
+      const error = actionError(action);
+      if (error) newErrors[`action-${i}`] = error;
+    });
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    onSubmit({ name: name.trim(), enabled, conditions, actions });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="rule-name" className="block text-sm font-medium text-gray-700">
+          Name
+        </label>
+        <input
+          type="text"
+          id="rule-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={`mt-1 block w-full ${inputClass(Boolean(errors.name))}`}
+          placeholder="e.g. Weekend coffee"
+        />
+        {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name}</p>}
+      </div>
+
+      <div>
+        <p className="block text-sm font-medium text-gray-700">When all of these match</p>
+        <div className="mt-1 space-y-2">
+          {conditions.map((condition, index) => (
+            <div key={index} className="p-2 bg-gray-50 rounded-md">
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={condition.type}
+                  onChange={(e) => updateCondition(index, newCondition(e.target.value as RuleCondition['type']))}
+                  className={selectClass}
+                  aria-label="Condition"
+                >
+                  {CONDITION_TYPES.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <ConditionFields
+                  condition={condition}
+                  hasError={Boolean(errors[`condition-${index}`])}
+                  onChange={(updated) => updateCondition(index, updated)}
+                />
+                <button
+                  type="button"
+                  onClick={() => setConditions(conditions.filter((_, i) => i !== index))}
+                  className="ml-auto p-1 text-gray-400 hover:text-red-600"
+                  title="Remove condition"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              {errors[`condition-${index}`] && (
+                <p className="mt-1 text-sm text-red-600">{errors[`condition-${index}`]}</p>
+              )}
+            </div>
+          ))}
+        </div>
+        {errors.conditions && <p className="mt-1 text-sm text-red-600">{errors.conditions}</p>}
+        <button
+          type="button"
+          onClick={() => setConditions([...conditions, newCondition('contains')])}
+          className="mt-2 inline-flex items-center text-sm text-indigo-600 hover:text-indigo-800"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add condition
+        </button>
+      </div>
+
+      <div>
+        <p className="block text-sm font-medium text-gray-700">Then</p>
+        <div className="mt-1 space-y-2">
+          {actions.map((action, index) => (
+            <div key={index} className="p-2 bg-gray-50 rounded-md">
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={action.type}
+                  onChange={(e) =>
+                    updateAction(index, newAction(e.target.value as RuleAction['type'], categories))
+                  }
+                  className={selectClass}
+                  aria-label="Action"
+                >
+                  {ACTION_TYPES.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                {action.type === 'setCategory' && (
+                  <select
+                    value={action.categoryId}
+                    onChange={(e) => updateAction(index, { ...action, categoryId: Number(e.target.value) })}
+                    className={selectClass}
+                    aria-label="Category"
+                  >
+                    {!categories?.some((c) => c.id === action.categoryId) && (
+                      <option value={action.categoryId}>Deleted category</option>
+                    )}
+                    {categories?.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {action.type === 'rewriteDescription' && (
+                  <input
+                    type="text"
+                    value={action.description}
+                    onChange={(e) => updateAction(index, { ...action, description: e.target.value })}
+                    className={`flex-1 ${inputClass(Boolean(errors[`action-${index}`]))}`}
+                    placeholder="New description"
+                  />
+                )}
+                {action.type === 'addTag' && (
+                  <input
+                    type="text"
+                    value={action.tag}
+                    onChange={(e) => updateAction(index, { ...action, tag: e.target.value })}
+                    className={`flex-1 ${inputClass(Boolean(errors[`action-${index}`]))}`}
+                    placeholder="Tag"
+                  />
+                )}
+                <button
+                  type="button"
+                  onClick={() => setActions(actions.filter((_, i) => i !== index))}
+                  className="ml-auto p-1 text-gray-400 hover:text-red-600"
+                  title="Remove action"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              {errors[`action-${index}`] && (
+                <p className="mt-1 text-sm text-red-600">{errors[`action-${index}`]}</p>
+              )}
+            </div>
+          ))}
+        </div>
+        {errors.actions && <p className="mt-1 text-sm text-red-600">{errors.actions}</p>}
+        <button
+          type="button"
+          onClick={() => setActions([...actions, newAction('setCategory', categories)])}
+          className="mt-2 inline-flex items-center text-sm text-indigo-600 hover:text-indigo-800"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add action
+        </button>
+      </div>
+
+      <label className="flex items-center text-sm text-gray-700">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} className="mr-2" />
+        Enabled
+      </label>
+
+      <div className="flex justify-end space-x-3 pt-4">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isLoading ? 'Saving...' : initialData ? 'Update' : 'Create'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+interface ConditionFieldsProps {
+  condition: RuleCondition;
+  hasError: boolean;
+  onChange: (condition: RuleCondition) => void;
+}
+
+function ConditionFields({ condition, hasError, onChange }: ConditionFieldsProps) {
+  switch (condition.type) {
+    case 'contains':
+      return (
+        <>
+          <input
+            type="text"
+            value={condition.text}
+            onChange={(e) => onChange({ ...condition, text: e.target.value })}
+            className={`flex-1 ${inputClass(hasError)}`}
+            placeholder="e.g. starbucks"
+          />
+          <label className="flex items-center text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={condition.matchCase}
+              onChange={(e) => onChange({ ...condition, matchCase: e.target.checked })}
+              className="mr-1"
+            />
+            Match case
+          </label>
+        </>
+      );
+    case 'regex':
+      return (
+        <>
+          <input
+            type="text"
+            value={condition.pattern}
+            onChange={(e) => onChange({ ...condition, pattern: e.target.value })}
+            className={`flex-1 font-mono ${inputClass(hasError)}`}
+            placeholder="e.g. ^AMZN\s+MKTP"
+          />
+          <label className="flex items-center text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={!condition.flags.includes('i')}
+              onChange={(e) =>
+                onChange({
+                  ...condition,
+                  flags: e.target.checked ? condition.flags.replace('i', '') : `${condition.flags}i`,
+                })
+              }
+              className="mr-1"
+            />
+            Match case
+          </label>
+        </>
+      );
+    case 'amountRange':
+      return (
+        <>
+          <input
+            type="number"
+            step="0.01"
+            value={condition.min ?? ''}
+            onChange={(e) => onChange({ ...condition, min: parseAmount(e.target.value) })}
+            className={`w-24 ${inputClass(hasError)}`}
+            placeholder="Min"
+            aria-label="Minimum amount"
+          />
+          <span className="text-sm text-gray-500">and</span>
+          <input
+            type="number"
+            step="0.01"
+            value={condition.max ?? ''}
+            onChange={(e) => onChange({ ...condition, max: parseAmount(e.target.value) })}
+            className={`w-24 ${inputClass(hasError)}`}
+            placeholder="Max"
+            aria-label="Maximum amount"
+          />
+        </>
+      );
+    case 'weekday':
+      return (
+        <div className="flex gap-1">
+          {WEEKDAYS.map((label, day) => {
+            const selected = condition.days.includes(day);
+            return (
+              <button
+                key={label}
+                type="button"
+                onClick={() =>
+                  onChange({
+                    ...condition,
+                    days: selected
+                      ? condition.days.filter((d) => d !== day)
+                      : [...condition.days, day].sort((a, b) => a - b),
+                  })
+                }
+                className={`px-2 py-1 text-xs rounded-md border ${
+                  selected
+                    ? 'bg-indigo-600 text-white border-indigo-600'
+                    : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      );
+  }
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { useTags } from '../hooks/useTags';
+
+// Suggestions shown below the input while typing
+const MAX_SUGGESTIONS = 6;
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+}
+
+// Matches how the server stores tag names, so chips show what will be saved
+function normalizeTag(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+export function TagInput({ id, value, onChange }: TagInputProps) {
+  const { data: tags } = useTags();
+  const [text, setText] = useState('');
+  const [focused, setFocused] = useState(false);
+
+  const query = normalizeTag(text);
+  const suggestions = (tags || [])
+    .filter((tag) => !value.includes(tag.name) && (!query || tag.name.includes(query)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const addTag = (name: string) => {
+    const tag = normalizeTag(name);
+    if (tag && !value.includes(tag)) {
+      onChange([...value, tag]);
+    }
+    setText('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      // Enter adds the tag instead of submitting the form
+      e.preventDefault();
+      addTag(text);
+    } else if (e.key === 'Backspace' && !text && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="mt-1 flex flex-wrap items-center gap-1 rounded-md border border-gray-300 shadow-sm p-1.5 focus-within:border-indigo-500 focus-within:ring-1 focus-within:ring-indigo-500">
+        {value.map((tag) => (
+          <span
+            key={tag}
+            className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full bg-indigo-50 text-indigo-700"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((t) => t !== tag))}
+              className="ml-1 text-indigo-400 hover:text-indigo-700"
+              title={`Remove ${tag}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          id={id}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false);
+            if (text) addTag(text);
+          }}
+          className="flex-1 min-w-[8rem] border-0 p-1 text-sm focus:outline-none focus:ring-0"
+          placeholder={value.length === 0 ? 'e.g. trip-lisbon, tax-deductible' : ''}
+        />
+      </div>
+      {focused && suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-48 overflow-y-auto">
+          {suggestions.map((tag) => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                // Keep focus on the input so its blur does not add the half-typed text first
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag.name)}
+                className="w-full flex justify-between px-3 py-1.5 text-sm text-left hover:bg-gray-50"
+              >
+                <span className="text-gray-900">#{tag.name}</span>
+                <span className="text-gray-400">{tag.expenseCount}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { Link } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+
+interface UnconvertedNoticeProps {
+  count: number;
+}
+
+// Shown over converted totals when some expenses are in a currency without exchange rates
+export function UnconvertedNotice({ count }: UnconvertedNoticeProps) {
+  if (count === 0) return null;
+
+  return (
+    <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md flex items-center text-sm text-yellow-800">
+      <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+      <span>
+        {count === 1 ? '1 expense is' : `${count} expenses are`} in a currency without exchange rates and
+        {count === 1 ? ' is' : ' are'} left out of these totals.{' '}
+        <Link to="/currencies" className="font-medium underline">
+          Add rates
+        </Link>
+      </span>
+    </div>
+  );
+}
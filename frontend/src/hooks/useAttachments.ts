@@ -0,0 +1,36 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as attachmentsApi from '../api/attachments';
+import type { Attachment } from '../types';
+
+export function useAttachments(expenseId: number) {
+  return useQuery({
+    queryKey: ['attachments', expenseId],
+    queryFn: () => attachmentsApi.getAttachments(expenseId),
+    enabled: !!expenseId,
+  });
+}
+
+export function useUploadAttachment(expenseId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (file: File) => attachmentsApi.uploadAttachment(expenseId, file),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['attachments', expenseId] });
+      // The expense list shows the attachment count
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+    },
+  });
+}
+
+export function useDeleteAttachment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (attachment: Attachment) => attachmentsApi.deleteAttachment(attachment),
+    onSuccess: (_, attachment) => {
+      queryClient.invalidateQueries({ queryKey: ['attachments', attachment.expenseId] });
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+    },
+  });
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import * as authApi from '../api/auth';
 import type { User } from '../types';
 
@@ -10,6 +10,7 @@ interface AuthState {
 }
 
 export function useAuth() {
+  const queryClient = useQueryClient();
   const [authState, setAuthState] = useState<AuthState>({
     user: null,
     isAuthenticated: false,
@@ -52,8 +53,10 @@ export function useAuth() {
   const logout = useCallback(() => {
     authApi.logout();
     localStorage.removeItem('user');
+    // Cached data (including custom categories) belongs to the previous user
+    queryClient.clear();
     setAuthState({ user: null, isAuthenticated: false, isLoading: false });
-  }, []);
+  }, [queryClient]);
 
   return {
     ...authState,
@@ -0,0 +1,29 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import * as backupApi from '../api/backup';
+import type { RestoreMode } from '../types';
+
+export function useDownloadBackup() {
+  return useMutation({
+    mutationFn: backupApi.downloadBackup,
+  });
+}
+
+export function useRestoreBackup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      backupJson,
+      mode,
+      discardAttachments,
+    }: {
+      backupJson: string;
+      mode: RestoreMode;
+      discardAttachments?: boolean;
+    }) => backupApi.restoreBackup(backupJson, mode, discardAttachments),
+    onSuccess: () => {
+      // A restore can touch every kind of data the user owns
+      queryClient.invalidateQueries();
+    },
+  });
+}
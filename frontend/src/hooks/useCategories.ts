@@ -1,5 +1,6 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import * as categoriesApi from '../api/categories';
+import type { CategoryData } from '../types';
 
 export function useCategories() {
   return useQuery({
@@ -8,3 +9,69 @@ export function useCategories() {
     staleTime: Infinity,
   });
 }
+
+export function useCategorySuggestion(description: string) {
+  const trimmed = description.trim();
+
+  return useQuery({
+    queryKey: ['category-suggestion', trimmed],
+    queryFn: () => categoriesApi.suggestCategory(trimmed),
+    enabled: trimmed.length > 0,
+  });
+}
+
+export function useCreateCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CategoryData) => categoriesApi.createCategory(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
+    },
+  });
+}
+
+export function useUpdateCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: Partial<CategoryData> }) =>
+      categoriesApi.updateCategory(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['recurring'] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['budget-summary'] });
+      queryClient.invalidateQueries({ queryKey: ['expense-stats'] });
+    },
+  });
+}
+
+export function useReorderCategories() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (ids: number[]) => categoriesApi.reorderCategories(ids),
+    onSuccess: (categories) => {
+      queryClient.setQueryData(['categories'], categories);
+    },
+  });
+}
+
+export function useDeleteCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reassignTo }: { id: number; reassignTo?: number }) =>
+      categoriesApi.deleteCategory(id, reassignTo),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['recurring'] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['budget-summary'] });
+      queryClient.invalidateQueries({ queryKey: ['expense-stats'] });
+    },
+  });
+}
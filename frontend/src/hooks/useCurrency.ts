@@ -0,0 +1,80 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as currencyApi from '../api/currency';
+import type { CurrencySettings, ExchangeRateData } from '../types';
+
+export function useCurrencySettings() {
+  return useQuery({
+    queryKey: ['currency-settings'],
+    queryFn: currencyApi.getCurrencySettings,
+  });
+}
+
+// The currency totals are shown in; USD until the settings have loaded
+export function useBaseCurrency(): string {
+  const { data } = useCurrencySettings();
+  return data?.baseCurrency ?? 'USD';
+}
+
+export function useExchangeRates(currency?: string) {
+  return useQuery({
+    queryKey: ['exchange-rates', currency],
+    queryFn: () => currencyApi.getExchangeRates(currency),
+  });
+}
+
+export function useRateCurrencies() {
+  return useQuery({
+    queryKey: ['rate-currencies'],
+    queryFn: currencyApi.getRateCurrencies,
+  });
+}
+
+// Totals are converted when they are read, so any rate or base currency change moves them
+function useInvalidateConverted() {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['currency-settings'] });
+    queryClient.invalidateQueries({ queryKey: ['exchange-rates'] });
+    queryClient.invalidateQueries({ queryKey: ['rate-currencies'] });
+    queryClient.invalidateQueries({ queryKey: ['monthly-total'] });
+    queryClient.invalidateQueries({ queryKey: ['expense-stats'] });
+    queryClient.invalidateQueries({ queryKey: ['budget-summary'] });
+  };
+}
+
+export function useUpdateCurrencySettings() {
+  const invalidate = useInvalidateConverted();
+
+  return useMutation({
+    mutationFn: (data: CurrencySettings) => currencyApi.updateCurrencySettings(data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useSaveExchangeRate() {
+  const invalidate = useInvalidateConverted();
+
+  return useMutation({
+    mutationFn: (data: ExchangeRateData) => currencyApi.saveExchangeRate(data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useImportExchangeRates() {
+  const invalidate = useInvalidateConverted();
+
+  return useMutation({
+    mutationFn: (csvContent: string) => currencyApi.importExchangeRates(csvContent),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteExchangeRate() {
+  const invalidate = useInvalidateConverted();
+
+  return useMutation({
+    mutationFn: (id: number) => currencyApi.deleteExchangeRate(id),
+    onSuccess: invalidate,
+  });
+}
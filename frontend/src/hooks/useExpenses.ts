@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import * as expensesApi from '../api/expenses';
-import type { GetExpensesParams } from '../api/expenses';
+import type { GetExpensesParams, GetExpenseStatsParams, ExportFormat } from '../api/expenses';
 import type { CreateExpenseData, UpdateExpenseData } from '../types';
 
 export function useExpenses(params?: GetExpensesParams) {
@@ -25,6 +25,13 @@ export function useMonthlyTotal(year?: number, month?: number) {
   });
 }
 
+export function useExpenseStats(params?: GetExpenseStatsParams) {
+  return useQuery({
+    queryKey: ['expense-stats', params],
+    queryFn: () => expensesApi.getExpenseStats(params),
+  });
+}
+
 export function useCreateExpense() {
   const queryClient = useQueryClient();
 
@@ -33,6 +40,9 @@ export function useCreateExpense() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['expenses'] });
       queryClient.invalidateQueries({ queryKey: ['monthly-total'] });
+      queryClient.invalidateQueries({ queryKey: ['expense-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['budget-summary'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
     },
   });
 }
@@ -46,6 +56,9 @@ export function useUpdateExpense() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['expenses'] });
       queryClient.invalidateQueries({ queryKey: ['monthly-total'] });
+      queryClient.invalidateQueries({ queryKey: ['expense-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['budget-summary'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
     },
   });
 }
@@ -58,6 +71,16 @@ export function useDeleteExpense() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['expenses'] });
       queryClient.invalidateQueries({ queryKey: ['monthly-total'] });
+      queryClient.invalidateQueries({ queryKey: ['expense-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['budget-summary'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
     },
   });
 }
+
+export function useExportExpenses() {
+  return useMutation({
+    mutationFn: ({ params, format }: { params?: GetExpensesParams; format: ExportFormat }) =>
+      expensesApi.exportExpenses(params, format),
+  });
+}
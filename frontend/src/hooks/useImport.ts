@@ -1,6 +1,16 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import * as importApi from '../api/import';
-import type { ColumnMapping } from '../types';
+import type { RowPageParams, SpreadsheetOptions } from '../api/import';
+import type {
+  ColumnMapping,
+  MappingOptions,
+  ImportTemplateData,
+  RowSelection,
+  BulkRowAction,
+} from '../types';
+
+const JOB_POLL_INTERVAL = 500;
 
 export function useActiveSession() {
   return useQuery({
@@ -10,6 +20,48 @@ export function useActiveSession() {
   });
 }
 
+export function useImportRows(sessionId: number | null, params: RowPageParams) {
+  return useQuery({
+    queryKey: ['import-rows', sessionId, params],
+    queryFn: () => importApi.getSessionRows(sessionId!, params),
+    enabled: sessionId != null,
+    // Keep the current page on screen while the next one loads
+    placeholderData: keepPreviousData,
+  });
+}
+
+// Polls a job until it finishes, then refreshes whatever it changed
+export function useImportJob(jobId: number | null) {
+  const queryClient = useQueryClient();
+  const query = useQuery({
+    queryKey: ['import-job', jobId],
+    queryFn: () => importApi.getImportJob(jobId!),
+    enabled: jobId != null,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === 'completed' || status === 'failed' ? false : JOB_POLL_INTERVAL;
+    },
+  });
+
+  const job = query.data;
+  useEffect(() => {
+    if (job?.status !== 'completed') return;
+
+    queryClient.invalidateQueries({ queryKey: ['import-session'] });
+    queryClient.invalidateQueries({ queryKey: ['import-rows', job.sessionId] });
+    if (job.type === 'confirm') {
+      queryClient.invalidateQueries({ queryKey: ['import-history'] });
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['monthly-total'] });
+      queryClient.invalidateQueries({ queryKey: ['expense-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['budget-summary'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+    }
+  }, [job?.id, job?.status, job?.type, job?.sessionId, queryClient]);
+
+  return query;
+}
+
 export function useImportHistory() {
   return useQuery({
     queryKey: ['import-history'],
@@ -17,6 +69,13 @@ export function useImportHistory() {
   });
 }
 
+export function useImportHistoryDetail(historyId: number) {
+  return useQuery({
+    queryKey: ['import-history', historyId],
+    queryFn: () => importApi.getImportHistoryDetail(historyId),
+  });
+}
+
 export function useCreateSession() {
   const queryClient = useQueryClient();
 
@@ -51,12 +110,62 @@ export function useUploadCsv() {
   });
 }
 
+export function useUploadSpreadsheet() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      fileName,
+      content,
+      options,
+    }: {
+      fileName: string;
+      content: string;
+      options?: SpreadsheetOptions;
+    }) => importApi.uploadSpreadsheet(fileName, content, options),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['import-session'] });
+    },
+  });
+}
+
+export function useUploadOfx() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ fileName, ofxContent }: { fileName: string; ofxContent: string }) =>
+      importApi.uploadOfx(fileName, ofxContent),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['import-session'] });
+    },
+  });
+}
+
+export function useUploadQif() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ fileName, qifContent }: { fileName: string; qifContent: string }) =>
+      importApi.uploadQif(fileName, qifContent),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['import-session'] });
+    },
+  });
+}
+
 export function useSaveMapping() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ sessionId, columnMapping }: { sessionId: number; columnMapping: ColumnMapping }) =>
-      importApi.saveMapping(sessionId, columnMapping),
+    mutationFn: ({
+      sessionId,
+      columnMapping,
+      options,
+    }: {
+      sessionId: number;
+      columnMapping: ColumnMapping;
+      options?: Partial<MappingOptions>;
+    }) => importApi.saveMapping(sessionId, columnMapping, options),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['import-session'] });
     },
@@ -74,10 +183,11 @@ export function useUpdateRow() {
     }: {
       sessionId: number;
       rowIndex: number;
-      updates: { date?: string; amount?: number; description?: string; category?: string };
+      updates: { date?: string; amount?: number; currency?: string; description?: string; category?: string };
     }) => importApi.updateRow(sessionId, rowIndex, updates),
-    onSuccess: () => {
+    onSuccess: (_result, { sessionId }) => {
       queryClient.invalidateQueries({ queryKey: ['import-session'] });
+      queryClient.invalidateQueries({ queryKey: ['import-rows', sessionId] });
     },
   });
 }
@@ -88,8 +198,29 @@ export function useSkipRow() {
   return useMutation({
     mutationFn: ({ sessionId, rowIndex, skip }: { sessionId: number; rowIndex: number; skip: boolean }) =>
       importApi.skipRow(sessionId, rowIndex, skip),
-    onSuccess: () => {
+    onSuccess: (_result, { sessionId }) => {
+      queryClient.invalidateQueries({ queryKey: ['import-session'] });
+      queryClient.invalidateQueries({ queryKey: ['import-rows', sessionId] });
+    },
+  });
+}
+
+export function useBulkUpdateRows() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      sessionId,
+      selection,
+      action,
+    }: {
+      sessionId: number;
+      selection: RowSelection;
+      action: BulkRowAction;
+    }) => importApi.bulkUpdateRows(sessionId, selection, action),
+    onSuccess: (_result, { sessionId }) => {
       queryClient.invalidateQueries({ queryKey: ['import-session'] });
+      queryClient.invalidateQueries({ queryKey: ['import-rows', sessionId] });
     },
   });
 }
@@ -101,9 +232,64 @@ export function useConfirmImport() {
     mutationFn: (sessionId: number) => importApi.confirmImport(sessionId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['import-session'] });
+    },
+  });
+}
+
+export function useRevertImport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ historyId, force }: { historyId: number; force: boolean }) =>
+      importApi.revertImport(historyId, force),
+    onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['import-history'] });
       queryClient.invalidateQueries({ queryKey: ['expenses'] });
       queryClient.invalidateQueries({ queryKey: ['monthly-total'] });
+      queryClient.invalidateQueries({ queryKey: ['expense-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['budget-summary'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+    },
+  });
+}
+
+export function useImportTemplates() {
+  return useQuery({
+    queryKey: ['import-templates'],
+    queryFn: importApi.getImportTemplates,
+  });
+}
+
+export function useCreateImportTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: ImportTemplateData) => importApi.createImportTemplate(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['import-templates'] });
+    },
+  });
+}
+
+export function useUpdateImportTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: Partial<Omit<ImportTemplateData, 'headers'>> }) =>
+      importApi.updateImportTemplate(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['import-templates'] });
+    },
+  });
+}
+
+export function useDeleteImportTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: number) => importApi.deleteImportTemplate(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['import-templates'] });
     },
   });
 }
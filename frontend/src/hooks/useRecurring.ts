@@ -0,0 +1,60 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as recurringApi from '../api/recurring';
+import type { CreateRecurringData, UpdateRecurringData } from '../types';
+
+export function useRecurringExpenses() {
+  return useQuery({
+    queryKey: ['recurring'],
+    queryFn: recurringApi.getRecurringExpenses,
+  });
+}
+
+// Rule changes can create or rewrite expense rows, so expense queries are refreshed too
+function useInvalidateRecurring() {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['recurring'] });
+    queryClient.invalidateQueries({ queryKey: ['expenses'] });
+    queryClient.invalidateQueries({ queryKey: ['monthly-total'] });
+    queryClient.invalidateQueries({ queryKey: ['expense-stats'] });
+    queryClient.invalidateQueries({ queryKey: ['budget-summary'] });
+  };
+}
+
+export function useCreateRecurring() {
+  const invalidate = useInvalidateRecurring();
+
+  return useMutation({
+    mutationFn: (data: CreateRecurringData) => recurringApi.createRecurringExpense(data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateRecurring() {
+  const invalidate = useInvalidateRecurring();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: UpdateRecurringData }) =>
+      recurringApi.updateRecurringExpense(id, data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useSkipOccurrence() {
+  const invalidate = useInvalidateRecurring();
+
+  return useMutation({
+    mutationFn: (id: number) => recurringApi.skipNextOccurrence(id),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteRecurring() {
+  const invalidate = useInvalidateRecurring();
+
+  return useMutation({
+    mutationFn: (id: number) => recurringApi.deleteRecurringExpense(id),
+    onSuccess: invalidate,
+  });
+}
@@ -0,0 +1,75 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as rulesApi from '../api/rules';
+import type { RuleData, RuleRunParams } from '../types';
+
+export function useRules() {
+  return useQuery({
+    queryKey: ['rules'],
+    queryFn: rulesApi.getRules,
+  });
+}
+
+export function useCreateRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: RuleData) => rulesApi.createRule(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rules'] });
+    },
+  });
+}
+
+export function useUpdateRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: Partial<RuleData> }) => rulesApi.updateRule(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rules'] });
+    },
+  });
+}
+
+export function useReorderRules() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (ids: number[]) => rulesApi.reorderRules(ids),
+    onSuccess: (rules) => {
+      queryClient.setQueryData(['rules'], rules);
+    },
+  });
+}
+
+export function useDeleteRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: number) => rulesApi.deleteRule(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rules'] });
+    },
+  });
+}
+
+export function usePreviewRuleRun() {
+  return useMutation({
+    mutationFn: (params: RuleRunParams) => rulesApi.previewRuleRun(params),
+  });
+}
+
+export function useApplyRuleRun() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (params: RuleRunParams) => rulesApi.applyRuleRun(params),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['monthly-total'] });
+      queryClient.invalidateQueries({ queryKey: ['expense-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['budget-summary'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+    },
+  });
+}
@@ -0,0 +1,9 @@
+import { useQuery } from '@tanstack/react-query';
+import * as tagsApi from '../api/tags';
+
+export function useTags() {
+  return useQuery({
+    queryKey: ['tags'],
+    queryFn: tagsApi.getTags,
+  });
+}
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { Download, ArchiveRestore } from 'lucide-react';
+import { useDownloadBackup, useRestoreBackup } from '../hooks/useBackup';
+import { Modal } from '../components/Modal';
+import type { BackupCounts, RestoreMode } from '../types';
+
+const COUNT_LABELS: Record<keyof BackupCounts, string> = {
+  categories: 'Categories',
+  expenses: 'Expenses',
+  recurringExpenses: 'Recurring rules',
+  budgets: 'Budgets',
+  importHistory: 'Import history',
+  importTemplates: 'Import templates',
+  rules: 'Rules',
+  exchangeRates: 'Exchange rates',
+};
+
+export function Backup() {
+  const downloadBackup = useDownloadBackup();
+  const restoreBackup = useRestoreBackup();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [confirmReplace, setConfirmReplace] = useState(false);
+
+  const restore = async () => {
+    if (!file) return;
+    setConfirmReplace(false);
+    // Only reached through the Replace confirmation, which warns that receipts are deleted
+    restoreBackup.mutate({ backupJson: await file.text(), mode, discardAttachments: mode === 'replace' });
+  };
+
+  const result = restoreBackup.data;
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">Backup &amp; Restore</h1>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900">Download a backup</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Everything in your account — expenses, custom categories, recurring rules, budgets, import history and
+          templates — as a single JSON file you can restore here or on another instance.
+        </p>
+        <button
+          onClick={() => downloadBackup.mutate()}
+          disabled={downloadBackup.isPending}
+          className="mt-4 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {downloadBackup.isPending ? 'Preparing...' : 'Download Backup'}
+        </button>
+        {downloadBackup.error && <p className="mt-2 text-sm text-red-600">{downloadBackup.error.message}</p>}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Restore from a backup</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Backups from older versions are upgraded automatically. Nothing is changed if the file is invalid.
+          </p>
+        </div>
+
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] || null);
+            restoreBackup.reset();
+          }}
+          className="block text-sm text-gray-700"
+        />
+
+        <div className="space-y-2">
+          <label className="flex items-start text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={mode === 'merge'}
+              onChange={() => setMode('merge')}
+              className="mt-0.5 mr-2"
+            />
+            <span>
+              <span className="font-medium">Merge</span> — add the backup to your current data, skipping records that
+              already exist
+            </span>
+          </label>
+          <label className="flex items-start text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={mode === 'replace'}
+              onChange={() => setMode('replace')}
+              className="mt-0.5 mr-2"
+            />
+            <span>
+              <span className="font-medium">Replace</span> — delete your current data and restore the backup in its
+              place
+            </span>
+          </label>
+        </div>
+
+        <button
+          onClick={() => (mode === 'replace' ? setConfirmReplace(true) : restore())}
+          disabled={!file || restoreBackup.isPending}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <ArchiveRestore className="w-4 h-4 mr-2" />
+          {restoreBackup.isPending ? 'Restoring...' : 'Restore'}
+        </button>
+
+        {restoreBackup.error && <p className="text-sm text-red-600">{restoreBackup.error.message}</p>}
+
+        {result && (
+          <div className="rounded-md bg-green-50 border border-green-200 p-4">
+            <p className="text-sm font-medium text-green-800">
+              Backup restored ({result.mode === 'merge' ? 'merged' : 'replaced'}).
+            </p>
+            <table className="mt-2 text-sm text-green-900">
+              <tbody>
+                {(Object.keys(COUNT_LABELS) as (keyof BackupCounts)[]).map((key) => (
+                  <tr key={key}>
+                    <td className="pr-6">{COUNT_LABELS[key]}</td>
+                    <td className="pr-6">{result.imported[key]} restored</td>
+                    <td className="text-green-700">
+                      {result.skipped[key] > 0 && `${result.skipped[key]} already present`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <Modal isOpen={confirmReplace} onClose={() => setConfirmReplace(false)} title="Replace All Data">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">
+            This deletes all of your expenses, custom categories, recurring rules, budgets, import history and
+            templates before restoring <span className="font-medium text-gray-700">{file?.name}</span>. Receipt
+            attachments are not part of backups and are deleted for good. This cannot be undone.
+          </p>
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setConfirmReplace(false)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={restore}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700"
+            >
+              Replace
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import { Plus, Pencil, Trash2 } from 'lucide-react';
+import {
+  useBudgets,
+  useBudgetSummary,
+  useCreateBudget,
+  useUpdateBudget,
+  useDeleteBudget,
+} from '../hooks/useBudgets';
+import { useCategories } from '../hooks/useCategories';
+import { useBaseCurrency } from '../hooks/useCurrency';
+import { formatMoney } from '../api/currency';
+import { BudgetProgressList } from '../components/BudgetProgressList';
+import { Modal } from '../components/Modal';
+import type { Budget, BudgetData } from '../types';
+
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+export function Budgets() {
+  const [month, setMonth] = useState(currentMonth());
+  const { data: budgets, isLoading } = useBudgets();
+  const { data: summary, isLoading: summaryLoading } = useBudgetSummary(month);
+  const { data: categories } = useCategories();
+  const baseCurrency = useBaseCurrency();
+  const createBudget = useCreateBudget();
+  const updateBudget = useUpdateBudget();
+  const deleteBudget = useDeleteBudget();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
+  const [formData, setFormData] = useState<BudgetData>({ categoryId: null, month: null, amount: 0 });
+
+  const mutationError = createBudget.error || updateBudget.error;
+
+  const openForm = (budget: Budget | null) => {
+    setEditingBudget(budget);
+    setFormData(
+      budget
+        ? { categoryId: budget.categoryId, month: budget.month, amount: budget.amount }
+        : { categoryId: null, month: null, amount: 0 }
+    );
+    createBudget.reset();
+    updateBudget.reset();
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingBudget(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.amount || formData.amount <= 0) return;
+
+    if (editingBudget) {
+      updateBudget.mutate({ id: editingBudget.id, data: formData }, { onSuccess: closeModal });
+    } else {
+      createBudget.mutate(formData, { onSuccess: closeModal });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Budgets</h1>
+        <button
+          onClick={() => openForm(null)}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Budget
+        </button>
+      </div>
+
+      {/* Progress for the selected month */}
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-medium text-gray-900">Progress</h2>
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value || currentMonth())}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </div>
+        {summaryLoading || !summary ? (
+          <div className="text-center py-8 text-gray-500">Loading...</div>
+        ) : (
+          <BudgetProgressList summary={summary} />
+        )}
+      </div>
+
+      {/* All budgets */}
+      <div>
+        <h2 className="text-lg font-medium text-gray-900 mb-4">All Budgets</h2>
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-500">Loading...</div>
+        ) : !budgets || budgets.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 bg-white shadow rounded-lg">
+            No budgets yet. Add an overall or per-category monthly limit.
+          </div>
+        ) : (
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Category</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Applies to</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Limit</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {budgets.map((budget) => (
+                  <tr key={budget.id}>
+                    <td className="px-4 py-3 text-sm text-gray-900">{budget.categoryName ?? 'Overall'}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{budget.month ?? 'Every month'}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{formatMoney(budget.amount, baseCurrency)}</td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => openForm(budget)}
+                        className="p-1 text-gray-400 hover:text-indigo-600"
+                        title="Edit"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => deleteBudget.mutate(budget.id)}
+                        disabled={deleteBudget.isPending}
+                        className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <Modal isOpen={isModalOpen} onClose={closeModal} title={editingBudget ? 'Edit Budget' : 'Add Budget'}>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="budget-category" className="block text-sm font-medium text-gray-700">
+              Category
+            </label>
+            <select
+              id="budget-category"
+              value={formData.categoryId ?? ''}
+              onChange={(e) => setFormData({ ...formData, categoryId: Number(e.target.value) || null })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+            >
+              <option value="">Overall (all categories)</option>
+              {categories?.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700">Applies to</span>
+            <div className="mt-1 flex items-center gap-4">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={formData.month === null}
+                  onChange={() => setFormData({ ...formData, month: null })}
+                  className="mr-2"
+                />
+                Every month
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={formData.month !== null}
+                  onChange={() => setFormData({ ...formData, month: month })}
+                  className="mr-2"
+                />
+                One month
+              </label>
+              {formData.month !== null && (
+                <input
+                  type="month"
+                  value={formData.month}
+                  onChange={(e) => setFormData({ ...formData, month: e.target.value || month })}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="budget-amount" className="block text-sm font-medium text-gray-700">
+              Limit ({baseCurrency})
+            </label>
+            <input
+              type="number"
+              id="budget-amount"
+              step="0.01"
+              value={formData.amount || ''}
+              onChange={(e) => setFormData({ ...formData, amount: Number(e.target.value) })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+              placeholder="0.00"
+            />
+          </div>
+
+          {mutationError && <p className="text-sm text-red-600">{mutationError.message}</p>}
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={closeModal}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!formData.amount || createBudget.isPending || updateBudget.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {createBudget.isPending || updateBudget.isPending ? 'Saving...' : editingBudget ? 'Update' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
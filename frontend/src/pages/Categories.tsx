@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import { Plus, Pencil, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import {
+  useCategories,
+  useCreateCategory,
+  useUpdateCategory,
+  useReorderCategories,
+  useDeleteCategory,
+} from '../hooks/useCategories';
+import { CategoryIcon, CATEGORY_ICONS } from '../components/CategoryIcon';
+import { Modal } from '../components/Modal';
+import type { Category, CategoryData } from '../types';
+
+export function Categories() {
+  const { data: categories, isLoading } = useCategories();
+  const createCategory = useCreateCategory();
+  const updateCategory = useUpdateCategory();
+  const reorderCategories = useReorderCategories();
+  const deleteCategory = useDeleteCategory();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [formData, setFormData] = useState<CategoryData>({ name: '', icon: CATEGORY_ICONS[0] });
+  const [deleting, setDeleting] = useState<Category | null>(null);
+  const [reassignTo, setReassignTo] = useState<number | null>(null);
+
+  const defaultCategories = categories?.filter((c) => c.userId === null) || [];
+  const customCategories = categories?.filter((c) => c.userId !== null) || [];
+  const mutationError = createCategory.error || updateCategory.error || deleteCategory.error;
+
+  const openCreate = () => {
+    setEditingCategory(null);
+    setFormData({ name: '', icon: CATEGORY_ICONS[0] });
+    setIsModalOpen(true);
+  };
+
+  const openEdit = (category: Category) => {
+    setEditingCategory(category);
+    setFormData({ name: category.name, icon: category.icon });
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingCategory(null);
+    createCategory.reset();
+    updateCategory.reset();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+
+    if (editingCategory) {
+      updateCategory.mutate({ id: editingCategory.id, data: formData }, { onSuccess: closeModal });
+    } else {
+      createCategory.mutate(formData, { onSuccess: closeModal });
+    }
+  };
+
+  const move = (index: number, direction: -1 | 1) => {
+    const ids = customCategories.map((c) => c.id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderCategories.mutate(ids);
+  };
+
+  const openDelete = (category: Category) => {
+    setDeleting(category);
+    setReassignTo(defaultCategories.find((c) => c.name === 'Other')?.id ?? null);
+    deleteCategory.reset();
+  };
+
+  const confirmDelete = () => {
+    if (!deleting) return;
+    deleteCategory.mutate(
+      { id: deleting.id, reassignTo: reassignTo ?? undefined },
+      { onSuccess: () => setDeleting(null) }
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Categories</h1>
+        <button
+          onClick={openCreate}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Category
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">Loading...</div>
+      ) : (
+        <>
+          <div>
+            <h2 className="text-lg font-medium text-gray-900 mb-4">My Categories</h2>
+            {customCategories.length === 0 ? (
+              <div className="text-center py-8 text-gray-500 bg-white shadow rounded-lg">
+                No custom categories yet.
+              </div>
+            ) : (
+              <div className="bg-white shadow rounded-lg overflow-hidden">
+                <ul className="divide-y divide-gray-200">
+                  {customCategories.map((category, index) => (
+                    <li key={category.id} className="p-4 hover:bg-gray-50">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-4">
+                          <CategoryIcon icon={category.icon} className="w-5 h-5" />
+                          <span className="text-sm font-medium text-gray-900">{category.name}</span>
+                        </div>
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={() => move(index, -1)}
+                            disabled={index === 0 || reorderCategories.isPending}
+                            className="p-1 text-gray-400 hover:text-indigo-600 disabled:opacity-30"
+                            title="Move up"
+                          >
+                            <ArrowUp className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => move(index, 1)}
+                            disabled={index === customCategories.length - 1 || reorderCategories.isPending}
+                            className="p-1 text-gray-400 hover:text-indigo-600 disabled:opacity-30"
+                            title="Move down"
+                          >
+                            <ArrowDown className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => openEdit(category)}
+                            className="p-1 text-gray-400 hover:text-indigo-600"
+                            title="Edit"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => openDelete(category)}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Default Categories</h2>
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-3">
+              {defaultCategories.map((category) => (
+                <div key={category.id} className="flex items-center space-x-3 bg-white shadow rounded-lg p-3">
+                  <CategoryIcon icon={category.icon} className="w-5 h-5" />
+                  <span className="text-sm text-gray-700">{category.name}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* Create/Edit Modal */}
+      <Modal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editingCategory ? 'Edit Category' : 'Add Category'}
+      >
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="category-name" className="block text-sm font-medium text-gray-700">
+              Name
+            </label>
+            <input
+              type="text"
+              id="category-name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+              placeholder="e.g. Childcare"
+            />
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">Icon</span>
+            <div className="grid grid-cols-6 gap-2">
+              {CATEGORY_ICONS.map((icon) => (
+                <button
+                  key={icon}
+                  type="button"
+                  onClick={() => setFormData({ ...formData, icon })}
+                  className={`flex justify-center rounded-full ${
+                    formData.icon === icon ? 'ring-2 ring-indigo-500' : ''
+                  }`}
+                  title={icon}
+                >
+                  <CategoryIcon icon={icon} className="w-5 h-5" />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {mutationError && <p className="text-sm text-red-600">{mutationError.message}</p>}
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={closeModal}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!formData.name.trim() || createCategory.isPending || updateCategory.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {createCategory.isPending || updateCategory.isPending
+                ? 'Saving...'
+                : editingCategory
+                ? 'Update'
+                : 'Create'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Delete Confirmation Modal */}
+      <Modal isOpen={deleting !== null} onClose={() => setDeleting(null)} title="Delete Category">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">
+            Expenses in <span className="font-medium text-gray-900">{deleting?.name}</span> will be
+            moved to the category you choose below.
+          </p>
+          <div>
+            <label htmlFor="reassign-to" className="block text-sm font-medium text-gray-700">
+              Move expenses to
+            </label>
+            <select
+              id="reassign-to"
+              value={reassignTo ?? ''}
+              onChange={(e) => setReassignTo(Number(e.target.value) || null)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+            >
+              {categories
+                ?.filter((c) => c.id !== deleting?.id)
+                .map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+          {deleteCategory.error && (
+            <p className="text-sm text-red-600">{deleteCategory.error.message}</p>
+          )}
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setDeleting(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={confirmDelete}
+              disabled={deleteCategory.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 disabled:opacity-50"
+            >
+              {deleteCategory.isPending ? 'Deleting...' : 'Delete'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
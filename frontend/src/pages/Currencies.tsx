@@ -0,0 +1,358 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2, Upload, AlertTriangle } from 'lucide-react';
+import {
+  useCurrencySettings,
+  useUpdateCurrencySettings,
+  useExchangeRates,
+  useRateCurrencies,
+  useSaveExchangeRate,
+  useImportExchangeRates,
+  useDeleteExchangeRate,
+} from '../hooks/useCurrency';
+import { COMMON_CURRENCIES } from '../api/currency';
+import { Modal } from '../components/Modal';
+import type { ExchangeRateData } from '../types';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export function Currencies() {
+  const { data: settings } = useCurrencySettings();
+  const updateSettings = useUpdateCurrencySettings();
+  const [currencyFilter, setCurrencyFilter] = useState('');
+  const { data: rates, isLoading: ratesLoading } = useExchangeRates(currencyFilter || undefined);
+  const { data: summaries, isLoading: summariesLoading } = useRateCurrencies();
+  const saveRate = useSaveExchangeRate();
+  const importRates = useImportExchangeRates();
+  const deleteRate = useDeleteExchangeRate();
+
+  const baseCurrency = settings?.baseCurrency ?? 'USD';
+  const [selectedBase, setSelectedBase] = useState(baseCurrency);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formData, setFormData] = useState<ExchangeRateData>({ currency: '', date: today(), rate: 0 });
+  const [ratesFile, setRatesFile] = useState<File | null>(null);
+
+  useEffect(() => {
+    setSelectedBase(baseCurrency);
+  }, [baseCurrency]);
+
+  const baseChoices = [...new Set([baseCurrency, ...COMMON_CURRENCIES])];
+  const foreignChoices = [...new Set([...(summaries?.map((s) => s.currency) ?? []), ...COMMON_CURRENCIES])].filter(
+    (code) => code !== baseCurrency
+  );
+
+  const openForm = (currency = '') => {
+    setFormData({ currency, date: today(), rate: 0 });
+    saveRate.reset();
+    setIsModalOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.currency || !formData.rate || formData.rate <= 0) return;
+    saveRate.mutate(
+      { ...formData, currency: formData.currency.trim().toUpperCase() },
+      { onSuccess: () => setIsModalOpen(false) }
+    );
+  };
+
+  const handleImport = async () => {
+    if (!ratesFile) return;
+    importRates.mutate(await ratesFile.text());
+  };
+
+  const importResult = importRates.data;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Currencies</h1>
+        <button
+          onClick={() => openForm()}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Rate
+        </button>
+      </div>
+
+      {/* Base currency */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900">Base currency</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Totals, reports and budgets are shown in this currency. Expenses in other currencies are converted with
+          the latest rate on or before their date, or the earliest rate after it when they are older than every rate.
+        </p>
+        <div className="mt-4 flex items-center space-x-3">
+          <select
+            value={selectedBase}
+            onChange={(e) => setSelectedBase(e.target.value)}
+            className="block w-32 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+          >
+            {baseChoices.map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => updateSettings.mutate({ baseCurrency: selectedBase })}
+            disabled={selectedBase === baseCurrency || updateSettings.isPending}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {updateSettings.isPending ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+        {selectedBase !== baseCurrency && (
+          <p className="mt-2 text-sm text-yellow-700">
+            Expenses keep their own currency. Rates are kept per base currency, so {selectedBase} needs rates of its own.
+          </p>
+        )}
+        {updateSettings.error && <p className="mt-2 text-sm text-red-600">{updateSettings.error.message}</p>}
+      </div>
+
+      {/* Currencies in use */}
+      <div>
+        <h2 className="text-lg font-medium text-gray-900 mb-4">Other currencies</h2>
+        {summariesLoading ? (
+          <div className="text-center py-8 text-gray-500">Loading...</div>
+        ) : !summaries || summaries.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 bg-white shadow rounded-lg">
+            All of your expenses are in {baseCurrency}.
+          </div>
+        ) : (
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Currency</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Expenses</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Rates</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Latest rate</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {summaries.map((summary) => (
+                  <tr key={summary.currency}>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{summary.currency}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{summary.expenseCount}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {summary.rateCount > 0 ? (
+                        <button
+                          onClick={() => setCurrencyFilter(summary.currency)}
+                          className="text-indigo-600 hover:text-indigo-800"
+                        >
+                          {summary.rateCount} ({summary.firstDate} to {summary.lastDate})
+                        </button>
+                      ) : (
+                        <span className="inline-flex items-center text-yellow-700">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          None, left out of totals
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {summary.latestRate !== null && `1 ${summary.currency} = ${summary.latestRate} ${baseCurrency}`}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => openForm(summary.currency)}
+                        className="text-sm text-indigo-600 hover:text-indigo-800"
+                      >
+                        Add rate
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Rates */}
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-medium text-gray-900">Exchange rates</h2>
+          <select
+            value={currencyFilter}
+            onChange={(e) => setCurrencyFilter(e.target.value)}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="">All currencies</option>
+            {summaries
+              ?.filter((s) => s.rateCount > 0)
+              .map((s) => (
+                <option key={s.currency} value={s.currency}>
+                  {s.currency}
+                </option>
+              ))}
+          </select>
+        </div>
+        {ratesLoading ? (
+          <div className="text-center py-8 text-gray-500">Loading...</div>
+        ) : !rates || rates.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 bg-white shadow rounded-lg">
+            No exchange rates against {baseCurrency} yet.
+          </div>
+        ) : (
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Currency</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Rate</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rates.map((rate) => (
+                  <tr key={rate.id}>
+                    <td className="px-4 py-3 text-sm text-gray-600">{rate.date}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{rate.currency}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      1 {rate.currency} = {rate.rate} {rate.baseCurrency}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => deleteRate.mutate(rate.id)}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Rates file */}
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Import rates</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            A CSV file with date (YYYY-MM-DD), currency and rate columns, where the rate is the value of one unit of
+            the currency in {baseCurrency}. Rates for a day that already has one replace it.
+          </p>
+        </div>
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => {
+            setRatesFile(e.target.files?.[0] || null);
+            importRates.reset();
+          }}
+          className="block text-sm text-gray-700"
+        />
+        <button
+          onClick={handleImport}
+          disabled={!ratesFile || importRates.isPending}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          {importRates.isPending ? 'Importing...' : 'Import'}
+        </button>
+        {importRates.error && <p className="text-sm text-red-600">{importRates.error.message}</p>}
+        {importResult && (
+          <div
+            className={`rounded-md border p-4 text-sm ${
+              importResult.errors.length > 0
+                ? 'bg-yellow-50 border-yellow-200 text-yellow-800'
+                : 'bg-green-50 border-green-200 text-green-800'
+            }`}
+          >
+            <p className="font-medium">
+              {importResult.importedCount === 1 ? '1 rate' : `${importResult.importedCount} rates`} imported.
+            </p>
+            {importResult.errors.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {importResult.errors.map((error) => (
+                  <li key={error.line}>
+                    Line {error.line}: {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title="Add Exchange Rate">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="rate-currency" className="block text-sm font-medium text-gray-700">
+              Currency
+            </label>
+            <input
+              type="text"
+              id="rate-currency"
+              list="rate-currencies"
+              maxLength={3}
+              value={formData.currency}
+              onChange={(e) => setFormData({ ...formData, currency: e.target.value.toUpperCase() })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+              placeholder="EUR"
+            />
+            <datalist id="rate-currencies">
+              {foreignChoices.map((code) => (
+                <option key={code} value={code} />
+              ))}
+            </datalist>
+          </div>
+
+          <div>
+            <label htmlFor="rate-date" className="block text-sm font-medium text-gray-700">
+              Date
+            </label>
+            <input
+              type="date"
+              id="rate-date"
+              value={formData.date}
+              onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="rate-value" className="block text-sm font-medium text-gray-700">
+              Value of 1 {formData.currency || 'unit'} in {baseCurrency}
+            </label>
+            <input
+              type="number"
+              id="rate-value"
+              step="any"
+              min="0"
+              value={formData.rate || ''}
+              onChange={(e) => setFormData({ ...formData, rate: Number(e.target.value) })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+            />
+          </div>
+
+          {saveRate.error && <p className="text-sm text-red-600">{saveRate.error.message}</p>}
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={() => setIsModalOpen(false)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={formData.currency.length !== 3 || !formData.date || !formData.rate || saveRate.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {saveRate.isPending ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
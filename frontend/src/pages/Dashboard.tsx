@@ -1,5 +1,10 @@
-import { useExpenses, useMonthlyTotal } from '../hooks/useExpenses';
+import { Link } from 'react-router-dom';
+import { useExpenses, useExpenseStats } from '../hooks/useExpenses';
+import { useBudgetSummary } from '../hooks/useBudgets';
 import { ExpenseList } from '../components/ExpenseList';
+import { BudgetProgressList } from '../components/BudgetProgressList';
+import { formatMoney } from '../api/currency';
+import { UnconvertedNotice } from '../components/UnconvertedNotice';
 import { DollarSign, TrendingUp, TrendingDown, Receipt } from 'lucide-react';
 
 interface DashboardProps {
@@ -8,22 +13,23 @@ interface DashboardProps {
 
 export function Dashboard({ onEditExpense }: DashboardProps) {
   const { data: expenses, isLoading: expensesLoading } = useExpenses();
-  const { data: monthlyTotal, isLoading: totalLoading } = useMonthlyTotal();
+  const { data: stats, isLoading: statsLoading } = useExpenseStats({ interval: 'month' });
+  const { data: budgetSummary } = useBudgetSummary();
 
   const now = new Date();
   const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-  const { data: lastMonthTotal, isLoading: lastMonthLoading } = useMonthlyTotal(
-    lastMonth.getFullYear(),
-    lastMonth.getMonth() + 1
-  );
 
   const recentExpenses = expenses?.slice(0, 5) || [];
-  const totalExpenses = expenses?.length || 0;
+  const totalExpenses = stats?.totals.count || 0;
+  const averageExpense = stats?.totals.average || 0;
+  const currency = stats?.currency ?? 'USD';
 
   const monthName = new Date().toLocaleDateString('en-US', { month: 'long' });
 
-  const currentTotal = monthlyTotal?.total || 0;
-  const previousTotal = lastMonthTotal?.total || 0;
+  const monthTotal = (date: Date) =>
+    stats?.byPeriod.find((p) => p.period === toMonthKey(date))?.total || 0;
+  const currentTotal = monthTotal(now);
+  const previousTotal = monthTotal(lastMonth);
   const difference = currentTotal - previousTotal;
   const percentChange = previousTotal > 0 ? (difference / previousTotal) * 100 : 0;
 
@@ -31,6 +37,8 @@ export function Dashboard({ onEditExpense }: DashboardProps) {
     <div className="space-y-6">
       <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
 
+      {stats && <UnconvertedNotice count={stats.unconvertedCount} />}
+
       {/* Stats */}
       <div className="grid grid-cols-1 gap-5 sm:grid-cols-3">
         <div className="bg-white overflow-hidden shadow rounded-lg">
@@ -45,9 +53,9 @@ export function Dashboard({ onEditExpense }: DashboardProps) {
                     {monthName} Spending
                   </dt>
                   <dd className="text-lg font-semibold text-gray-900">
-                    {totalLoading ? '...' : `$${monthlyTotal?.total.toFixed(2) || '0.00'}`}
+                    {statsLoading ? '...' : formatMoney(currentTotal, currency)}
                   </dd>
-                  {!totalLoading && !lastMonthLoading && previousTotal > 0 && (
+                  {!statsLoading && previousTotal > 0 && (
                     <dd className={`flex items-center text-sm ${difference >= 0 ? 'text-red-600' : 'text-green-600'}`}>
                       {difference >= 0 ? (
                         <TrendingUp className="h-4 w-4 mr-1" />
@@ -73,7 +81,7 @@ export function Dashboard({ onEditExpense }: DashboardProps) {
                 <dl>
                   <dt className="text-sm font-medium text-gray-500 truncate">Total Expenses</dt>
                   <dd className="text-lg font-semibold text-gray-900">
-                    {expensesLoading ? '...' : totalExpenses}
+                    {statsLoading ? '...' : totalExpenses}
                   </dd>
                 </dl>
               </div>
@@ -91,9 +99,7 @@ export function Dashboard({ onEditExpense }: DashboardProps) {
                 <dl>
                   <dt className="text-sm font-medium text-gray-500 truncate">Avg per Expense</dt>
                   <dd className="text-lg font-semibold text-gray-900">
-                    {expensesLoading || !expenses?.length
-                      ? '$0.00'
-                      : `$${(expenses.reduce((sum, e) => sum + e.amount, 0) / expenses.length).toFixed(2)}`}
+                    {statsLoading ? '...' : formatMoney(averageExpense, currency)}
                   </dd>
                 </dl>
               </div>
@@ -102,6 +108,17 @@ export function Dashboard({ onEditExpense }: DashboardProps) {
         </div>
       </div>
 
+      {/* Budgets */}
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-medium text-gray-900">{monthName} Budgets</h2>
+          <Link to="/budgets" className="text-sm text-indigo-600 hover:text-indigo-800">
+            Manage budgets
+          </Link>
+        </div>
+        {budgetSummary && <BudgetProgressList summary={budgetSummary} />}
+      </div>
+
       {/* Recent Expenses */}
       <div>
         <h2 className="text-lg font-medium text-gray-900 mb-4">Recent Expenses</h2>
@@ -118,3 +135,7 @@ export function Dashboard({ onEditExpense }: DashboardProps) {
     </div>
   );
 }
+
+function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
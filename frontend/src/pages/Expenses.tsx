@@ -1,9 +1,20 @@
 import { useState, useDeferredValue } from 'react';
-import { Plus, Search, Calendar } from 'lucide-react';
-import { useExpenses, useCreateExpense, useUpdateExpense, useDeleteExpense } from '../hooks/useExpenses';
+import { useSearchParams } from 'react-router-dom';
+import { Plus, Search, Calendar, Download } from 'lucide-react';
+import {
+  useExpenses,
+  useCreateExpense,
+  useUpdateExpense,
+  useDeleteExpense,
+  useExportExpenses,
+} from '../hooks/useExpenses';
+import { useCategories } from '../hooks/useCategories';
+import { useTags } from '../hooks/useTags';
 import { ExpenseList } from '../components/ExpenseList';
 import { ExpenseForm } from '../components/ExpenseForm';
+import { ExpenseAttachments } from '../components/ExpenseAttachments';
 import { Modal } from '../components/Modal';
+import type { ExportFormat } from '../api/expenses';
 import type { Expense, CreateExpenseData } from '../types';
 
 type DatePreset = 'all' | 'this-month' | 'last-month' | 'last-12-months' | 'custom';
@@ -44,21 +55,40 @@ function getDateRange(preset: DatePreset): { startDate?: string; endDate?: strin
 }
 
 export function Expenses() {
-  const [searchQuery, setSearchQuery] = useState('');
+  // Filters can be pre-set from links such as the Reports page charts
+  const [searchParams] = useSearchParams();
+  const initialStartDate = searchParams.get('startDate') || '';
+  const initialEndDate = searchParams.get('endDate') || '';
+
+  const { data: categories } = useCategories();
+  const { data: tags } = useTags();
+  const [searchQuery, setSearchQuery] = useState(searchParams.get('search') || '');
   const deferredSearch = useDeferredValue(searchQuery);
+  const [categoryId, setCategoryId] = useState<number | undefined>(
+    Number(searchParams.get('categoryId')) || undefined
+  );
+  const [tag, setTag] = useState<string | undefined>(searchParams.get('tag') || undefined);
 
-  const [datePreset, setDatePreset] = useState<DatePreset>('all');
-  const [customStartDate, setCustomStartDate] = useState('');
-  const [customEndDate, setCustomEndDate] = useState('');
+  const [datePreset, setDatePreset] = useState<DatePreset>(
+    initialStartDate || initialEndDate ? 'custom' : 'all'
+  );
+  const [customStartDate, setCustomStartDate] = useState(initialStartDate);
+  const [customEndDate, setCustomEndDate] = useState(initialEndDate);
 
   const dateRange = datePreset === 'custom'
     ? { startDate: customStartDate || undefined, endDate: customEndDate || undefined }
     : getDateRange(datePreset);
 
-  const { data: expenses, isLoading } = useExpenses({
+  const filters = {
     search: deferredSearch || undefined,
+    categoryId,
+    tag,
     ...dateRange,
-  });
+  };
+
+  const { data: expenses, isLoading } = useExpenses(filters);
+  const exportExpenses = useExportExpenses();
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
   const createExpense = useCreateExpense();
   const updateExpense = useUpdateExpense();
   const deleteExpense = useDeleteExpense();
@@ -115,28 +145,83 @@ export function Expenses() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-bold text-gray-900">Expenses</h1>
-        <button
-          onClick={handleCreate}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700"
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          Add Expense
-        </button>
+        <div className="flex items-center gap-3">
+          <div className="inline-flex rounded-md shadow-sm">
+            <button
+              onClick={() => exportExpenses.mutate({ params: filters, format: exportFormat })}
+              disabled={exportExpenses.isPending}
+              title="Download the expenses matching the current filters"
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-l-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              {exportExpenses.isPending ? 'Exporting...' : 'Export'}
+            </button>
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              aria-label="Export format"
+              className="-ml-px px-2 py-2 border border-gray-300 text-sm rounded-r-md bg-white text-gray-700 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+            >
+              <option value="csv">CSV</option>
+              <option value="qif">QIF</option>
+            </select>
+          </div>
+          <button
+            onClick={handleCreate}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Expense
+          </button>
+        </div>
       </div>
 
+      {exportExpenses.error && (
+        <p className="text-sm text-red-600">Export failed: {exportExpenses.error.message}</p>
+      )}
+
       <div className="space-y-4">
-        {/* Search bar */}
-        <div className="relative">
-          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-            <Search className="h-5 w-5 text-gray-400" />
+        {/* Search bar, category and tag filters */}
+        <div className="flex gap-3">
+          <div className="relative flex-1">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              placeholder="Search expenses..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
           </div>
-          <input
-            type="text"
-            placeholder="Search expenses..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-          />
+          <select
+            value={categoryId ?? ''}
+            onChange={(e) => setCategoryId(Number(e.target.value) || undefined)}
+            className="px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          >
+            <option value="">All categories</option>
+            {categories?.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={tag ?? ''}
+            onChange={(e) => setTag(e.target.value || undefined)}
+            aria-label="Tag"
+            className="px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          >
+            <option value="">All tags</option>
+            {/* Keep a tag picked from a link selectable even when no expense carries it any more */}
+            {tag && !tags?.some((t) => t.name === tag) && <option value={tag}>#{tag}</option>}
+            {tags?.map((t) => (
+              <option key={t.id} value={t.name}>
+                #{t.name}
+              </option>
+            ))}
+          </select>
         </div>
 
         {/* Date filter */}
@@ -215,6 +300,7 @@ export function Expenses() {
           expenses={expenses || []}
           onEdit={handleEdit}
           onDelete={handleDelete}
+          onTagClick={setTag}
         />
       )}
 
@@ -236,6 +322,8 @@ export function Expenses() {
           initialData={editingExpense || undefined}
           isLoading={createExpense.isPending || updateExpense.isPending}
         />
+        {/* Files are kept per expense, so they can be added once it has been saved */}
+        {editingExpense && <ExpenseAttachments expenseId={editingExpense.id} />}
       </Modal>
 
       {/* Delete Confirmation Modal */}
@@ -1,13 +1,90 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Upload, History, FileSpreadsheet } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Upload, History, FileSpreadsheet, LayoutTemplate, Pencil, Trash2, Undo2 } from 'lucide-react';
 import { ImportWizard } from '../components/ImportWizard';
-import { useImportHistory } from '../hooks/useImport';
+import {
+  MappingOptionsFields,
+  mappingFields,
+  mappedColumns,
+  isMappingComplete,
+} from '../components/MappingOptionsFields';
+import { Modal } from '../components/Modal';
+import {
+  useImportHistory,
+  useImportTemplates,
+  useUpdateImportTemplate,
+  useDeleteImportTemplate,
+  useRevertImport,
+} from '../hooks/useImport';
+import type { ImportHistoryWithCounts, ImportTemplate, ImportTemplateData } from '../types';
+
+type TemplateFormData = Omit<ImportTemplateData, 'headers' | 'delimiter'>;
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+};
 
 export function Import() {
   const navigate = useNavigate();
   const [showWizard, setShowWizard] = useState(false);
   const { data: history, isLoading: historyLoading } = useImportHistory();
+  const { data: templates, isLoading: templatesLoading } = useImportTemplates();
+  const updateTemplate = useUpdateImportTemplate();
+  const deleteTemplate = useDeleteImportTemplate();
+  const revertImport = useRevertImport();
+
+  const [revertingImport, setRevertingImport] = useState<ImportHistoryWithCounts | null>(null);
+
+  const [editingTemplate, setEditingTemplate] = useState<ImportTemplate | null>(null);
+  const [templateForm, setTemplateForm] = useState<TemplateFormData | null>(null);
+
+  const openTemplate = (template: ImportTemplate) => {
+    setEditingTemplate(template);
+    setTemplateForm({
+      name: template.name,
+      columnMapping: {
+        ...template.columnMapping,
+        category: template.columnMapping.category || '',
+        currency: template.columnMapping.currency || '',
+      },
+      dateFormat: template.dateFormat,
+      numberFormat: template.numberFormat,
+      amountMode: template.amountMode,
+      amountSign: template.amountSign,
+      currency: template.currency,
+    });
+    updateTemplate.reset();
+  };
+
+  const closeTemplate = () => {
+    setEditingTemplate(null);
+    setTemplateForm(null);
+  };
+
+  const handleTemplateSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingTemplate || !templateForm) return;
+    const data = { ...templateForm, columnMapping: mappedColumns(templateForm.columnMapping, templateForm.amountMode) };
+    updateTemplate.mutate({ id: editingTemplate.id, data }, { onSuccess: closeTemplate });
+  };
+
+  const templateFormValid =
+    !!templateForm?.name.trim() && isMappingComplete(templateForm.columnMapping, templateForm.amountMode);
+
+  const openRevert = (item: ImportHistoryWithCounts) => {
+    revertImport.reset();
+    setRevertingImport(item);
+  };
+
+  const handleRevert = () => {
+    if (!revertingImport) return;
+    revertImport.mutate(
+      { historyId: revertingImport.id, force: revertingImport.editedExpenses > 0 },
+      { onSuccess: () => setRevertingImport(null) }
+    );
+  };
 
   const handleComplete = () => {
     setShowWizard(false);
@@ -86,6 +163,81 @@ export function Import() {
         </div>
       </div>
 
+      {/* Mapping Templates */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900 flex items-center">
+            <LayoutTemplate className="w-5 h-5 mr-2 text-gray-400" />
+            Mapping Templates
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Saved from the mapping step. A template is picked automatically when a file with the same columns is
+            uploaded.
+          </p>
+        </div>
+        <div className="p-6">
+          {templatesLoading ? (
+            <div className="text-center py-4 text-gray-500">Loading...</div>
+          ) : templates && templates.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead>
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Columns</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Options</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {templates.map((template) => (
+                    <tr key={template.id}>
+                      <td className="px-4 py-3 text-sm text-gray-900">{template.name}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {mappingFields(template.amountMode)
+                          .filter((field) => template.columnMapping[field.key])
+                          .map((field) => `${field.label}: ${template.columnMapping[field.key]}`)
+                          .join(', ')}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-500">
+                        {DELIMITER_LABELS[template.delimiter] ?? template.delimiter},{' '}
+                        {template.dateFormat === 'auto' ? 'any date format' : template.dateFormat}
+                        {template.numberFormat !== 'auto' && `, ${template.numberFormat}`}
+                        {template.currency && `, ${template.currency}`}
+                        {template.amountMode === 'split' && ', debit/credit columns'}
+                        {template.amountMode === 'signed' && template.amountSign === 'negative' && ', expenses negative'}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => openTemplate(template)}
+                          className="p-1 text-gray-400 hover:text-indigo-600"
+                          title="Edit"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => deleteTemplate.mutate(template.id)}
+                          disabled={deleteTemplate.isPending}
+                          className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-gray-500">
+              <LayoutTemplate className="mx-auto h-8 w-8 text-gray-300 mb-2" />
+              <p className="text-sm">No saved templates yet</p>
+            </div>
+          )}
+        </div>
+      </div>
+
       {/* Import History */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200">
         <div className="px-6 py-4 border-b border-gray-200">
@@ -114,6 +266,7 @@ export function Import() {
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
                       Skipped
                     </th>
+                    <th className="px-4 py-2" />
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200">
@@ -122,12 +275,36 @@ export function Import() {
                       <td className="px-4 py-3 text-sm text-gray-600">
                         {new Date(item.createdAt).toLocaleDateString()}
                       </td>
-                      <td className="px-4 py-3 text-sm text-gray-900">{item.fileName}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <Link to={`/import/history/${item.id}`} className="text-indigo-600 hover:text-indigo-800">
+                          {item.fileName}
+                        </Link>
+                      </td>
                       <td className="px-4 py-3 text-sm">
                         <span className="text-green-600 font-medium">{item.importedRows}</span>
                         <span className="text-gray-400"> / {item.totalRows}</span>
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-500">{item.skippedRows}</td>
+                      <td className="px-4 py-3 text-right text-sm whitespace-nowrap">
+                        {item.revertedAt ? (
+                          <span
+                            className="text-gray-400"
+                            title={`Reverted on ${new Date(item.revertedAt).toLocaleDateString()}`}
+                          >
+                            Reverted
+                          </span>
+                        ) : (
+                          item.remainingExpenses > 0 && (
+                            <button
+                              onClick={() => openRevert(item)}
+                              className="inline-flex items-center text-indigo-600 hover:text-indigo-800"
+                            >
+                              <Undo2 className="w-4 h-4 mr-1" />
+                              Revert
+                            </button>
+                          )
+                        )}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -141,6 +318,112 @@ export function Import() {
           )}
         </div>
       </div>
+
+      <Modal isOpen={!!revertingImport} onClose={() => setRevertingImport(null)} title="Revert Import">
+        {revertingImport && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+              This deletes the {revertingImport.remainingExpenses}{' '}
+              {revertingImport.remainingExpenses === 1 ? 'expense' : 'expenses'} imported from{' '}
+              <span className="font-medium text-gray-700">{revertingImport.fileName}</span>. The entry stays in the
+              history, marked as reverted.
+            </p>
+            {revertingImport.editedExpenses > 0 && (
+              <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md p-3">
+                {revertingImport.editedExpenses}{' '}
+                {revertingImport.editedExpenses === 1 ? 'of these expenses was' : 'of these expenses were'} edited
+                after the import and will be deleted as well.
+              </p>
+            )}
+            {revertImport.error && <p className="text-sm text-red-600">{revertImport.error.message}</p>}
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setRevertingImport(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRevert}
+                disabled={revertImport.isPending}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 disabled:opacity-50"
+              >
+                {revertImport.isPending ? 'Reverting...' : 'Revert'}
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      <Modal isOpen={!!editingTemplate} onClose={closeTemplate} title="Edit Template">
+        {editingTemplate && templateForm && (
+          <form onSubmit={handleTemplateSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="template-name" className="block text-sm font-medium text-gray-700">
+                Name
+              </label>
+              <input
+                type="text"
+                id="template-name"
+                value={templateForm.name}
+                onChange={(e) => setTemplateForm({ ...templateForm, name: e.target.value })}
+                maxLength={100}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              {mappingFields(templateForm.amountMode).map((field) => (
+                <div key={field.key}>
+                  <label className="block text-sm font-medium text-gray-700">
+                    {field.label} {field.required && <span className="text-red-500">*</span>}
+                  </label>
+                  <select
+                    value={templateForm.columnMapping[field.key] || ''}
+                    onChange={(e) =>
+                      setTemplateForm({
+                        ...templateForm,
+                        columnMapping: { ...templateForm.columnMapping, [field.key]: e.target.value },
+                      })
+                    }
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                  >
+                    <option value="">-- Select Column --</option>
+                    {editingTemplate.headers.map((header) => (
+                      <option key={header} value={header}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              <MappingOptionsFields
+                options={templateForm}
+                onChange={(options) => setTemplateForm({ ...templateForm, ...options })}
+              />
+            </div>
+
+            {updateTemplate.error && <p className="text-sm text-red-600">{updateTemplate.error.message}</p>}
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={closeTemplate}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!templateFormValid || updateTemplate.isPending}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {updateTemplate.isPending ? 'Saving...' : 'Update'}
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
     </div>
   );
 }
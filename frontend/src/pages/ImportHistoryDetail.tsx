@@ -0,0 +1,217 @@
+import { Fragment, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Check, AlertCircle, SkipForward, ChevronDown, ChevronRight } from 'lucide-react';
+import { useImportHistoryDetail } from '../hooks/useImport';
+import { useBaseCurrency } from '../hooks/useCurrency';
+import { formatMoney } from '../api/currency';
+import type { ImportHistoryRow, ImportRowOutcome, SkipReason } from '../types';
+
+type OutcomeFilter = 'all' | ImportRowOutcome;
+
+const FILTERS: { key: OutcomeFilter; label: string }[] = [
+  { key: 'all', label: 'All' },
+  { key: 'imported', label: 'Imported' },
+  { key: 'skipped', label: 'Skipped' },
+  { key: 'invalid', label: 'Invalid' },
+];
+
+const SKIP_REASONS: Record<SkipReason, string> = {
+  duplicate: 'Looked like an expense that was already imported',
+  credit: 'Credit or refund, not an expense',
+  transfer: 'Transfer between accounts',
+  zero: 'Zero amount, nothing to import',
+  manual: 'Skipped during preview',
+  rule: 'Skipped by a rule',
+};
+
+function expenseLink(row: ImportHistoryRow): string {
+  const params = new URLSearchParams();
+  if (row.date) {
+    params.set('startDate', row.date);
+    params.set('endDate', row.date);
+  }
+  if (row.description) params.set('search', row.description);
+  return `/expenses?${params}`;
+}
+
+function OutcomeBadge({ outcome }: { outcome: ImportRowOutcome }) {
+  if (outcome === 'imported') {
+    return (
+      <span className="inline-flex items-center text-xs text-green-600">
+        <Check className="w-3 h-3 mr-1" /> Imported
+      </span>
+    );
+  }
+  if (outcome === 'skipped') {
+    return (
+      <span className="inline-flex items-center text-xs text-gray-500">
+        <SkipForward className="w-3 h-3 mr-1" /> Skipped
+      </span>
+    );
+  }
+  return (
+    <span className="inline-flex items-center text-xs text-red-600">
+      <AlertCircle className="w-3 h-3 mr-1" /> Invalid
+    </span>
+  );
+}
+
+function OutcomeDetail({ row }: { row: ImportHistoryRow }) {
+  if (row.outcome === 'skipped') {
+    return <span className="text-gray-500">{row.skipReason ? SKIP_REASONS[row.skipReason] : 'Skipped'}</span>;
+  }
+  if (row.outcome === 'invalid') {
+    return <span className="text-red-600">{row.errors.map((e) => e.message).join(', ')}</span>;
+  }
+  if (row.expenseExists) {
+    return (
+      <Link to={expenseLink(row)} className="text-indigo-600 hover:text-indigo-800">
+        View expense
+      </Link>
+    );
+  }
+  return <span className="text-gray-400">Expense since deleted</span>;
+}
+
+export function ImportHistoryDetail() {
+  const { id } = useParams();
+  const { data, isLoading, error } = useImportHistoryDetail(Number(id));
+  const baseCurrency = useBaseCurrency();
+  const [filter, setFilter] = useState<OutcomeFilter>('all');
+  const [expandedRow, setExpandedRow] = useState<number | null>(null);
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-gray-500">Loading...</div>;
+  }
+
+  if (error || !data) {
+    return (
+      <div className="space-y-4">
+        <Link to="/import" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to Import
+        </Link>
+        <div className="text-center py-8 text-gray-500 bg-white shadow rounded-lg">
+          {error?.message || 'Import not found'}
+        </div>
+      </div>
+    );
+  }
+
+  const { history, columns, rows } = data;
+  const counts = {
+    all: rows.length,
+    imported: rows.filter((r) => r.outcome === 'imported').length,
+    skipped: rows.filter((r) => r.outcome === 'skipped').length,
+    invalid: rows.filter((r) => r.outcome === 'invalid').length,
+  };
+  const visibleRows = filter === 'all' ? rows : rows.filter((r) => r.outcome === filter);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link to="/import" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to Import
+        </Link>
+        <h1 className="mt-2 text-2xl font-bold text-gray-900">{history.fileName}</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Imported {new Date(history.createdAt).toLocaleString()} — {history.importedRows} of {history.totalRows}{' '}
+          rows imported, {history.skippedRows} not imported
+          {history.revertedAt && (
+            <span className="ml-2 text-gray-400">(reverted {new Date(history.revertedAt).toLocaleDateString()})</span>
+          )}
+        </p>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 bg-white shadow rounded-lg">
+          Row details are not available for this import.
+        </div>
+      ) : (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-200 flex space-x-2">
+            {FILTERS.map(({ key, label }) => (
+              <button
+                key={key}
+                onClick={() => setFilter(key)}
+                className={`px-3 py-1.5 text-sm font-medium rounded-md ${
+                  filter === key ? 'text-indigo-600 bg-indigo-50' : 'text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {label} ({counts[key]})
+              </button>
+            ))}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2" />
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Outcome</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Amount</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Category</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Details</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visibleRows.map((row) => (
+                  <Fragment key={row.rowIndex}>
+                    <tr className={row.outcome === 'invalid' ? 'bg-red-50' : ''}>
+                      <td className="pl-4 py-2">
+                        <button
+                          onClick={() => setExpandedRow(expandedRow === row.rowIndex ? null : row.rowIndex)}
+                          className="p-1 text-gray-400 hover:text-gray-600"
+                          title="Original values"
+                        >
+                          {expandedRow === row.rowIndex ? (
+                            <ChevronDown className="w-4 h-4" />
+                          ) : (
+                            <ChevronRight className="w-4 h-4" />
+                          )}
+                        </button>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{row.rowIndex + 1}</td>
+                      <td className="px-4 py-2">
+                        <OutcomeBadge outcome={row.outcome} />
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{row.date || '—'}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        {row.amount != null ? formatMoney(row.amount, row.currency ?? baseCurrency) : '—'}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-900 max-w-xs truncate">{row.description || '—'}</td>
+                      <td className="px-4 py-2 text-sm text-gray-600">{row.category || 'Other'}</td>
+                      <td className="px-4 py-2 text-sm">
+                        <OutcomeDetail row={row} />
+                      </td>
+                    </tr>
+                    {expandedRow === row.rowIndex && (
+                      <tr className="bg-gray-50">
+                        <td />
+                        <td colSpan={7} className="px-4 py-3">
+                          <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm sm:grid-cols-4">
+                            {columns.map((column) => (
+                              <div key={column}>
+                                <dt className="text-xs text-gray-500">{column}</dt>
+                                <dd className="text-gray-900 break-words">
+                                  {row.originalData[column] || <span className="text-gray-300">empty</span>}
+                                </dd>
+                              </div>
+                            ))}
+                          </dl>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
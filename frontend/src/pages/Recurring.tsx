@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Plus, Pencil, Trash2, SkipForward, Repeat } from 'lucide-react';
+import {
+  useRecurringExpenses,
+  useCreateRecurring,
+  useUpdateRecurring,
+  useSkipOccurrence,
+  useDeleteRecurring,
+} from '../hooks/useRecurring';
+import { RecurringForm } from '../components/RecurringForm';
+import { CategoryIcon } from '../components/CategoryIcon';
+import { Modal } from '../components/Modal';
+import { formatMoney } from '../api/currency';
+import type { RecurringExpense, CreateRecurringData, UpdateRecurringData } from '../types';
+
+const FREQUENCY_UNITS: Record<RecurringExpense['frequency'], [string, string]> = {
+  daily: ['day', 'days'],
+  weekly: ['week', 'weeks'],
+  monthly: ['month', 'months'],
+  yearly: ['year', 'years'],
+};
+
+function describeSchedule(rule: RecurringExpense): string {
+  const [singular, plural] = FREQUENCY_UNITS[rule.frequency];
+  const every = rule.interval === 1 ? `Every ${singular}` : `Every ${rule.interval} ${plural}`;
+  return rule.endDate ? `${every} until ${formatDate(rule.endDate)}` : every;
+}
+
+export function Recurring() {
+  const [searchParams] = useSearchParams();
+  const highlightedId = Number(searchParams.get('rule')) || null;
+
+  const { data: rules, isLoading } = useRecurringExpenses();
+  const createRecurring = useCreateRecurring();
+  const updateRecurring = useUpdateRecurring();
+  const skipOccurrence = useSkipOccurrence();
+  const deleteRecurring = useDeleteRecurring();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<RecurringExpense | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<number | null>(null);
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingRule(null);
+  };
+
+  const handleSubmit = (data: CreateRecurringData | UpdateRecurringData) => {
+    if (editingRule) {
+      updateRecurring.mutate({ id: editingRule.id, data }, { onSuccess: closeModal });
+    } else {
+      createRecurring.mutate(data as CreateRecurringData, { onSuccess: closeModal });
+    }
+  };
+
+  const confirmDelete = () => {
+    if (deleteConfirmId) {
+      deleteRecurring.mutate(deleteConfirmId, {
+        onSuccess: () => {
+          setDeleteConfirmId(null);
+        },
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Recurring Expenses</h1>
+        <button
+          onClick={() => {
+            setEditingRule(null);
+            setIsModalOpen(true);
+          }}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Recurring
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">Loading...</div>
+      ) : !rules || rules.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <Repeat className="mx-auto h-8 w-8 text-gray-300 mb-2" />
+          No recurring expenses yet. Add rent, subscriptions and other regular charges here.
+        </div>
+      ) : (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <ul className="divide-y divide-gray-200">
+            {rules.map((rule) => (
+              <li
+                key={rule.id}
+                className={`p-4 ${rule.id === highlightedId ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-4">
+                    <div className="flex-shrink-0">
+                      <CategoryIcon icon={rule.categoryIcon} />
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{rule.description}</p>
+                      <p className="text-sm text-gray-500">
+                        {rule.categoryName} &middot; {describeSchedule(rule)}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        {rule.nextDate ? `Next: ${formatDate(rule.nextDate)}` : 'Ended'}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <span className="text-sm font-semibold text-gray-900">
+                      {formatMoney(rule.amount, rule.currency)}
+                    </span>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => skipOccurrence.mutate(rule.id)}
+                        disabled={!rule.nextDate || skipOccurrence.isPending}
+                        className="p-1 text-gray-400 hover:text-indigo-600 disabled:opacity-50"
+                        title="Skip next occurrence"
+                      >
+                        <SkipForward className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => {
+                          setEditingRule(rule);
+                          setIsModalOpen(true);
+                        }}
+                        className="p-1 text-gray-400 hover:text-indigo-600"
+                        title="Edit"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setDeleteConfirmId(rule.id)}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Create/Edit Modal */}
+      <Modal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editingRule ? 'Edit Recurring Expense' : 'Add Recurring Expense'}
+      >
+        <RecurringForm
+          key={editingRule?.id ?? 'new'}
+          onSubmit={handleSubmit}
+          onCancel={closeModal}
+          initialData={editingRule || undefined}
+          isLoading={createRecurring.isPending || updateRecurring.isPending}
+        />
+      </Modal>
+
+      {/* Delete Confirmation Modal */}
+      <Modal
+        isOpen={deleteConfirmId !== null}
+        onClose={() => setDeleteConfirmId(null)}
+        title="Delete Recurring Expense"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">
+            No further expenses will be created from this rule. Expenses it already created are kept.
+          </p>
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setDeleteConfirmId(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={confirmDelete}
+              disabled={deleteRecurring.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 disabled:opacity-50"
+            >
+              {deleteRecurring.isPending ? 'Deleting...' : 'Delete'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
+
+function formatDate(dateString: string): string {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
@@ -0,0 +1,207 @@
+import { useNavigate } from 'react-router-dom';
+import { useExpenseStats } from '../hooks/useExpenses';
+import { useCategories } from '../hooks/useCategories';
+import { DonutChart, StackedBarChart, LineChart, CHART_COLORS } from '../components/Charts';
+import type { StackedBar } from '../components/Charts';
+import { UnconvertedNotice } from '../components/UnconvertedNotice';
+import { formatMoney } from '../api/currency';
+
+function toDateKey(year: number, monthIndex: number, day: number): string {
+  const date = new Date(year, monthIndex, day);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function monthBounds(year: number, monthIndex: number): { startDate: string; endDate: string } {
+  return {
+    startDate: toDateKey(year, monthIndex, 1),
+    endDate: toDateKey(year, monthIndex + 1, 0),
+  };
+}
+
+function cumulative(values: number[]): number[] {
+  let running = 0;
+  return values.map((value) => (running += value));
+}
+
+export function Reports() {
+  const navigate = useNavigate();
+  const { data: categories } = useCategories();
+
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = now.getMonth();
+
+  // Last 12 months including the current one
+  const rangeStart = toDateKey(year, month - 11, 1);
+  const rangeEnd = toDateKey(year, month + 1, 0);
+  const months = Array.from({ length: 12 }, (_, i) => new Date(year, month - 11 + i, 1));
+
+  const { data: yearStats, isLoading: yearLoading } = useExpenseStats({
+    startDate: rangeStart,
+    endDate: rangeEnd,
+    interval: 'month',
+  });
+  const { data: dailyStats, isLoading: dailyLoading } = useExpenseStats({
+    startDate: toDateKey(year, month - 1, 1),
+    endDate: rangeEnd,
+    interval: 'day',
+  });
+
+  // Stable color per category, following the category list order
+  const colorFor = (categoryId: number) => {
+    const index = categories?.findIndex((c) => c.id === categoryId) ?? -1;
+    return CHART_COLORS[(index >= 0 ? index : categoryId) % CHART_COLORS.length];
+  };
+  const nameFor = (categoryId: number) =>
+    categories?.find((c) => c.id === categoryId)?.name ?? 'Unknown';
+
+  const openExpenses = (filters: { categoryId?: number; tag?: string; startDate: string; endDate: string }) => {
+    const params = new URLSearchParams({ startDate: filters.startDate, endDate: filters.endDate });
+    if (filters.categoryId) params.set('categoryId', String(filters.categoryId));
+    if (filters.tag) params.set('tag', filters.tag);
+    navigate(`/expenses?${params}`);
+  };
+
+  const currency = yearStats?.currency ?? 'USD';
+  const largestTagTotal = Math.max(0, ...(yearStats?.byTag.map((t) => t.total) || []));
+
+  const slices =
+    yearStats?.byCategory.map((c) => ({
+      key: c.categoryId,
+      label: c.categoryName,
+      value: c.total,
+      color: colorFor(c.categoryId),
+    })) || [];
+
+  const bars: StackedBar[] = months.map((date) => {
+    const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    return {
+      key,
+      label: date.toLocaleDateString('en-US', { month: 'short' }),
+      segments:
+        yearStats?.byPeriodAndCategory
+          .filter((p) => p.period === key)
+          .map((p) => ({
+            key: p.categoryId,
+            label: nameFor(p.categoryId),
+            value: p.total,
+            color: colorFor(p.categoryId),
+          })) || [],
+    };
+  });
+
+  const dailyTotals = (monthIndex: number, days: number) =>
+    Array.from({ length: days }, (_, i) => {
+      const key = toDateKey(year, monthIndex, i + 1);
+      return dailyStats?.byPeriod.find((p) => p.period === key)?.total || 0;
+    });
+
+  const daysThisMonth = new Date(year, month + 1, 0).getDate();
+  const daysLastMonth = new Date(year, month, 0).getDate();
+  const lastMonthName = new Date(year, month - 1, 1).toLocaleDateString('en-US', { month: 'long' });
+  const thisMonthName = now.toLocaleDateString('en-US', { month: 'long' });
+
+  const series = [
+    {
+      label: lastMonthName,
+      color: '#9ca3af',
+      points: cumulative(dailyTotals(month - 1, daysLastMonth)),
+    },
+    {
+      label: thisMonthName,
+      color: CHART_COLORS[0],
+      // Stop at today rather than drawing a flat line into the future
+      points: cumulative(dailyTotals(month, daysThisMonth)).slice(0, now.getDate()),
+    },
+  ];
+  const xLabels = Array.from({ length: Math.max(daysThisMonth, daysLastMonth) }, (_, i) => String(i + 1));
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">Reports</h1>
+
+      {yearStats && <UnconvertedNotice count={yearStats.unconvertedCount} />}
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Spending by Category</h2>
+          <p className="text-xs text-gray-500 mb-4">Last 12 months. Click a category to see its expenses.</p>
+          {yearLoading ? (
+            <div className="text-center py-12 text-gray-500">Loading...</div>
+          ) : (
+            <DonutChart
+              slices={slices}
+              currency={currency}
+              onSelect={(categoryId) => openExpenses({ categoryId, startDate: rangeStart, endDate: rangeEnd })}
+            />
+          )}
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">
+            {thisMonthName} vs {lastMonthName}
+          </h2>
+          <p className="text-xs text-gray-500 mb-4">Cumulative spending by day of month.</p>
+          {dailyLoading ? (
+            <div className="text-center py-12 text-gray-500">Loading...</div>
+          ) : (
+            <LineChart series={series} xLabels={xLabels} currency={currency} />
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">Monthly Spending</h2>
+        <p className="text-xs text-gray-500 mb-4">Click a bar segment to see that category's expenses for the month.</p>
+        {yearLoading ? (
+          <div className="text-center py-12 text-gray-500">Loading...</div>
+        ) : (
+          <StackedBarChart
+            bars={bars}
+            currency={currency}
+            onSelect={(period, categoryId) => {
+              const [y, m] = period.split('-').map(Number);
+              openExpenses({ categoryId, ...monthBounds(y, m - 1) });
+            }}
+          />
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">Spending by Tag</h2>
+        <p className="text-xs text-gray-500 mb-4">
+          Last 12 months. An expense with several tags counts towards each. Click a tag to see its expenses.
+        </p>
+        {yearLoading ? (
+          <div className="text-center py-12 text-gray-500">Loading...</div>
+        ) : !yearStats || yearStats.byTag.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No tagged expenses in the last 12 months.</div>
+        ) : (
+          <ul className="space-y-3">
+            {yearStats.byTag.map((t) => (
+              <li key={t.tag}>
+                <button
+                  onClick={() => openExpenses({ tag: t.tag, startDate: rangeStart, endDate: rangeEnd })}
+                  className="w-full text-left group"
+                >
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium text-gray-900 group-hover:text-indigo-600">#{t.tag}</span>
+                    <span className="text-gray-500">
+                      {formatMoney(t.total, currency)} &middot; {t.count} {t.count === 1 ? 'expense' : 'expenses'}
+                    </span>
+                  </div>
+                  <div className="mt-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-indigo-500 rounded-full"
+                      style={{ width: `${largestTagTotal > 0 ? (t.total / largestTagTotal) * 100 : 0}%` }}
+                    />
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,390 @@
+import { useState } from 'react';
+import { Plus, Pencil, Trash2, ArrowUp, ArrowDown, Play, Wand2, AlertTriangle } from 'lucide-react';
+import {
+  useRules,
+  useCreateRule,
+  useUpdateRule,
+  useReorderRules,
+  useDeleteRule,
+  usePreviewRuleRun,
+  useApplyRuleRun,
+} from '../hooks/useRules';
+import { useCategories } from '../hooks/useCategories';
+import { RuleForm } from '../components/RuleForm';
+import { Modal } from '../components/Modal';
+import { formatMoney } from '../api/currency';
+import type { Category, Rule, RuleAction, RuleCondition, RuleData, RuleRunParams } from '../types';
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function describeCondition(condition: RuleCondition): string {
+  switch (condition.type) {
+    case 'contains':
+      return `contains "${condition.text}"${condition.matchCase ? ' (match case)' : ''}`;
+    case 'regex':
+      return `matches /${condition.pattern}/${condition.flags}`;
+    // Amounts are compared in each expense's own currency, so no symbol is shown
+    case 'amountRange':
+      if (condition.min === null) return `amount up to ${condition.max!.toFixed(2)}`;
+      if (condition.max === null) return `amount from ${condition.min.toFixed(2)}`;
+      return `amount ${condition.min.toFixed(2)} to ${condition.max.toFixed(2)}`;
+    case 'weekday':
+      return `on ${condition.days.map((day) => WEEKDAY_NAMES[day]).join(', ')}`;
+  }
+}
+
+function describeAction(action: RuleAction, categories: Category[]): string {
+  switch (action.type) {
+    case 'setCategory':
+      return `category ${categories.find((c) => c.id === action.categoryId)?.name ?? '(deleted)'}`;
+    case 'rewriteDescription':
+      return `rename to "${action.description}"`;
+    case 'addTag':
+      return `tag #${action.tag}`;
+    case 'skipImport':
+      return 'skip on import';
+  }
+}
+
+export function Rules() {
+  const { data: rules, isLoading } = useRules();
+  const { data: categories = [] } = useCategories();
+  const createRule = useCreateRule();
+  const updateRule = useUpdateRule();
+  const reorderRules = useReorderRules();
+  const deleteRule = useDeleteRule();
+  const previewRuleRun = usePreviewRuleRun();
+  const applyRuleRun = useApplyRuleRun();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<Rule | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<number | null>(null);
+  const [runParams, setRunParams] = useState<RuleRunParams | null>(null);
+  const [excludedIds, setExcludedIds] = useState<Set<number>>(new Set());
+
+  const mutationError = createRule.error || updateRule.error;
+  const preview = previewRuleRun.data;
+  const categoryName = (id: number) => categories.find((c) => c.id === id)?.name ?? '(deleted)';
+  const hasDeletedCategory = (rule: Rule) =>
+    rule.actions.some((a) => a.type === 'setCategory' && !categories.some((c) => c.id === a.categoryId));
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingRule(null);
+    createRule.reset();
+    updateRule.reset();
+  };
+
+  const handleSubmit = (data: RuleData) => {
+    if (editingRule) {
+      updateRule.mutate({ id: editingRule.id, data }, { onSuccess: closeModal });
+    } else {
+      createRule.mutate(data, { onSuccess: closeModal });
+    }
+  };
+
+  const move = (index: number, direction: -1 | 1) => {
+    if (!rules) return;
+    const ids = rules.map((r) => r.id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderRules.mutate(ids);
+  };
+
+  const confirmDelete = () => {
+    if (deleteConfirmId) {
+      deleteRule.mutate(deleteConfirmId, {
+        onSuccess: () => {
+          setDeleteConfirmId(null);
+        },
+      });
+    }
+  };
+
+  const openRun = (params: RuleRunParams) => {
+    setRunParams(params);
+    setExcludedIds(new Set());
+    applyRuleRun.reset();
+    previewRuleRun.mutate(params);
+  };
+
+  const closeRun = () => {
+    setRunParams(null);
+    previewRuleRun.reset();
+  };
+
+  const toggleChange = (expenseId: number) => {
+    const next = new Set(excludedIds);
+    if (next.has(expenseId)) {
+      next.delete(expenseId);
+    } else {
+      next.add(expenseId);
+    }
+    setExcludedIds(next);
+  };
+
+  // Apply only the listed changes the user kept; with none unticked and more than the preview
+  // could list, apply to every expense the rules change
+  const confirmRun = () => {
+    if (!runParams || !preview) return;
+    const everything = excludedIds.size === 0 && preview.total > preview.changes.length;
+    const expenseIds = preview.changes.map((c) => c.expenseId).filter((id) => !excludedIds.has(id));
+    applyRuleRun.mutate(everything ? runParams : { ...runParams, expenseIds }, { onSuccess: closeRun });
+  };
+
+  const selectedCount =
+    preview && excludedIds.size === 0 ? preview.total : (preview?.changes.length ?? 0) - excludedIds.size;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Rules</h1>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => openRun({})}
+            disabled={!rules || rules.length === 0}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Play className="w-4 h-4 mr-2" />
+            Run on Existing Expenses
+          </button>
+          <button
+            onClick={() => {
+              setEditingRule(null);
+              setIsModalOpen(true);
+            }}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Rule
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Rules run from top to bottom on imported rows and new expenses. When several match, the highest
+        rule decides the category and description.
+      </p>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">Loading...</div>
+      ) : !rules || rules.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <Wand2 className="mx-auto h-8 w-8 text-gray-300 mb-2" />
+          No rules yet. Add one to categorize, rename or skip expenses automatically.
+        </div>
+      ) : (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <ul className="divide-y divide-gray-200">
+            {rules.map((rule, index) => (
+              <li key={rule.id} className={`p-4 hover:bg-gray-50 ${rule.enabled ? '' : 'opacity-60'}`}>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {rule.name}
+                      {!rule.enabled && <span className="ml-2 text-xs text-gray-500">(disabled)</span>}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      When {rule.conditions.map(describeCondition).join(' and ')}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      Then {rule.actions.map((action) => describeAction(action, categories)).join(', ')}
+                    </p>
+                    {hasDeletedCategory(rule) && (
+                      <p className="mt-1 flex items-center text-xs text-amber-600">
+                        <AlertTriangle className="w-3 h-3 mr-1" />
+                        Its category was deleted, so that action does nothing
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <label className="flex items-center text-xs text-gray-600 mr-2">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(e) => updateRule.mutate({ id: rule.id, data: { enabled: e.target.checked } })}
+                        className="mr-1"
+                      />
+                      Enabled
+                    </label>
+                    <button
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0 || reorderRules.isPending}
+                      className="p-1 text-gray-400 hover:text-indigo-600 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => move(index, 1)}
+                      disabled={index === rules.length - 1 || reorderRules.isPending}
+                      className="p-1 text-gray-400 hover:text-indigo-600 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => openRun({ ruleIds: [rule.id] })}
+                      disabled={!rule.enabled}
+                      className="p-1 text-gray-400 hover:text-indigo-600 disabled:opacity-30"
+                      title="Run this rule on existing expenses"
+                    >
+                      <Play className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => {
+                        setEditingRule(rule);
+                        setIsModalOpen(true);
+                      }}
+                      className="p-1 text-gray-400 hover:text-indigo-600"
+                      title="Edit"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setDeleteConfirmId(rule.id)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Create/Edit Modal */}
+      <Modal isOpen={isModalOpen} onClose={closeModal} title={editingRule ? 'Edit Rule' : 'Add Rule'}>
+        <RuleForm
+          key={editingRule?.id ?? 'new'}
+          onSubmit={handleSubmit}
+          onCancel={closeModal}
+          initialData={editingRule || undefined}
+          isLoading={createRule.isPending || updateRule.isPending}
+        />
+        {mutationError && <p className="mt-2 text-sm text-red-600">{mutationError.message}</p>}
+      </Modal>
+
+      {/* Run Preview Modal */}
+      <Modal isOpen={runParams !== null} onClose={closeRun} title="Run Rules on Existing Expenses">
+        <div className="space-y-4">
+          {previewRuleRun.isPending ? (
+            <p className="text-sm text-gray-500">Checking your expenses...</p>
+          ) : previewRuleRun.error ? (
+            <p className="text-sm text-red-600">{previewRuleRun.error.message}</p>
+          ) : preview && preview.total === 0 ? (
+            <p className="text-sm text-gray-500">The rules would not change any of your expenses.</p>
+          ) : preview ? (
+            <>
+              <p className="text-sm text-gray-500">
+                {preview.total === 1 ? '1 expense' : `${preview.total} expenses`} would change.
+                {preview.total > preview.changes.length &&
+                  ` The first ${preview.changes.length} are listed; untick any to apply only the listed changes.`}
+              </p>
+              <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-md">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2" />
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Date</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Description</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Category</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-500">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {preview.changes.map((change) => (
+                      <tr key={change.expenseId}>
+                        <td className="px-3 py-2">
+                          <input
+                            type="checkbox"
+                            checked={!excludedIds.has(change.expenseId)}
+                            onChange={() => toggleChange(change.expenseId)}
+                            aria-label={`Apply to ${change.description}`}
+                          />
+                        </td>
+                        <td className="px-3 py-2 text-gray-500 whitespace-nowrap">{change.date}</td>
+                        <td className="px-3 py-2">
+                          {change.newDescription ? (
+                            <>
+                              <span className="line-through text-gray-400">{change.description}</span>{' '}
+                              <span className="text-gray-900">{change.newDescription}</span>
+                            </>
+                          ) : (
+                            <span className="text-gray-900">{change.description}</span>
+                          )}
+                          {change.newTags.length > 0 && (
+                            <div className="text-xs text-indigo-700">
+                              {change.newTags.map((tag) => `+#${tag}`).join(' ')}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-3 py-2">
+                          {change.newCategoryId ? (
+                            <>
+                              <span className="line-through text-gray-400">{categoryName(change.categoryId)}</span>{' '}
+                              <span className="text-gray-900">{categoryName(change.newCategoryId)}</span>
+                            </>
+                          ) : (
+                            <span className="text-gray-900">{categoryName(change.categoryId)}</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-900">{formatMoney(change.amount, change.currency)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          ) : null}
+          {applyRuleRun.error && <p className="text-sm text-red-600">{applyRuleRun.error.message}</p>}
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={closeRun}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={confirmRun}
+              disabled={!preview || selectedCount <= 0 || applyRuleRun.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {applyRuleRun.isPending
+                ? 'Applying...'
+                : `Apply to ${selectedCount === 1 ? '1 expense' : `${Math.max(selectedCount, 0)} expenses`}`}
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Delete Confirmation Modal */}
+      <Modal isOpen={deleteConfirmId !== null} onClose={() => setDeleteConfirmId(null)} title="Delete Rule">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">
+            The rule will no longer apply to imports or new expenses. Expenses it already changed are kept.
+          </p>
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setDeleteConfirmId(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={confirmDelete}
+              disabled={deleteRule.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 disabled:opacity-50"
+            >
+              {deleteRule.isPending ? 'Deleting...' : 'Delete'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
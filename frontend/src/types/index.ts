@@ -5,6 +5,20 @@ export interface User {
 
 export interface Category {
   id: number;
+  userId: number | null; // null for global default categories
+  name: string;
+  icon: string;
+  sortOrder: number;
+}
+
+// A category learned from the user's own expenses; confidence runs from 0 to 1
+export interface CategorySuggestion {
+  categoryId: number;
+  category: string;
+  confidence: number;
+}
+
+export interface CategoryData {
   name: string;
   icon: string;
 }
@@ -13,26 +27,53 @@ export interface Expense {
   id: number;
   userId: number;
   categoryId: number;
-  amount: number;
+  amount: number; // in the expense's own currency
+  currency: string; // ISO 4217 code
   description: string;
   date: string;
+  recurringExpenseId: number | null;
+  tags: string[];
   createdAt: string;
   categoryName: string;
   categoryIcon: string;
+  attachmentCount: number;
+}
+
+// A receipt image or PDF kept with an expense
+export interface Attachment {
+  id: number;
+  userId: number;
+  expenseId: number;
+  fileName: string;
+  mimeType: string;
+  size: number; // bytes
+  sha256: string;
+  createdAt: string;
 }
 
 export interface CreateExpenseData {
   categoryId: number;
   amount: number;
+  currency?: string; // defaults to the base currency
   description: string;
   date: string;
+  tags?: string[];
 }
 
 export interface UpdateExpenseData {
   categoryId?: number;
   amount?: number;
+  currency?: string;
   description?: string;
   date?: string;
+  tags?: string[]; // replaces the expense's tags
+}
+
+// A label shared across categories, e.g. a trip or a client; names come back lowercase
+export interface Tag {
+  id: number;
+  name: string;
+  expenseCount: number;
 }
 
 export interface AuthResponse {
@@ -40,14 +81,196 @@ export interface AuthResponse {
   token: string;
 }
 
+// Spending in a month, converted to the base currency
 export interface MonthlyTotal {
   total: number;
+  currency: string;
+  unconvertedCount: number; // expenses in a currency without exchange rates, left out of the total
   year: number;
   month: number;
 }
 
+export type StatsInterval = 'day' | 'week' | 'month';
+
+export interface SpendingAggregate {
+  total: number;
+  count: number;
+  average: number;
+}
+
+export interface CategoryStats extends SpendingAggregate {
+  categoryId: number;
+  categoryName: string;
+  categoryIcon: string;
+}
+
+// An expense with several tags counts towards each of them
+export interface TagStats extends SpendingAggregate {
+  tag: string;
+}
+
+export interface PeriodStats extends SpendingAggregate {
+  period: string; // YYYY-MM-DD for day and week (week start), YYYY-MM for month
+}
+
+export interface PeriodCategoryStats extends SpendingAggregate {
+  period: string;
+  categoryId: number;
+}
+
+// Amounts are converted to the base currency; expenses in a currency without exchange
+// rates are left out and counted in unconvertedCount
+export interface ExpenseStats {
+  startDate: string | null;
+  endDate: string | null;
+  interval: StatsInterval;
+  currency: string;
+  unconvertedCount: number;
+  totals: SpendingAggregate;
+  byCategory: CategoryStats[];
+  byTag: TagStats[];
+  byPeriod: PeriodStats[];
+  byPeriodAndCategory: PeriodCategoryStats[];
+}
+
+// Recurring expense types
+export type RecurringFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringExpense {
+  id: number;
+  userId: number;
+  categoryId: number;
+  amount: number;
+  currency: string; // ISO 4217 code
+  description: string;
+  frequency: RecurringFrequency;
+  interval: number;
+  startDate: string;
+  endDate: string | null;
+  nextDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+  categoryName: string;
+  categoryIcon: string;
+}
+
+export interface CreateRecurringData {
+  categoryId: number;
+  amount: number;
+  currency?: string; // defaults to the base currency
+  description: string;
+  frequency: RecurringFrequency;
+  interval: number;
+  startDate: string;
+  endDate?: string | null;
+}
+
+export interface UpdateRecurringData extends Partial<CreateRecurringData> {
+  effectiveFrom?: string;
+}
+
+// Budget types
+export interface Budget {
+  id: number;
+  userId: number;
+  categoryId: number | null; // null = overall budget
+  month: string | null; // YYYY-MM, null = every month
+  amount: number;
+  createdAt: string;
+  updatedAt: string;
+  categoryName: string | null;
+  categoryIcon: string | null;
+}
+
+export interface BudgetData {
+  categoryId: number | null;
+  month: string | null;
+  amount: number;
+}
+
+export type BudgetStatus = 'ok' | 'projected-over' | 'over';
+
+export interface BudgetProgress {
+  budgetId: number;
+  categoryId: number | null;
+  categoryName: string | null;
+  categoryIcon: string | null;
+  limit: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  projected: number;
+  status: BudgetStatus;
+}
+
+export interface BudgetSummary {
+  month: string;
+  overall: BudgetProgress | null;
+  categories: BudgetProgress[];
+}
+
+// Rule types
+export type RuleCondition =
+  | { type: 'contains'; text: string; matchCase: boolean }
+  | { type: 'regex'; pattern: string; flags: string }
+  | { type: 'amountRange'; min: number | null; max: number | null } // inclusive
+  | { type: 'weekday'; days: number[] }; // 0 = Sunday
+
+export type RuleAction =
+  | { type: 'setCategory'; categoryId: number }
+  | { type: 'rewriteDescription'; description: string }
+  | { type: 'addTag'; tag: string }
+  | { type: 'skipImport' };
+
+export interface Rule {
+  id: number;
+  userId: number;
+  name: string;
+  position: number;
+  enabled: boolean;
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RuleData {
+  name: string;
+  enabled: boolean;
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+}
+
+// Leave both lists out to run every enabled rule over every expense
+export interface RuleRunParams {
+  ruleIds?: number[];
+  expenseIds?: number[];
+}
+
+export interface RuleRunChange {
+  expenseId: number;
+  date: string;
+  amount: number;
+  currency: string;
+  description: string;
+  newDescription: string | null;
+  categoryId: number;
+  newCategoryId: number | null;
+  newTags: string[]; // tags the expense does not have yet
+  ruleIds: number[];
+}
+
+export interface RuleRunPreview {
+  total: number;
+  changes: RuleRunChange[]; // the first changes only when there are many
+}
+
+export interface RuleRunResult {
+  updatedCount: number;
+}
+
 // Import feature types
-export type ImportSessionStatus = 'upload' | 'mapping' | 'preview' | 'completed' | 'cancelled';
+export type ImportSessionStatus = 'upload' | 'mapping' | 'preview' | 'importing' | 'completed' | 'cancelled';
 
 export interface ImportSession {
   id: number;
@@ -57,7 +280,6 @@ export interface ImportSession {
   fileSize: number | null;
   rawCsvData: string | null;
   columnMapping: string | null;
-  parsedRows: string | null;
   validRowCount: number;
   invalidRowCount: number;
   skippedRowCount: number;
@@ -74,14 +296,23 @@ export interface ImportHistory {
   totalRows: number;
   importedRows: number;
   skippedRows: number;
+  revertedAt: string | null;
   createdAt: string;
 }
 
+export interface ImportHistoryWithCounts extends ImportHistory {
+  remainingExpenses: number;
+  editedExpenses: number;
+}
+
 export interface ColumnMapping {
   date: string;
-  amount: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
   description: string;
   category?: string;
+  currency?: string; // ISO 4217 codes; rows with an empty cell use the fixed currency
 }
 
 export interface RowValidationError {
@@ -89,16 +320,78 @@ export interface RowValidationError {
   message: string;
 }
 
+export interface DuplicateMatch {
+  source: 'expense' | 'file';
+  expenseId: number | null;
+  rowIndex: number | null;
+  date: string;
+}
+
+export type SkipReason = 'duplicate' | 'credit' | 'transfer' | 'zero' | 'manual' | 'rule';
+
 export interface ParsedRow {
   rowIndex: number;
   originalData: Record<string, string>;
   date: string | null;
-  amount: number | null;
+  amount: number | null; // as spending: negative for a refund or other credit
+  currency: string | null; // null when the file's value is not a currency code
   description: string | null;
   category: string | null;
   categoryId: number | null;
+  categoryConfidence: number | null; // set when the category was suggested from the user's history
+  tags: string[]; // added by rules
   errors: RowValidationError[];
   skipped: boolean;
+  skipReason: SkipReason | null;
+  duplicate: DuplicateMatch | null;
+  expenseId: number | null;
+}
+
+export type DateFormat =
+  | 'auto'
+  | 'YYYY-MM-DD'
+  | 'MM/DD/YYYY'
+  | 'DD/MM/YYYY'
+  | 'MM/DD/YY'
+  | 'DD/MM/YY'
+  | 'DD-MM-YYYY'
+  | 'MM-DD-YYYY'
+  | 'DD.MM.YYYY'
+  | 'YYYY/MM/DD';
+
+export type NumberFormat = 'auto' | '1,234.56' | '1.234,56';
+
+export interface DetectedColumnFormat {
+  dateFormat: DateFormat | null;
+  numberFormat: NumberFormat | null;
+}
+
+export type AmountSign = 'positive' | 'negative';
+
+export type AmountMode = 'signed' | 'split';
+
+export interface MappingOptions {
+  delimiter: string;
+  dateFormat: DateFormat;
+  numberFormat: NumberFormat;
+  amountMode: AmountMode;
+  amountSign: AmountSign;
+  currency: string | null; // for rows without a currency column value; null for the base currency
+}
+
+export interface ImportTemplate extends MappingOptions {
+  id: number;
+  name: string;
+  headers: string[];
+  columnMapping: ColumnMapping;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ImportTemplateData extends MappingOptions {
+  name: string;
+  headers: string[];
+  columnMapping: ColumnMapping;
 }
 
 export interface CsvStructure {
@@ -107,6 +400,8 @@ export interface CsvStructure {
   rowCount: number;
   sampleRows: string[][];
   suggestedMapping: Partial<ColumnMapping>;
+  matchedTemplate: ImportTemplate | null;
+  detectedFormats: Record<string, DetectedColumnFormat>;
 }
 
 export interface UploadResult {
@@ -114,11 +409,42 @@ export interface UploadResult {
   structure: CsvStructure;
 }
 
-export interface MappingResult {
-  session: ImportSession;
-  parsedRows: ParsedRow[];
+export interface SpreadsheetUploadResult extends UploadResult {
+  sheets: string[];
+  sheet: string;
+  headerRow: number;
+}
+
+export interface RowCounts {
   validCount: number;
   invalidCount: number;
+  skippedCount: number;
+}
+
+export interface MappingResult extends RowCounts {
+  session: ImportSession;
+}
+
+// 'duplicate' matches every row flagged as a possible duplicate, whether skipped or included
+export type RowFilter = 'all' | 'valid' | 'invalid' | 'skipped' | 'duplicate';
+
+export interface RowPage extends RowCounts {
+  rows: ParsedRow[];
+  total: number; // rows matching the filter
+  duplicateCount: number;
+}
+
+// Rows a bulk action applies to: ones picked in the preview, or every row matching a filter
+export type RowSelection = { rowIndexes: number[] } | { filter: RowFilter };
+
+export type BulkRowAction =
+  | { type: 'setCategory'; category: string }
+  | { type: 'skip'; skip: boolean }
+  | { type: 'replaceDescription'; find: string; replace: string; matchCase: boolean }
+  | { type: 'shiftDates'; days: number };
+
+export interface BulkUpdateResult extends RowCounts {
+  updatedCount: number;
 }
 
 export interface ImportResult {
@@ -126,3 +452,112 @@ export interface ImportResult {
   skippedCount: number;
   history: ImportHistory;
 }
+
+// Mapping and confirmation run as background jobs polled for progress
+export type ImportJobType = 'mapping' | 'confirm';
+
+export type ImportJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface ImportJob {
+  id: number;
+  userId: number;
+  sessionId: number;
+  type: ImportJobType;
+  status: ImportJobStatus;
+  processedRows: number;
+  totalRows: number;
+  result: RowCounts | ImportResult | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ImportRowOutcome = 'imported' | 'skipped' | 'invalid';
+
+export interface ImportHistoryRow {
+  rowIndex: number;
+  outcome: ImportRowOutcome;
+  skipReason: SkipReason | null;
+  errors: RowValidationError[];
+  originalData: Record<string, string>;
+  date: string | null;
+  amount: number | null;
+  currency: string | null;
+  description: string | null;
+  category: string | null;
+  expenseId: number | null;
+  expenseExists: boolean;
+}
+
+export interface ImportHistoryDetail {
+  history: ImportHistory;
+  columns: string[];
+  rows: ImportHistoryRow[];
+}
+
+export interface RevertResult {
+  deletedCount: number;
+  history: ImportHistory;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupCounts {
+  categories: number;
+  expenses: number;
+  recurringExpenses: number;
+  budgets: number;
+  importHistory: number;
+  importTemplates: number;
+  rules: number;
+  exchangeRates: number;
+}
+
+export interface RestoreResult {
+  mode: RestoreMode;
+  imported: BackupCounts;
+  skipped: BackupCounts;
+}
+
+// Currency types
+
+// Value of one unit of `currency` in `baseCurrency` on a date
+export interface ExchangeRate {
+  id: number;
+  userId: number;
+  baseCurrency: string;
+  currency: string;
+  date: string; // YYYY-MM-DD
+  rate: number;
+  createdAt: string;
+}
+
+export interface ExchangeRateData {
+  currency: string;
+  date: string;
+  rate: number;
+}
+
+// Rates stored for one foreign currency, and how many expenses use it
+export interface RateCurrencySummary {
+  currency: string;
+  rateCount: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  latestRate: number | null;
+  expenseCount: number;
+}
+
+export interface CurrencySettings {
+  baseCurrency: string;
+}
+
+export interface RateImportError {
+  line: number;
+  message: string;
+}
+
+export interface RateImportResult {
+  importedCount: number;
+  errors: RateImportError[];
+}